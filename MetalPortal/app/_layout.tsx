@@ -1,23 +1,80 @@
+import { ReactNode } from 'react';
+import { QueryClientProvider } from '@tanstack/react-query';
+import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
-import { View } from 'react-native';
+import { Text, View } from 'react-native';
+import { queryClient } from '../src/services/queryClient';
+import {
+  configureOfflineMode,
+  persistOptions,
+  resumeOfflineMutations,
+} from '../src/services/queryPersistence';
+import { useOutboxRunner, useRealtimeConnection } from '../src/hooks/useChat';
+import { usePushRegistration } from '../src/hooks/useNotifications';
+import { useIsOnline } from '../src/hooks/useOnlineStatus';
+import { useTokenRefresh } from '../src/hooks/useTokenRefresh';
+import { useUploadQueueRunner } from '../src/hooks/useUploadQueue';
+import { FEATURE_FLAGS } from '../src/utils/constants';
+
+if (FEATURE_FLAGS.OFFLINE_MODE) {
+  configureOfflineMode();
+}
+
+function QueryProvider({ children }: { children: ReactNode }) {
+  if (!FEATURE_FLAGS.OFFLINE_MODE) {
+    return <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>;
+  }
+
+  return (
+    <PersistQueryClientProvider
+      client={queryClient}
+      persistOptions={persistOptions}
+      onSuccess={resumeOfflineMutations}
+    >
+      {children}
+    </PersistQueryClientProvider>
+  );
+}
+
+function OfflineBanner() {
+  const isOnline = useIsOnline();
+  if (isOnline) return null;
 
-export default function RootLayout() {
   return (
-    <View style={{ flex: 1, backgroundColor: '#0A0A0A' }}>
-      <StatusBar style="light" />
-      <Stack
-        screenOptions={{
-          headerStyle: {
-            backgroundColor: '#0A0A0A',
-          },
-          headerTintColor: '#DC143C',
-          headerTitleStyle: {
-            fontWeight: 'bold',
-          },
-          headerShadowVisible: false,
-        }}
-      />
+    <View style={{ backgroundColor: '#2A2A2A', paddingVertical: 4 }}>
+      <Text style={{ color: '#C0C0C0', fontSize: 12, textAlign: 'center' }}>
+        Offline. Changes will sync when you reconnect.
+      </Text>
     </View>
   );
-}
\ No newline at end of file
+}
+
+export default function RootLayout() {
+  useTokenRefresh();
+  useUploadQueueRunner();
+  useRealtimeConnection();
+  useOutboxRunner();
+  usePushRegistration();
+
+  return (
+    <QueryProvider>
+      <View style={{ flex: 1, backgroundColor: '#0A0A0A' }}>
+        <StatusBar style="light" />
+        <OfflineBanner />
+        <Stack
+          screenOptions={{
+            headerStyle: {
+              backgroundColor: '#0A0A0A',
+            },
+            headerTintColor: '#DC143C',
+            headerTitleStyle: {
+              fontWeight: 'bold',
+            },
+            headerShadowVisible: false,
+          }}
+        />
+      </View>
+    </QueryProvider>
+  );
+}
@@ -1,4 +1,5 @@
 const js = require('@eslint/js');
+const globals = require('globals');
 const typescriptEslint = require('@typescript-eslint/eslint-plugin');
 const typescriptParser = require('@typescript-eslint/parser');
 
@@ -35,7 +36,32 @@ module.exports = [
       'no-unused-vars': 'off', // Use TypeScript version instead
     },
   },
+  // The server and tooling run on Node
   {
-    ignores: ['node_modules/', '.expo/', 'dist/', 'build/'],
+    files: ['server/**/*.ts', 'prisma/**/*.ts', '*.{js,ts}'],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
+  // The app runs on React Native, which provides the browser timer, fetch and
+  // XMLHttpRequest APIs
+  {
+    files: ['app/**/*.{ts,tsx}', 'src/**/*.{ts,tsx}'],
+    languageOptions: {
+      globals: {
+        ...globals.browser,
+        __DEV__: 'readonly',
+        RequestInit: 'readonly',
+      },
+    },
+  },
+  {
+    files: ['**/__tests__/**/*.{ts,tsx}'],
+    languageOptions: {
+      globals: globals.jest,
+    },
+  },
+  {
+    ignores: ['node_modules/', '.expo/', 'dist/', 'build/', 'generated/'],
   },
 ];
\ No newline at end of file
@@ -0,0 +1,20 @@
+// Jest runs the TypeScript tests under Node; ts-jest only transpiles, since
+// `npm run type-check` covers the types
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src', '<rootDir>/server'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  transform: {
+    '^.+\\.tsx?$': [
+      'ts-jest',
+      {
+        tsconfig: {
+          module: 'commonjs',
+          esModuleInterop: true,
+          jsx: 'react-jsx',
+          isolatedModules: true,
+        },
+      },
+    ],
+  },
+};
@@ -0,0 +1,691 @@
+// In-memory stand-in for the Prisma client in service tests
+//
+// Implements the part of the client API the services use: filters with the
+// usual operators and relation filters, ordering and cursor paging, includes
+// and selects of the relations listed below, counters, unique constraints
+// (P2002) and missing rows (P2025). Transactions run against the same tables
+// and are not isolated. Tests replace the database module with it:
+//
+//   jest.mock('../../config/database', () =>
+//     require('../../__tests__/fakeDatabase').fakeDatabaseModule()
+//   );
+
+import {
+  SubscriptionStatus,
+  SubscriptionTier,
+  UserRole,
+} from '../../src/types/auth';
+import { AccessTokenPayload } from '../utils/tokens';
+
+type Row = Record<string, unknown>;
+type Where = Record<string, unknown>;
+type OrderBy = Record<string, 'asc' | 'desc'>;
+
+interface QueryArgs {
+  where?: Where;
+  orderBy?: OrderBy | OrderBy[];
+  cursor?: Where;
+  skip?: number;
+  take?: number;
+  include?: Record<string, unknown>;
+  select?: Record<string, unknown>;
+}
+
+interface Relation {
+  table: string;
+  // 'one': this row's `key` holds the related row's id;
+  // 'many': related rows hold this row's id in `key`;
+  // 'owned': like 'many', for at most one related row
+  kind: 'one' | 'many' | 'owned';
+  key: string;
+}
+
+const one = (table: string, key: string): Relation => ({
+  table,
+  kind: 'one',
+  key,
+});
+const many = (table: string, key: string): Relation => ({
+  table,
+  kind: 'many',
+  key,
+});
+const owned = (table: string, key: string): Relation => ({
+  table,
+  kind: 'owned',
+  key,
+});
+
+const RELATIONS: Record<string, Record<string, Relation>> = {
+  user: { subscriptions: many('subscription', 'userId') },
+  subscription: {
+    user: one('user', 'userId'),
+    promoRedemption: owned('promoRedemption', 'subscriptionId'),
+  },
+  promoRedemption: { promoCode: one('promoCode', 'promoCodeId') },
+  post: {
+    author: one('user', 'authorId'),
+    comments: many('comment', 'postId'),
+    reactions: many('reaction', 'postId'),
+  },
+  comment: { post: one('post', 'postId'), author: one('user', 'authorId') },
+  event: { rsvps: many('eventRSVP', 'eventId') },
+  eventRSVP: { event: one('event', 'eventId'), user: one('user', 'userId') },
+  chatRoom: { messages: many('chatMessage', 'roomId') },
+  chatMessage: { user: one('user', 'userId'), room: one('chatRoom', 'roomId') },
+  message: {
+    sender: one('user', 'senderId'),
+    receiver: one('user', 'receiverId'),
+  },
+  forumCategory: { posts: many('forumPost', 'categoryId') },
+  forumPost: {
+    author: one('user', 'authorId'),
+    category: one('forumCategory', 'categoryId'),
+    comments: many('forumComment', 'postId'),
+  },
+  forumComment: {
+    author: one('user', 'authorId'),
+    post: one('forumPost', 'postId'),
+    parent: one('forumComment', 'parentId'),
+    replies: many('forumComment', 'parentId'),
+  },
+  notificationDigestItem: { user: one('user', 'userId') },
+  report: {
+    reporter: one('user', 'reporterId'),
+    targetUser: one('user', 'targetUserId'),
+    assignee: one('user', 'assigneeId'),
+  },
+  userSanction: {
+    user: one('user', 'userId'),
+    issuedBy: one('user', 'issuedById'),
+    liftedBy: one('user', 'liftedById'),
+    appeal: owned('sanctionAppeal', 'sanctionId'),
+  },
+  sanctionAppeal: {
+    user: one('user', 'userId'),
+    reviewedBy: one('user', 'reviewedById'),
+    sanction: one('userSanction', 'sanctionId'),
+  },
+};
+
+// Columns Prisma would fill in from the schema's defaults
+const DEFAULTS: Record<string, Row> = {
+  user: {
+    role: 'FAN',
+    subscriptionTier: 'FREE',
+    subscriptionStatus: 'ACTIVE',
+    displayName: null,
+    avatar: null,
+    isVerified: false,
+    allowMentions: true,
+    notificationPreferences: null,
+    pushToken: null,
+  },
+  subscription: {
+    stripeCustomerId: null,
+    stripeSubscriptionId: null,
+    cancelAtPeriodEnd: false,
+    trialEndsAt: null,
+    paymentFailedAt: null,
+    paymentAttempts: 0,
+    nextPaymentAttemptAt: null,
+    gracePeriodEndsAt: null,
+    graceReminderSentAt: null,
+  },
+  promoCode: {
+    percentOff: null,
+    amountOff: null,
+    currency: null,
+    durationInPeriods: 1,
+    trialDays: null,
+    tiers: [],
+    intervals: [],
+    maxRedemptions: null,
+    redemptionCount: 0,
+    startsAt: null,
+    expiresAt: null,
+    isActive: true,
+  },
+  promoRedemption: { subscriptionId: null, discountAmount: 0 },
+  notification: { isRead: false, metadata: null },
+  notificationDigestItem: { metadata: null },
+  post: { notifiedAt: null },
+  comment: { parentId: null, likeCount: 0, deletedAt: null, isHeld: false },
+  chatRoom: {
+    description: null,
+    isPrivate: false,
+    accessLevel: 'PUBLIC',
+    maxUsers: null,
+    isActive: true,
+  },
+  chatMessage: {
+    type: 'TEXT',
+    mediaUrl: null,
+    clientId: null,
+    isDeleted: false,
+    isHeld: false,
+  },
+  message: {
+    type: 'TEXT',
+    mediaUrl: null,
+    clientId: null,
+    isRead: false,
+    isDeleted: false,
+    isHeld: false,
+  },
+  forumCategory: {
+    description: null,
+    accessLevel: 'PUBLIC',
+    sortOrder: 0,
+    isVisible: true,
+    postCount: 0,
+  },
+  forumPost: {
+    viewCount: 0,
+    likeCount: 0,
+    replyCount: 0,
+    isPinned: false,
+    isLocked: false,
+    isHeld: false,
+  },
+  forumComment: {
+    parentId: null,
+    depth: 0,
+    likeCount: 0,
+    replyCount: 0,
+    isHeld: false,
+    deletedAt: null,
+  },
+  eventRSVP: { reminderSentAt: null },
+  report: {
+    reporterId: null,
+    description: null,
+    targetUserId: null,
+    status: 'PENDING',
+    assigneeId: null,
+    assignedAt: null,
+    outcome: null,
+    resolutionNote: null,
+    resolvedById: null,
+    resolvedAt: null,
+  },
+  userSanction: {
+    reason: null,
+    scope: 'GLOBAL',
+    scopeId: null,
+    reportId: null,
+    expiresAt: null,
+    liftedAt: null,
+    liftedById: null,
+    liftReason: null,
+  },
+  uploadSession: { status: 'pending', mediaUrl: null },
+  sanctionAppeal: {
+    status: 'PENDING',
+    reviewedById: null,
+    reviewNote: null,
+    reviewedAt: null,
+  },
+};
+
+const UNIQUES: Record<string, string[][]> = {
+  user: [['username'], ['email']],
+  subscription: [['stripeSubscriptionId']],
+  promoCode: [['code']],
+  promoRedemption: [['promoCodeId', 'userId'], ['subscriptionId']],
+  paymentWebhookEvent: [['id']],
+};
+
+const OPERATORS = [
+  'equals',
+  'in',
+  'notIn',
+  'not',
+  'lt',
+  'lte',
+  'gt',
+  'gte',
+  'has',
+  'hasSome',
+  'startsWith',
+];
+
+// Marks a column compared with another column of the same row
+const FIELD_REF = Symbol('field');
+
+class PrismaError extends Error {
+  constructor(
+    message: string,
+    readonly code: string
+  ) {
+    super(message);
+  }
+}
+
+const isObject = (value: unknown): value is Row =>
+  value !== null &&
+  typeof value === 'object' &&
+  !(value instanceof Date) &&
+  !Array.isArray(value);
+
+// Not structuredClone: its Dates come from outside the test's realm and fail
+// instanceof checks
+const copy = <T>(value: T): T => {
+  if (value instanceof Date) return new Date(value.getTime()) as T;
+  if (Array.isArray(value)) return value.map(copy) as T;
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([field, item]) => [field, copy(item)])
+    ) as T;
+  }
+  return value;
+};
+
+const same = (a: unknown, b: unknown) =>
+  a instanceof Date && b instanceof Date ? +a === +b : a === b;
+
+const compare = (a: unknown, b: unknown) =>
+  (a as number) < (b as number) ? -1 : (a as number) > (b as number) ? 1 : 0;
+
+export class FakeTable {
+  rows: Row[] = [];
+  private sequence = 0;
+
+  // Column references, as in `{ lt: prisma.promoCode.fields.maxRedemptions }`
+  readonly fields = new Proxy(
+    {},
+    { get: (_, field) => ({ [FIELD_REF]: field }) }
+  );
+
+  constructor(
+    readonly name: string,
+    private readonly db: FakeDatabase
+  ) {}
+
+  private related(row: Row, field: string) {
+    const relation = RELATIONS[this.name]?.[field];
+    if (!relation) return undefined;
+    const table = this.db.table(relation.table);
+    if (relation.kind === 'many') {
+      return table.rows.filter(other => other[relation.key] === row.id);
+    }
+    if (relation.kind === 'owned') {
+      return table.rows.find(other => other[relation.key] === row.id) ?? null;
+    }
+    return table.rows.find(other => other.id === row[relation.key]) ?? null;
+  }
+
+  private matchesValue(row: Row, field: string, condition: unknown): boolean {
+    const value = row[field];
+    const relation = RELATIONS[this.name]?.[field];
+    if (relation && isObject(condition)) {
+      const table = this.db.table(relation.table);
+      const related = this.related(row, field);
+      if (Array.isArray(related)) {
+        const { some, none, every } = condition as Record<string, Where>;
+        if (some) return related.some(other => table.matches(other, some));
+        if (none) return !related.some(other => table.matches(other, none));
+        if (every) return related.every(other => table.matches(other, every));
+        return false;
+      }
+      if ('is' in condition) {
+        return condition.is === null
+          ? related === null
+          : table.matches(related as Row, condition.is as Where);
+      }
+      if ('isNot' in condition) {
+        return condition.isNot === null
+          ? related !== null
+          : !table.matches(related as Row, condition.isNot as Where);
+      }
+      return related !== null && table.matches(related as Row, condition);
+    }
+
+    if (!isObject(condition)) {
+      return condition === null ? value == null : same(value, condition);
+    }
+    const operand = (key: string) => {
+      const target = condition[key] as Row;
+      return isObject(target) && FIELD_REF in target
+        ? row[target[FIELD_REF] as string]
+        : target;
+    };
+    return Object.keys(condition).every(key => {
+      const target = operand(key);
+      switch (key) {
+        case 'equals':
+          return target === null ? value == null : same(value, target);
+        case 'in':
+          return (target as unknown[]).some(item => same(value, item));
+        case 'notIn':
+          return !(target as unknown[]).some(item => same(value, item));
+        case 'not':
+          if (target === null) return value != null;
+          return isObject(target)
+            ? !this.matchesValue(row, field, target)
+            : !same(value, target);
+        case 'lt':
+          return value != null && target != null && compare(value, target) < 0;
+        case 'lte':
+          return value != null && target != null && compare(value, target) <= 0;
+        case 'gt':
+          return value != null && target != null && compare(value, target) > 0;
+        case 'gte':
+          return value != null && target != null && compare(value, target) >= 0;
+        case 'has':
+          return ((value as unknown[]) ?? []).includes(target);
+        case 'hasSome':
+          return (target as unknown[]).some(item =>
+            ((value as unknown[]) ?? []).includes(item)
+          );
+        case 'startsWith':
+          return String(value ?? '').startsWith(String(target));
+        default:
+          // Options such as `mode`
+          return true;
+      }
+    });
+  }
+
+  matches(row: Row, where: Where = {}): boolean {
+    return Object.entries(where).every(([field, condition]) => {
+      if (condition === undefined) return true;
+      if (field === 'AND') {
+        return ([] as Where[])
+          .concat(condition as Where)
+          .every(part => this.matches(row, part));
+      }
+      if (field === 'OR') {
+        return (condition as Where[]).some(part => this.matches(row, part));
+      }
+      if (field === 'NOT') {
+        return !([] as Where[])
+          .concat(condition as Where)
+          .some(part => this.matches(row, part));
+      }
+      // Compound unique keys, as in `{ promoCodeId_userId: {...} }`
+      if (
+        field.includes('_') &&
+        !(field in row) &&
+        isObject(condition) &&
+        !Object.keys(condition).some(key => OPERATORS.includes(key))
+      ) {
+        return this.matches(row, condition);
+      }
+      return this.matchesValue(row, field, condition);
+    });
+  }
+
+  // The row as the client returns it, with the requested relations
+  private shape(row: Row, { include, select }: QueryArgs = {}): Row {
+    const shaped: Row = copy(row);
+    const relations = { ...include, ...select };
+    Object.entries(relations).forEach(([field, spec]) => {
+      if (!spec) return;
+      if (field === '_count') {
+        const counted = (spec as { select: Record<string, unknown> }).select;
+        shaped._count = Object.fromEntries(
+          Object.entries(counted).map(([name, filter]) => {
+            const table = this.db.table(RELATIONS[this.name][name].table);
+            const { where } = filter === true ? {} : (filter as QueryArgs);
+            return [
+              name,
+              (this.related(row, name) as Row[]).filter(other =>
+                table.matches(other, where)
+              ).length,
+            ];
+          })
+        );
+        return;
+      }
+      const related = this.related(row, field);
+      if (related === undefined) return;
+      const table = this.db.table(RELATIONS[this.name][field].table);
+      const args = spec === true ? {} : (spec as QueryArgs);
+      shaped[field] = Array.isArray(related)
+        ? table.page(related, args).map(other => table.shape(other, args))
+        : related && table.shape(related, args);
+    });
+    if (!select) return shaped;
+    return Object.fromEntries(
+      Object.entries(shaped).filter(([field]) => select[field])
+    );
+  }
+
+  private sort(rows: Row[], orderBy?: OrderBy | OrderBy[]) {
+    const order = ([] as OrderBy[]).concat(orderBy ?? []);
+    return [...rows].sort((a, b) => {
+      for (const entry of order) {
+        const [[field, direction]] = Object.entries(entry);
+        const result = compare(a[field], b[field]);
+        if (result) return direction === 'desc' ? -result : result;
+      }
+      return 0;
+    });
+  }
+
+  private page(candidates: Row[], args: QueryArgs) {
+    let rows = this.sort(
+      candidates.filter(row => this.matches(row, args.where)),
+      args.orderBy
+    );
+    if (args.cursor) {
+      rows = rows.slice(rows.findIndex(row => this.matches(row, args.cursor)));
+    }
+    if (args.skip) rows = rows.slice(args.skip);
+    if (args.take !== undefined) rows = rows.slice(0, args.take);
+    return rows;
+  }
+
+  private find(args: QueryArgs = {}) {
+    return this.page(this.rows, args);
+  }
+
+  private findRow(where: Where) {
+    const row = this.rows.find(candidate => this.matches(candidate, where));
+    if (!row) {
+      throw new PrismaError(`No ${this.name} found`, 'P2025');
+    }
+    return row;
+  }
+
+  private assertUnique(row: Row) {
+    (UNIQUES[this.name] ?? []).forEach(fields => {
+      const taken = this.rows.some(
+        other =>
+          other !== row &&
+          fields.every(
+            field => row[field] != null && same(other[field], row[field])
+          )
+      );
+      if (taken) {
+        throw new PrismaError(
+          `Unique constraint failed on ${fields.join(', ')}`,
+          'P2002'
+        );
+      }
+    });
+  }
+
+  private write(row: Row, data: Row) {
+    Object.entries(data).forEach(([field, value]) => {
+      if (value === undefined) return;
+      if (isObject(value) && 'increment' in value) {
+        row[field] = (row[field] as number) + (value.increment as number);
+      } else if (isObject(value) && 'decrement' in value) {
+        row[field] = (row[field] as number) - (value.decrement as number);
+      } else if (isObject(value) && 'push' in value) {
+        row[field] = ((row[field] as unknown[]) ?? []).concat(value.push);
+      } else if (isObject(value) && 'set' in value) {
+        row[field] = value.set;
+      } else {
+        row[field] = copy(value);
+      }
+    });
+  }
+
+  // Rows for a test to start from, with defaults but without the client
+  insert(data: Row): Row & { id: string } {
+    this.sequence += 1;
+    const now = this.db.now();
+    const row = {
+      id: `${this.name}-${this.sequence}`,
+      createdAt: now,
+      updatedAt: now,
+      ...copy(DEFAULTS[this.name] ?? {}),
+      ...copy(data),
+    } as Row & { id: string };
+    this.assertUnique(row);
+    this.rows.push(row);
+    return row;
+  }
+
+  findMany = async (args: QueryArgs = {}) =>
+    this.find(args).map(row => this.shape(row, args));
+
+  findFirst = async (args: QueryArgs = {}) =>
+    (await this.findMany({ ...args, take: 1 }))[0] ?? null;
+
+  findUnique = async (args: QueryArgs) => this.findFirst(args);
+
+  findUniqueOrThrow = async (args: QueryArgs) =>
+    this.shape(this.findRow(args.where ?? {}), args);
+
+  findFirstOrThrow = this.findUniqueOrThrow;
+
+  count = async ({ where }: QueryArgs = {}) =>
+    this.rows.filter(row => this.matches(row, where)).length;
+
+  groupBy = async ({
+    by,
+    where,
+    _count,
+  }: QueryArgs & { by: string[]; _count?: unknown }) => {
+    const groups = new Map<string, Row>();
+    this.rows
+      .filter(row => this.matches(row, where))
+      .forEach(row => {
+        const key = JSON.stringify(by.map(field => row[field]));
+        const group = groups.get(key) ?? {
+          ...Object.fromEntries(by.map(field => [field, row[field]])),
+          ...(_count ? { _count: { _all: 0 } } : {}),
+        };
+        if (_count) (group._count as { _all: number })._all += 1;
+        groups.set(key, group);
+      });
+    return Array.from(groups.values());
+  };
+
+  create = async (args: QueryArgs & { data: Row }) =>
+    this.shape(this.insert(args.data), args);
+
+  createMany = async ({ data }: { data: Row[] }) => {
+    data.forEach(item => this.insert(item));
+    return { count: data.length };
+  };
+
+  createManyAndReturn = async ({ data }: { data: Row[] }) =>
+    data.map(item => this.shape(this.insert(item)));
+
+  update = async (args: QueryArgs & { data: Row }) => {
+    const row = this.findRow(args.where ?? {});
+    this.write(row, { updatedAt: this.db.now(), ...args.data });
+    this.assertUnique(row);
+    return this.shape(row, args);
+  };
+
+  updateMany = async ({ where, data }: { where?: Where; data: Row }) => {
+    const rows = this.rows.filter(row => this.matches(row, where));
+    rows.forEach(row => this.write(row, { updatedAt: this.db.now(), ...data }));
+    return { count: rows.length };
+  };
+
+  upsert = async (
+    args: QueryArgs & { where: Where; create: Row; update: Row }
+  ) =>
+    this.rows.some(row => this.matches(row, args.where))
+      ? this.update({ ...args, data: args.update })
+      : this.create({ ...args, data: args.create });
+
+  delete = async (args: QueryArgs) => {
+    const row = this.findRow(args.where ?? {});
+    this.rows = this.rows.filter(other => other !== row);
+    return this.shape(row, args);
+  };
+
+  deleteMany = async ({ where }: QueryArgs = {}) => {
+    const before = this.rows.length;
+    this.rows = this.rows.filter(row => !this.matches(row, where));
+    return { count: before - this.rows.length };
+  };
+}
+
+export class FakeDatabase {
+  private tables = new Map<string, FakeTable>();
+  // Added to the real clock, so stored timestamps can be moved forward
+  private clockOffset = 0;
+
+  // Model delegates are created on first use, as `prisma.<model>`
+  readonly client: Record<string, unknown> = new Proxy(
+    {
+      $transaction: async (work: unknown) =>
+        typeof work === 'function'
+          ? work(this.client)
+          : Promise.all(work as Promise<unknown>[]),
+      $connect: async () => undefined,
+      $disconnect: async () => undefined,
+    },
+    {
+      get: (target, name) => {
+        if (name in target) return target[name as keyof typeof target];
+        // Not a promise, whatever awaits it
+        if (typeof name !== 'string' || name === 'then') return undefined;
+        return this.table(name);
+      },
+    }
+  );
+
+  table(name: string): FakeTable {
+    let table = this.tables.get(name);
+    if (!table) {
+      table = new FakeTable(name, this);
+      this.tables.set(name, table);
+    }
+    return table;
+  }
+
+  now = () => new Date(Date.now() + this.clockOffset);
+
+  advanceClock(ms: number) {
+    this.clockOffset += ms;
+  }
+
+  reset() {
+    this.tables.clear();
+    this.clockOffset = 0;
+  }
+}
+
+export const fakeDatabase = new FakeDatabase();
+
+// Replacement for server/config/database
+export const fakeDatabaseModule = () => ({ prisma: fakeDatabase.client });
+
+// Adds a free member and returns the token claims they would sign in with
+export const signIn = (
+  username: string,
+  role = UserRole.FAN
+): AccessTokenPayload => {
+  const user = fakeDatabase.table('user').insert({
+    username,
+    email: `${username}@example.com`,
+    role,
+  });
+  return {
+    sub: user.id,
+    sid: `session-${username}`,
+    role,
+    subscriptionTier: SubscriptionTier.FREE,
+    subscriptionStatus: SubscriptionStatus.ACTIVE,
+  };
+};
@@ -0,0 +1,23 @@
+// Express application factory
+
+import express from 'express';
+import { env } from './config/env';
+import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { apiRouter } from './routes';
+
+export const createApp = () => {
+  const app = express();
+
+  app.set('trust proxy', true);
+  // Payment webhooks are signed over the exact bytes sent, so keep them raw
+  app.use(`${env.API_PREFIX}/billing/webhook`, express.raw({ type: 'application/json' }));
+  app.use(express.json({ limit: '1mb' }));
+
+  app.use(env.UPLOAD_URL_PATH, express.static(env.UPLOAD_DIR));
+  app.use(env.API_PREFIX, apiRouter);
+
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  return app;
+};
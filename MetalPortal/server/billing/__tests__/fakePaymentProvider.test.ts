@@ -0,0 +1,232 @@
+import { SubscriptionTier } from '../../../src/types/auth';
+import {
+  createFakePaymentProvider,
+  FakePaymentProvider,
+} from '../fakePaymentProvider';
+import { BillingPlan, PaymentDeclinedError, ProviderEvent } from '../provider';
+import { signWebhookPayload } from '../signature';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const PREMIUM_MONTHLY: BillingPlan = {
+  tier: SubscriptionTier.PREMIUM,
+  interval: 'month',
+  amount: 1000,
+  currency: 'USD',
+};
+
+const VIP_MONTHLY: BillingPlan = {
+  ...PREMIUM_MONTHLY,
+  tier: SubscriptionTier.VIP,
+  amount: 3000,
+};
+
+describe('fake payment provider', () => {
+  let provider: FakePaymentProvider;
+  let events: ProviderEvent[];
+
+  // Each delivery goes through constructEvent, as the webhook route does
+  const delivered = async () => {
+    await provider.simulator.settle();
+    const types = events.map(event => event.type);
+    events = [];
+    return types;
+  };
+
+  const invoices = (type: ProviderEvent['type']) =>
+    events.flatMap(event =>
+      event.type === type && 'amount' in event.data ? [event.data] : []
+    );
+
+  const checkout = async (plan = PREMIUM_MONTHLY, trialDays?: number) => {
+    const customerId = await provider.createCustomer({
+      userId: 'user-1',
+      email: 'fan@example.com',
+    });
+    const subscription = await provider.createSubscription({
+      customerId,
+      plan,
+      trialDays,
+      metadata: { userId: 'user-1' },
+    });
+    return { customerId, subscription };
+  };
+
+  beforeEach(() => {
+    events = [];
+    provider = createFakePaymentProvider({
+      secret: 'test-webhook-secret',
+      toleranceSeconds: 300,
+      deliver: async (payload, signature) => {
+        events.push(provider.constructEvent(payload, signature));
+      },
+    });
+  });
+
+  it('charges the first period at checkout and sends signed events', async () => {
+    const { subscription } = await checkout();
+
+    expect(subscription.status).toBe('active');
+    await provider.simulator.settle();
+    expect(invoices('invoice.paid')).toEqual([
+      expect.objectContaining({ amount: 1000, status: 'paid' }),
+    ]);
+    expect(await delivered()).toEqual([
+      'customer.subscription.created',
+      'invoice.paid',
+    ]);
+  });
+
+  it('revives dates in delivered events', async () => {
+    await checkout();
+    await provider.simulator.settle();
+
+    const [created, paid] = events;
+    expect(created.createdAt).toBeInstanceOf(Date);
+    expect(created.data).toEqual(
+      expect.objectContaining({
+        currentPeriodStart: expect.any(Date),
+        currentPeriodEnd: expect.any(Date),
+      })
+    );
+    expect(paid.data).toEqual(
+      expect.objectContaining({ createdAt: expect.any(Date) })
+    );
+  });
+
+  it('declines checkout without creating the subscription', async () => {
+    const customerId = await provider.createCustomer({
+      userId: 'user-1',
+      email: 'fan@example.com',
+    });
+    provider.simulator.setPaymentOutcome(customerId, 'decline');
+
+    await expect(
+      provider.createSubscription({
+        customerId,
+        plan: PREMIUM_MONTHLY,
+        metadata: { userId: 'user-1' },
+      })
+    ).rejects.toBeInstanceOf(PaymentDeclinedError);
+    expect(await delivered()).toEqual([]);
+  });
+
+  it('charges a trial only when it ends', async () => {
+    const { subscription } = await checkout(PREMIUM_MONTHLY, 14);
+    expect(subscription.status).toBe('trialing');
+    expect(await delivered()).toEqual(['customer.subscription.created']);
+
+    await provider.simulator.advanceClock(14 * DAY);
+    await provider.simulator.settle();
+    expect(invoices('invoice.paid')).toEqual([
+      expect.objectContaining({ amount: 1000 }),
+    ]);
+    expect((await provider.retrieveSubscription(subscription.id)).status).toBe(
+      'active'
+    );
+  });
+
+  it('takes a discount off only its number of periods', async () => {
+    const customerId = await provider.createCustomer({
+      userId: 'user-1',
+      email: 'fan@example.com',
+    });
+    await provider.createSubscription({
+      customerId,
+      plan: PREMIUM_MONTHLY,
+      discount: { percentOff: 50, periods: 2 },
+      metadata: { userId: 'user-1' },
+    });
+
+    await provider.simulator.advanceClock(32 * DAY);
+    await provider.simulator.advanceClock(31 * DAY);
+    await provider.simulator.settle();
+    expect(invoices('invoice.paid').map(invoice => invoice.amount)).toEqual([
+      500, 500, 1000,
+    ]);
+  });
+
+  it('keeps a failed renewal past due until a retry succeeds', async () => {
+    const { customerId, subscription } = await checkout();
+    await delivered();
+
+    provider.simulator.setPaymentOutcome(customerId, 'decline');
+    await provider.simulator.advanceClock(32 * DAY);
+    expect(await delivered()).toEqual([
+      'invoice.payment_failed',
+      'customer.subscription.updated',
+    ]);
+    expect((await provider.retrieveSubscription(subscription.id)).status).toBe(
+      'past_due'
+    );
+
+    await provider.retryPayment(subscription.id);
+    expect(await delivered()).toEqual(['invoice.payment_failed']);
+
+    provider.simulator.setPaymentOutcome(customerId, 'succeed');
+    const retried = await provider.retryPayment(subscription.id);
+    expect(retried.status).toBe('active');
+    expect(await delivered()).toEqual([
+      'invoice.paid',
+      'customer.subscription.updated',
+    ]);
+  });
+
+  it('charges the prorated difference of an upgrade now', async () => {
+    const { subscription } = await checkout();
+
+    const { prorationAmount } = await provider.changePlan(
+      subscription.id,
+      VIP_MONTHLY
+    );
+    // Almost the whole period is left, so nearly the full difference is due
+    expect(prorationAmount).toBeGreaterThan(1990);
+    expect(prorationAmount).toBeLessThanOrEqual(2000);
+    await provider.simulator.settle();
+    expect(invoices('invoice.paid')).toEqual([
+      expect.objectContaining({ amount: 1000, isProration: false }),
+      expect.objectContaining({ amount: prorationAmount, isProration: true }),
+    ]);
+  });
+
+  it('credits a downgrade to the next renewals', async () => {
+    const { customerId, subscription } = await checkout(VIP_MONTHLY);
+    const { prorationAmount } = await provider.changePlan(
+      subscription.id,
+      PREMIUM_MONTHLY
+    );
+    expect(prorationAmount).toBeLessThan(-1990);
+    await delivered();
+
+    // The credit pays for the renewal even when the card would be declined
+    provider.simulator.setPaymentOutcome(customerId, 'decline');
+    await provider.simulator.advanceClock(32 * DAY);
+    await provider.simulator.settle();
+    expect(invoices('invoice.paid')).toEqual([
+      expect.objectContaining({ amount: 0 }),
+    ]);
+  });
+
+  it('cancels at the end of the period', async () => {
+    const { subscription } = await checkout();
+    await provider.setCancelAtPeriodEnd(subscription.id, true);
+    await delivered();
+
+    await provider.simulator.advanceClock(32 * DAY);
+    expect(await delivered()).toEqual(['customer.subscription.deleted']);
+    expect((await provider.retrieveSubscription(subscription.id)).status).toBe(
+      'canceled'
+    );
+  });
+
+  it('rejects events not signed with its secret', () => {
+    const payload = JSON.stringify({ id: 'evt_1', type: 'invoice.paid' });
+
+    expect(() =>
+      provider.constructEvent(
+        payload,
+        signWebhookPayload(payload, 'forged-secret')
+      )
+    ).toThrow('Webhook signature mismatch');
+  });
+});
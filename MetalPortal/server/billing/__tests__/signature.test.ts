@@ -0,0 +1,59 @@
+import { signWebhookPayload, verifyWebhookSignature } from '../signature';
+
+const SECRET = 'test-webhook-secret';
+const PAYLOAD = JSON.stringify({ id: 'evt_1', type: 'invoice.paid' });
+const NOW = 1_700_000_000;
+
+describe('webhook signatures', () => {
+  it('accepts a payload signed with the same secret', () => {
+    const header = signWebhookPayload(PAYLOAD, SECRET, NOW);
+    expect(() =>
+      verifyWebhookSignature(PAYLOAD, header, SECRET, 300, NOW)
+    ).not.toThrow();
+  });
+
+  it('accepts any matching v1 signature, as during a secret rotation', () => {
+    const header = signWebhookPayload(PAYLOAD, SECRET, NOW);
+    const rotated = `${header},v1=${'0'.repeat(64)}`;
+    expect(() =>
+      verifyWebhookSignature(PAYLOAD, rotated, SECRET, 300, NOW)
+    ).not.toThrow();
+  });
+
+  it.each([
+    {
+      name: 'a changed body',
+      payload: PAYLOAD.replace('evt_1', 'evt_2'),
+      header: signWebhookPayload(PAYLOAD, SECRET, NOW),
+      error: 'Webhook signature mismatch',
+    },
+    {
+      name: 'another secret',
+      payload: PAYLOAD,
+      header: signWebhookPayload(PAYLOAD, 'forged-secret', NOW),
+      error: 'Webhook signature mismatch',
+    },
+    {
+      name: 'a replayed old event',
+      payload: PAYLOAD,
+      header: signWebhookPayload(PAYLOAD, SECRET, NOW - 301),
+      error: 'Webhook timestamp outside the tolerance',
+    },
+    {
+      name: 'a header without a timestamp',
+      payload: PAYLOAD,
+      header: 'v1=abc',
+      error: 'Malformed webhook signature',
+    },
+    {
+      name: 'a header without a signature',
+      payload: PAYLOAD,
+      header: `t=${NOW}`,
+      error: 'Malformed webhook signature',
+    },
+  ])('rejects $name', ({ payload, header, error }) => {
+    expect(() =>
+      verifyWebhookSignature(payload, header, SECRET, 300, NOW)
+    ).toThrow(error);
+  });
+});
@@ -0,0 +1,374 @@
+// In-process payment provider for development and tests
+//
+// Keeps customers, subscriptions and invoices in memory and sends signed webhook
+// events exactly as a real provider would, so the whole subscription lifecycle
+// (checkout, trials and discounts, plan changes, renewals, failed payments and
+// their retries, cancellation) can be driven offline. Time is simulated: advanceClock() moves
+// the provider's clock and runs every renewal that falls due.
+
+import crypto from 'crypto';
+import {
+  BillingPlan,
+  PaymentDeclinedError,
+  PaymentProvider,
+  PlanChange,
+  ProviderEvent,
+  ProviderInvoice,
+  ProviderSubscription,
+} from './provider';
+import { logger } from '../utils/logger';
+import { signWebhookPayload, verifyWebhookSignature } from './signature';
+
+export type PaymentOutcome = 'succeed' | 'decline';
+
+export interface FakePaymentProviderOptions {
+  secret: string;
+  toleranceSeconds: number;
+  // Sends a signed event to the app, normally by POSTing to the webhook route
+  deliver: (payload: string, signature: string) => Promise<void>;
+}
+
+interface FakeCustomer {
+  id: string;
+  userId: string;
+  email: string;
+  // Negative amounts are credit owed to the customer, in cents
+  balance: number;
+  outcome: PaymentOutcome;
+}
+
+export interface FakePaymentSimulator {
+  now: () => Date;
+  // Make every future charge for the customer succeed or be declined
+  setPaymentOutcome: (customerId: string, outcome: PaymentOutcome) => void;
+  // Move the clock forward and process renewals and period-end cancellations
+  advanceClock: (ms: number) => Promise<void>;
+  // Resolves once every event sent so far has been delivered (or given up on)
+  settle: () => Promise<void>;
+}
+
+export type FakePaymentProvider = PaymentProvider & {
+  simulator: FakePaymentSimulator;
+};
+
+const DELIVERY_ATTEMPTS = 3;
+const DELIVERY_RETRY_DELAY = 1000; // 1 second
+const DATE_FIELDS = [
+  'createdAt',
+  'currentPeriodStart',
+  'currentPeriodEnd',
+  'trialEnd',
+];
+const DAY = 24 * 60 * 60 * 1000;
+
+const newId = (prefix: string) =>
+  `${prefix}_${crypto.randomBytes(12).toString('hex')}`;
+
+const addInterval = (date: Date, interval: BillingPlan['interval']) => {
+  const next = new Date(date);
+  if (interval === 'year') {
+    next.setUTCFullYear(next.getUTCFullYear() + 1);
+  } else {
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  }
+  return next;
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createFakePaymentProvider = ({
+  secret,
+  toleranceSeconds,
+  deliver,
+}: FakePaymentProviderOptions): FakePaymentProvider => {
+  const customers = new Map<string, FakeCustomer>();
+  const subscriptions = new Map<string, ProviderSubscription>();
+  // Unpaid renewal invoice of each past_due subscription
+  const openInvoices = new Map<string, ProviderInvoice>();
+  const pending = new Set<Promise<void>>();
+  let clockOffset = 0;
+
+  const now = () => new Date(Date.now() + clockOffset);
+
+  // Events are sent after the calling request has had a chance to finish, and
+  // retried a few times like a real provider would
+  const emit = (event: Omit<ProviderEvent, 'id' | 'createdAt'>) => {
+    const payload = JSON.stringify({
+      ...event,
+      id: newId('evt'),
+      createdAt: now(),
+    });
+    const delivery = (async () => {
+      await wait(0);
+      for (let attempt = 1; attempt <= DELIVERY_ATTEMPTS; attempt++) {
+        try {
+          await deliver(payload, signWebhookPayload(payload, secret));
+          return;
+        } catch (error) {
+          if (attempt === DELIVERY_ATTEMPTS) {
+            logger.error('Fake payment webhook delivery failed', error);
+            return;
+          }
+          await wait(DELIVERY_RETRY_DELAY * attempt);
+        }
+      }
+    })();
+    pending.add(delivery);
+    void delivery.finally(() => pending.delete(delivery));
+  };
+
+  const emitSubscription = (
+    type: 'created' | 'updated' | 'deleted',
+    subscription: ProviderSubscription
+  ) =>
+    emit({
+      type: `customer.subscription.${type}`,
+      data: { ...subscription },
+    } as ProviderEvent);
+
+  const getCustomer = (id: string) => {
+    const customer = customers.get(id);
+    if (!customer) throw new Error(`No such customer: ${id}`);
+    return customer;
+  };
+
+  const getSubscription = (id: string) => {
+    const subscription = subscriptions.get(id);
+    if (!subscription) throw new Error(`No such subscription: ${id}`);
+    return subscription;
+  };
+
+  // Take a payment from the customer, using up any credit first
+  const collect = (customer: FakeCustomer, amount: number) => {
+    const paid =
+      amount + customer.balance <= 0 || customer.outcome === 'succeed';
+    if (paid) {
+      customer.balance = Math.min(0, customer.balance + amount);
+    }
+    return paid;
+  };
+
+  // Invoice the customer and try to collect it
+  const charge = (
+    subscription: ProviderSubscription,
+    amount: number,
+    isProration: boolean
+  ): ProviderInvoice => {
+    const customer = getCustomer(subscription.customerId);
+    const amountDue = Math.max(0, amount + customer.balance);
+    const paid = collect(customer, amount);
+
+    return {
+      id: newId('in'),
+      customerId: customer.id,
+      subscriptionId: subscription.id,
+      status: paid ? 'paid' : 'open',
+      amount: amountDue,
+      currency: subscription.plan.currency,
+      attemptCount: 1,
+      isProration,
+      createdAt: now(),
+    };
+  };
+
+  // Amount due for the subscription's next period, using up one period of
+  // its discount
+  const periodAmount = (subscription: ProviderSubscription) => {
+    const { plan, discount } = subscription;
+    if (!discount) return plan.amount;
+
+    subscription.discount =
+      discount.periods > 1
+        ? { ...discount, periods: discount.periods - 1 }
+        : null;
+    if (discount.percentOff) {
+      return Math.round(plan.amount * (1 - discount.percentOff / 100));
+    }
+    return Math.max(0, plan.amount - (discount.amountOff ?? 0));
+  };
+
+  const renew = (subscription: ProviderSubscription) => {
+    if (subscription.cancelAtPeriodEnd) {
+      subscription.status = 'canceled';
+      emitSubscription('deleted', subscription);
+      return;
+    }
+
+    // As with Stripe, the new period starts even if its invoice goes unpaid
+    const invoice = charge(subscription, periodAmount(subscription), false);
+    subscription.currentPeriodStart = subscription.currentPeriodEnd;
+    subscription.currentPeriodEnd = addInterval(
+      subscription.currentPeriodEnd,
+      subscription.plan.interval
+    );
+    if (invoice.status === 'paid') {
+      subscription.status = 'active';
+      emit({ type: 'invoice.paid', data: invoice });
+    } else {
+      subscription.status = 'past_due';
+      openInvoices.set(subscription.id, invoice);
+      emit({ type: 'invoice.payment_failed', data: invoice });
+    }
+    emitSubscription('updated', subscription);
+  };
+
+  const provider: FakePaymentProvider = {
+    createCustomer: async ({ userId, email }) => {
+      const id = newId('cus');
+      customers.set(id, { id, userId, email, balance: 0, outcome: 'succeed' });
+      return id;
+    },
+
+    createSubscription: async ({
+      customerId,
+      plan,
+      discount,
+      trialDays,
+      metadata,
+    }) => {
+      getCustomer(customerId);
+      const start = now();
+      const trialEnd = trialDays
+        ? new Date(start.getTime() + trialDays * DAY)
+        : null;
+      const subscription: ProviderSubscription = {
+        id: newId('sub'),
+        customerId,
+        status: trialEnd ? 'trialing' : 'active',
+        plan,
+        currentPeriodStart: start,
+        currentPeriodEnd: trialEnd ?? addInterval(start, plan.interval),
+        cancelAtPeriodEnd: false,
+        trialEnd,
+        discount: discount ?? null,
+        metadata,
+      };
+
+      // Trials are free; the first invoice comes when they end
+      const invoice = trialEnd
+        ? null
+        : charge(subscription, periodAmount(subscription), false);
+      if (invoice && invoice.status !== 'paid') {
+        throw new PaymentDeclinedError();
+      }
+      subscriptions.set(subscription.id, subscription);
+      emitSubscription('created', subscription);
+      if (invoice) {
+        emit({ type: 'invoice.paid', data: invoice });
+      }
+      return { ...subscription };
+    },
+
+    retrieveSubscription: async id => ({ ...getSubscription(id) }),
+
+    changePlan: async (id, plan): Promise<PlanChange> => {
+      const subscription = getSubscription(id);
+      // Nothing has been paid during a trial, so there is nothing to prorate
+      if (subscription.status === 'trialing') {
+        subscription.plan = plan;
+        emitSubscription('updated', subscription);
+        return { subscription: { ...subscription }, prorationAmount: 0 };
+      }
+
+      const start = subscription.currentPeriodStart.getTime();
+      const end = subscription.currentPeriodEnd.getTime();
+      const remaining = Math.max(0, end - now().getTime()) / (end - start);
+      const newPeriod = plan.interval !== subscription.plan.interval;
+      const prorationAmount = newPeriod
+        ? plan.amount - Math.round(subscription.plan.amount * remaining)
+        : Math.round((plan.amount - subscription.plan.amount) * remaining);
+
+      if (prorationAmount > 0) {
+        const invoice = charge(subscription, prorationAmount, true);
+        if (invoice.status !== 'paid') {
+          throw new PaymentDeclinedError();
+        }
+        emit({ type: 'invoice.paid', data: invoice });
+      } else {
+        getCustomer(subscription.customerId).balance += prorationAmount;
+      }
+
+      subscription.plan = plan;
+      if (newPeriod) {
+        subscription.currentPeriodStart = now();
+        subscription.currentPeriodEnd = addInterval(
+          subscription.currentPeriodStart,
+          plan.interval
+        );
+      }
+      emitSubscription('updated', subscription);
+      return { subscription: { ...subscription }, prorationAmount };
+    },
+
+    setCancelAtPeriodEnd: async (id, cancelAtPeriodEnd) => {
+      const subscription = getSubscription(id);
+      subscription.cancelAtPeriodEnd = cancelAtPeriodEnd;
+      emitSubscription('updated', subscription);
+      return { ...subscription };
+    },
+
+    retryPayment: async id => {
+      const subscription = getSubscription(id);
+      const invoice = openInvoices.get(id);
+      if (!invoice) return { ...subscription };
+
+      invoice.attemptCount += 1;
+      if (collect(getCustomer(subscription.customerId), invoice.amount)) {
+        invoice.status = 'paid';
+        openInvoices.delete(id);
+        subscription.status = 'active';
+        emit({ type: 'invoice.paid', data: invoice });
+        emitSubscription('updated', subscription);
+      } else {
+        emit({ type: 'invoice.payment_failed', data: invoice });
+      }
+      return { ...subscription };
+    },
+
+    markUnpaid: async id => {
+      const subscription = getSubscription(id);
+      subscription.status = 'unpaid';
+      openInvoices.delete(id);
+      emitSubscription('updated', subscription);
+      return { ...subscription };
+    },
+
+    constructEvent: (payload, signature) => {
+      const body = payload.toString();
+      verifyWebhookSignature(body, signature, secret, toleranceSeconds);
+      return JSON.parse(body, (key, value) =>
+        DATE_FIELDS.includes(key) ? new Date(value) : value
+      );
+    },
+
+    simulator: {
+      now,
+
+      setPaymentOutcome: (customerId, outcome) => {
+        getCustomer(customerId).outcome = outcome;
+      },
+
+      advanceClock: async ms => {
+        clockOffset += ms;
+        subscriptions.forEach(subscription => {
+          while (
+            (subscription.status === 'trialing' ||
+              subscription.status === 'active' ||
+              subscription.status === 'past_due') &&
+            subscription.currentPeriodEnd <= now()
+          ) {
+            renew(subscription);
+          }
+        });
+      },
+
+      settle: async () => {
+        while (pending.size > 0) {
+          await Promise.all(Array.from(pending));
+        }
+      },
+    },
+  };
+
+  return provider;
+};
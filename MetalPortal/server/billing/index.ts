@@ -0,0 +1,46 @@
+// The configured payment provider
+
+import { env } from '../config/env';
+import {
+  createFakePaymentProvider,
+  FakePaymentProvider,
+} from './fakePaymentProvider';
+import { PaymentProvider, WEBHOOK_SIGNATURE_HEADER } from './provider';
+
+const WEBHOOK_URL = `${env.PUBLIC_URL}${env.API_PREFIX}/billing/webhook`;
+
+const createPaymentProvider = (): PaymentProvider => {
+  switch (env.PAYMENT_PROVIDER) {
+    case 'fake':
+      return createFakePaymentProvider({
+        secret: env.PAYMENT_WEBHOOK_SECRET,
+        toleranceSeconds: env.PAYMENT_WEBHOOK_TOLERANCE,
+        // Goes through the real webhook route, signature check included
+        deliver: async (payload, signature) => {
+          const response = await fetch(WEBHOOK_URL, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              [WEBHOOK_SIGNATURE_HEADER]: signature,
+            },
+            body: payload,
+          });
+          if (!response.ok) {
+            throw new Error(`Webhook responded with ${response.status}`);
+          }
+        },
+      });
+    default:
+      throw new Error(`Unknown payment provider: ${env.PAYMENT_PROVIDER}`);
+  }
+};
+
+export const paymentProvider = createPaymentProvider();
+
+// The simulator controls, when running against the fake provider
+export const fakePaymentProvider = (): FakePaymentProvider | null =>
+  'simulator' in paymentProvider
+    ? (paymentProvider as FakePaymentProvider)
+    : null;
+
+export * from './provider';
@@ -0,0 +1,124 @@
+// Payment provider contract
+//
+// Modelled on Stripe's subscription API (customers, subscriptions, invoices and
+// signed webhook events) so a Stripe adapter can implement it directly. The
+// app only ever talks to this interface.
+
+import { SubscriptionTier } from '../../src/types/auth';
+import { BillingInterval } from '../../src/types/subscription';
+
+// Header carrying the webhook signature, as Stripe names it
+export const WEBHOOK_SIGNATURE_HEADER = 'stripe-signature';
+
+export interface BillingPlan {
+  tier: SubscriptionTier;
+  interval: BillingInterval;
+  amount: number; // in cents
+  currency: string;
+}
+
+// Coupon attached to a subscription, taken off its next `periods` invoices
+export interface BillingDiscount {
+  percentOff?: number;
+  amountOff?: number; // in cents
+  periods: number;
+}
+
+export type ProviderSubscriptionStatus =
+  | 'trialing'
+  | 'active'
+  | 'past_due'
+  | 'unpaid'
+  | 'canceled'
+  | 'paused';
+
+export interface ProviderSubscription {
+  id: string;
+  customerId: string;
+  status: ProviderSubscriptionStatus;
+  plan: BillingPlan;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+  cancelAtPeriodEnd: boolean;
+  // End of the free trial, which is also the end of the first period
+  trialEnd: Date | null;
+  // Counts down as discounted invoices are paid; null once used up
+  discount: BillingDiscount | null;
+  // Set at checkout; Stripe keeps it on the subscription for us
+  metadata: { userId: string };
+}
+
+export interface ProviderInvoice {
+  id: string;
+  customerId: string;
+  subscriptionId: string;
+  status: 'paid' | 'open';
+  amount: number; // in cents, after customer credit
+  currency: string;
+  attemptCount: number;
+  isProration: boolean;
+  createdAt: Date;
+}
+
+export type ProviderEvent =
+  | {
+      id: string;
+      type:
+        | 'customer.subscription.created'
+        | 'customer.subscription.updated'
+        | 'customer.subscription.deleted';
+      createdAt: Date;
+      data: ProviderSubscription;
+    }
+  | {
+      id: string;
+      type: 'invoice.paid' | 'invoice.payment_failed';
+      createdAt: Date;
+      data: ProviderInvoice;
+    };
+
+export interface PlanChange {
+  subscription: ProviderSubscription;
+  // Positive amounts were charged now, negative ones credited to the next invoice
+  prorationAmount: number;
+}
+
+export class PaymentDeclinedError extends Error {
+  constructor(message = 'Your payment was declined') {
+    super(message);
+    this.name = 'PaymentDeclinedError';
+  }
+}
+
+export interface PaymentProvider {
+  createCustomer: (input: { userId: string; email: string }) => Promise<string>;
+  // Charges the first period immediately, less any discount, or starts a
+  // free trial that is charged when it ends; throws PaymentDeclinedError
+  createSubscription: (input: {
+    customerId: string;
+    plan: BillingPlan;
+    discount?: BillingDiscount;
+    trialDays?: number;
+    metadata: ProviderSubscription['metadata'];
+  }) => Promise<ProviderSubscription>;
+  retrieveSubscription: (id: string) => Promise<ProviderSubscription>;
+  // Swaps the plan mid-period, prorating the difference. Switching between
+  // monthly and annual billing starts a new period instead: unused time is
+  // credited and the new plan charged in full.
+  changePlan: (id: string, plan: BillingPlan) => Promise<PlanChange>;
+  setCancelAtPeriodEnd: (
+    id: string,
+    cancelAtPeriodEnd: boolean
+  ) => Promise<ProviderSubscription>;
+  // Tries the open renewal invoice again; the subscription is active again
+  // if it was paid and still past_due otherwise. Automatic provider retries
+  // are assumed off, since the app runs its own dunning schedule.
+  retryPayment: (id: string) => Promise<ProviderSubscription>;
+  // Gives up on a past_due subscription: billing stops and it becomes unpaid
+  markUnpaid: (id: string) => Promise<ProviderSubscription>;
+  // Verifies the signature header and parses the raw request body
+  constructEvent: (
+    payload: Buffer | string,
+    signature: string
+  ) => ProviderEvent;
+}
@@ -0,0 +1,49 @@
+// Webhook signatures in Stripe's format: "t=<unix seconds>,v1=<hex hmac>", where
+// the HMAC-SHA256 covers "<t>.<raw body>"
+
+import crypto from 'crypto';
+
+const hmac = (secret: string, timestamp: number, payload: string) =>
+  crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${payload}`)
+    .digest('hex');
+
+export const signWebhookPayload = (
+  payload: string,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): string => `t=${timestamp},v1=${hmac(secret, timestamp, payload)}`;
+
+// Throws when the header is malformed, forged or older than the tolerance
+export const verifyWebhookSignature = (
+  payload: string,
+  header: string,
+  secret: string,
+  toleranceSeconds: number,
+  now = Math.floor(Date.now() / 1000)
+) => {
+  const parts = header.split(',').map(part => part.split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts
+    .filter(([key]) => key === 'v1')
+    .map(([, value]) => value);
+  if (!Number.isFinite(timestamp) || signatures.length === 0) {
+    throw new Error('Malformed webhook signature');
+  }
+  if (Math.abs(now - timestamp) > toleranceSeconds) {
+    throw new Error('Webhook timestamp outside the tolerance');
+  }
+
+  const expected = Buffer.from(hmac(secret, timestamp, payload));
+  const matches = signatures.some(signature => {
+    const candidate = Buffer.from(signature);
+    return (
+      candidate.length === expected.length &&
+      crypto.timingSafeEqual(candidate, expected)
+    );
+  });
+  if (!matches) {
+    throw new Error('Webhook signature mismatch');
+  }
+};
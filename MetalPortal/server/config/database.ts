@@ -0,0 +1,5 @@
+// Prisma client instance shared across the server
+
+import { PrismaClient } from '../../generated/prisma';
+
+export const prisma = new PrismaClient();
@@ -0,0 +1,75 @@
+// Server environment configuration
+
+import path from 'path';
+
+const NODE_ENV = process.env.NODE_ENV || 'development';
+
+// Secrets fall back to a fixed value only in development and tests; anywhere
+// else a missing secret stops the server from starting
+const secret = (name: string, fallback: string): string => {
+  const value = process.env[name];
+  if (value) return value;
+  if (NODE_ENV === 'development' || NODE_ENV === 'test') return fallback;
+  throw new Error(`${name} must be set when NODE_ENV is ${NODE_ENV}`);
+};
+
+// The in-process 'fake' providers never reach anyone, so production has to
+// name a real one
+const provider = (name: string): string => {
+  const value = process.env[name] || 'fake';
+  if (value === 'fake' && NODE_ENV === 'production') {
+    throw new Error(`${name} must name a real provider in production`);
+  }
+  return value;
+};
+
+export const env = {
+  NODE_ENV,
+  PORT: Number(process.env.PORT) || 3000,
+  API_PREFIX: '/api',
+  PUBLIC_URL: process.env.PUBLIC_URL || `http://localhost:${Number(process.env.PORT) || 3000}`,
+
+  // Media storage (local disk until Cloudinary is wired up)
+  UPLOAD_DIR: process.env.UPLOAD_DIR || path.resolve(process.cwd(), 'uploads'),
+  UPLOAD_URL_PATH: '/uploads',
+  // Keys the names of blurred previews of locked images
+  MEDIA_PREVIEW_SECRET: secret('MEDIA_PREVIEW_SECRET', 'dev-media-preview-secret'),
+
+  // Authentication
+  JWT_SECRET: secret('JWT_SECRET', 'dev-jwt-secret'),
+  JWT_REFRESH_SECRET: secret('JWT_REFRESH_SECRET', 'dev-jwt-refresh-secret'),
+  BCRYPT_SALT_ROUNDS: 12,
+  PASSWORD_RESET_EXPIRY: 60 * 60 * 1000, // 1 hour
+  // Page the emailed reset link opens; the token is added as ?token=
+  PASSWORD_RESET_URL:
+    process.env.PASSWORD_RESET_URL ||
+    `http://localhost:${Number(process.env.PORT) || 3000}/reset-password`,
+
+  // Email ('resend' sends through Resend, 'fake' keeps messages in memory for
+  // development and tests)
+  MAIL_PROVIDER: provider('MAIL_PROVIDER'),
+  MAIL_FROM: process.env.MAIL_FROM || 'MetalPortal <no-reply@localhost>',
+  RESEND_API_KEY: process.env.RESEND_API_KEY,
+
+  // Billing ('fake' is an in-process provider for development and tests)
+  PAYMENT_PROVIDER: provider('PAYMENT_PROVIDER'),
+  PAYMENT_WEBHOOK_SECRET: secret('PAYMENT_WEBHOOK_SECRET', 'dev-payment-webhook-secret'),
+  PAYMENT_WEBHOOK_TOLERANCE: 5 * 60, // seconds
+
+  // Dunning: paid access is kept this long after a renewal fails, while the
+  // payment is retried the given number of days after the first failure
+  SUBSCRIPTION_GRACE_DAYS: Number(process.env.SUBSCRIPTION_GRACE_DAYS) || 7,
+  PAYMENT_RETRY_DAYS: [1, 3, 5],
+  GRACE_REMINDER_DAYS: 1, // before the grace period ends
+  JOB_INTERVAL: 15 * 60 * 1000, // 15 minutes
+  NOTIFICATION_JOB_INTERVAL: 60 * 1000, // 1 minute, so new posts go out promptly
+
+  // Push notifications ('expo' sends through Expo's push service, 'fake'
+  // keeps pushes in memory for development and tests)
+  PUSH_PROVIDER: provider('PUSH_PROVIDER'),
+  EXPO_ACCESS_TOKEN: process.env.EXPO_ACCESS_TOKEN,
+  PUSH_BATCH_DELAY: 1000, // 1 second to gather pushes into one request
+  PUSH_RECEIPT_DELAY: 15 * 60 * 1000, // receipts are ready after 15 minutes
+} as const;
+
+export const isProduction = env.NODE_ENV === 'production';
@@ -0,0 +1,98 @@
+// Authentication route handlers
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { REGEX, SUCCESS_MESSAGES } from '../../src/utils/constants';
+import { authService } from '../services/authService';
+import { sendSuccess } from '../utils/response';
+
+// Request schemas
+const passwordSchema = z
+  .string()
+  .regex(
+    REGEX.PASSWORD,
+    'Password must be at least 8 characters with uppercase, lowercase, number, and special character'
+  );
+
+export const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+export const registerSchema = z.object({
+  email: z.string().email(),
+  username: z.string().regex(REGEX.USERNAME, 'Username must be 3-20 characters with letters, numbers, and underscores only'),
+  password: passwordSchema,
+  displayName: z.string().max(50).optional(),
+});
+
+export const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+export const logoutSchema = z.object({
+  refreshToken: z.string().optional(),
+});
+
+export const resetPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+export const confirmResetSchema = z.object({
+  token: z.string().min(1),
+  newPassword: passwordSchema,
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: passwordSchema,
+});
+
+const sessionContext = (req: Request) => ({
+  ipAddress: req.ip,
+  userAgent: req.get('user-agent'),
+});
+
+export const authController = {
+  register: async (req: Request, res: Response) => {
+    const result = await authService.register(req.body, sessionContext(req));
+    sendSuccess(res, result, { status: 201, message: SUCCESS_MESSAGES.REGISTER_SUCCESS });
+  },
+
+  login: async (req: Request, res: Response) => {
+    const result = await authService.login(req.body, sessionContext(req));
+    sendSuccess(res, result, { message: SUCCESS_MESSAGES.LOGIN_SUCCESS });
+  },
+
+  refresh: async (req: Request, res: Response) => {
+    const result = await authService.refresh(req.body.refreshToken);
+    sendSuccess(res, result);
+  },
+
+  logout: async (req: Request, res: Response) => {
+    await authService.logout(req.body.refreshToken);
+    sendSuccess(res, null, { message: SUCCESS_MESSAGES.LOGOUT_SUCCESS });
+  },
+
+  resetPassword: async (req: Request, res: Response) => {
+    const result = await authService.requestPasswordReset(req.body.email);
+    sendSuccess(res, result, {
+      message: 'If that email is registered, a reset link has been sent.',
+    });
+  },
+
+  confirmReset: async (req: Request, res: Response) => {
+    await authService.confirmPasswordReset(req.body.token, req.body.newPassword);
+    sendSuccess(res, null, { message: SUCCESS_MESSAGES.PASSWORD_CHANGED });
+  },
+
+  changePassword: async (req: Request, res: Response) => {
+    await authService.changePassword(
+      req.auth!.sub,
+      req.auth!.sid,
+      req.body.currentPassword,
+      req.body.newPassword
+    );
+    sendSuccess(res, null, { message: SUCCESS_MESSAGES.PASSWORD_CHANGED });
+  },
+};
@@ -0,0 +1,40 @@
+// Chat route handlers
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { chatService } from '../services/chatService';
+import { pageMeta, pageQuerySchema } from '../utils/pagination';
+import { sendSuccess } from '../utils/response';
+
+// Request schemas
+export const roomMessagesQuerySchema = pageQuerySchema.extend({
+  roomId: z.string().min(1),
+});
+
+export const chatController = {
+  listRooms: async (req: Request, res: Response) => {
+    sendSuccess(res, await chatService.listRooms(req.auth!));
+  },
+
+  listRoomMessages: async (req: Request, res: Response) => {
+    const { roomId, page, limit } = roomMessagesQuerySchema.parse(req.query);
+    const { messages, total } = await chatService.listRoomMessages(
+      req.auth!,
+      roomId,
+      page,
+      limit
+    );
+    sendSuccess(res, messages, { meta: pageMeta(page, limit, total) });
+  },
+
+  listConversationMessages: async (req: Request, res: Response) => {
+    const { page, limit } = pageQuerySchema.parse(req.query);
+    const { messages, total } = await chatService.listConversationMessages(
+      req.auth!.sub,
+      req.params.userId,
+      page,
+      limit
+    );
+    sendSuccess(res, messages, { meta: pageMeta(page, limit, total) });
+  },
+};
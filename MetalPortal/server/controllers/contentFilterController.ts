@@ -0,0 +1,87 @@
+// Content filter route handlers
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { FilterAction } from '../../src/types/moderation';
+import { MODERATION_CONFIG } from '../../src/utils/constants';
+import { contentFilterService } from '../services/contentFilterService';
+import { sendSuccess } from '../utils/response';
+
+const phrase = z
+  .string()
+  .trim()
+  .min(1)
+  .max(MODERATION_CONFIG.MAX_FILTER_TERM_LENGTH);
+
+const action = z.nativeEnum(FilterAction);
+
+// Rules judging the whole text have nothing to mask
+const wholeTextAction = z.enum([
+  FilterAction.ALLOW,
+  FilterAction.HOLD,
+  FilterAction.REJECT,
+]);
+
+const floodLimit = z.number().int().min(1);
+
+// Request schemas
+export const contentFilterConfigSchema = z.object({
+  terms: z
+    .array(z.object({ term: phrase, action }))
+    .max(MODERATION_CONFIG.MAX_FILTER_TERMS),
+  allowedPhrases: z.array(phrase).max(MODERATION_CONFIG.MAX_FILTER_TERMS),
+  links: z.object({
+    maxLinks: z.number().int().min(0),
+    action,
+    blockedDomains: z
+      .array(
+        z
+          .string()
+          .trim()
+          .toLowerCase()
+          .regex(
+            /^[a-z0-9-]+(\.[a-z0-9-]+)+$/,
+            'Enter a domain like example.com'
+          )
+      )
+      .max(MODERATION_CONFIG.MAX_FILTER_TERMS),
+    blockedDomainAction: action,
+  }),
+  spam: z.object({
+    maxRepeatedChars: z.number().int().min(2),
+    maxCapsRatio: z.number().min(0).max(1),
+    minCapsLength: z.number().int().min(0),
+    action: wholeTextAction,
+  }),
+  flood: z.object({
+    windowSeconds: z.number().int().min(1).max(3600),
+    limits: z.object({
+      post: floodLimit,
+      comment: floodLimit,
+      forum_post: floodLimit,
+      forum_comment: floodLimit,
+      chat_message: floodLimit,
+      direct_message: floodLimit,
+    }),
+    action: wholeTextAction,
+  }),
+});
+
+export const testContentFilterSchema = z.object({
+  text: z.string().min(1).max(MODERATION_CONFIG.MAX_FILTER_TEST_LENGTH),
+});
+
+export const contentFilterController = {
+  getConfig: async (_req: Request, res: Response) => {
+    sendSuccess(res, await contentFilterService.getConfig());
+  },
+
+  updateConfig: async (req: Request, res: Response) => {
+    const config = await contentFilterService.updateConfig(req.auth!, req.body);
+    sendSuccess(res, config, { message: 'Content filter updated' });
+  },
+
+  test: async (req: Request, res: Response) => {
+    sendSuccess(res, await contentFilterService.test(req.body.text));
+  },
+};
@@ -0,0 +1,22 @@
+// Event route handlers
+
+import { Request, Response } from 'express';
+import { eventService } from '../services/eventService';
+import { pageMeta, pageQuerySchema } from '../utils/pagination';
+import { sendSuccess } from '../utils/response';
+
+export const eventController = {
+  list: async (req: Request, res: Response) => {
+    const { page, limit } = pageQuerySchema.parse(req.query);
+    const { events, total } = await eventService.list(
+      req.auth ?? null,
+      page,
+      limit
+    );
+    sendSuccess(res, events, { meta: pageMeta(page, limit, total) });
+  },
+
+  get: async (req: Request, res: Response) => {
+    sendSuccess(res, await eventService.get(req.auth ?? null, req.params.id));
+  },
+};
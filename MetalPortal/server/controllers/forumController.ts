@@ -0,0 +1,267 @@
+// Forum route handlers
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { ContentAccessLevel } from '../../src/types/post';
+import { FORUM_CONFIG } from '../../src/utils/constants';
+import { forumService } from '../services/forumService';
+import { pageMeta, pageQuerySchema } from '../utils/pagination';
+import { sendSuccess } from '../utils/response';
+
+// Request schemas
+export const createCategorySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  slug: z
+    .string()
+    .regex(
+      /^[a-z0-9]+(-[a-z0-9]+)*$/,
+      'Use lowercase letters, digits and dashes'
+    ),
+  icon: z.string().max(100).optional(),
+  color: z.string().max(20).optional(),
+  accessLevel: z.nativeEnum(ContentAccessLevel),
+  sortOrder: z.number().int().optional(),
+  isVisible: z.boolean().optional(),
+});
+
+export const updateCategorySchema = createCategorySchema.partial();
+
+export const createPostSchema = z.object({
+  title: z.string().trim().min(1).max(FORUM_CONFIG.MAX_POST_TITLE_LENGTH),
+  content: z.string().trim().min(1).max(FORUM_CONFIG.MAX_POST_CONTENT_LENGTH),
+  categoryId: z.string().min(1),
+});
+
+export const updatePostSchema = createPostSchema
+  .pick({ title: true, content: true })
+  .partial();
+
+export const commentSchema = z.object({
+  content: z.string().trim().min(1).max(FORUM_CONFIG.MAX_COMMENT_LENGTH),
+  parentId: z.string().min(1).optional(),
+});
+
+export const updateCommentSchema = commentSchema.pick({ content: true });
+
+export const moderationSchema = z.object({
+  reason: z.string().trim().min(1).max(500).optional(),
+});
+
+export const movePostSchema = moderationSchema.extend({
+  categoryId: z.string().min(1),
+});
+
+export const mergePostsSchema = moderationSchema.extend({
+  targetPostId: z.string().min(1),
+});
+
+export const splitThreadSchema = moderationSchema.extend({
+  title: createPostSchema.shape.title,
+  categoryId: z.string().min(1).optional(),
+});
+
+const booleanQuery = z
+  .enum(['true', 'false'])
+  .transform(value => value === 'true')
+  .optional();
+
+export const forumPostListQuerySchema = pageQuerySchema.extend({
+  categoryId: z.string().min(1).optional(),
+  authorId: z.string().min(1).optional(),
+  isPinned: booleanQuery,
+  isLocked: booleanQuery,
+  hasReplies: booleanQuery,
+  dateFrom: z.coerce.date().optional(),
+  dateTo: z.coerce.date().optional(),
+  sort: z
+    .enum(['createdAt', 'updatedAt', 'viewCount', 'likeCount', 'replyCount'])
+    .default('updatedAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+});
+
+export const commentPageQuerySchema = pageQuerySchema.extend({
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(FORUM_CONFIG.COMMENT_PAGE_SIZE)
+    .default(FORUM_CONFIG.COMMENT_PAGE_SIZE),
+});
+
+export const replyPageQuerySchema = z.object({
+  cursor: z.string().min(1).optional(),
+  levels: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .max(FORUM_CONFIG.MAX_COMMENT_DEPTH)
+    .default(FORUM_CONFIG.MAX_COMMENT_DEPTH - 1),
+});
+
+export const forumController = {
+  // Categories
+
+  listCategories: async (req: Request, res: Response) => {
+    sendSuccess(res, await forumService.listCategories(req.auth ?? null));
+  },
+
+  getCategory: async (req: Request, res: Response) => {
+    const category = await forumService.getCategory(
+      req.auth ?? null,
+      req.params.slug
+    );
+    sendSuccess(res, category);
+  },
+
+  createCategory: async (req: Request, res: Response) => {
+    const category = await forumService.createCategory(req.body);
+    sendSuccess(res, category, { status: 201 });
+  },
+
+  updateCategory: async (req: Request, res: Response) => {
+    const category = await forumService.updateCategory(req.params.id, req.body);
+    sendSuccess(res, category);
+  },
+
+  // Posts
+
+  listPosts: async (req: Request, res: Response) => {
+    const { page, limit, sort, order, ...filter } =
+      forumPostListQuerySchema.parse(req.query);
+    const { posts, total } = await forumService.listPosts(req.auth ?? null, {
+      filter,
+      sort: { field: sort, order },
+      page,
+      limit,
+    });
+    sendSuccess(res, posts, { meta: pageMeta(page, limit, total) });
+  },
+
+  getPost: async (req: Request, res: Response) => {
+    const post = await forumService.getPost(req.auth ?? null, req.params.id);
+    sendSuccess(res, post);
+  },
+
+  createPost: async (req: Request, res: Response) => {
+    const post = await forumService.createPost(req.auth!, req.body);
+    sendSuccess(res, post, { status: 201 });
+  },
+
+  updatePost: async (req: Request, res: Response) => {
+    const post = await forumService.updatePost(
+      req.auth!,
+      req.params.id,
+      req.body
+    );
+    sendSuccess(res, post);
+  },
+
+  deletePost: async (req: Request, res: Response) => {
+    await forumService.deletePost(req.auth!, req.params.id);
+    sendSuccess(res, null, { message: 'Post deleted' });
+  },
+
+  // Comments
+
+  listComments: async (req: Request, res: Response) => {
+    const { page, limit } = commentPageQuerySchema.parse(req.query);
+    const { comments, total } = await forumService.listComments(
+      req.auth ?? null,
+      req.params.id,
+      page,
+      limit
+    );
+    sendSuccess(res, comments, { meta: pageMeta(page, limit, total) });
+  },
+
+  addComment: async (req: Request, res: Response) => {
+    const comment = await forumService.addComment(req.auth!, {
+      ...req.body,
+      postId: req.params.id,
+    });
+    sendSuccess(res, comment, { status: 201 });
+  },
+
+  getThread: async (req: Request, res: Response) => {
+    const comment = await forumService.getThread(
+      req.auth ?? null,
+      req.params.id
+    );
+    sendSuccess(res, comment);
+  },
+
+  getReplies: async (req: Request, res: Response) => {
+    const page = await forumService.getReplies(
+      req.auth ?? null,
+      req.params.id,
+      replyPageQuerySchema.parse(req.query)
+    );
+    sendSuccess(res, page);
+  },
+
+  updateComment: async (req: Request, res: Response) => {
+    const comment = await forumService.updateComment(
+      req.auth!,
+      req.params.id,
+      req.body.content
+    );
+    sendSuccess(res, comment);
+  },
+
+  deleteComment: async (req: Request, res: Response) => {
+    sendSuccess(
+      res,
+      await forumService.deleteComment(req.auth!, req.params.id)
+    );
+  },
+
+  // Moderation
+
+  pinPost: (pinned: boolean) => async (req: Request, res: Response) => {
+    const post = await forumService.pinPost(
+      req.auth!,
+      req.params.id,
+      pinned,
+      req.body
+    );
+    sendSuccess(res, post);
+  },
+
+  lockPost: (locked: boolean) => async (req: Request, res: Response) => {
+    const post = await forumService.lockPost(
+      req.auth!,
+      req.params.id,
+      locked,
+      req.body
+    );
+    sendSuccess(res, post);
+  },
+
+  movePost: async (req: Request, res: Response) => {
+    const post = await forumService.movePost(
+      req.auth!,
+      req.params.id,
+      req.body
+    );
+    sendSuccess(res, post);
+  },
+
+  mergePosts: async (req: Request, res: Response) => {
+    const post = await forumService.mergePosts(
+      req.auth!,
+      req.params.id,
+      req.body
+    );
+    sendSuccess(res, post, { message: 'Threads merged' });
+  },
+
+  splitThread: async (req: Request, res: Response) => {
+    const post = await forumService.splitThread(
+      req.auth!,
+      req.params.id,
+      req.body
+    );
+    sendSuccess(res, post, { status: 201 });
+  },
+};
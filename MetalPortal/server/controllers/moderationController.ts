@@ -0,0 +1,33 @@
+// Moderation route handlers
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { ModerationAction } from '../../src/types/moderation';
+import { MODERATION_CONFIG } from '../../src/utils/constants';
+import { moderationService } from '../services/moderationService';
+import { pageMeta, pageQuerySchema } from '../utils/pagination';
+import { sendSuccess } from '../utils/response';
+
+export const moderationLogQuerySchema = pageQuerySchema.extend({
+  action: z.nativeEnum(ModerationAction).optional(),
+  moderatorId: z.string().min(1).optional(),
+  targetType: z
+    .enum(MODERATION_CONFIG.REPORT_TARGET_TYPES)
+    .or(z.enum(['report', 'content_filter']))
+    .optional(),
+  targetId: z.string().min(1).optional(),
+});
+
+export const moderationController = {
+  listLog: async (req: Request, res: Response) => {
+    const { page, limit, ...filter } = moderationLogQuerySchema.parse(
+      req.query
+    );
+    const { entries, total } = await moderationService.listLog(
+      filter,
+      page,
+      limit
+    );
+    sendSuccess(res, entries, { meta: pageMeta(page, limit, total) });
+  },
+};
@@ -0,0 +1,114 @@
+// Notification route handlers
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { notificationService } from '../services/notificationService';
+import { pushService } from '../services/pushService';
+import { NOTIFICATION_CONFIG } from '../../src/utils/constants';
+import { pageMeta, pageQuerySchema } from '../utils/pagination';
+import { sendSuccess } from '../utils/response';
+
+const timeOfDay = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a time as HH:mm');
+
+const isTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Request schemas
+export const notificationListQuerySchema = pageQuerySchema.extend({
+  unreadOnly: z
+    .enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .optional(),
+});
+
+export const notificationPreferencesSchema = z
+  .object({
+    newPosts: z.boolean(),
+    newComments: z.boolean(),
+    directMessages: z.boolean(),
+    mentions: z.boolean(),
+    reactions: z.boolean(),
+    events: z.boolean(),
+    subscriptionUpdates: z.boolean(),
+    quietHours: z.object({
+      enabled: z.boolean(),
+      start: timeOfDay,
+      end: timeOfDay,
+      timeZone: z.string().refine(isTimeZone, 'Unknown time zone'),
+    }),
+    digest: z.object({
+      frequency: z.enum(['off', 'hourly', 'daily']),
+      types: z
+        .array(z.enum(NOTIFICATION_CONFIG.DIGEST_TYPES))
+        .transform(types => [...new Set(types)]),
+    }),
+  })
+  .partial()
+  .strict();
+
+export const registerDeviceSchema = z.object({
+  token: z.string().trim().min(1).max(255),
+  platform: z.enum(['ios', 'android']),
+});
+
+export const notificationController = {
+  list: async (req: Request, res: Response) => {
+    const { page, limit, unreadOnly } = notificationListQuerySchema.parse(
+      req.query
+    );
+    const { notifications, total } = await notificationService.list(
+      req.auth!.sub,
+      { unreadOnly },
+      page,
+      limit
+    );
+    sendSuccess(res, notifications, { meta: pageMeta(page, limit, total) });
+  },
+
+  stats: async (req: Request, res: Response) => {
+    sendSuccess(res, await notificationService.stats(req.auth!.sub));
+  },
+
+  markRead: async (req: Request, res: Response) => {
+    const notification = await notificationService.markRead(
+      req.auth!.sub,
+      req.params.id
+    );
+    sendSuccess(res, notification);
+  },
+
+  markAllRead: async (req: Request, res: Response) => {
+    sendSuccess(res, await notificationService.markAllRead(req.auth!.sub));
+  },
+
+  getPreferences: async (req: Request, res: Response) => {
+    sendSuccess(res, await notificationService.getPreferences(req.auth!.sub));
+  },
+
+  updatePreferences: async (req: Request, res: Response) => {
+    const preferences = await notificationService.updatePreferences(
+      req.auth!.sub,
+      req.body
+    );
+    sendSuccess(res, preferences);
+  },
+
+  // Push notifications go to the device signed in with the current session
+  registerDevice: async (req: Request, res: Response) => {
+    await pushService.registerDevice(req.auth!.sid, req.body);
+    sendSuccess(res, null, { message: 'Device registered' });
+  },
+
+  unregisterDevice: async (req: Request, res: Response) => {
+    await pushService.unregisterDevice(req.auth!.sid);
+    sendSuccess(res, null, { message: 'Device unregistered' });
+  },
+};
@@ -0,0 +1,61 @@
+// Post route handlers
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { ContentAccessLevel, PostType } from '../../src/types/post';
+import { POST_CONFIG } from '../../src/utils/constants';
+import { postService } from '../services/postService';
+import { pageMeta, pageQuerySchema } from '../utils/pagination';
+import { sendSuccess } from '../utils/response';
+
+// Request schemas
+export const postListQuerySchema = pageQuerySchema.extend({
+  type: z.nativeEnum(PostType).optional(),
+  accessLevel: z.nativeEnum(ContentAccessLevel).optional(),
+  category: z.string().min(1).optional(),
+  authorId: z.string().min(1).optional(),
+  // Comma separated, as sent by the app
+  tags: z
+    .string()
+    .transform(value => value.split(',').filter(Boolean))
+    .optional(),
+  dateFrom: z.coerce.date().optional(),
+  dateTo: z.coerce.date().optional(),
+  sort: z
+    .enum(['createdAt', 'updatedAt', 'publishedAt', 'viewCount', 'likeCount'])
+    .default('publishedAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+});
+
+export const commentSchema = z.object({
+  content: z.string().trim().min(1).max(POST_CONFIG.MAX_COMMENT_LENGTH),
+  parentId: z.string().min(1).optional(),
+});
+
+export const postController = {
+  list: async (req: Request, res: Response) => {
+    const { page, limit, sort, order, ...filter } = postListQuerySchema.parse(
+      req.query
+    );
+    const { posts, total } = await postService.list(req.auth ?? null, {
+      filter,
+      sort: { field: sort, order },
+      page,
+      limit,
+    });
+    sendSuccess(res, posts, { meta: pageMeta(page, limit, total) });
+  },
+
+  get: async (req: Request, res: Response) => {
+    const post = await postService.get(req.auth ?? null, req.params.id);
+    sendSuccess(res, post);
+  },
+
+  addComment: async (req: Request, res: Response) => {
+    const comment = await postService.addComment(req.auth!, {
+      ...req.body,
+      postId: req.params.id,
+    });
+    sendSuccess(res, comment, { status: 201 });
+  },
+};
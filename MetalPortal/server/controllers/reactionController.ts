@@ -0,0 +1,24 @@
+// Reaction route handlers
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { ReactionType } from '../../src/types/post';
+import { reactionService, ReactionTargetKind } from '../services/reactionService';
+import { sendSuccess } from '../utils/response';
+
+// Request schemas
+export const reactSchema = z.object({
+  type: z.nativeEnum(ReactionType),
+});
+
+export const reactionController = {
+  react: (kind: ReactionTargetKind) => async (req: Request, res: Response) => {
+    const summary = await reactionService.react(req.auth!, kind, req.params.id, req.body.type);
+    sendSuccess(res, summary);
+  },
+
+  unreact: (kind: ReactionTargetKind) => async (req: Request, res: Response) => {
+    const summary = await reactionService.unreact(req.auth!, kind, req.params.id);
+    sendSuccess(res, summary);
+  },
+};
@@ -0,0 +1,138 @@
+// Report and moderation queue route handlers
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  ReportOutcome,
+  ReportReason,
+  ReportStatus,
+} from '../../src/types/moderation';
+import { MODERATION_CONFIG } from '../../src/utils/constants';
+import { reportService } from '../services/reportService';
+import { pageMeta, pageQuerySchema } from '../utils/pagination';
+import { sendSuccess } from '../utils/response';
+
+const reportTargetType = z.enum(MODERATION_CONFIG.REPORT_TARGET_TYPES);
+
+const note = z
+  .string()
+  .trim()
+  .min(1)
+  .max(MODERATION_CONFIG.MAX_RESOLUTION_NOTE_LENGTH)
+  .optional();
+
+// Request schemas
+export const createReportSchema = z.object({
+  targetType: reportTargetType,
+  targetId: z.string().min(1),
+  reason: z.nativeEnum(ReportReason),
+  description: z
+    .string()
+    .trim()
+    .min(1)
+    .max(MODERATION_CONFIG.MAX_REPORT_DESCRIPTION_LENGTH)
+    .optional(),
+});
+
+// The moderator making the request when no assignee is given; null unassigns
+export const assignReportSchema = z.object({
+  assigneeId: z.string().min(1).nullable().optional(),
+});
+
+export const resolveReportSchema = z.object({
+  outcome: z.nativeEnum(ReportOutcome),
+  removeContent: z.boolean().optional(),
+  durationHours: z
+    .number()
+    .int()
+    .min(1)
+    .max(MODERATION_CONFIG.MAX_SANCTION_HOURS)
+    .optional(),
+  note,
+});
+
+export const dismissReportSchema = z.object({ note });
+
+const reportIds = z
+  .array(z.string().min(1))
+  .min(1)
+  .max(MODERATION_CONFIG.MAX_BULK_REPORTS);
+
+export const bulkReportSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('assign'),
+    reportIds,
+    assigneeId: z.string().min(1).nullable(),
+  }),
+  dismissReportSchema.extend({ action: z.literal('dismiss'), reportIds }),
+  resolveReportSchema.extend({ action: z.literal('resolve'), reportIds }),
+]);
+
+export const reportQueueQuerySchema = pageQuerySchema.extend({
+  status: z.nativeEnum(ReportStatus).optional(),
+  reason: z.nativeEnum(ReportReason).optional(),
+  targetType: reportTargetType.optional(),
+  targetUserId: z.string().min(1).optional(),
+  assigneeId: z.string().min(1).optional(),
+  unassigned: z
+    .enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .optional(),
+});
+
+export const reportController = {
+  create: async (req: Request, res: Response) => {
+    const report = await reportService.create(req.auth!, req.body);
+    sendSuccess(res, report, {
+      status: 201,
+      message: 'Thanks, our moderators will review this',
+    });
+  },
+
+  // Moderators
+
+  listQueue: async (req: Request, res: Response) => {
+    const { page, limit, ...filter } = reportQueueQuerySchema.parse(req.query);
+    const { reports, total } = await reportService.listQueue({
+      filter,
+      page,
+      limit,
+    });
+    sendSuccess(res, reports, { meta: pageMeta(page, limit, total) });
+  },
+
+  get: async (req: Request, res: Response) => {
+    sendSuccess(res, await reportService.get(req.params.id));
+  },
+
+  assign: async (req: Request, res: Response) => {
+    const { assigneeId } = req.body;
+    const report = await reportService.assign(
+      req.params.id,
+      assigneeId === undefined ? req.auth!.sub : assigneeId
+    );
+    sendSuccess(res, report);
+  },
+
+  resolve: async (req: Request, res: Response) => {
+    const report = await reportService.resolve(
+      req.auth!,
+      req.params.id,
+      req.body
+    );
+    sendSuccess(res, report);
+  },
+
+  dismiss: async (req: Request, res: Response) => {
+    const report = await reportService.dismiss(
+      req.auth!,
+      req.params.id,
+      req.body
+    );
+    sendSuccess(res, report);
+  },
+
+  bulk: async (req: Request, res: Response) => {
+    sendSuccess(res, await reportService.bulk(req.auth!, req.body));
+  },
+};
@@ -0,0 +1,130 @@
+// Sanction and appeal route handlers
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  AppealStatus,
+  SanctionScope,
+  SanctionType,
+} from '../../src/types/moderation';
+import { MODERATION_CONFIG } from '../../src/utils/constants';
+import { sanctionService } from '../services/sanctionService';
+import { pageMeta, pageQuerySchema } from '../utils/pagination';
+import { sendSuccess } from '../utils/response';
+
+const note = z
+  .string()
+  .trim()
+  .min(1)
+  .max(MODERATION_CONFIG.MAX_RESOLUTION_NOTE_LENGTH);
+
+// Request schemas
+export const createSanctionSchema = z
+  .object({
+    type: z.nativeEnum(SanctionType),
+    scope: z.nativeEnum(SanctionScope).default(SanctionScope.GLOBAL),
+    scopeId: z.string().min(1).optional(),
+    durationHours: z
+      .number()
+      .int()
+      .min(1)
+      .max(MODERATION_CONFIG.MAX_SANCTION_HOURS)
+      .optional(),
+    reason: note,
+  })
+  .refine(input => input.scope === SanctionScope.GLOBAL || input.scopeId, {
+    message: 'Room and category sanctions need a scopeId',
+    path: ['scopeId'],
+  });
+
+export const liftSanctionSchema = z.object({ reason: note.optional() });
+
+export const createAppealSchema = z.object({
+  message: z
+    .string()
+    .trim()
+    .min(1)
+    .max(MODERATION_CONFIG.MAX_APPEAL_MESSAGE_LENGTH),
+});
+
+export const reviewAppealSchema = z.object({ note: note.optional() });
+
+export const appealQueueQuerySchema = pageQuerySchema.extend({
+  status: z.nativeEnum(AppealStatus).optional(),
+});
+
+export const sanctionController = {
+  listMine: async (req: Request, res: Response) => {
+    sendSuccess(res, await sanctionService.listActive(req.auth!.sub));
+  },
+
+  appeal: async (req: Request, res: Response) => {
+    const appeal = await sanctionService.appeal(
+      req.auth!,
+      req.params.id,
+      req.body
+    );
+    sendSuccess(res, appeal, {
+      status: 201,
+      message: 'Your appeal was sent to the moderators',
+    });
+  },
+
+  // Moderators
+
+  listForUser: async (req: Request, res: Response) => {
+    const { page, limit } = pageQuerySchema.parse(req.query);
+    const { sanctions, total } = await sanctionService.listForUser(
+      req.params.id,
+      page,
+      limit
+    );
+    sendSuccess(res, sanctions, { meta: pageMeta(page, limit, total) });
+  },
+
+  create: async (req: Request, res: Response) => {
+    const sanction = await sanctionService.create(
+      req.auth!,
+      req.params.id,
+      req.body
+    );
+    sendSuccess(res, sanction, { status: 201 });
+  },
+
+  lift: async (req: Request, res: Response) => {
+    const sanction = await sanctionService.lift(
+      req.auth!,
+      req.params.id,
+      req.body
+    );
+    sendSuccess(res, sanction);
+  },
+
+  listAppeals: async (req: Request, res: Response) => {
+    const { page, limit, ...filter } = appealQueueQuerySchema.parse(req.query);
+    const { appeals, total } = await sanctionService.listAppeals(
+      filter,
+      page,
+      limit
+    );
+    sendSuccess(res, appeals, { meta: pageMeta(page, limit, total) });
+  },
+
+  acceptAppeal: async (req: Request, res: Response) => {
+    const appeal = await sanctionService.acceptAppeal(
+      req.auth!,
+      req.params.id,
+      req.body
+    );
+    sendSuccess(res, appeal);
+  },
+
+  rejectAppeal: async (req: Request, res: Response) => {
+    const appeal = await sanctionService.rejectAppeal(
+      req.auth!,
+      req.params.id,
+      req.body
+    );
+    sendSuccess(res, appeal);
+  },
+};
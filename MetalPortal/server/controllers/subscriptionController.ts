@@ -0,0 +1,182 @@
+// Subscription and billing route handlers
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { fakePaymentProvider, WEBHOOK_SIGNATURE_HEADER } from '../billing';
+import { SubscriptionTier } from '../../src/types/auth';
+import { PromoCodeKind } from '../../src/types/subscription';
+import {
+  BILLING_CURRENCIES,
+  DEFAULT_CURRENCY,
+} from '../../src/utils/constants';
+import { promoCodeService } from '../services/promoCodeService';
+import { subscriptionService } from '../services/subscriptionService';
+import { notFound } from '../utils/errors';
+import { sendSuccess } from '../utils/response';
+
+// Request schemas
+const paidTierSchema = z.enum([SubscriptionTier.PREMIUM, SubscriptionTier.VIP]);
+const intervalSchema = z.enum(['month', 'year']);
+const currencySchema = z.enum(BILLING_CURRENCIES);
+
+export const planSchema = z.object({
+  tier: paidTierSchema,
+  interval: intervalSchema.optional(),
+});
+
+export const subscribeSchema = planSchema.extend({
+  currency: currencySchema.optional(),
+  promoCode: z.string().trim().min(1).max(50).optional(),
+});
+
+const plansQuerySchema = z.object({
+  currency: currencySchema.default(DEFAULT_CURRENCY),
+});
+
+const promoCodeQuerySchema = z.object({
+  tier: paidTierSchema.optional(),
+  interval: intervalSchema.optional(),
+  currency: currencySchema.optional(),
+});
+
+export const createPromoCodeSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z0-9_-]{3,50}$/, 'Use 3-50 letters, digits, - or _'),
+    description: z.string().trim().min(1).max(200),
+    kind: z.nativeEnum(PromoCodeKind),
+    percentOff: z.number().int().min(1).max(100).optional(),
+    amountOff: z.number().int().positive().optional(),
+    currency: currencySchema.optional(),
+    trialDays: z.number().int().min(1).max(365).optional(),
+    durationInPeriods: z.number().int().min(1).max(36).default(1),
+    tiers: z.array(paidTierSchema).default([]),
+    intervals: z.array(intervalSchema).default([]),
+    maxRedemptions: z.number().int().positive().optional(),
+    startsAt: z.coerce.date().optional(),
+    expiresAt: z.coerce.date().optional(),
+  })
+  .refine(
+    input =>
+      ({
+        [PromoCodeKind.PERCENT_OFF]: input.percentOff !== undefined,
+        [PromoCodeKind.AMOUNT_OFF]:
+          input.amountOff !== undefined && input.currency !== undefined,
+        [PromoCodeKind.FREE_TRIAL]: input.trialDays !== undefined,
+      })[input.kind],
+    {
+      message:
+        'PERCENT_OFF codes need percentOff, AMOUNT_OFF codes amountOff and currency, FREE_TRIAL codes trialDays',
+    }
+  )
+  .refine(
+    input =>
+      !input.startsAt || !input.expiresAt || input.startsAt < input.expiresAt,
+    { message: 'expiresAt must be after startsAt', path: ['expiresAt'] }
+  );
+
+export const advanceClockSchema = z.object({
+  days: z.number().positive().max(3650),
+});
+
+export const paymentOutcomeSchema = z.object({
+  outcome: z.enum(['succeed', 'decline']),
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const requireSimulator = () => {
+  const provider = fakePaymentProvider();
+  if (!provider) {
+    throw notFound('The payment simulator is not available');
+  }
+  return provider.simulator;
+};
+
+export const subscriptionController = {
+  plans: async (req: Request, res: Response) => {
+    const { currency } = plansQuerySchema.parse(req.query);
+    sendSuccess(res, subscriptionService.getPlans(currency));
+  },
+
+  current: async (req: Request, res: Response) => {
+    const subscription = await subscriptionService.getCurrent(req.auth!.sub);
+    sendSuccess(res, subscription);
+  },
+
+  history: async (req: Request, res: Response) => {
+    const subscriptions = await subscriptionService.getHistory(req.auth!.sub);
+    sendSuccess(res, subscriptions);
+  },
+
+  subscribe: async (req: Request, res: Response) => {
+    const subscription = await subscriptionService.subscribe(
+      req.auth!.sub,
+      req.body
+    );
+    sendSuccess(res, subscription, { status: 201 });
+  },
+
+  update: async (req: Request, res: Response) => {
+    const result = await subscriptionService.changePlan(
+      req.auth!.sub,
+      req.body
+    );
+    sendSuccess(res, result);
+  },
+
+  cancel: async (req: Request, res: Response) => {
+    const subscription = await subscriptionService.cancel(req.auth!.sub);
+    sendSuccess(res, subscription, {
+      message: 'Your subscription will end with the current billing period',
+    });
+  },
+
+  // Checked against whatever part of the plan the query names
+  previewPromoCode: async (req: Request, res: Response) => {
+    const promo = await promoCodeService.preview(
+      req.auth!.sub,
+      req.params.code,
+      promoCodeQuerySchema.parse(req.query)
+    );
+    sendSuccess(res, promo);
+  },
+
+  listPromoCodes: async (_req: Request, res: Response) => {
+    sendSuccess(res, await promoCodeService.list());
+  },
+
+  createPromoCode: async (req: Request, res: Response) => {
+    const promo = await promoCodeService.create(req.body);
+    sendSuccess(res, promo, { status: 201 });
+  },
+
+  // The raw body is needed to check the signature
+  webhook: async (req: Request, res: Response) => {
+    await subscriptionService.handleWebhook(
+      req.body,
+      req.get(WEBHOOK_SIGNATURE_HEADER) ?? ''
+    );
+    sendSuccess(res, { received: true });
+  },
+
+  // Fake provider controls for driving renewals and failures by hand
+  advanceClock: async (req: Request, res: Response) => {
+    const simulator = requireSimulator();
+    await simulator.advanceClock(req.body.days * DAY);
+    await simulator.settle();
+    sendSuccess(res, { now: simulator.now() });
+  },
+
+  setPaymentOutcome: async (req: Request, res: Response) => {
+    const simulator = requireSimulator();
+    const customerId = await subscriptionService.getCustomerId(req.auth!.sub);
+    if (!customerId) {
+      throw notFound('No payment customer for this account');
+    }
+    simulator.setPaymentOutcome(customerId, req.body.outcome);
+    sendSuccess(res, { outcome: req.body.outcome });
+  },
+};
@@ -0,0 +1,59 @@
+// Upload route handlers
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { MediaKind } from '../middleware/upload';
+import { chunkedUploadService } from '../services/chunkedUploadService';
+import { mediaService } from '../services/mediaService';
+import { badRequest } from '../utils/errors';
+import { sendSuccess } from '../utils/response';
+
+// Request schemas
+export const initUploadSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  mimeType: z.string().min(1),
+  fileSize: z.number().int().positive(),
+  kind: z.enum(['image', 'video', 'audio', 'file']),
+});
+
+export const uploadController = {
+  single: (kind: MediaKind) => async (req: Request, res: Response) => {
+    if (!req.file) {
+      throw badRequest('No file was uploaded');
+    }
+    sendSuccess(res, mediaService.toMediaFile(req.file, kind), { status: 201 });
+  },
+
+  initSession: async (req: Request, res: Response) => {
+    const status = await chunkedUploadService.init(req.auth!.sub, req.body);
+    sendSuccess(res, status, { status: 201 });
+  },
+
+  getSession: async (req: Request, res: Response) => {
+    const status = await chunkedUploadService.getStatus(req.auth!.sub, req.params.id);
+    sendSuccess(res, status);
+  },
+
+  putChunk: async (req: Request, res: Response) => {
+    if (!Buffer.isBuffer(req.body)) {
+      throw badRequest('Chunk body must be application/octet-stream');
+    }
+    const status = await chunkedUploadService.putChunk(
+      req.auth!.sub,
+      req.params.id,
+      Number(req.params.index),
+      req.body
+    );
+    sendSuccess(res, status);
+  },
+
+  completeSession: async (req: Request, res: Response) => {
+    const media = await chunkedUploadService.complete(req.auth!.sub, req.params.id);
+    sendSuccess(res, media, { status: 201 });
+  },
+
+  abortSession: async (req: Request, res: Response) => {
+    await chunkedUploadService.abort(req.auth!.sub, req.params.id);
+    sendSuccess(res, null);
+  },
+};
@@ -0,0 +1,20 @@
+// Server entry point
+
+import http from 'http';
+import { createApp } from './app';
+import { env } from './config/env';
+import { jobRunner } from './jobs';
+import { createRealtimeGateway } from './realtime/gateway';
+import { pushService } from './services/pushService';
+import { logger } from './utils/logger';
+
+const app = createApp();
+const server = http.createServer(app);
+
+createRealtimeGateway(server);
+pushService.start();
+jobRunner.start();
+
+server.listen(env.PORT, () => {
+  logger.info(`MetalPortal API listening on http://localhost:${env.PORT}${env.API_PREFIX}`);
+});
@@ -0,0 +1,76 @@
+import { logger } from '../../utils/logger';
+import { createJobRunner, Job } from '../runner';
+
+jest.mock('../../utils/logger');
+
+// A run the test finishes by hand
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>(res => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+describe('job runner', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('runs each job at once and then on its interval', async () => {
+    jest.useFakeTimers();
+    const run = jest.fn().mockResolvedValue(undefined);
+    const runner = createJobRunner([{ name: 'tick', intervalMs: 1000, run }]);
+
+    runner.start();
+    runner.start();
+    expect(run).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(2500);
+    expect(run).toHaveBeenCalledTimes(3);
+
+    runner.stop();
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it('never overlaps a job with itself', async () => {
+    const first = deferred();
+    const run = jest
+      .fn()
+      .mockReturnValueOnce(first.promise)
+      .mockResolvedValue(undefined);
+    const runner = createJobRunner([{ name: 'slow', intervalMs: 1000, run }]);
+
+    const started = runner.runNow('slow');
+    await runner.runNow('slow');
+    expect(run).toHaveBeenCalledTimes(1);
+
+    first.resolve();
+    await started;
+    await runner.runNow('slow');
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('logs a failed run and keeps the job scheduled', async () => {
+    const now = new Date('2026-03-01T12:00:00Z');
+    const job: Job = {
+      name: 'flaky',
+      intervalMs: 1000,
+      run: jest
+        .fn()
+        .mockRejectedValueOnce(new Error('Database is down'))
+        .mockResolvedValue(undefined),
+    };
+    const runner = createJobRunner([job]);
+
+    await runner.runNow('flaky', now);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Job flaky failed:',
+      expect.objectContaining({ message: 'Database is down' })
+    );
+    await runner.runNow('flaky', now);
+    expect(job.run).toHaveBeenCalledTimes(2);
+    expect(job.run).toHaveBeenLastCalledWith(now);
+    await expect(runner.runNow('missing')).rejects.toThrow(
+      'Unknown job: missing'
+    );
+  });
+});
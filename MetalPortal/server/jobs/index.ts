@@ -0,0 +1,47 @@
+// Scheduled jobs of the API server
+
+import { env } from '../config/env';
+import { chunkedUploadService } from '../services/chunkedUploadService';
+import { dunningService } from '../services/dunningService';
+import { notificationService } from '../services/notificationService';
+import { pushService } from '../services/pushService';
+import { createJobRunner } from './runner';
+
+export const jobRunner = createJobRunner([
+  {
+    // Order matters within a run: retry first so a recovered payment is not
+    // expired in the same pass
+    name: 'subscription-dunning',
+    intervalMs: env.JOB_INTERVAL,
+    run: async now => {
+      await dunningService.retryPayments(now);
+      await dunningService.sendGraceReminders(now);
+      await dunningService.expireLapsed(now);
+    },
+  },
+  {
+    name: 'new-post-notifications',
+    intervalMs: env.NOTIFICATION_JOB_INTERVAL,
+    run: notificationService.announcePublishedPosts,
+  },
+  {
+    name: 'notification-digests',
+    intervalMs: env.NOTIFICATION_JOB_INTERVAL,
+    run: notificationService.sendDigests,
+  },
+  {
+    name: 'event-reminders',
+    intervalMs: env.JOB_INTERVAL,
+    run: notificationService.sendEventReminders,
+  },
+  {
+    name: 'push-receipts',
+    intervalMs: env.JOB_INTERVAL,
+    run: pushService.checkReceipts,
+  },
+  {
+    name: 'expired-uploads',
+    intervalMs: env.JOB_INTERVAL,
+    run: chunkedUploadService.purgeExpired,
+  },
+]);
@@ -0,0 +1,61 @@
+// Minimal in-process scheduler for periodic jobs
+//
+// Each job runs on its own interval and never overlaps itself. Jobs must be
+// safe to run late or twice; with several server instances each would run
+// them, so they should also be safe to run concurrently.
+
+import { logger } from '../utils/logger';
+
+export interface Job {
+  name: string;
+  intervalMs: number;
+  run: (now: Date) => Promise<void>;
+}
+
+export interface JobRunner {
+  start: () => void;
+  stop: () => void;
+  // Run one job immediately, e.g. from a script or a test
+  runNow: (name: string, now?: Date) => Promise<void>;
+}
+
+export const createJobRunner = (jobs: Job[]): JobRunner => {
+  const timers = new Map<string, ReturnType<typeof setInterval>>();
+  const running = new Set<string>();
+
+  const execute = async (job: Job, now = new Date()) => {
+    if (running.has(job.name)) return;
+    running.add(job.name);
+    try {
+      await job.run(now);
+    } catch (error) {
+      logger.error(`Job ${job.name} failed:`, error);
+    } finally {
+      running.delete(job.name);
+    }
+  };
+
+  return {
+    start: () => {
+      jobs.forEach(job => {
+        if (timers.has(job.name)) return;
+        const timer = setInterval(() => void execute(job), job.intervalMs);
+        // Scheduled jobs alone should not keep the process alive
+        timer.unref?.();
+        timers.set(job.name, timer);
+        void execute(job);
+      });
+    },
+
+    stop: () => {
+      timers.forEach(timer => clearInterval(timer));
+      timers.clear();
+    },
+
+    runNow: async (name, now) => {
+      const job = jobs.find(candidate => candidate.name === name);
+      if (!job) throw new Error(`Unknown job: ${name}`);
+      await execute(job, now);
+    },
+  };
+};
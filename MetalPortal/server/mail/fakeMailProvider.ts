@@ -0,0 +1,33 @@
+// In-process mail provider for development and tests
+//
+// Keeps every message instead of sending it, so a reset link can be read back
+// without a mailbox.
+
+import { MailMessage, MailProvider } from './provider';
+
+export interface FakeMailSimulator {
+  // Every message accepted so far, oldest first
+  sent: () => MailMessage[];
+  reset: () => void;
+}
+
+export type FakeMailProvider = MailProvider & {
+  simulator: FakeMailSimulator;
+};
+
+export const createFakeMailProvider = (): FakeMailProvider => {
+  const sent: MailMessage[] = [];
+
+  return {
+    send: async message => {
+      sent.push(message);
+    },
+
+    simulator: {
+      sent: () => [...sent],
+      reset: () => {
+        sent.length = 0;
+      },
+    },
+  };
+};
@@ -0,0 +1,31 @@
+// The configured mail provider
+
+import { env } from '../config/env';
+import { createFakeMailProvider, FakeMailProvider } from './fakeMailProvider';
+import { MailProvider } from './provider';
+import { createResendMailProvider } from './resendMailProvider';
+
+const createMailProvider = (): MailProvider => {
+  switch (env.MAIL_PROVIDER) {
+    case 'resend':
+      if (!env.RESEND_API_KEY) {
+        throw new Error('RESEND_API_KEY must be set to send mail through Resend');
+      }
+      return createResendMailProvider({
+        apiKey: env.RESEND_API_KEY,
+        from: env.MAIL_FROM,
+      });
+    case 'fake':
+      return createFakeMailProvider();
+    default:
+      throw new Error(`Unknown mail provider: ${env.MAIL_PROVIDER}`);
+  }
+};
+
+export const mailProvider = createMailProvider();
+
+// The simulator controls, when running against the fake provider
+export const fakeMailProvider = (): FakeMailProvider | null =>
+  'simulator' in mailProvider ? (mailProvider as FakeMailProvider) : null;
+
+export * from './provider';
@@ -0,0 +1,13 @@
+// Mail provider contract
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailProvider {
+  // Resolves once the provider has accepted the message for delivery
+  send: (message: MailMessage) => Promise<void>;
+}
@@ -0,0 +1,37 @@
+// Resend transactional email API
+
+import { MailProvider } from './provider';
+
+export interface ResendMailProviderOptions {
+  apiKey: string;
+  // Sender address on a domain verified with Resend
+  from: string;
+}
+
+const API_URL = 'https://api.resend.com/emails';
+
+export const createResendMailProvider = ({
+  apiKey,
+  from,
+}: ResendMailProviderOptions): MailProvider => ({
+  send: async message => {
+    const response = await fetch(API_URL, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        ...(message.html && { html: message.html }),
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Resend responded with ${response.status}`);
+    }
+  },
+});
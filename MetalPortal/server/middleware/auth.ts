@@ -0,0 +1,53 @@
+// Authentication and role middleware
+
+import { NextFunction, Request, Response } from 'express';
+import { UserRole } from '../../src/types/auth';
+import { forbidden, unauthorized } from '../utils/errors';
+import { verifyAccessToken } from '../utils/tokens';
+
+const extractBearerToken = (req: Request): string | null => {
+  const header = req.headers.authorization;
+  if (!header?.startsWith('Bearer ')) return null;
+  return header.slice('Bearer '.length).trim() || null;
+};
+
+// Require a valid access token
+export const requireAuth = (req: Request, _res: Response, next: NextFunction) => {
+  const token = extractBearerToken(req);
+  if (!token) {
+    return next(unauthorized());
+  }
+
+  try {
+    req.auth = verifyAccessToken(token);
+    next();
+  } catch {
+    next(unauthorized('Invalid or expired access token'));
+  }
+};
+
+// Attach the user if a valid token is present, but allow anonymous access
+export const optionalAuth = (req: Request, _res: Response, next: NextFunction) => {
+  const token = extractBearerToken(req);
+  if (token) {
+    try {
+      req.auth = verifyAccessToken(token);
+    } catch {
+      // Treat an invalid token as anonymous
+    }
+  }
+  next();
+};
+
+// Require one of the given roles (use after requireAuth)
+export const requireRole =
+  (...roles: UserRole[]) =>
+  (req: Request, _res: Response, next: NextFunction) => {
+    if (!req.auth) {
+      return next(unauthorized());
+    }
+    if (!roles.includes(req.auth.role)) {
+      return next(forbidden());
+    }
+    next();
+  };
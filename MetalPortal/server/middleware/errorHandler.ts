@@ -0,0 +1,70 @@
+// Error handling middleware
+
+import { NextFunction, Request, Response } from 'express';
+import { MulterError } from 'multer';
+import { ZodError } from 'zod';
+import { ApiResponse } from '../../src/types/api';
+import { ERROR_MESSAGES } from '../../src/utils/constants';
+import { HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export const notFoundHandler = (_req: Request, res: Response) => {
+  const body: ApiResponse = {
+    success: false,
+    message: ERROR_MESSAGES.NOT_FOUND,
+    error: 'NOT_FOUND',
+  };
+  res.status(404).json(body);
+};
+
+// Express recognises error handlers by their four parameters
+export const errorHandler = (err: unknown, _req: Request, res: Response, next: NextFunction) => {
+  // A response already under way can only be cut off; Express does that
+  if (res.headersSent) {
+    return next(err);
+  }
+
+  if (err instanceof ZodError) {
+    const errors: Record<string, string[]> = {};
+    err.issues.forEach(issue => {
+      const field = issue.path.join('.') || '_';
+      errors[field] = [...(errors[field] || []), issue.message];
+    });
+
+    const body: ApiResponse = {
+      success: false,
+      message: ERROR_MESSAGES.VALIDATION_ERROR,
+      error: 'VALIDATION_ERROR',
+      errors,
+    };
+    return res.status(400).json(body);
+  }
+
+  if (err instanceof MulterError) {
+    const tooLarge = err.code === 'LIMIT_FILE_SIZE';
+    const body: ApiResponse = {
+      success: false,
+      message: tooLarge ? ERROR_MESSAGES.FILE_TOO_LARGE : err.message,
+      error: err.code,
+    };
+    return res.status(tooLarge ? 413 : 400).json(body);
+  }
+
+  if (err instanceof HttpError) {
+    const body: ApiResponse & { details?: Record<string, unknown> } = {
+      success: false,
+      message: err.message,
+      error: err.error,
+      details: err.details,
+    };
+    return res.status(err.statusCode).json(body);
+  }
+
+  logger.error('Unhandled server error:', err);
+  const body: ApiResponse = {
+    success: false,
+    message: ERROR_MESSAGES.SERVER_ERROR,
+    error: 'INTERNAL_SERVER_ERROR',
+  };
+  res.status(500).json(body);
+};
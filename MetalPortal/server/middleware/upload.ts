@@ -0,0 +1,44 @@
+// Multipart upload middleware
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import multer from 'multer';
+import { env } from '../config/env';
+import { FILE_UPLOAD } from '../../src/utils/constants';
+import { validateFile } from '../../src/utils/validation';
+import { MediaFile } from '../../src/types/common';
+import { badRequest } from '../utils/errors';
+
+export type MediaKind = MediaFile['type'];
+
+export const MAX_UPLOAD_SIZE: Record<MediaKind, number> = {
+  image: FILE_UPLOAD.MAX_IMAGE_SIZE,
+  video: FILE_UPLOAD.MAX_VIDEO_SIZE,
+  audio: FILE_UPLOAD.MAX_AUDIO_SIZE,
+  file: FILE_UPLOAD.MAX_FILE_SIZE,
+};
+
+fs.mkdirSync(env.UPLOAD_DIR, { recursive: true });
+
+const storage = multer.diskStorage({
+  destination: env.UPLOAD_DIR,
+  filename: (_req, file, callback) => {
+    callback(null, `${crypto.randomUUID()}${path.extname(file.originalname).toLowerCase()}`);
+  },
+});
+
+// Accept a single "file" field of the given kind, enforcing FILE_UPLOAD limits
+export const uploadSingle = (kind: MediaKind) =>
+  multer({
+    storage,
+    limits: { fileSize: MAX_UPLOAD_SIZE[kind], files: 1 },
+    fileFilter: (_req, file, callback) => {
+      // Size is enforced by limits; only the type can be checked up front
+      const validation = validateFile({ size: 0, type: file.mimetype }, kind);
+      if (!validation.isValid) {
+        return callback(badRequest(validation.error || 'Invalid file'));
+      }
+      callback(null, true);
+    },
+  }).single('file');
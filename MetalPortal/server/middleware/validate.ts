@@ -0,0 +1,15 @@
+// Request validation middleware backed by Zod schemas
+
+import { NextFunction, Request, Response } from 'express';
+import { ZodSchema } from 'zod';
+
+export const validateBody =
+  <T>(schema: ZodSchema<T>) =>
+  (req: Request, _res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+      return next(result.error);
+    }
+    req.body = result.data;
+    next();
+  };
@@ -0,0 +1,83 @@
+// Expo push service
+//
+// Expo forwards to APNs and FCM using the credentials uploaded for the app, so
+// this one adapter covers both platforms for tokens from
+// Notifications.getExpoPushTokenAsync().
+
+import {
+  PushErrorCode,
+  PushProvider,
+  PushReceipt,
+  PushTicket,
+} from './provider';
+
+export interface ExpoPushProviderOptions {
+  // Only needed when enhanced push security is enabled for the project
+  accessToken?: string;
+}
+
+const API_URL = 'https://exp.host/--/api/v2/push';
+const TOKEN_PATTERN = /^Expo(nent)?PushToken\[[^\]]+\]$/;
+
+interface ExpoResult {
+  status: 'ok' | 'error';
+  id?: string;
+  message?: string;
+  details?: { error?: PushErrorCode };
+}
+
+const toError = (result: ExpoResult) => ({
+  status: 'error' as const,
+  message: result.message ?? 'Push failed',
+  error: result.details?.error ?? 'UnknownError',
+});
+
+export const createExpoPushProvider = ({
+  accessToken,
+}: ExpoPushProviderOptions): PushProvider => {
+  const post = async <T>(path: string, body: unknown): Promise<T> => {
+    const response = await fetch(`${API_URL}${path}`, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+        ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`Expo push service responded with ${response.status}`);
+    }
+    const { data } = (await response.json()) as { data: T };
+    return data;
+  };
+
+  return {
+    maxBatchSize: 100,
+    maxReceiptBatchSize: 1000,
+
+    isValidToken: token => TOKEN_PATTERN.test(token),
+
+    send: async messages => {
+      const results = await post<ExpoResult[]>('/send', messages);
+      return results.map(
+        (result): PushTicket =>
+          result.status === 'ok' && result.id
+            ? { status: 'ok', id: result.id }
+            : toError(result)
+      );
+    },
+
+    getReceipts: async ticketIds => {
+      const results = await post<Record<string, ExpoResult>>('/getReceipts', {
+        ids: ticketIds,
+      });
+      const receipts: Record<string, PushReceipt> = {};
+      Object.entries(results).forEach(([id, result]) => {
+        receipts[id] =
+          result.status === 'ok' ? { status: 'ok' } : toError(result);
+      });
+      return receipts;
+    },
+  };
+};
@@ -0,0 +1,78 @@
+// In-process push provider for development and tests
+//
+// Records every push instead of sending it and answers receipt checks like
+// Expo does. Tokens can be marked as unregistered to simulate an uninstalled
+// app: pushes to them fail on the ticket, and pushes already sent fail on the
+// receipt.
+
+import crypto from 'crypto';
+import { PushMessage, PushProvider, PushReceipt, PushTicket } from './provider';
+
+export interface FakePushSimulator {
+  // Every push accepted so far, oldest first
+  sent: () => PushMessage[];
+  // Make the token behave like one from an uninstalled app
+  markUnregistered: (token: string) => void;
+  reset: () => void;
+}
+
+export type FakePushProvider = PushProvider & {
+  simulator: FakePushSimulator;
+};
+
+const TOKEN_PATTERN = /^Expo(nent)?PushToken\[[^\]]+\]$/;
+
+const unregistered = (token: string) => ({
+  status: 'error' as const,
+  message: `"${token}" is not a registered push notification recipient`,
+  error: 'DeviceNotRegistered' as const,
+});
+
+export const createFakePushProvider = (): FakePushProvider => {
+  const sent: PushMessage[] = [];
+  // Token each accepted ticket was sent to
+  const tickets = new Map<string, string>();
+  const unregisteredTokens = new Set<string>();
+
+  return {
+    maxBatchSize: 100,
+    maxReceiptBatchSize: 1000,
+
+    isValidToken: token => TOKEN_PATTERN.test(token),
+
+    send: async messages =>
+      messages.map((message): PushTicket => {
+        if (unregisteredTokens.has(message.to)) {
+          return unregistered(message.to);
+        }
+        const id = crypto.randomUUID();
+        tickets.set(id, message.to);
+        sent.push(message);
+        return { status: 'ok', id };
+      }),
+
+    getReceipts: async ticketIds => {
+      const receipts: Record<string, PushReceipt> = {};
+      ticketIds.forEach(id => {
+        const token = tickets.get(id);
+        if (!token) return;
+        receipts[id] = unregisteredTokens.has(token)
+          ? unregistered(token)
+          : { status: 'ok' };
+      });
+      return receipts;
+    },
+
+    simulator: {
+      sent: () => [...sent],
+      markUnregistered: token => {
+        unregisteredTokens.add(token);
+      },
+      reset: () => {
+        sent.length = 0;
+        tickets.clear();
+        unregisteredTokens.clear();
+      },
+    },
+  };
+};
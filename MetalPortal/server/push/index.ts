@@ -0,0 +1,25 @@
+// The configured push provider
+
+import { env } from '../config/env';
+import { createExpoPushProvider } from './expoPushProvider';
+import { createFakePushProvider, FakePushProvider } from './fakePushProvider';
+import { PushProvider } from './provider';
+
+const createPushProvider = (): PushProvider => {
+  switch (env.PUSH_PROVIDER) {
+    case 'expo':
+      return createExpoPushProvider({ accessToken: env.EXPO_ACCESS_TOKEN });
+    case 'fake':
+      return createFakePushProvider();
+    default:
+      throw new Error(`Unknown push provider: ${env.PUSH_PROVIDER}`);
+  }
+};
+
+export const pushProvider = createPushProvider();
+
+// The simulator controls, when running against the fake provider
+export const fakePushProvider = (): FakePushProvider | null =>
+  'simulator' in pushProvider ? (pushProvider as FakePushProvider) : null;
+
+export * from './provider';
@@ -0,0 +1,44 @@
+// Push provider contract
+//
+// Modelled on Expo's push service: a send returns one ticket per message, and
+// whether the message reached the device is reported later by a receipt for
+// the ticket. Providers that deliver straight to APNs or FCM fit the same
+// shape by answering with receipts right away.
+
+export interface PushMessage {
+  to: string; // device push token
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  sound?: 'default' | null;
+  badge?: number;
+}
+
+// 'DeviceNotRegistered' means the token will never work again and should be
+// forgotten
+export type PushErrorCode =
+  | 'DeviceNotRegistered'
+  | 'MessageTooBig'
+  | 'MessageRateExceeded'
+  | 'InvalidCredentials'
+  | 'UnknownError';
+
+export type PushTicket =
+  | { status: 'ok'; id: string }
+  | { status: 'error'; message: string; error: PushErrorCode };
+
+export type PushReceipt =
+  | { status: 'ok' }
+  | { status: 'error'; message: string; error: PushErrorCode };
+
+export interface PushProvider {
+  // Largest number of messages accepted in one send
+  maxBatchSize: number;
+  // Largest number of receipts fetched in one request
+  maxReceiptBatchSize: number;
+  isValidToken: (token: string) => boolean;
+  // Tickets come back in the order of the messages
+  send: (messages: PushMessage[]) => Promise<PushTicket[]>;
+  // Receipts that are not ready yet are missing from the result
+  getReceipts: (ticketIds: string[]) => Promise<Record<string, PushReceipt>>;
+}
@@ -0,0 +1,232 @@
+import { EventEmitter } from 'events';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { io as connectClient, Socket } from 'socket.io-client';
+import { UserRole } from '../../../src/types/auth';
+import { MessageType } from '../../../src/types/chat';
+import { SanctionScope, SanctionType } from '../../../src/types/moderation';
+import {
+  ClientToServerEvents,
+  ServerToClientEvents,
+} from '../../../src/types/realtime';
+import { fakeDatabase, signIn } from '../../__tests__/fakeDatabase';
+import { env } from '../../config/env';
+import { sanctionService } from '../../services/sanctionService';
+import { AccessTokenPayload, signAccessToken } from '../../utils/tokens';
+import { createRealtimeGateway, RealtimeServer } from '../gateway';
+
+jest.mock('../../config/database', () =>
+  require('../../__tests__/fakeDatabase').fakeDatabaseModule()
+);
+jest.mock('../../utils/logger');
+
+type ClientSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+const nextEvent = (
+  socket: ClientSocket,
+  event: 'message:new' | 'dm:new' | 'room:revoked'
+) => new Promise(resolve => socket.once(event, resolve));
+
+// Emits the way a hand-rolled client could: any payload, no callback
+const emitRaw = (socket: ClientSocket, event: string, ...args: unknown[]) =>
+  (socket as unknown as Socket).emit(event, ...args);
+
+describe('realtime gateway', () => {
+  let io: RealtimeServer;
+  let url: string;
+  let clients: ClientSocket[];
+  let moderator: AccessTokenPayload;
+  let fan: AccessTokenPayload;
+  let friend: AccessTokenPayload;
+  let roomId: string;
+  // A handler that rejects would take the whole API process down
+  let rejections: unknown[];
+  const onRejection = (reason: unknown) => rejections.push(reason);
+
+  const connect = (token: string) =>
+    new Promise<ClientSocket>((resolve, reject) => {
+      const socket: ClientSocket = connectClient(url, {
+        auth: { token },
+        transports: ['websocket'],
+        reconnection: false,
+        forceNew: true,
+      });
+      clients.push(socket);
+      socket.once('connect', () => resolve(socket));
+      socket.once('connect_error', reject);
+    });
+
+  // Connects and joins the room
+  const enter = async (viewer: AccessTokenPayload) => {
+    const socket = await connect(signAccessToken(viewer));
+    const joined = await socket.emitWithAck('room:join', roomId);
+    expect(joined.ok).toBe(true);
+    return socket;
+  };
+
+  const send = (socket: ClientSocket, content: string) =>
+    socket.emitWithAck('message:send', {
+      roomId,
+      content,
+      type: MessageType.TEXT,
+    });
+
+  beforeEach(async () => {
+    fakeDatabase.reset();
+    moderator = signIn('moderator', UserRole.MODERATOR);
+    fan = signIn('fan');
+    friend = signIn('friend');
+    roomId = fakeDatabase.table('chatRoom').insert({ name: 'Lobby' }).id;
+    clients = [];
+    rejections = [];
+    process.on('unhandledRejection', onRejection);
+
+    const httpServer = createServer();
+    io = createRealtimeGateway(httpServer, {
+      accessEvents: new EventEmitter(),
+      notificationEvents: new EventEmitter(),
+    });
+    await new Promise<void>(resolve => httpServer.listen(0, resolve));
+    url = `http://localhost:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    process.off('unhandledRejection', onRejection);
+    clients.forEach(socket => socket.disconnect());
+    await new Promise(resolve => io.close(resolve));
+  });
+
+  it('refuses a handshake without a valid token', async () => {
+    await expect(connect('not-a-token')).rejects.toThrow(
+      'Authentication failed'
+    );
+  });
+
+  it('joins a room and lists who is online in it', async () => {
+    await enter(fan);
+    const socket = await connect(signAccessToken(friend));
+
+    const joined = await socket.emitWithAck('room:join', roomId);
+    expect(
+      joined.ok && joined.data.onlineUsers.map(user => user.username)
+    ).toEqual(['fan', 'friend']);
+    expect(await socket.emitWithAck('room:join', 'missing')).toEqual(
+      expect.objectContaining({ ok: false, statusCode: 404 })
+    );
+  });
+
+  it('sends room messages to everyone in the room', async () => {
+    const sender = await enter(fan);
+    const listener = await enter(friend);
+    const received = nextEvent(listener, 'message:new');
+
+    const sent = await send(sender, 'Who is going to the show?');
+    expect(sent.ok).toBe(true);
+    expect(await received).toEqual(
+      expect.objectContaining({
+        roomId,
+        content: 'Who is going to the show?',
+        user: expect.objectContaining({ username: 'fan' }),
+      })
+    );
+  });
+
+  it('survives events sent without a callback or with a bad room id', async () => {
+    const sender = await enter(fan);
+    const listener = await enter(friend);
+    const received = nextEvent(listener, 'message:new');
+
+    emitRaw(sender, 'message:send', {
+      roomId,
+      content: 'Nobody asked for an answer',
+      type: MessageType.TEXT,
+    });
+    emitRaw(sender, 'room:leave', roomId);
+    emitRaw(sender, 'room:join', { not: 'a room id' });
+    emitRaw(sender, 'typing:start', ['nor', 'this']);
+    expect(await received).toEqual(
+      expect.objectContaining({ content: 'Nobody asked for an answer' })
+    );
+    expect(await sender.emitWithAck('room:join', 42 as never)).toEqual(
+      expect.objectContaining({ ok: false, statusCode: 400 })
+    );
+    expect(rejections).toEqual([]);
+  });
+
+  it('delivers a direct message sent without a callback', async () => {
+    const sender = await connect(signAccessToken(fan));
+    const receiver = await connect(signAccessToken(friend));
+    const received = nextEvent(receiver, 'dm:new');
+
+    emitRaw(sender, 'dm:send', {
+      receiverId: friend.sub,
+      content: 'Got a spare ticket?',
+      type: MessageType.TEXT,
+    });
+    emitRaw(sender, 'dm:send', { receiverId: friend.sub });
+    expect(await received).toEqual(
+      expect.objectContaining({
+        senderId: fan.sub,
+        content: 'Got a spare ticket?',
+      })
+    );
+    expect(
+      await sender.emitWithAck('dm:send', {
+        receiverId: fan.sub,
+        content: 'Talking to myself',
+        type: MessageType.TEXT,
+      })
+    ).toEqual(expect.objectContaining({ ok: false, statusCode: 400 }));
+    expect(rejections).toEqual([]);
+  });
+
+  it('kicks a member out of a room they are banned from', async () => {
+    const socket = await enter(fan);
+    const revoked = nextEvent(socket, 'room:revoked');
+
+    await sanctionService.create(moderator, fan.sub, {
+      type: SanctionType.BAN,
+      scope: SanctionScope.CHAT_ROOM,
+      scopeId: roomId,
+      reason: 'Flaming',
+    });
+    expect(await revoked).toEqual(
+      expect.objectContaining({ roomId, statusCode: 403, code: 'USER_BANNED' })
+    );
+    expect(await socket.emitWithAck('room:join', roomId)).toEqual(
+      expect.objectContaining({ ok: false, code: 'USER_BANNED' })
+    );
+    expect(await send(socket, 'Let me back in')).toEqual(
+      expect.objectContaining({ ok: false, code: 'USER_BANNED' })
+    );
+  });
+
+  it('disconnects a member banned everywhere', async () => {
+    const socket = await enter(fan);
+    const disconnected = new Promise(resolve =>
+      socket.once('disconnect', resolve)
+    );
+
+    await sanctionService.create(moderator, fan.sub, {
+      type: SanctionType.BAN,
+      scope: SanctionScope.GLOBAL,
+      reason: 'Threats',
+    });
+    expect(await disconnected).toBe('io server disconnect');
+    await expect(connect(signAccessToken(fan))).rejects.toMatchObject({
+      message: expect.stringContaining('banned'),
+    });
+  });
+
+  it('disconnects a socket when its token expires', async () => {
+    const socket = await connect(
+      jwt.sign(fan, env.JWT_SECRET, { expiresIn: 1 })
+    );
+    const disconnected = new Promise(resolve =>
+      socket.once('disconnect', resolve)
+    );
+
+    expect(await disconnected).toBe('io server disconnect');
+  });
+});
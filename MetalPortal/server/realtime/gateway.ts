@@ -0,0 +1,406 @@
+// Socket.io gateway for chat rooms, typing, presence and live notifications
+//
+// The gateway takes its chat dependencies as arguments so it can be attached to
+// a throwaway HTTP server and driven by socket.io-client in-process.
+
+import { EventEmitter } from 'events';
+import { Server as HttpServer } from 'http';
+import { Server, Socket } from 'socket.io';
+import { z, ZodError } from 'zod';
+import { MessageType, OnlinePresence } from '../../src/types/chat';
+import {
+  SanctionScope,
+  SanctionType,
+  UserSanction,
+} from '../../src/types/moderation';
+import { Notification } from '../../src/types/notification';
+import {
+  ClientToServerEvents,
+  RealtimeAck,
+  ServerToClientEvents,
+} from '../../src/types/realtime';
+import { CHAT_CONFIG, ERROR_MESSAGES } from '../../src/utils/constants';
+import { ChatService, ChatUser, chatService } from '../services/chatService';
+import { notificationEvents as defaultNotificationEvents } from '../services/notificationService';
+import {
+  sanctionError,
+  sanctionEvents as defaultSanctionEvents,
+  SanctionService,
+  sanctionService,
+} from '../services/sanctionService';
+import { subscriptionEvents } from '../services/subscriptionService';
+import { HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import {
+  AccessTokenPayload,
+  tokenExpiresAt,
+  verifyAccessToken,
+} from '../utils/tokens';
+
+export interface SocketData {
+  auth: AccessTokenPayload;
+  user: ChatUser;
+  // When the handshake token expires
+  expiresAt: Date | null;
+}
+
+export type RealtimeServer = Server<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  Record<string, never>,
+  SocketData
+>;
+
+type RealtimeSocket = Socket<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  Record<string, never>,
+  SocketData
+>;
+
+export interface RealtimeGatewayOptions {
+  chat?: Pick<
+    ChatService,
+    | 'getUser'
+    | 'getAccessSubject'
+    | 'getRoom'
+    | 'createRoomMessage'
+    | 'createDirectMessage'
+  >;
+  // Emits 'accessChanged' with a user id when their role or subscription changes
+  accessEvents?: EventEmitter;
+  // Emits 'created' with each stored notification
+  notificationEvents?: EventEmitter;
+  sanctions?: Pick<SanctionService, 'assertNotBanned'>;
+  // Emits 'issued' with each new sanction
+  sanctionEvents?: EventEmitter;
+  corsOrigin?: string | string[];
+}
+
+const messageFields = {
+  content: z.string().trim().min(1).max(CHAT_CONFIG.MAX_MESSAGE_LENGTH),
+  type: z.nativeEnum(MessageType),
+  mediaUrl: z.string().url().optional(),
+  clientId: z.string().min(1).max(64).optional(),
+};
+
+export const sendMessageSchema = z.object({
+  ...messageFields,
+  roomId: z.string().min(1),
+});
+
+export const sendDirectMessageSchema = z.object({
+  ...messageFields,
+  receiverId: z.string().min(1),
+});
+
+const roomChannel = (roomId: string) => `chat:${roomId}`;
+const userChannel = (userId: string) => `user:${userId}`;
+
+const toAckError = (error: unknown): RealtimeAck<never> => {
+  if (error instanceof ZodError) {
+    return {
+      ok: false,
+      error: ERROR_MESSAGES.VALIDATION_ERROR,
+      statusCode: 400,
+    };
+  }
+  if (error instanceof HttpError) {
+    return {
+      ok: false,
+      error: error.message,
+      statusCode: error.statusCode,
+      code: error.error,
+    };
+  }
+  logger.error('Unhandled realtime error:', error);
+  return { ok: false, error: ERROR_MESSAGES.SERVER_ERROR, statusCode: 500 };
+};
+
+const roomIdSchema = z.string().min(1);
+
+// Clients can emit anything, with or without a callback, so a handler's
+// payload is validated by the handler, its result is only acknowledged when
+// there is a callback to take it, and nothing it throws escapes the socket
+const acknowledged =
+  <T>(handler: (input: unknown) => Promise<T>) =>
+  (input: unknown, ack?: unknown) => {
+    handler(input)
+      .then((data): RealtimeAck<T> => ({ ok: true, data }), toAckError)
+      .then(result => {
+        if (typeof ack === 'function') ack(result);
+      })
+      .catch(error => logger.error('Realtime acknowledgement failed:', error));
+  };
+
+export const createRealtimeGateway = (
+  httpServer: HttpServer,
+  {
+    chat = chatService,
+    accessEvents = subscriptionEvents,
+    notificationEvents = defaultNotificationEvents,
+    sanctions = sanctionService,
+    sanctionEvents = defaultSanctionEvents,
+    corsOrigin = '*',
+  }: RealtimeGatewayOptions = {}
+): RealtimeServer => {
+  const io: RealtimeServer = new Server(httpServer, {
+    cors: { origin: corsOrigin },
+  });
+
+  // Open sockets per user; a user is online while any of them is connected
+  const connections = new Map<string, Set<string>>();
+
+  const presenceOf = (
+    user: ChatUser,
+    status: OnlinePresence['status']
+  ): OnlinePresence => ({
+    userId: user.id,
+    username: user.username,
+    status,
+    lastSeen: new Date(),
+  });
+
+  const roomPresence = async (roomId: string): Promise<OnlinePresence[]> => {
+    const sockets = await io.in(roomChannel(roomId)).fetchSockets();
+    const users = new Map<string, ChatUser>();
+    sockets.forEach(socket => users.set(socket.data.user.id, socket.data.user));
+    return Array.from(users.values()).map(user => presenceOf(user, 'online'));
+  };
+
+  const emitTyping = (
+    socket: RealtimeSocket,
+    roomId: string,
+    isTyping: boolean
+  ) => {
+    if (!socket.rooms.has(roomChannel(roomId))) return;
+    const { user } = socket.data;
+    socket.to(roomChannel(roomId)).emit('typing', {
+      roomId,
+      userId: user.id,
+      username: user.username,
+      isTyping,
+      timestamp: new Date(),
+    });
+  };
+
+  // Sockets keep the claims they connected with, so refresh them when billing
+  // changes a user's access and drop the rooms they can no longer view
+  const revalidateAccess = async (userId: string) => {
+    const subject = await chat.getAccessSubject(userId);
+    if (!subject) return;
+
+    const sockets = await io.in(userChannel(userId)).fetchSockets();
+    for (const socket of sockets) {
+      socket.data.auth = { ...socket.data.auth, ...subject };
+      for (const channel of socket.rooms) {
+        if (!channel.startsWith('chat:')) continue;
+        const roomId = channel.slice('chat:'.length);
+        try {
+          await chat.getRoom(roomId, socket.data.auth);
+        } catch (error) {
+          const ack = toAckError(error);
+          if (ack.ok) continue;
+          socket.leave(channel);
+          socket.emit('room:revoked', {
+            roomId,
+            error: ack.error,
+            statusCode: ack.statusCode ?? 403,
+          });
+        }
+      }
+    }
+  };
+
+  const onAccessChanged = (userId: string) => {
+    revalidateAccess(userId).catch(error =>
+      logger.error('Realtime access revalidation failed:', error)
+    );
+  };
+  accessEvents.on('accessChanged', onAccessChanged);
+
+  // Notifications reach every device of the recipient
+  const onNotification = (notification: Notification) => {
+    io.to(userChannel(notification.userId)).emit(
+      'notification:new',
+      notification
+    );
+  };
+  notificationEvents.on('created', onNotification);
+
+  // A global ban disconnects every device of the member and a room ban takes
+  // them out of that room; otherwise they are told so the app can explain why
+  // posting fails
+  const onSanction = async (sanction: UserSanction) => {
+    const sockets = await io.in(userChannel(sanction.userId)).fetchSockets();
+    const banned = sanction.type === SanctionType.BAN;
+    for (const socket of sockets) {
+      if (banned && sanction.scope === SanctionScope.CHAT_ROOM) {
+        const channel = roomChannel(sanction.scopeId!);
+        if (!socket.rooms.has(channel)) continue;
+        const revoked = sanctionError(sanction);
+        socket.leave(channel);
+        socket.emit('room:revoked', {
+          roomId: sanction.scopeId!,
+          error: revoked.message,
+          statusCode: revoked.statusCode,
+          code: revoked.error,
+        });
+        continue;
+      }
+      socket.emit('sanction:issued', sanction);
+      if (banned && sanction.scope === SanctionScope.GLOBAL) {
+        socket.disconnect(true);
+      }
+    }
+  };
+  const onSanctionIssued = (sanction: UserSanction) => {
+    onSanction(sanction).catch(error =>
+      logger.error('Realtime sanction enforcement failed:', error)
+    );
+  };
+  sanctionEvents.on('issued', onSanctionIssued);
+
+  httpServer.once('close', () => {
+    accessEvents.off('accessChanged', onAccessChanged);
+    notificationEvents.off('created', onNotification);
+    sanctionEvents.off('issued', onSanctionIssued);
+  });
+
+  // Authenticate the handshake with the same access token as the REST API
+  io.use(async (socket, next) => {
+    const token = socket.handshake.auth?.token;
+    if (typeof token !== 'string' || !token) {
+      return next(new Error('Authentication required'));
+    }
+
+    try {
+      const auth = verifyAccessToken(token);
+      const user = await chat.getUser(auth.sub);
+      if (!user) {
+        return next(new Error('Authentication failed'));
+      }
+      await sanctions.assertNotBanned(user.id);
+      socket.data.auth = auth;
+      socket.data.user = user;
+      socket.data.expiresAt = tokenExpiresAt(token);
+      next();
+    } catch (error) {
+      // Banned members are told why rather than sent to sign in again
+      next(
+        error instanceof HttpError ? error : new Error('Authentication failed')
+      );
+    }
+  });
+
+  io.on('connection', (socket: RealtimeSocket) => {
+    const { user } = socket.data;
+
+    const sockets = connections.get(user.id) ?? new Set<string>();
+    if (sockets.size === 0) {
+      io.emit('presence', presenceOf(user, 'online'));
+    }
+    connections.set(user.id, sockets.add(socket.id));
+    // Direct messages and notifications reach every device of the user through
+    // this channel
+    void socket.join(userChannel(user.id));
+
+    // A socket lives no longer than its token. The client reconnects with a
+    // fresh one, which runs the handshake's ban check again, and rejoining its
+    // rooms rechecks room bans.
+    const expiry = socket.data.expiresAt
+      ? setTimeout(
+          () => socket.disconnect(true),
+          Math.max(socket.data.expiresAt.getTime() - Date.now(), 0)
+        )
+      : null;
+
+    socket.on(
+      'room:join',
+      acknowledged(async input => {
+        const roomId = roomIdSchema.parse(input);
+        await chat.getRoom(roomId, socket.data.auth);
+        await sanctions.assertNotBanned(user.id, {
+          scope: SanctionScope.CHAT_ROOM,
+          scopeId: roomId,
+        });
+        await socket.join(roomChannel(roomId));
+        return { roomId, onlineUsers: await roomPresence(roomId) };
+      })
+    );
+
+    socket.on(
+      'room:leave',
+      acknowledged(async input => {
+        const roomId = roomIdSchema.parse(input);
+        emitTyping(socket, roomId, false);
+        await socket.leave(roomChannel(roomId));
+      })
+    );
+
+    socket.on(
+      'message:send',
+      acknowledged(async input => {
+        // Joining is not required to post, so an offline outbox can flush
+        // messages for rooms that are not open on screen
+        const parsed = sendMessageSchema.parse(input);
+        const message = await chat.createRoomMessage(socket.data.auth, parsed);
+        emitTyping(socket, parsed.roomId, false);
+        // Everyone in the room, including the sender's other devices; held
+        // messages only go to the sender's devices until they are reviewed
+        socket
+          .to(
+            message.isHeld ? userChannel(user.id) : roomChannel(parsed.roomId)
+          )
+          .emit('message:new', message);
+        return message;
+      })
+    );
+
+    socket.on(
+      'dm:send',
+      acknowledged(async input => {
+        const parsed = sendDirectMessageSchema.parse(input);
+        const message = await chat.createDirectMessage(
+          socket.data.auth,
+          parsed
+        );
+        // Held messages wait for review before the receiver gets them
+        socket
+          .to(
+            message.isHeld
+              ? userChannel(user.id)
+              : [userChannel(parsed.receiverId), userChannel(user.id)]
+          )
+          .emit('dm:new', message);
+        return message;
+      })
+    );
+
+    socket.on('typing:start', roomId => {
+      if (typeof roomId === 'string') emitTyping(socket, roomId, true);
+    });
+    socket.on('typing:stop', roomId => {
+      if (typeof roomId === 'string') emitTyping(socket, roomId, false);
+    });
+
+    socket.on('disconnecting', () => {
+      socket.rooms.forEach(channel => {
+        if (channel.startsWith('chat:')) {
+          emitTyping(socket, channel.slice('chat:'.length), false);
+        }
+      });
+    });
+
+    socket.on('disconnect', () => {
+      if (expiry) clearTimeout(expiry);
+      sockets.delete(socket.id);
+      if (sockets.size === 0) {
+        connections.delete(user.id);
+        io.emit('presence', presenceOf(user, 'offline'));
+      }
+    });
+  });
+
+  return io;
+};
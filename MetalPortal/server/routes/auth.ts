@@ -0,0 +1,31 @@
+// Authentication routes
+
+import { Router } from 'express';
+import {
+  authController,
+  changePasswordSchema,
+  confirmResetSchema,
+  loginSchema,
+  logoutSchema,
+  refreshSchema,
+  registerSchema,
+  resetPasswordSchema,
+} from '../controllers/authController';
+import { requireAuth } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { asyncHandler } from '../utils/asyncHandler';
+
+export const authRouter = Router();
+
+authRouter.post('/register', validateBody(registerSchema), asyncHandler(authController.register));
+authRouter.post('/login', validateBody(loginSchema), asyncHandler(authController.login));
+authRouter.post('/refresh', validateBody(refreshSchema), asyncHandler(authController.refresh));
+authRouter.post('/logout', validateBody(logoutSchema), asyncHandler(authController.logout));
+authRouter.post('/reset-password', validateBody(resetPasswordSchema), asyncHandler(authController.resetPassword));
+authRouter.post('/confirm-reset', validateBody(confirmResetSchema), asyncHandler(authController.confirmReset));
+authRouter.post(
+  '/change-password',
+  requireAuth,
+  validateBody(changePasswordSchema),
+  asyncHandler(authController.changePassword)
+);
@@ -0,0 +1,36 @@
+// Payment provider webhooks and, outside production, the fake provider's
+// controls for admins
+
+import { Router } from 'express';
+import { isProduction } from '../config/env';
+import {
+  advanceClockSchema,
+  paymentOutcomeSchema,
+  subscriptionController,
+} from '../controllers/subscriptionController';
+import { requireAuth, requireRole } from '../middleware/auth';
+import { UserRole } from '../../src/types/auth';
+import { validateBody } from '../middleware/validate';
+import { asyncHandler } from '../utils/asyncHandler';
+
+export const billingRouter = Router();
+
+// Receives the raw body (see app.ts); authenticated by its signature
+billingRouter.post('/webhook', asyncHandler(subscriptionController.webhook));
+
+if (!isProduction) {
+  billingRouter.post(
+    '/simulator/advance-clock',
+    requireAuth,
+    requireRole(UserRole.ADMIN),
+    validateBody(advanceClockSchema),
+    asyncHandler(subscriptionController.advanceClock)
+  );
+  billingRouter.post(
+    '/simulator/payment-outcome',
+    requireAuth,
+    requireRole(UserRole.ADMIN),
+    validateBody(paymentOutcomeSchema),
+    asyncHandler(subscriptionController.setPaymentOutcome)
+  );
+}
@@ -0,0 +1,20 @@
+// Chat routes; live messages go through the realtime gateway
+
+import { Router } from 'express';
+import { chatController } from '../controllers/chatController';
+import { requireAuth } from '../middleware/auth';
+import { asyncHandler } from '../utils/asyncHandler';
+
+export const chatRouter = Router();
+
+chatRouter.get('/rooms', requireAuth, asyncHandler(chatController.listRooms));
+chatRouter.get(
+  '/messages',
+  requireAuth,
+  asyncHandler(chatController.listRoomMessages)
+);
+chatRouter.get(
+  '/conversations/:userId/messages',
+  requireAuth,
+  asyncHandler(chatController.listConversationMessages)
+);
@@ -0,0 +1,21 @@
+// Post comment routes
+
+import { Router } from 'express';
+import { reactionController, reactSchema } from '../controllers/reactionController';
+import { requireAuth } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { asyncHandler } from '../utils/asyncHandler';
+
+export const commentsRouter = Router();
+
+commentsRouter.post(
+  '/:id/reactions',
+  requireAuth,
+  validateBody(reactSchema),
+  asyncHandler(reactionController.react('comment'))
+);
+commentsRouter.delete(
+  '/:id/reactions',
+  requireAuth,
+  asyncHandler(reactionController.unreact('comment'))
+);
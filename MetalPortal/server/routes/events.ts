@@ -0,0 +1,12 @@
+// Event routes
+
+import { Router } from 'express';
+import { eventController } from '../controllers/eventController';
+import { optionalAuth } from '../middleware/auth';
+import { asyncHandler } from '../utils/asyncHandler';
+
+export const eventsRouter = Router();
+
+// Signed-out visitors see public events and what the others would take
+eventsRouter.get('/', optionalAuth, asyncHandler(eventController.list));
+eventsRouter.get('/:id', optionalAuth, asyncHandler(eventController.get));
@@ -0,0 +1,85 @@
+// Forum routes
+
+import { Router } from 'express';
+import {
+  commentSchema,
+  createCategorySchema,
+  createPostSchema,
+  forumController,
+  mergePostsSchema,
+  moderationSchema,
+  movePostSchema,
+  splitThreadSchema,
+  updateCategorySchema,
+  updateCommentSchema,
+  updatePostSchema,
+} from '../controllers/forumController';
+import { optionalAuth, requireAuth, requireRole } from '../middleware/auth';
+import { UserRole } from '../../src/types/auth';
+import { validateBody } from '../middleware/validate';
+import { asyncHandler } from '../utils/asyncHandler';
+
+export const forumRouter = Router();
+
+// Categories
+forumRouter.get('/categories', optionalAuth, asyncHandler(forumController.listCategories));
+forumRouter.get('/categories/:slug', optionalAuth, asyncHandler(forumController.getCategory));
+forumRouter.post(
+  '/categories',
+  requireAuth,
+  requireRole(UserRole.ADMIN),
+  validateBody(createCategorySchema),
+  asyncHandler(forumController.createCategory)
+);
+forumRouter.patch(
+  '/categories/:id',
+  requireAuth,
+  requireRole(UserRole.ADMIN),
+  validateBody(updateCategorySchema),
+  asyncHandler(forumController.updateCategory)
+);
+
+// Posts
+forumRouter.get('/posts', optionalAuth, asyncHandler(forumController.listPosts));
+forumRouter.post(
+  '/posts',
+  requireAuth,
+  validateBody(createPostSchema),
+  asyncHandler(forumController.createPost)
+);
+forumRouter.get('/posts/:id', optionalAuth, asyncHandler(forumController.getPost));
+forumRouter.patch(
+  '/posts/:id',
+  requireAuth,
+  validateBody(updatePostSchema),
+  asyncHandler(forumController.updatePost)
+);
+forumRouter.delete('/posts/:id', requireAuth, asyncHandler(forumController.deletePost));
+
+// Comments
+forumRouter.get('/posts/:id/comments', optionalAuth, asyncHandler(forumController.listComments));
+forumRouter.post(
+  '/posts/:id/comments',
+  requireAuth,
+  validateBody(commentSchema),
+  asyncHandler(forumController.addComment)
+);
+forumRouter.get('/comments/:id', optionalAuth, asyncHandler(forumController.getThread));
+forumRouter.get('/comments/:id/replies', optionalAuth, asyncHandler(forumController.getReplies));
+forumRouter.patch(
+  '/comments/:id',
+  requireAuth,
+  validateBody(updateCommentSchema),
+  asyncHandler(forumController.updateComment)
+);
+forumRouter.delete('/comments/:id', requireAuth, asyncHandler(forumController.deleteComment));
+
+// Moderation
+const moderators = requireRole(UserRole.MODERATOR, UserRole.ADMIN);
+forumRouter.post('/posts/:id/pin', requireAuth, moderators, validateBody(moderationSchema), asyncHandler(forumController.pinPost(true)));
+forumRouter.post('/posts/:id/unpin', requireAuth, moderators, validateBody(moderationSchema), asyncHandler(forumController.pinPost(false)));
+forumRouter.post('/posts/:id/lock', requireAuth, moderators, validateBody(moderationSchema), asyncHandler(forumController.lockPost(true)));
+forumRouter.post('/posts/:id/unlock', requireAuth, moderators, validateBody(moderationSchema), asyncHandler(forumController.lockPost(false)));
+forumRouter.post('/posts/:id/move', requireAuth, moderators, validateBody(movePostSchema), asyncHandler(forumController.movePost));
+forumRouter.post('/posts/:id/merge', requireAuth, moderators, validateBody(mergePostsSchema), asyncHandler(forumController.mergePosts));
+forumRouter.post('/comments/:id/split', requireAuth, moderators, validateBody(splitThreadSchema), asyncHandler(forumController.splitThread));
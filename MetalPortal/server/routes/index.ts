@@ -0,0 +1,32 @@
+// API route registry
+
+import { Router } from 'express';
+import { authRouter } from './auth';
+import { billingRouter } from './billing';
+import { chatRouter } from './chat';
+import { commentsRouter } from './comments';
+import { eventsRouter } from './events';
+import { forumRouter } from './forum';
+import { moderationRouter } from './moderation';
+import { notificationsRouter } from './notifications';
+import { postsRouter } from './posts';
+import { reportsRouter } from './reports';
+import { sanctionsRouter } from './sanctions';
+import { subscriptionRouter } from './subscription';
+import { uploadRouter } from './upload';
+
+export const apiRouter = Router();
+
+apiRouter.use('/auth', authRouter);
+apiRouter.use('/posts', postsRouter);
+apiRouter.use('/comments', commentsRouter);
+apiRouter.use('/upload', uploadRouter);
+apiRouter.use('/chat', chatRouter);
+apiRouter.use('/forum', forumRouter);
+apiRouter.use('/events', eventsRouter);
+apiRouter.use('/notifications', notificationsRouter);
+apiRouter.use('/reports', reportsRouter);
+apiRouter.use('/moderation', moderationRouter);
+apiRouter.use('/sanctions', sanctionsRouter);
+apiRouter.use('/subscription', subscriptionRouter);
+apiRouter.use('/billing', billingRouter);
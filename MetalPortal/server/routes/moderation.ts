@@ -0,0 +1,53 @@
+// Moderation routes, for moderators and admins only
+
+import { Router } from 'express';
+import {
+  contentFilterConfigSchema,
+  contentFilterController,
+  testContentFilterSchema,
+} from '../controllers/contentFilterController';
+import { moderationController } from '../controllers/moderationController';
+import {
+  assignReportSchema,
+  bulkReportSchema,
+  dismissReportSchema,
+  reportController,
+  resolveReportSchema,
+} from '../controllers/reportController';
+import {
+  createSanctionSchema,
+  liftSanctionSchema,
+  reviewAppealSchema,
+  sanctionController,
+} from '../controllers/sanctionController';
+import { requireAuth, requireRole } from '../middleware/auth';
+import { UserRole } from '../../src/types/auth';
+import { validateBody } from '../middleware/validate';
+import { asyncHandler } from '../utils/asyncHandler';
+
+export const moderationRouter = Router();
+
+moderationRouter.use(requireAuth, requireRole(UserRole.MODERATOR, UserRole.ADMIN));
+
+moderationRouter.get('/log', asyncHandler(moderationController.listLog));
+
+// Report queue
+moderationRouter.get('/reports', asyncHandler(reportController.listQueue));
+moderationRouter.post('/reports/bulk', validateBody(bulkReportSchema), asyncHandler(reportController.bulk));
+moderationRouter.get('/reports/:id', asyncHandler(reportController.get));
+moderationRouter.post('/reports/:id/assign', validateBody(assignReportSchema), asyncHandler(reportController.assign));
+moderationRouter.post('/reports/:id/resolve', validateBody(resolveReportSchema), asyncHandler(reportController.resolve));
+moderationRouter.post('/reports/:id/dismiss', validateBody(dismissReportSchema), asyncHandler(reportController.dismiss));
+
+// Sanctions and appeals
+moderationRouter.get('/users/:id/sanctions', asyncHandler(sanctionController.listForUser));
+moderationRouter.post('/users/:id/sanctions', validateBody(createSanctionSchema), asyncHandler(sanctionController.create));
+moderationRouter.post('/sanctions/:id/lift', validateBody(liftSanctionSchema), asyncHandler(sanctionController.lift));
+moderationRouter.get('/appeals', asyncHandler(sanctionController.listAppeals));
+moderationRouter.post('/appeals/:id/accept', validateBody(reviewAppealSchema), asyncHandler(sanctionController.acceptAppeal));
+moderationRouter.post('/appeals/:id/reject', validateBody(reviewAppealSchema), asyncHandler(sanctionController.rejectAppeal));
+
+// Content filter; only admins may change it
+moderationRouter.get('/content-filter', asyncHandler(contentFilterController.getConfig));
+moderationRouter.put('/content-filter', requireRole(UserRole.ADMIN), validateBody(contentFilterConfigSchema), asyncHandler(contentFilterController.updateConfig));
+moderationRouter.post('/content-filter/test', validateBody(testContentFilterSchema), asyncHandler(contentFilterController.test));
@@ -0,0 +1,32 @@
+// Notification routes
+
+import { Router } from 'express';
+import {
+  notificationController,
+  notificationPreferencesSchema,
+  registerDeviceSchema,
+} from '../controllers/notificationController';
+import { requireAuth } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { asyncHandler } from '../utils/asyncHandler';
+
+export const notificationsRouter = Router();
+
+notificationsRouter.use(requireAuth);
+
+notificationsRouter.get('/', asyncHandler(notificationController.list));
+notificationsRouter.get('/stats', asyncHandler(notificationController.stats));
+notificationsRouter.post('/read-all', asyncHandler(notificationController.markAllRead));
+notificationsRouter.post('/:id/read', asyncHandler(notificationController.markRead));
+notificationsRouter.get('/preferences', asyncHandler(notificationController.getPreferences));
+notificationsRouter.put(
+  '/preferences',
+  validateBody(notificationPreferencesSchema),
+  asyncHandler(notificationController.updatePreferences)
+);
+notificationsRouter.post(
+  '/devices',
+  validateBody(registerDeviceSchema),
+  asyncHandler(notificationController.registerDevice)
+);
+notificationsRouter.delete('/devices', asyncHandler(notificationController.unregisterDevice));
@@ -0,0 +1,29 @@
+// Post routes
+
+import { Router } from 'express';
+import { commentSchema, postController } from '../controllers/postController';
+import { reactionController, reactSchema } from '../controllers/reactionController';
+import { optionalAuth, requireAuth } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { asyncHandler } from '../utils/asyncHandler';
+
+export const postsRouter = Router();
+
+// Signed-out visitors get public posts and teasers of the rest
+postsRouter.get('/', optionalAuth, asyncHandler(postController.list));
+postsRouter.get('/:id', optionalAuth, asyncHandler(postController.get));
+
+postsRouter.post(
+  '/:id/comments',
+  requireAuth,
+  validateBody(commentSchema),
+  asyncHandler(postController.addComment)
+);
+
+postsRouter.post(
+  '/:id/reactions',
+  requireAuth,
+  validateBody(reactSchema),
+  asyncHandler(reactionController.react('post'))
+);
+postsRouter.delete('/:id/reactions', requireAuth, asyncHandler(reactionController.unreact('post')));
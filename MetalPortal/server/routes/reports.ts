@@ -0,0 +1,14 @@
+// Content report routes
+
+import { Router } from 'express';
+import {
+  createReportSchema,
+  reportController,
+} from '../controllers/reportController';
+import { requireAuth } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { asyncHandler } from '../utils/asyncHandler';
+
+export const reportsRouter = Router();
+
+reportsRouter.post('/', requireAuth, validateBody(createReportSchema), asyncHandler(reportController.create));
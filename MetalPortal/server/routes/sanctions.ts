@@ -0,0 +1,17 @@
+// Routes for members' own sanctions and appeals
+
+import { Router } from 'express';
+import {
+  createAppealSchema,
+  sanctionController,
+} from '../controllers/sanctionController';
+import { requireAuth } from '../middleware/auth';
+import { validateBody } from '../middleware/validate';
+import { asyncHandler } from '../utils/asyncHandler';
+
+export const sanctionsRouter = Router();
+
+sanctionsRouter.use(requireAuth);
+
+sanctionsRouter.get('/', asyncHandler(sanctionController.listMine));
+sanctionsRouter.post('/:id/appeal', validateBody(createAppealSchema), asyncHandler(sanctionController.appeal));
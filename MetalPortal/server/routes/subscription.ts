@@ -0,0 +1,47 @@
+// Subscription routes
+
+import { Router } from 'express';
+import {
+  createPromoCodeSchema,
+  planSchema,
+  subscribeSchema,
+  subscriptionController,
+} from '../controllers/subscriptionController';
+import { requireAuth, requireRole } from '../middleware/auth';
+import { UserRole } from '../../src/types/auth';
+import { validateBody } from '../middleware/validate';
+import { asyncHandler } from '../utils/asyncHandler';
+
+export const subscriptionRouter = Router();
+
+subscriptionRouter.get('/plans', asyncHandler(subscriptionController.plans));
+subscriptionRouter.get('/current', requireAuth, asyncHandler(subscriptionController.current));
+subscriptionRouter.get('/history', requireAuth, asyncHandler(subscriptionController.history));
+subscriptionRouter.post(
+  '/subscribe',
+  requireAuth,
+  validateBody(subscribeSchema),
+  asyncHandler(subscriptionController.subscribe)
+);
+subscriptionRouter.post(
+  '/update',
+  requireAuth,
+  validateBody(planSchema),
+  asyncHandler(subscriptionController.update)
+);
+subscriptionRouter.post('/cancel', requireAuth, asyncHandler(subscriptionController.cancel));
+
+subscriptionRouter.get('/promo-codes/:code', requireAuth, asyncHandler(subscriptionController.previewPromoCode));
+subscriptionRouter.get(
+  '/promo-codes',
+  requireAuth,
+  requireRole(UserRole.ADMIN),
+  asyncHandler(subscriptionController.listPromoCodes)
+);
+subscriptionRouter.post(
+  '/promo-codes',
+  requireAuth,
+  requireRole(UserRole.ADMIN),
+  validateBody(createPromoCodeSchema),
+  asyncHandler(subscriptionController.createPromoCode)
+);
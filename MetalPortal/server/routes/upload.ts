@@ -0,0 +1,29 @@
+// Upload routes
+
+import express, { Router } from 'express';
+import { initUploadSchema, uploadController } from '../controllers/uploadController';
+import { requireAuth } from '../middleware/auth';
+import { uploadSingle } from '../middleware/upload';
+import { validateBody } from '../middleware/validate';
+import { FILE_UPLOAD } from '../../src/utils/constants';
+import { asyncHandler } from '../utils/asyncHandler';
+
+export const uploadRouter = Router();
+
+uploadRouter.use(requireAuth);
+
+uploadRouter.post('/image', uploadSingle('image'), asyncHandler(uploadController.single('image')));
+uploadRouter.post('/video', uploadSingle('video'), asyncHandler(uploadController.single('video')));
+uploadRouter.post('/audio', uploadSingle('audio'), asyncHandler(uploadController.single('audio')));
+uploadRouter.post('/file', uploadSingle('file'), asyncHandler(uploadController.single('file')));
+
+// Resumable uploads: init, send parts in any order, then complete
+uploadRouter.post('/sessions', validateBody(initUploadSchema), asyncHandler(uploadController.initSession));
+uploadRouter.get('/sessions/:id', asyncHandler(uploadController.getSession));
+uploadRouter.put(
+  '/sessions/:id/chunks/:index',
+  express.raw({ type: 'application/octet-stream', limit: FILE_UPLOAD.CHUNK_SIZE }),
+  asyncHandler(uploadController.putChunk)
+);
+uploadRouter.post('/sessions/:id/complete', asyncHandler(uploadController.completeSession));
+uploadRouter.delete('/sessions/:id', asyncHandler(uploadController.abortSession));
@@ -0,0 +1,63 @@
+import bcrypt from 'bcryptjs';
+import { fakeDatabase, signIn } from '../../__tests__/fakeDatabase';
+import { verifyAccessToken } from '../../utils/tokens';
+import { authService } from '../authService';
+
+jest.mock('../../config/database', () =>
+  require('../../__tests__/fakeDatabase').fakeDatabaseModule()
+);
+jest.mock('../../utils/logger');
+
+const PASSWORD = 'correct horse battery';
+const NEW_PASSWORD = 'Staple-Battery-Horse-9';
+
+describe('authService', () => {
+  let userId: string;
+
+  const login = (password = PASSWORD) =>
+    authService.login({ email: 'fan@example.com', password });
+
+  const sessionIds = () =>
+    fakeDatabase.table('userSession').rows.map(session => session.id);
+
+  beforeEach(async () => {
+    fakeDatabase.reset();
+    userId = signIn('fan').sub;
+    await fakeDatabase.table('user').update({
+      where: { id: userId },
+      data: { passwordHash: bcrypt.hashSync(PASSWORD, 4) },
+    });
+  });
+
+  it('signs out every other device when the password changes', async () => {
+    const laptop = await login();
+    const phone = await login();
+    const { sid } = verifyAccessToken(laptop.tokens.accessToken);
+
+    await authService.changePassword(userId, sid, PASSWORD, NEW_PASSWORD);
+
+    expect(sessionIds()).toEqual([sid]);
+    await expect(
+      authService.refresh(phone.tokens.refreshToken)
+    ).rejects.toMatchObject({ statusCode: 401 });
+    await expect(
+      authService.refresh(laptop.tokens.refreshToken)
+    ).resolves.toEqual(
+      expect.objectContaining({ user: expect.objectContaining({ id: userId }) })
+    );
+    await expect(login()).rejects.toMatchObject({ statusCode: 401 });
+    await expect(login(NEW_PASSWORD)).resolves.toBeDefined();
+  });
+
+  it('keeps the password and sessions when the current password is wrong', async () => {
+    const laptop = await login();
+    await login();
+    const { sid } = verifyAccessToken(laptop.tokens.accessToken);
+
+    await expect(
+      authService.changePassword(userId, sid, 'not my password', NEW_PASSWORD)
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(sessionIds()).toHaveLength(2);
+    await expect(login()).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,85 @@
+import { UserRole } from '../../../src/types/auth';
+import { MessageType } from '../../../src/types/chat';
+import { FilterAction } from '../../../src/types/moderation';
+import { fakeDatabase, signIn } from '../../__tests__/fakeDatabase';
+import { AccessTokenPayload } from '../../utils/tokens';
+import { chatService } from '../chatService';
+import { reportService } from '../reportService';
+
+jest.mock('../../config/database', () =>
+  require('../../__tests__/fakeDatabase').fakeDatabaseModule()
+);
+jest.mock('../../utils/logger');
+
+describe('chatService direct messages', () => {
+  let fan: AccessTokenPayload;
+  let friend: AccessTokenPayload;
+
+  const send = (content: string) =>
+    chatService.createDirectMessage(fan, {
+      receiverId: friend.sub,
+      content,
+      type: MessageType.TEXT,
+    });
+
+  const conversation = async (
+    viewer: AccessTokenPayload,
+    participantId: string
+  ) => {
+    const { messages } = await chatService.listConversationMessages(
+      viewer.sub,
+      participantId,
+      1,
+      20
+    );
+    return messages;
+  };
+
+  beforeEach(() => {
+    fakeDatabase.reset();
+    fakeDatabase.table('systemConfig').insert({
+      key: 'content_filter',
+      value: JSON.stringify({
+        terms: [
+          { term: 'poser', action: FilterAction.MASK },
+          { term: 'cheap tickets', action: FilterAction.HOLD },
+          { term: 'kill yourself', action: FilterAction.REJECT },
+        ],
+        flood: { windowSeconds: 0 },
+      }),
+    });
+    fan = signIn('fan');
+    friend = signIn('friend');
+  });
+
+  it('masks filtered terms and rejects what the filter rejects', async () => {
+    expect((await send('What a poser')).content).toBe('What a *****');
+    await expect(send('Go kill yourself')).rejects.toMatchObject({
+      statusCode: 400,
+      error: 'CONTENT_REJECTED',
+    });
+    expect(fakeDatabase.table('message').rows).toHaveLength(1);
+  });
+
+  it('keeps held messages from the receiver until they are released', async () => {
+    const message = await send('Cheap tickets here');
+    expect(message.isHeld).toBe(true);
+    expect(await conversation(fan, friend.sub)).toHaveLength(1);
+    expect(await conversation(friend, fan.sub)).toEqual([]);
+    expect(fakeDatabase.table('notification').rows).toEqual([]);
+
+    const [report] = fakeDatabase.table('report').rows;
+    expect(report).toEqual(
+      expect.objectContaining({
+        targetType: 'direct_message',
+        targetId: message.id,
+        targetUserId: fan.sub,
+      })
+    );
+    const moderator = signIn('moderator', UserRole.MODERATOR);
+    await reportService.dismiss(moderator, report.id as string, {});
+    expect(await conversation(friend, fan.sub)).toEqual([
+      expect.objectContaining({ id: message.id, isHeld: false }),
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import fs from 'fs';
+import path from 'path';
+import { fakeDatabase } from '../../__tests__/fakeDatabase';
+import { env } from '../../config/env';
+import { chunkedUploadService } from '../chunkedUploadService';
+
+jest.mock('../../config/database', () =>
+  require('../../__tests__/fakeDatabase').fakeDatabaseModule()
+);
+// Uploads go to a directory of their own, removed after the tests
+jest.mock('../../config/env', () => {
+  const { env: actual } = jest.requireActual('../../config/env');
+  return {
+    env: {
+      ...actual,
+      UPLOAD_DIR: require('fs').mkdtempSync(
+        require('path').join(require('os').tmpdir(), 'uploads-')
+      ),
+    },
+  };
+});
+
+const USER = 'user-1';
+const RIFF = Buffer.from('a short riff');
+
+describe('chunkedUploadService', () => {
+  const partsDir = (uploadId: string) =>
+    path.join(env.UPLOAD_DIR, '.parts', uploadId);
+
+  const upload = async () => {
+    const { uploadId } = await chunkedUploadService.init(USER, {
+      fileName: 'Riff.MP3',
+      mimeType: 'audio/mp3',
+      fileSize: RIFF.length,
+      kind: 'audio',
+    });
+    return uploadId;
+  };
+
+  beforeEach(() => fakeDatabase.reset());
+
+  afterAll(() => fs.rmSync(env.UPLOAD_DIR, { recursive: true, force: true }));
+
+  it('stitches the parts into one file when the upload completes', async () => {
+    const uploadId = await upload();
+    await expect(
+      chunkedUploadService.complete(USER, uploadId)
+    ).rejects.toMatchObject({
+      statusCode: 400,
+      details: { missingChunks: [0] },
+    });
+
+    expect(
+      await chunkedUploadService.putChunk(USER, uploadId, 0, RIFF)
+    ).toEqual(expect.objectContaining({ receivedChunks: [0] }));
+    const media = await chunkedUploadService.complete(USER, uploadId);
+
+    expect(media).toEqual(
+      expect.objectContaining({ name: 'Riff.MP3', size: RIFF.length })
+    );
+    expect(
+      fs.readFileSync(path.join(env.UPLOAD_DIR, `${uploadId}.mp3`))
+    ).toEqual(RIFF);
+    expect(fs.existsSync(partsDir(uploadId))).toBe(false);
+    expect(await chunkedUploadService.getStatus(USER, uploadId)).toEqual(
+      expect.objectContaining({ status: 'completed', receivedChunks: [] })
+    );
+  });
+
+  it('assembles the file once when the upload is completed twice at once', async () => {
+    const uploadId = await upload();
+    await chunkedUploadService.putChunk(USER, uploadId, 0, RIFF);
+    const assembling = jest.spyOn(fs, 'createWriteStream');
+
+    const results = await Promise.allSettled([
+      chunkedUploadService.complete(USER, uploadId),
+      chunkedUploadService.complete(USER, uploadId),
+    ]);
+    expect(results.map(result => result.status).sort()).toEqual([
+      'fulfilled',
+      'rejected',
+    ]);
+    expect(results).toContainEqual(
+      expect.objectContaining({
+        reason: expect.objectContaining({ statusCode: 409 }),
+      })
+    );
+    expect(assembling).toHaveBeenCalledTimes(1);
+    assembling.mockRestore();
+  });
+
+  it('purges expired sessions and the parts they left behind', async () => {
+    const stale = await upload();
+    await chunkedUploadService.putChunk(USER, stale, 0, RIFF);
+    const fresh = await upload();
+    fakeDatabase.table('uploadSession').rows[0].expiresAt = new Date(
+      Date.now() - 1
+    );
+
+    await chunkedUploadService.purgeExpired();
+    expect(fs.existsSync(partsDir(stale))).toBe(false);
+    expect(fs.existsSync(partsDir(fresh))).toBe(true);
+    expect(
+      fakeDatabase.table('uploadSession').rows.map(session => session.id)
+    ).toEqual([fresh]);
+  });
+});
@@ -0,0 +1,110 @@
+import { UserRole } from '../../../src/types/auth';
+import { FilterAction } from '../../../src/types/moderation';
+import { fakeDatabase, signIn } from '../../__tests__/fakeDatabase';
+import { AccessTokenPayload } from '../../utils/tokens';
+import {
+  contentFilterService,
+  DEFAULT_CONTENT_FILTER,
+} from '../contentFilterService';
+
+jest.mock('../../config/database', () =>
+  require('../../__tests__/fakeDatabase').fakeDatabaseModule()
+);
+
+const START = new Date('2026-03-01T12:00:00Z');
+
+describe('contentFilterService', () => {
+  let fan: AccessTokenPayload;
+
+  beforeEach(async () => {
+    // Only the date, which the flood limit counts in
+    jest.useFakeTimers({
+      now: START,
+      doNotFake: [
+        'nextTick',
+        'queueMicrotask',
+        'setImmediate',
+        'setTimeout',
+        'clearTimeout',
+        'setInterval',
+        'clearInterval',
+      ],
+    });
+    fakeDatabase.reset();
+    fan = signIn('fan');
+    await contentFilterService.updateConfig(signIn('admin', UserRole.ADMIN), {
+      ...DEFAULT_CONTENT_FILTER,
+      terms: [
+        { term: 'shit', action: FilterAction.MASK },
+        { term: 'pussy', action: FilterAction.MASK },
+        { term: 'kill yourself', action: FilterAction.REJECT },
+      ],
+      allowedPhrases: ['Pussy Riot'],
+    });
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('sees through leetspeak, stretched letters and punctuation', async () => {
+    expect(
+      await contentFilterService.test('That solo was $h1iit, total s.h.i.t')
+    ).toEqual({
+      action: FilterAction.MASK,
+      matches: [{ rule: 'term', action: FilterAction.MASK, detail: 'shit' }],
+      text: 'That solo was ******, total *******',
+    });
+    await expect(
+      contentFilterService.screen(fan, 'comment', {
+        content: 'K1ll-y0urs3lf',
+      })
+    ).rejects.toMatchObject({
+      statusCode: 400,
+      details: { rule: 'term', detail: 'kill yourself' },
+    });
+  });
+
+  it('leaves band names on the allowed list alone', async () => {
+    expect(
+      await contentFilterService.test(
+        'Pussy Riot played, and so did P.u.$$y Riot'
+      )
+    ).toEqual(
+      expect.objectContaining({ action: FilterAction.ALLOW, matches: [] })
+    );
+    expect(
+      (await contentFilterService.test('Pussy Riot, you pussy')).text
+    ).toBe('Pussy Riot, you *****');
+  });
+
+  it('limits how fast a member writes each kind of content', async () => {
+    const { limits, windowSeconds } = DEFAULT_CONTENT_FILTER.flood;
+    const write = (content: string) =>
+      contentFilterService.screen(fan, 'forum_post', { content });
+
+    for (let count = 0; count < limits.forum_post; count++) {
+      await write(`Thread ${count}`);
+    }
+    await expect(write('One too many')).rejects.toMatchObject({
+      statusCode: 429,
+      details: { rule: 'flood' },
+    });
+    // Edits, other kinds of content and moderators are not counted
+    await contentFilterService.screen(
+      fan,
+      'forum_post',
+      { content: 'Fixed a typo' },
+      { isEdit: true }
+    );
+    await contentFilterService.screen(fan, 'comment', { content: 'Nice' });
+    await contentFilterService.screen(
+      signIn('moderator', UserRole.MODERATOR),
+      'forum_post',
+      { content: 'Pinned rules' }
+    );
+
+    jest.setSystemTime(START.getTime() + windowSeconds * 1000 + 1);
+    await expect(write('Back again')).resolves.toEqual(
+      expect.objectContaining({ held: [] })
+    );
+  });
+});
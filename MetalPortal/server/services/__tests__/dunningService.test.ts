@@ -0,0 +1,283 @@
+import { EventEmitter } from 'events';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { io as connectClient, Socket } from 'socket.io-client';
+import {
+  SubscriptionStatus,
+  SubscriptionTier,
+  UserRole,
+} from '../../../src/types/auth';
+import { ContentAccessLevel } from '../../../src/types/post';
+import {
+  ClientToServerEvents,
+  ServerToClientEvents,
+} from '../../../src/types/realtime';
+import { fakeDatabase } from '../../__tests__/fakeDatabase';
+import {
+  createFakePaymentProvider,
+  FakePaymentProvider,
+} from '../../billing/fakePaymentProvider';
+import { env } from '../../config/env';
+import { createRealtimeGateway, RealtimeServer } from '../../realtime/gateway';
+import { signAccessToken } from '../../utils/tokens';
+import { createDunningService } from '../dunningService';
+import {
+  createSubscriptionService,
+  SubscriptionService,
+  subscriptionEvents,
+} from '../subscriptionService';
+
+jest.mock('../../config/database', () =>
+  require('../../__tests__/fakeDatabase').fakeDatabaseModule()
+);
+jest.mock('../../utils/logger');
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = new Date('2026-03-01T12:00:00Z');
+
+describe('dunning', () => {
+  let provider: FakePaymentProvider;
+  let subscriptions: SubscriptionService;
+  let dunning: ReturnType<typeof createDunningService>;
+  // Webhooks sent while this is false are lost
+  let online: boolean;
+  let userId: string;
+
+  const row = () => fakeDatabase.table('subscription').rows[0];
+  const user = () => fakeDatabase.table('user').rows[0];
+  const stages = () =>
+    fakeDatabase
+      .table('notification')
+      .rows.map(
+        notification => (notification.metadata as { stage: string }).stage
+      );
+
+  // Moves the app's and the provider's clocks on and runs the renewals due
+  const travel = async (ms: number) => {
+    jest.setSystemTime(Date.now() + ms);
+    await provider.simulator.advanceClock(0);
+    await provider.simulator.settle();
+  };
+
+  const subscribe = async () => {
+    await subscriptions.subscribe(userId, { tier: SubscriptionTier.PREMIUM });
+    await provider.simulator.settle();
+  };
+
+  beforeEach(() => {
+    // Only the date: webhooks are delivered on real timers
+    jest.useFakeTimers({
+      now: START,
+      doNotFake: [
+        'nextTick',
+        'queueMicrotask',
+        'setImmediate',
+        'setTimeout',
+        'clearTimeout',
+        'setInterval',
+        'clearInterval',
+      ],
+    });
+    fakeDatabase.reset();
+    online = true;
+    provider = createFakePaymentProvider({
+      secret: 'test-webhook-secret',
+      toleranceSeconds: 300,
+      deliver: async (payload, signature) => {
+        if (online) await subscriptions.handleWebhook(payload, signature);
+      },
+    });
+    subscriptions = createSubscriptionService(provider);
+    dunning = createDunningService(provider, subscriptions);
+    userId = fakeDatabase.table('user').insert({
+      username: 'fan',
+      email: 'fan@example.com',
+    }).id;
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('retries a failed renewal, reminds before the grace period ends and then expires to free', async () => {
+    await subscribe();
+    provider.simulator.setPaymentOutcome(
+      row().stripeCustomerId as string,
+      'decline'
+    );
+
+    await travel(31 * DAY);
+    const failedAt = row().paymentFailedAt as Date;
+    expect(row()).toEqual(
+      expect.objectContaining({
+        status: SubscriptionStatus.ACTIVE,
+        paymentAttempts: 1,
+        nextPaymentAttemptAt: new Date(
+          failedAt.getTime() + env.PAYMENT_RETRY_DAYS[0] * DAY
+        ),
+        gracePeriodEndsAt: new Date(
+          failedAt.getTime() + env.SUBSCRIPTION_GRACE_DAYS * DAY
+        ),
+      })
+    );
+    expect(user().subscriptionTier).toBe(SubscriptionTier.PREMIUM);
+
+    await travel(env.PAYMENT_RETRY_DAYS[0] * DAY);
+    await dunning.retryPayments(new Date());
+    await dunning.retryPayments(new Date());
+    expect(row()).toEqual(
+      expect.objectContaining({
+        paymentAttempts: 2,
+        nextPaymentAttemptAt: new Date(
+          failedAt.getTime() + env.PAYMENT_RETRY_DAYS[1] * DAY
+        ),
+      })
+    );
+
+    const graceEnds = (row().gracePeriodEndsAt as Date).getTime();
+    await travel(graceEnds - Date.now() - DAY / 2);
+    await dunning.sendGraceReminders(new Date());
+    await dunning.sendGraceReminders(new Date());
+    expect(row().graceReminderSentAt).toEqual(new Date());
+
+    await travel(DAY);
+    await dunning.retryPayments(new Date());
+    await dunning.expireLapsed(new Date());
+    await provider.simulator.settle();
+    expect(row().status).toBe(SubscriptionStatus.EXPIRED);
+    expect(user()).toEqual(
+      expect.objectContaining({
+        subscriptionTier: SubscriptionTier.FREE,
+        subscriptionStatus: SubscriptionStatus.EXPIRED,
+        role: UserRole.FAN,
+      })
+    );
+    expect(stages()).toEqual([
+      'payment_failed',
+      'payment_retry_failed',
+      'grace_ending',
+      'expired',
+    ]);
+  });
+
+  it('ends dunning when a retry goes through', async () => {
+    await subscribe();
+    const customerId = row().stripeCustomerId as string;
+    provider.simulator.setPaymentOutcome(customerId, 'decline');
+    await travel(31 * DAY);
+
+    provider.simulator.setPaymentOutcome(customerId, 'succeed');
+    await travel(env.PAYMENT_RETRY_DAYS[0] * DAY);
+    await dunning.retryPayments(new Date());
+    await provider.simulator.settle();
+    expect(row()).toEqual(
+      expect.objectContaining({
+        status: SubscriptionStatus.ACTIVE,
+        paymentFailedAt: null,
+        gracePeriodEndsAt: null,
+      })
+    );
+    expect(stages()).toEqual(['payment_failed', 'payment_recovered']);
+  });
+
+  it('treats a renewal nobody reported as a failed payment', async () => {
+    await subscribe();
+    const periodEnd = row().currentPeriodEnd as Date;
+
+    // The provider never renewed and its webhooks never came
+    online = false;
+    jest.setSystemTime(periodEnd.getTime() + 2 * DAY);
+    await dunning.expireLapsed(new Date());
+    expect(row()).toEqual(
+      expect.objectContaining({
+        status: SubscriptionStatus.ACTIVE,
+        paymentFailedAt: new Date(),
+        paymentAttempts: 1,
+      })
+    );
+    expect(stages()).toEqual(['payment_failed']);
+
+    await dunning.expireLapsed(new Date());
+    expect(stages()).toEqual(['payment_failed']);
+  });
+
+  it('syncs a renewal the provider took but never reported', async () => {
+    await subscribe();
+    online = false;
+    await travel(31 * DAY);
+    online = true;
+
+    await travel(DAY);
+    await dunning.expireLapsed(new Date());
+    expect(row()).toEqual(
+      expect.objectContaining({
+        status: SubscriptionStatus.ACTIVE,
+        paymentFailedAt: null,
+      })
+    );
+    expect((row().currentPeriodEnd as Date).getTime()).toBeGreaterThan(
+      Date.now()
+    );
+    expect(stages()).toEqual([]);
+  });
+
+  describe('live chat', () => {
+    let io: RealtimeServer;
+
+    afterEach(async () => {
+      await new Promise(resolve => io.close(resolve));
+    });
+
+    it('takes a lapsed member out of the rooms their tier opened', async () => {
+      await subscribe();
+      const roomId = fakeDatabase.table('chatRoom').insert({
+        name: 'Backstage',
+        accessLevel: ContentAccessLevel.PREMIUM_ONLY,
+      }).id;
+      const httpServer = createServer();
+      io = createRealtimeGateway(httpServer, {
+        accessEvents: subscriptionEvents,
+        notificationEvents: new EventEmitter(),
+      });
+      await new Promise<void>(resolve => httpServer.listen(0, resolve));
+
+      provider.simulator.setPaymentOutcome(
+        row().stripeCustomerId as string,
+        'decline'
+      );
+      await travel(31 * DAY);
+      await travel(env.SUBSCRIPTION_GRACE_DAYS * DAY);
+      const socket: Socket<ServerToClientEvents, ClientToServerEvents> =
+        connectClient(
+          `http://localhost:${(httpServer.address() as AddressInfo).port}`,
+          {
+            auth: {
+              token: signAccessToken({
+                sub: userId,
+                sid: 'session-fan',
+                role: UserRole.PREMIUM_FAN,
+                subscriptionTier: SubscriptionTier.PREMIUM,
+                subscriptionStatus: SubscriptionStatus.ACTIVE,
+              }),
+            },
+            transports: ['websocket'],
+            reconnection: false,
+            forceNew: true,
+          }
+        );
+      try {
+        expect(await socket.emitWithAck('room:join', roomId)).toEqual(
+          expect.objectContaining({ ok: true })
+        );
+        const revoked = new Promise(resolve =>
+          socket.once('room:revoked', resolve)
+        );
+
+        await dunning.expireLapsed(new Date());
+        expect(await revoked).toEqual(
+          expect.objectContaining({ roomId, statusCode: 403 })
+        );
+      } finally {
+        socket.disconnect();
+      }
+    });
+  });
+});
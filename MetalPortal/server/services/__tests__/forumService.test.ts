@@ -0,0 +1,306 @@
+import { UserRole } from '../../../src/types/auth';
+import { ForumComment } from '../../../src/types/forum';
+import { FORUM_CONFIG } from '../../../src/utils/constants';
+import { fakeDatabase, signIn } from '../../__tests__/fakeDatabase';
+import { AccessTokenPayload } from '../../utils/tokens';
+import { forumService } from '../forumService';
+
+jest.mock('../../config/database', () =>
+  require('../../__tests__/fakeDatabase').fakeDatabaseModule()
+);
+
+const comments = () => fakeDatabase.table('forumComment');
+const posts = () => fakeDatabase.table('forumPost');
+const logged = () => fakeDatabase.table('moderationLog').rows;
+
+const row = (table: string, id: string) =>
+  fakeDatabase.table(table).rows.find(candidate => candidate.id === id)!;
+
+// Each reply answers the one before it
+const replyChain = async (
+  viewer: AccessTokenPayload,
+  postId: string,
+  length: number
+) => {
+  const chain: ForumComment[] = [];
+  for (let index = 0; index < length; index++) {
+    chain.push(
+      await forumService.addComment(viewer, {
+        postId,
+        parentId: chain[index - 1]?.id,
+        content: `Reply ${index}`,
+      })
+    );
+  }
+  return chain;
+};
+
+describe('forumService', () => {
+  let fan: AccessTokenPayload;
+  let postId: string;
+  let gearId: string;
+
+  beforeEach(async () => {
+    fakeDatabase.reset();
+    // The tests write replies faster than the flood limit allows
+    fakeDatabase.table('systemConfig').insert({
+      key: 'content_filter',
+      value: JSON.stringify({ flood: { windowSeconds: 0 } }),
+    });
+    fan = signIn('fan');
+    gearId = fakeDatabase.table('forumCategory').insert({
+      name: 'Gear',
+      slug: 'gear',
+    }).id;
+    const post = await forumService.createPost(fan, {
+      title: 'Favourite amps',
+      content: 'Which amp do you play through?',
+      categoryId: gearId,
+    });
+    postId = post.id;
+  });
+
+  it('presents posts with their category and author', async () => {
+    const post = await forumService.getPost(null, postId);
+
+    expect(post).toEqual(
+      expect.objectContaining({
+        title: 'Favourite amps',
+        viewCount: 1,
+        category: expect.objectContaining({ slug: 'gear', canAccess: true }),
+        author: expect.objectContaining({
+          username: 'fan',
+          role: UserRole.FAN,
+        }),
+        canReply: false,
+      })
+    );
+    expect(post.author).not.toHaveProperty('email');
+  });
+
+  it('pages replies with a cursor for the rest', async () => {
+    const [top] = await replyChain(fan, postId, 1);
+    for (let index = 0; index < FORUM_CONFIG.REPLY_PAGE_SIZE + 2; index++) {
+      await forumService.addComment(fan, {
+        postId,
+        parentId: top.id,
+        content: `Answer ${index}`,
+      });
+    }
+
+    const { comments: listed } = await forumService.listComments(
+      fan,
+      postId,
+      1,
+      20
+    );
+    expect(listed[0].replies).toHaveLength(FORUM_CONFIG.REPLY_PAGE_SIZE);
+    expect(listed[0].repliesCursor).toBe(listed[0].replies[4].id);
+
+    const rest = await forumService.getReplies(fan, top.id, {
+      cursor: listed[0].repliesCursor!,
+      levels: 0,
+    });
+    expect(rest.replies.map(reply => reply.content)).toEqual([
+      'Answer 5',
+      'Answer 6',
+    ]);
+    expect(rest.nextCursor).toBeNull();
+  });
+
+  it('stops nesting at the depth limit and continues as a thread', async () => {
+    const chain = await replyChain(
+      fan,
+      postId,
+      FORUM_CONFIG.MAX_COMMENT_DEPTH + 2
+    );
+
+    const {
+      comments: [top],
+    } = await forumService.listComments(fan, postId, 1, 20);
+    let deepest = top;
+    for (let level = 0; level < FORUM_CONFIG.MAX_COMMENT_DEPTH; level++) {
+      [deepest] = deepest.replies;
+    }
+    expect(deepest.id).toBe(chain[FORUM_CONFIG.MAX_COMMENT_DEPTH].id);
+    expect(deepest.replies).toEqual([]);
+    expect(deepest.continueThread).toBe(true);
+
+    const thread = await forumService.getThread(fan, deepest.id);
+    expect(thread.replies.map(reply => reply.id)).toEqual([
+      chain[FORUM_CONFIG.MAX_COMMENT_DEPTH + 1].id,
+    ]);
+  });
+
+  it('blanks a deleted comment that has replies and keeps the count', async () => {
+    const [top, reply] = await replyChain(fan, postId, 2);
+
+    expect(await forumService.deleteComment(fan, top.id)).toEqual({
+      removed: false,
+    });
+    const {
+      comments: [blanked],
+    } = await forumService.listComments(fan, postId, 1, 20);
+    expect(blanked).toEqual(
+      expect.objectContaining({ content: '', isDeleted: true, canReply: false })
+    );
+    expect(blanked.replies.map(comment => comment.id)).toEqual([reply.id]);
+
+    expect(await forumService.deleteComment(fan, reply.id)).toEqual({
+      removed: true,
+    });
+    expect(comments().rows).toHaveLength(1);
+    expect(comments().rows[0].replyCount).toBe(0);
+    expect((await forumService.getPost(fan, postId)).replyCount).toBe(1);
+  });
+
+  it('only lets moderators reply to a locked thread', async () => {
+    const moderator = signIn('moderator', UserRole.MODERATOR);
+    await forumService.lockPost(moderator, postId, true, { reason: 'Heated' });
+
+    await expect(
+      forumService.addComment(fan, { postId, content: 'One more thing' })
+    ).rejects.toMatchObject({ statusCode: 403 });
+    await forumService.addComment(moderator, { postId, content: 'Closing' });
+    expect(fakeDatabase.table('moderationLog').rows).toEqual([
+      expect.objectContaining({ action: 'LOCK_THREAD', reason: 'Heated' }),
+    ]);
+  });
+
+  describe('thread moderation', () => {
+    let moderator: AccessTokenPayload;
+    let tourId: string;
+
+    beforeEach(() => {
+      moderator = signIn('moderator', UserRole.MODERATOR);
+      tourId = fakeDatabase.table('forumCategory').insert({
+        name: 'Tour',
+        slug: 'tour',
+      }).id;
+    });
+
+    it('records a pin only when it changes the thread', async () => {
+      await expect(
+        forumService.pinPost(fan, postId, true, {})
+      ).rejects.toMatchObject({ statusCode: 403 });
+
+      await forumService.pinPost(moderator, postId, true, { reason: 'FAQ' });
+      const pinned = await forumService.pinPost(moderator, postId, true, {});
+      expect(pinned.isPinned).toBe(true);
+      await forumService.pinPost(moderator, postId, false, {});
+      expect(row('forumPost', postId).isPinned).toBe(false);
+      expect(logged()).toEqual([
+        expect.objectContaining({
+          action: 'PIN_THREAD',
+          moderatorId: moderator.sub,
+          targetId: postId,
+          reason: 'FAQ',
+        }),
+        expect.objectContaining({ action: 'UNPIN_THREAD', targetId: postId }),
+      ]);
+    });
+
+    it('moves a thread and its count to another category', async () => {
+      await expect(
+        forumService.movePost(fan, postId, { categoryId: tourId })
+      ).rejects.toMatchObject({ statusCode: 403 });
+
+      const moved = await forumService.movePost(moderator, postId, {
+        categoryId: tourId,
+        reason: 'Tour talk',
+      });
+      expect(moved.category).toEqual(expect.objectContaining({ slug: 'tour' }));
+      expect(row('forumCategory', gearId).postCount).toBe(0);
+      expect(row('forumCategory', tourId).postCount).toBe(1);
+      expect(logged()).toEqual([
+        expect.objectContaining({
+          action: 'MOVE_THREAD',
+          targetId: postId,
+          reason: 'Tour talk',
+        }),
+      ]);
+    });
+
+    it('merges a thread and its replies into another', async () => {
+      await replyChain(fan, postId, 1);
+      const source = await forumService.createPost(fan, {
+        title: 'Best amp?',
+        content: 'Tube or solid state?',
+        categoryId: tourId,
+      });
+      await replyChain(fan, source.id, 2);
+
+      await expect(
+        forumService.mergePosts(fan, source.id, { targetPostId: postId })
+      ).rejects.toMatchObject({ statusCode: 403 });
+      const merged = await forumService.mergePosts(moderator, source.id, {
+        targetPostId: postId,
+        reason: 'Duplicate',
+      });
+
+      // Its own reply, the source's opening text and the source's two replies
+      expect(merged.replyCount).toBe(4);
+      expect(posts().rows.map(post => post.id)).toEqual([postId]);
+      expect(comments().rows.every(comment => comment.postId === postId)).toBe(
+        true
+      );
+      expect(
+        comments().rows.find(
+          comment => comment.content === 'Tube or solid state?'
+        )
+      ).toEqual(expect.objectContaining({ parentId: null, depth: 0 }));
+      expect(row('forumCategory', gearId).postCount).toBe(1);
+      expect(row('forumCategory', tourId).postCount).toBe(0);
+      expect(logged()).toEqual([
+        expect.objectContaining({
+          action: 'MERGE_THREADS',
+          targetId: postId,
+          reason: 'Duplicate',
+        }),
+      ]);
+    });
+
+    it('splits a reply and its answers into a new thread one level up', async () => {
+      const chain = await replyChain(fan, postId, 4);
+
+      await expect(
+        forumService.splitThread(fan, chain[1].id, { title: 'Pedals' })
+      ).rejects.toMatchObject({ statusCode: 403 });
+      const thread = await forumService.splitThread(moderator, chain[1].id, {
+        title: 'Pedals',
+        categoryId: tourId,
+        reason: 'Off topic',
+      });
+
+      expect(thread).toEqual(
+        expect.objectContaining({
+          title: 'Pedals',
+          content: 'Reply 1',
+          replyCount: 2,
+        })
+      );
+      expect(row('forumComment', chain[2].id)).toEqual(
+        expect.objectContaining({ postId: thread.id, parentId: null, depth: 0 })
+      );
+      expect(row('forumComment', chain[3].id)).toEqual(
+        expect.objectContaining({
+          postId: thread.id,
+          parentId: chain[2].id,
+          depth: 1,
+        })
+      );
+      expect(row('forumComment', chain[1].id)).toBeUndefined();
+      expect(row('forumComment', chain[0].id).replyCount).toBe(0);
+      expect(row('forumPost', postId).replyCount).toBe(1);
+      expect(row('forumCategory', gearId).postCount).toBe(1);
+      expect(row('forumCategory', tourId).postCount).toBe(1);
+      expect(logged()).toEqual([
+        expect.objectContaining({
+          action: 'SPLIT_THREAD',
+          targetId: thread.id,
+          reason: 'Off topic',
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { NotificationType } from '../../../src/types/notification';
+import { ReactionType } from '../../../src/types/post';
+import { fakeDatabase } from '../../__tests__/fakeDatabase';
+import { inQuietHours, notificationService } from '../notificationService';
+
+jest.mock('../../config/database', () =>
+  require('../../__tests__/fakeDatabase').fakeDatabaseModule()
+);
+
+const HOUR = 60 * 60 * 1000;
+
+const users = () => fakeDatabase.table('user');
+const notifications = () => fakeDatabase.table('notification').rows;
+const digestItems = () => fakeDatabase.table('notificationDigestItem').rows;
+
+const addUser = (username: string, notificationPreferences: unknown = null) =>
+  users().insert({
+    username,
+    email: `${username}@example.com`,
+    notificationPreferences,
+  });
+
+const react = (actorId: string, recipientId: string, type: ReactionType) =>
+  notificationService.reaction({
+    actorId,
+    recipientId,
+    kind: 'post',
+    targetId: 'post-1',
+    postId: 'post-1',
+    postTitle: 'Tour dates announced',
+    type,
+  });
+
+describe('notificationService', () => {
+  beforeEach(() => fakeDatabase.reset());
+
+  describe('markRead', () => {
+    it('marks the notification read and returns it', async () => {
+      const fan = addUser('fan');
+      const notification = await notificationService.create(fan.id, {
+        type: NotificationType.SYSTEM,
+        title: 'Welcome',
+        content: 'Hello',
+        metadata: { source: 'signup' },
+      });
+
+      const read = await notificationService.markRead(fan.id, notification!.id);
+      expect(read).toEqual(
+        expect.objectContaining({
+          id: notification!.id,
+          type: NotificationType.SYSTEM,
+          isRead: true,
+          metadata: { source: 'signup' },
+        })
+      );
+    });
+
+    it("will not touch another user's notification", async () => {
+      const fan = addUser('fan');
+      const other = addUser('other');
+      const notification = await notificationService.create(fan.id, {
+        type: NotificationType.SYSTEM,
+        title: 'Welcome',
+        content: 'Hello',
+      });
+
+      await expect(
+        notificationService.markRead(other.id, notification!.id)
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(notifications()[0].isRead).toBe(false);
+    });
+  });
+
+  describe('digests', () => {
+    const hourlyReactions = {
+      digest: { frequency: 'hourly', types: [NotificationType.REACTION] },
+    };
+
+    it('collects digested types instead of notifying', async () => {
+      const fan = addUser('fan', hourlyReactions);
+      const drummer = addUser('drummer');
+
+      expect(await react(drummer.id, fan.id, ReactionType.LIKE)).toBeNull();
+      expect(notifications()).toHaveLength(0);
+      expect(digestItems()).toHaveLength(1);
+    });
+
+    it('rolls items up once the oldest has waited a full period', async () => {
+      const fan = addUser('fan', hourlyReactions);
+      const drummer = addUser('drummer');
+      const singer = addUser('singer');
+      await react(drummer.id, fan.id, ReactionType.LIKE);
+      await react(singer.id, fan.id, ReactionType.LIKE);
+
+      await notificationService.sendDigests(new Date(Date.now() + HOUR / 2));
+      expect(notifications()).toHaveLength(0);
+
+      await notificationService.sendDigests(new Date(Date.now() + HOUR + 1));
+      expect(notifications()).toEqual([
+        expect.objectContaining({
+          userId: fan.id,
+          type: NotificationType.REACTION,
+          title: '2 people liked your post',
+          metadata: expect.objectContaining({ count: 2, digest: true }),
+        }),
+      ]);
+      expect(digestItems()).toHaveLength(0);
+    });
+
+    it('sends each digest once when runs overlap', async () => {
+      const fan = addUser('fan', hourlyReactions);
+      const drummer = addUser('drummer');
+      await react(drummer.id, fan.id, ReactionType.LIKE);
+      await react(drummer.id, fan.id, ReactionType.LOVE);
+
+      const later = new Date(Date.now() + HOUR + 1);
+      await Promise.all([
+        notificationService.sendDigests(later),
+        notificationService.sendDigests(later),
+      ]);
+      expect(notifications()).toHaveLength(1);
+      expect(notifications()[0].title).toBe('1 person reacted to your post');
+    });
+
+    it('waits a full day for daily digests', async () => {
+      const fan = addUser('fan', {
+        digest: { frequency: 'daily', types: [NotificationType.REACTION] },
+      });
+      const drummer = addUser('drummer');
+      await react(drummer.id, fan.id, ReactionType.LIKE);
+
+      await notificationService.sendDigests(new Date(Date.now() + 2 * HOUR));
+      expect(notifications()).toHaveLength(0);
+
+      await notificationService.sendDigests(new Date(Date.now() + 24 * HOUR));
+      expect(notifications()).toHaveLength(1);
+    });
+
+    it('sends what was collected once digests are switched off', async () => {
+      const fan = addUser('fan', hourlyReactions);
+      const drummer = addUser('drummer');
+      await react(drummer.id, fan.id, ReactionType.LIKE);
+      await notificationService.updatePreferences(fan.id, {
+        digest: { frequency: 'off', types: [] },
+      });
+
+      await notificationService.sendDigests(new Date(Date.now() + HOUR + 1));
+      expect(notifications()).toHaveLength(1);
+      expect(digestItems()).toHaveLength(0);
+    });
+
+    it('holds digests during quiet hours', async () => {
+      const later = new Date(Date.now() + HOUR + 1);
+      // Quiet for the whole hour the digest falls due in
+      const hour = (offset: number) =>
+        `${String((later.getUTCHours() + offset) % 24).padStart(2, '0')}:00`;
+      const fan = addUser('fan', {
+        ...hourlyReactions,
+        quietHours: {
+          enabled: true,
+          start: hour(0),
+          end: hour(1),
+          timeZone: 'UTC',
+        },
+      });
+      const drummer = addUser('drummer');
+      await react(drummer.id, fan.id, ReactionType.LIKE);
+
+      await notificationService.sendDigests(later);
+      expect(notifications()).toHaveLength(0);
+      expect(digestItems()).toHaveLength(1);
+    });
+  });
+
+  describe('inQuietHours', () => {
+    const quiet = (start: string, end: string, timeZone = 'UTC') => ({
+      enabled: true,
+      start,
+      end,
+      timeZone,
+    });
+
+    it('covers the hours from start up to end', () => {
+      const hours = quiet('13:00', '15:00');
+      expect(inQuietHours(hours, new Date('2026-01-01T13:00:00Z'))).toBe(true);
+      expect(inQuietHours(hours, new Date('2026-01-01T14:59:00Z'))).toBe(true);
+      expect(inQuietHours(hours, new Date('2026-01-01T15:00:00Z'))).toBe(false);
+    });
+
+    it('wraps past midnight', () => {
+      const hours = quiet('22:00', '08:00');
+      expect(inQuietHours(hours, new Date('2026-01-01T23:30:00Z'))).toBe(true);
+      expect(inQuietHours(hours, new Date('2026-01-01T07:59:00Z'))).toBe(true);
+      expect(inQuietHours(hours, new Date('2026-01-01T12:00:00Z'))).toBe(false);
+    });
+
+    it("reads the clock in the member's time zone", () => {
+      const hours = quiet('22:00', '08:00', 'America/New_York');
+      // 03:00 UTC is 22:00 the evening before in New York
+      expect(inQuietHours(hours, new Date('2026-01-02T03:00:00Z'))).toBe(true);
+      expect(inQuietHours(hours, new Date('2026-01-01T23:30:00Z'))).toBe(false);
+    });
+
+    it('is never quiet when switched off or empty', () => {
+      const now = new Date('2026-01-01T23:30:00Z');
+      expect(
+        inQuietHours({ ...quiet('22:00', '08:00'), enabled: false }, now)
+      ).toBe(false);
+      expect(inQuietHours(quiet('00:00', '00:00'), now)).toBe(false);
+    });
+  });
+
+  it('keeps unchanged preferences when some are updated', async () => {
+    const fan = addUser('fan');
+
+    await notificationService.updatePreferences(fan.id, {
+      reactions: false,
+    });
+    const preferences = await notificationService.getPreferences(fan.id);
+    expect(preferences.reactions).toBe(false);
+    expect(preferences.mentions).toBe(true);
+  });
+});
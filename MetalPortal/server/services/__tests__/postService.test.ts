@@ -0,0 +1,119 @@
+import { UserRole } from '../../../src/types/auth';
+import {
+  FilterAction,
+  SanctionScope,
+  SanctionType,
+} from '../../../src/types/moderation';
+import { ContentAccessLevel, PostStatus } from '../../../src/types/post';
+import { fakeDatabase, signIn } from '../../__tests__/fakeDatabase';
+import { AccessTokenPayload } from '../../utils/tokens';
+import { postService } from '../postService';
+import { reportService } from '../reportService';
+import { sanctionService } from '../sanctionService';
+
+jest.mock('../../config/database', () =>
+  require('../../__tests__/fakeDatabase').fakeDatabaseModule()
+);
+jest.mock('../../utils/logger');
+
+const comments = () => fakeDatabase.table('comment').rows;
+
+describe('postService comments', () => {
+  let moderator: AccessTokenPayload;
+  let fan: AccessTokenPayload;
+  let postId: string;
+
+  beforeEach(() => {
+    fakeDatabase.reset();
+    fakeDatabase.table('systemConfig').insert({
+      key: 'content_filter',
+      value: JSON.stringify({
+        terms: [
+          { term: 'poser', action: FilterAction.MASK },
+          { term: 'cheap tickets', action: FilterAction.HOLD },
+        ],
+        flood: { windowSeconds: 0 },
+      }),
+    });
+    moderator = signIn('moderator', UserRole.MODERATOR);
+    fan = signIn('fan');
+    postId = fakeDatabase.table('post').insert({
+      title: 'Tour dates announced',
+      status: PostStatus.PUBLISHED,
+      accessLevel: ContentAccessLevel.PUBLIC,
+      authorId: moderator.sub,
+    }).id;
+  });
+
+  it('masks filtered terms', async () => {
+    const comment = await postService.addComment(fan, {
+      postId,
+      content: 'Only a poser skips the opener',
+    });
+
+    expect(comment).toEqual(
+      expect.objectContaining({
+        content: 'Only a ***** skips the opener',
+        isHeld: false,
+        author: expect.objectContaining({ username: 'fan' }),
+      })
+    );
+    expect((await postService.get(fan, postId)).commentCount).toBe(1);
+  });
+
+  it('holds comments for review and counts them once released', async () => {
+    const comment = await postService.addComment(fan, {
+      postId,
+      content: 'Cheap tickets here',
+    });
+    expect(comment.isHeld).toBe(true);
+    expect((await postService.get(moderator, postId)).commentCount).toBe(0);
+
+    const [report] = fakeDatabase.table('report').rows;
+    expect(report).toEqual(
+      expect.objectContaining({
+        reporterId: null,
+        targetType: 'comment',
+        targetId: comment.id,
+      })
+    );
+    await reportService.dismiss(moderator, report.id as string, {});
+    expect(comments()[0].isHeld).toBe(false);
+    expect((await postService.get(moderator, postId)).commentCount).toBe(1);
+  });
+
+  it('keeps held comments from being answered by others', async () => {
+    const held = await postService.addComment(fan, {
+      postId,
+      content: 'Cheap tickets here',
+    });
+    const singer = signIn('singer');
+
+    await expect(
+      postService.addComment(singer, {
+        postId,
+        parentId: held.id,
+        content: 'Where?',
+      })
+    ).rejects.toMatchObject({ statusCode: 404 });
+    await postService.addComment(fan, {
+      postId,
+      parentId: held.id,
+      content: 'Message me',
+    });
+    expect(comments()).toHaveLength(2);
+  });
+
+  it('refuses muted members', async () => {
+    await sanctionService.create(moderator, fan.sub, {
+      type: SanctionType.MUTE,
+      scope: SanctionScope.GLOBAL,
+      reason: 'Spam',
+    });
+
+    await expect(
+      postService.addComment(fan, { postId, content: 'Hello again' })
+    ).rejects.toMatchObject({ error: 'USER_MUTED' });
+    expect(comments()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,173 @@
+import { SubscriptionTier } from '../../../src/types/auth';
+import {
+  CreatePromoCodeInput,
+  PromoCodeKind,
+} from '../../../src/types/subscription';
+import { fakeDatabase } from '../../__tests__/fakeDatabase';
+import { BillingPlan } from '../../billing';
+import { promoCodeService } from '../promoCodeService';
+
+jest.mock('../../config/database', () =>
+  require('../../__tests__/fakeDatabase').fakeDatabaseModule()
+);
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const PLAN: BillingPlan = {
+  tier: SubscriptionTier.PREMIUM,
+  interval: 'month',
+  amount: 999,
+  currency: 'USD',
+};
+
+describe('promoCodeService', () => {
+  let fan: string;
+  let other: string;
+
+  const addUser = (username: string) =>
+    fakeDatabase.table('user').insert({
+      username,
+      email: `${username}@example.com`,
+    }).id;
+
+  const addCode = (input: Partial<CreatePromoCodeInput> = {}) =>
+    promoCodeService.create({
+      code: 'riff20',
+      description: '20% off your first month',
+      kind: PromoCodeKind.PERCENT_OFF,
+      percentOff: 20,
+      ...input,
+    });
+
+  const promo = () => fakeDatabase.table('promoCode').rows[0];
+
+  beforeEach(() => {
+    fakeDatabase.reset();
+    fan = addUser('fan');
+    other = addUser('other');
+  });
+
+  it('reserves a use of the code and gives it back when checkout fails', async () => {
+    await addCode();
+
+    const terms = await promoCodeService.reserve(fan, ' Riff20 ', PLAN);
+    expect(terms).toEqual(
+      expect.objectContaining({
+        discount: { percentOff: 20, periods: 1 },
+        discountAmount: 200,
+      })
+    );
+    expect(promo().redemptionCount).toBe(1);
+
+    await promoCodeService.release(terms.redemptionId);
+    expect(promo().redemptionCount).toBe(0);
+    expect(fakeDatabase.table('promoRedemption').rows).toEqual([]);
+    await expect(
+      promoCodeService.reserve(fan, 'RIFF20', PLAN)
+    ).resolves.toEqual(expect.objectContaining({ discountAmount: 200 }));
+  });
+
+  it('hands out the last use once when members check out together', async () => {
+    await addCode({ maxRedemptions: 1 });
+
+    const results = await Promise.allSettled([
+      promoCodeService.reserve(fan, 'RIFF20', PLAN),
+      promoCodeService.reserve(other, 'RIFF20', PLAN),
+    ]);
+    expect(results.map(result => result.status).sort()).toEqual([
+      'fulfilled',
+      'rejected',
+    ]);
+    expect(promo().redemptionCount).toBe(1);
+    await expect(
+      promoCodeService.preview(addUser('late'), 'RIFF20')
+    ).rejects.toMatchObject({
+      error: 'PROMO_CODE_INVALID',
+      message: 'This promo code has been fully redeemed',
+    });
+  });
+
+  it('refuses codes outside their dates and plans', async () => {
+    await addCode({
+      code: 'expired',
+      expiresAt: new Date(Date.now() - DAY),
+    });
+    await addCode({ code: 'later', startsAt: new Date(Date.now() + DAY) });
+    await addCode({
+      code: 'vip',
+      tiers: [SubscriptionTier.VIP],
+      intervals: ['year'],
+    });
+
+    await expect(
+      promoCodeService.reserve(fan, 'EXPIRED', PLAN)
+    ).rejects.toMatchObject({ message: 'This promo code has expired' });
+    await expect(
+      promoCodeService.reserve(fan, 'LATER', PLAN)
+    ).rejects.toMatchObject({ message: 'This promo code is not valid' });
+    await expect(
+      promoCodeService.preview(fan, 'VIP', { tier: SubscriptionTier.PREMIUM })
+    ).rejects.toMatchObject({
+      message: 'This promo code only applies to VIP plans',
+    });
+    await expect(
+      promoCodeService.preview(fan, 'VIP', { interval: 'month' })
+    ).rejects.toMatchObject({
+      message: 'This promo code only applies to yearly billing',
+    });
+    await expect(promoCodeService.preview(fan, 'NONE')).rejects.toMatchObject({
+      statusCode: 404,
+    });
+    expect(fakeDatabase.table('promoRedemption').rows).toEqual([]);
+  });
+
+  it('keeps free trials for members who have never subscribed', async () => {
+    await addCode({
+      code: 'tryout',
+      kind: PromoCodeKind.FREE_TRIAL,
+      percentOff: undefined,
+      trialDays: 14,
+    });
+    fakeDatabase.table('subscription').insert({
+      userId: other,
+      tier: SubscriptionTier.PREMIUM,
+      status: 'CANCELLED',
+    });
+
+    await expect(
+      promoCodeService.reserve(fan, 'TRYOUT', PLAN)
+    ).resolves.toEqual(
+      expect.objectContaining({ trialDays: 14, discountAmount: 0 })
+    );
+    await expect(
+      promoCodeService.reserve(other, 'TRYOUT', PLAN)
+    ).rejects.toMatchObject({
+      message: 'Free trials are for new subscribers only',
+    });
+  });
+
+  it('lets each member redeem a code once', async () => {
+    await addCode();
+    await promoCodeService.reserve(fan, 'RIFF20', PLAN);
+
+    await expect(
+      promoCodeService.reserve(fan, 'RIFF20', PLAN)
+    ).rejects.toMatchObject({
+      message: 'You have already used this promo code',
+    });
+    // Both checked before either wrote, so the unique index decides
+    const [first, second] = await Promise.allSettled([
+      promoCodeService.reserve(other, 'RIFF20', PLAN),
+      promoCodeService.reserve(other, 'RIFF20', PLAN),
+    ]);
+    expect(first.status).toBe('fulfilled');
+    expect(second).toEqual(
+      expect.objectContaining({
+        reason: expect.objectContaining({
+          error: 'PROMO_CODE_INVALID',
+          message: 'You have already used this promo code',
+        }),
+      })
+    );
+  });
+});
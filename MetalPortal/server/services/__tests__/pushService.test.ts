@@ -0,0 +1,181 @@
+import {
+  Notification,
+  NotificationType,
+} from '../../../src/types/notification';
+import { fakeDatabase } from '../../__tests__/fakeDatabase';
+import { createFakePushProvider } from '../../push/fakePushProvider';
+import { logger } from '../../utils/logger';
+import { notificationEvents } from '../notificationService';
+import { createPushService, PushService } from '../pushService';
+
+jest.mock('../../config/database', () =>
+  require('../../__tests__/fakeDatabase').fakeDatabaseModule()
+);
+jest.mock('../../utils/logger');
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const sessions = () => fakeDatabase.table('userSession');
+
+const addUser = (username: string, notificationPreferences: unknown = null) =>
+  fakeDatabase.table('user').insert({
+    username,
+    email: `${username}@example.com`,
+    notificationPreferences,
+  });
+
+const signIn = (userId: string, device: string, expiresIn = DAY) =>
+  sessions().insert({
+    userId,
+    token: `session-${device}`,
+    pushToken: `ExpoPushToken[${device}]`,
+    pushPlatform: 'ios',
+    expiresAt: new Date(Date.now() + expiresIn),
+  });
+
+let sequence = 0;
+
+// Stores an unread notification and announces it, as notificationService does
+const notify = (userId: string): Notification => {
+  sequence += 1;
+  const notification = fakeDatabase.table('notification').insert({
+    type: NotificationType.SYSTEM,
+    title: `Notice ${sequence}`,
+    content: 'Hello',
+    userId,
+  }) as unknown as Notification;
+  notificationEvents.emit('created', notification);
+  return notification;
+};
+
+describe('pushService', () => {
+  let provider: ReturnType<typeof createFakePushProvider>;
+  let deliver: typeof provider.send;
+  let send: jest.SpyInstance;
+  let service: PushService;
+
+  beforeEach(() => {
+    fakeDatabase.reset();
+    provider = createFakePushProvider();
+    provider.maxBatchSize = 2;
+    deliver = provider.send;
+    send = jest.spyOn(provider, 'send');
+    service = createPushService(provider);
+    service.start();
+  });
+
+  // Also cancels the flush each notification schedules
+  afterEach(() => service.stop());
+
+  it('pushes to every signed-in device with the unread count', async () => {
+    const fan = addUser('fan');
+    signIn(fan.id, 'phone');
+    signIn(fan.id, 'tablet');
+    signIn(fan.id, 'old-phone', -DAY);
+    notify(fan.id);
+    notify(fan.id);
+
+    expect(await service.flush()).toBe(4);
+    expect(
+      provider.simulator.sent().map(({ to, badge }) => [to, badge])
+    ).toEqual([
+      ['ExpoPushToken[phone]', 2],
+      ['ExpoPushToken[tablet]', 2],
+      ['ExpoPushToken[phone]', 2],
+      ['ExpoPushToken[tablet]', 2],
+    ]);
+  });
+
+  it('does not push during quiet hours', async () => {
+    const fan = addUser('fan', {
+      quietHours: {
+        enabled: true,
+        start: '00:00',
+        end: '00:00',
+        timeZone: 'UTC',
+      },
+    });
+    const sleeper = addUser('sleeper', {
+      quietHours: {
+        enabled: true,
+        start: '22:00',
+        end: '08:00',
+        timeZone: 'UTC',
+      },
+    });
+    signIn(fan.id, 'phone');
+    signIn(sleeper.id, 'tablet');
+    notify(fan.id);
+    notify(sleeper.id);
+
+    await service.flush(new Date('2026-01-01T23:00:00Z'));
+    expect(provider.simulator.sent().map(({ to }) => to)).toEqual([
+      'ExpoPushToken[phone]',
+    ]);
+  });
+
+  it('forgets tokens of uninstalled apps', async () => {
+    const fan = addUser('fan');
+    signIn(fan.id, 'phone');
+    signIn(fan.id, 'tablet');
+    provider.simulator.markUnregistered('ExpoPushToken[tablet]');
+    notify(fan.id);
+
+    await service.flush();
+    expect(sessions().rows.map(session => session.pushToken)).toEqual([
+      'ExpoPushToken[phone]',
+      null,
+    ]);
+  });
+
+  it('retries the batches a failed request left unsent', async () => {
+    const fan = addUser('fan');
+    ['a', 'b', 'c'].forEach(device => signIn(fan.id, device));
+    notify(fan.id);
+    send
+      .mockImplementationOnce(deliver)
+      .mockRejectedValueOnce(new Error('Push service unavailable'));
+
+    await expect(service.flush()).rejects.toThrow('Push service unavailable');
+    expect(provider.simulator.sent()).toHaveLength(2);
+
+    expect(await service.flush()).toBe(1);
+    expect(provider.simulator.sent().map(({ to }) => to)).toEqual([
+      'ExpoPushToken[a]',
+      'ExpoPushToken[b]',
+      'ExpoPushToken[c]',
+    ]);
+  });
+
+  it('gives up on a push after repeated failures', async () => {
+    const fan = addUser('fan');
+    signIn(fan.id, 'phone');
+    notify(fan.id);
+    send.mockRejectedValue(new Error('Push service unavailable'));
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await expect(service.flush()).rejects.toThrow();
+    }
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Giving up on 1 pushes after 3 attempts'
+    );
+    send.mockRestore();
+    expect(await service.flush()).toBe(0);
+  });
+
+  it('drops checked tickets and tokens whose receipts failed', async () => {
+    const fan = addUser('fan');
+    signIn(fan.id, 'phone');
+    signIn(fan.id, 'tablet');
+    notify(fan.id);
+    await service.flush();
+    provider.simulator.markUnregistered('ExpoPushToken[tablet]');
+
+    await service.checkReceipts(new Date(Date.now() + DAY));
+    expect(fakeDatabase.table('pushTicket').rows).toHaveLength(0);
+    expect(sessions().rows.map(session => session.pushToken)).toEqual([
+      'ExpoPushToken[phone]',
+      null,
+    ]);
+  });
+});
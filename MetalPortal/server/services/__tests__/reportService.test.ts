@@ -0,0 +1,148 @@
+import { UserRole } from '../../../src/types/auth';
+import {
+  ModerationAction,
+  ReportOutcome,
+  ReportReason,
+  ReportStatus,
+  SanctionType,
+} from '../../../src/types/moderation';
+import { MODERATION_CONFIG } from '../../../src/utils/constants';
+import { fakeDatabase, signIn } from '../../__tests__/fakeDatabase';
+import { AccessTokenPayload } from '../../utils/tokens';
+import { reportService } from '../reportService';
+
+jest.mock('../../config/database', () =>
+  require('../../__tests__/fakeDatabase').fakeDatabaseModule()
+);
+jest.mock('../../utils/logger');
+
+const HOUR = 60 * 60 * 1000;
+
+const comments = () => fakeDatabase.table('comment').rows;
+const reports = () => fakeDatabase.table('report').rows;
+const logged = () =>
+  fakeDatabase.table('moderationLog').rows.map(entry => entry.action);
+
+const reportComment = (reporter: AccessTokenPayload, targetId: string) =>
+  reportService.create(reporter, {
+    targetType: 'comment',
+    targetId,
+    reason: ReportReason.HARASSMENT,
+  });
+
+describe('reportService bulk resolution', () => {
+  let moderator: AccessTokenPayload;
+  let troll: AccessTokenPayload;
+  let fan: AccessTokenPayload;
+  let singer: AccessTokenPayload;
+  let firstId: string;
+  let secondId: string;
+
+  beforeEach(() => {
+    fakeDatabase.reset();
+    moderator = signIn('moderator', UserRole.MODERATOR);
+    troll = signIn('troll');
+    fan = signIn('fan');
+    singer = signIn('singer');
+    const post = fakeDatabase.table('post').insert({
+      title: 'Tour dates announced',
+      authorId: moderator.sub,
+    });
+    [firstId, secondId] = ['You all suck', 'Still sucks'].map(
+      content =>
+        fakeDatabase.table('comment').insert({
+          content,
+          postId: post.id,
+          authorId: troll.sub,
+        }).id
+    );
+  });
+
+  it('removes the content once and settles every open report about it', async () => {
+    const first = await reportComment(fan, firstId);
+    const again = await reportComment(singer, firstId);
+    const second = await reportComment(fan, secondId);
+
+    expect(
+      await reportService.bulk(moderator, {
+        reportIds: [first.id, second.id],
+        action: 'resolve',
+        outcome: ReportOutcome.REMOVE_CONTENT,
+        note: 'Abuse',
+      })
+    ).toEqual({ updated: 3 });
+
+    expect(reports().map(report => report.status)).toEqual([
+      ReportStatus.RESOLVED,
+      ReportStatus.RESOLVED,
+      ReportStatus.RESOLVED,
+    ]);
+    // Removed comments are kept as the reports' evidence
+    expect(comments()).toEqual([
+      expect.objectContaining({
+        content: 'You all suck',
+        deletedAt: expect.any(Date),
+      }),
+      expect.objectContaining({
+        content: 'Still sucks',
+        deletedAt: expect.any(Date),
+      }),
+    ]);
+    expect((await reportService.get(again.id)).target).toEqual({
+      content: 'You all suck',
+      isRemoved: true,
+    });
+    expect(logged().sort()).toEqual([
+      ModerationAction.REMOVE_CONTENT,
+      ModerationAction.REMOVE_CONTENT,
+      ModerationAction.RESOLVE_REPORT,
+      ModerationAction.RESOLVE_REPORT,
+      ModerationAction.RESOLVE_REPORT,
+    ]);
+  });
+
+  it('mutes a member once however many reports name them', async () => {
+    const first = await reportComment(fan, firstId);
+    const second = await reportComment(singer, secondId);
+    const before = Date.now();
+
+    await reportService.bulk(moderator, {
+      reportIds: [first.id, second.id],
+      action: 'resolve',
+      outcome: ReportOutcome.MUTE,
+    });
+
+    const sanctions = fakeDatabase.table('userSanction').rows;
+    expect(sanctions).toEqual([
+      expect.objectContaining({
+        userId: troll.sub,
+        type: SanctionType.MUTE,
+        issuedById: moderator.sub,
+      }),
+    ]);
+    const expiresAt = (sanctions[0].expiresAt as Date).getTime();
+    expect(expiresAt - before).toBeGreaterThanOrEqual(
+      MODERATION_CONFIG.DEFAULT_MUTE_HOURS * HOUR
+    );
+    expect(comments().map(comment => comment.deletedAt)).toEqual([null, null]);
+  });
+
+  it('leaves reports that are already closed as they are', async () => {
+    const first = await reportComment(fan, firstId);
+    const second = await reportComment(fan, secondId);
+    await reportService.dismiss(moderator, first.id, { note: 'Banter' });
+
+    expect(
+      await reportService.bulk(moderator, {
+        reportIds: [first.id, second.id],
+        action: 'resolve',
+        outcome: ReportOutcome.REMOVE_CONTENT,
+      })
+    ).toEqual({ updated: 1 });
+    expect(reports().map(report => report.status)).toEqual([
+      ReportStatus.DISMISSED,
+      ReportStatus.RESOLVED,
+    ]);
+    expect(comments()[0].deletedAt).toBeNull();
+  });
+});
@@ -0,0 +1,197 @@
+import bcrypt from 'bcryptjs';
+import { UserRole } from '../../../src/types/auth';
+import {
+  ModerationAction,
+  ReportReason,
+  SanctionScope,
+  SanctionType,
+} from '../../../src/types/moderation';
+import { ReactionType } from '../../../src/types/post';
+import { MODERATION_CONFIG } from '../../../src/utils/constants';
+import { fakeDatabase, signIn } from '../../__tests__/fakeDatabase';
+import { AccessTokenPayload } from '../../utils/tokens';
+import { authService } from '../authService';
+import { reactionService } from '../reactionService';
+import { reportService } from '../reportService';
+import { sanctionService } from '../sanctionService';
+
+jest.mock('../../config/database', () =>
+  require('../../__tests__/fakeDatabase').fakeDatabaseModule()
+);
+jest.mock('../../utils/logger');
+
+const HOUR = 60 * 60 * 1000;
+const START = new Date('2026-03-01T12:00:00Z');
+
+describe('sanctionService', () => {
+  let moderator: AccessTokenPayload;
+  let troll: AccessTokenPayload;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+    fakeDatabase.reset();
+    moderator = signIn('moderator', UserRole.MODERATOR);
+    troll = signIn('troll');
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  describe('expiry', () => {
+    const mute = () =>
+      sanctionService.create(moderator, troll.sub, {
+        type: SanctionType.MUTE,
+        scope: SanctionScope.GLOBAL,
+        reason: 'Spam',
+      });
+
+    it('blocks writing until a mute expires', async () => {
+      const sanction = await mute();
+      expect(sanction.expiresAt).toEqual(
+        new Date(START.getTime() + MODERATION_CONFIG.DEFAULT_MUTE_HOURS * HOUR)
+      );
+      await expect(
+        sanctionService.assertCanWrite(troll.sub)
+      ).rejects.toMatchObject({ statusCode: 403, error: 'USER_MUTED' });
+      expect(await sanctionService.listActive(troll.sub)).toHaveLength(1);
+
+      jest.setSystemTime(sanction.expiresAt!.getTime() + 1);
+      await expect(
+        sanctionService.assertCanWrite(troll.sub)
+      ).resolves.toBeUndefined();
+      expect(await sanctionService.listActive(troll.sub)).toEqual([]);
+    });
+
+    it('refuses appeals and lifts of an expired sanction', async () => {
+      const sanction = await mute();
+      jest.setSystemTime(sanction.expiresAt!.getTime() + 1);
+
+      await expect(
+        sanctionService.appeal(troll, sanction.id, { message: 'Sorry' })
+      ).rejects.toMatchObject({ statusCode: 409 });
+      await expect(
+        sanctionService.lift(moderator, sanction.id, {})
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('keeps a ban without a duration in force', async () => {
+      await sanctionService.create(moderator, troll.sub, {
+        type: SanctionType.BAN,
+        scope: SanctionScope.GLOBAL,
+        reason: 'Threats',
+      });
+
+      jest.setSystemTime(START.getTime() + 365 * 24 * HOUR);
+      await expect(
+        sanctionService.assertNotBanned(troll.sub)
+      ).rejects.toMatchObject({ error: 'USER_BANNED' });
+    });
+  });
+
+  it('only blocks the category a scoped ban names, ahead of a mute', async () => {
+    const category = fakeDatabase.table('forumCategory').insert({
+      name: 'Gear',
+      slug: 'gear',
+    });
+    const place = {
+      scope: SanctionScope.FORUM_CATEGORY as const,
+      scopeId: category.id,
+    };
+    await sanctionService.create(moderator, troll.sub, {
+      type: SanctionType.MUTE,
+      scope: SanctionScope.GLOBAL,
+      reason: 'Spam',
+    });
+    await sanctionService.create(moderator, troll.sub, {
+      type: SanctionType.BAN,
+      ...place,
+      reason: 'Flaming',
+    });
+
+    await expect(
+      sanctionService.assertCanWrite(troll.sub, place)
+    ).rejects.toMatchObject({ error: 'USER_BANNED' });
+    await expect(
+      sanctionService.assertCanWrite(troll.sub)
+    ).rejects.toMatchObject({ error: 'USER_MUTED' });
+    await expect(
+      sanctionService.assertNotBanned(troll.sub)
+    ).resolves.toBeUndefined();
+  });
+
+  it('lifts the sanction when its appeal is accepted', async () => {
+    const sanction = await sanctionService.create(moderator, troll.sub, {
+      type: SanctionType.MUTE,
+      scope: SanctionScope.GLOBAL,
+      reason: 'Spam',
+    });
+    const appeal = await sanctionService.appeal(troll, sanction.id, {
+      message: 'It was a joke',
+    });
+
+    await sanctionService.acceptAppeal(moderator, appeal.id, { note: 'Fair' });
+    await expect(
+      sanctionService.assertCanWrite(troll.sub)
+    ).resolves.toBeUndefined();
+    expect(
+      fakeDatabase.table('moderationLog').rows.map(entry => entry.action)
+    ).toEqual([
+      ModerationAction.MUTE_USER,
+      ModerationAction.ACCEPT_APPEAL,
+      ModerationAction.LIFT_SANCTION,
+    ]);
+  });
+
+  it('signs a member banned everywhere out and keeps them out', async () => {
+    // bcrypt yields to the event loop between rounds
+    jest.useRealTimers();
+    const password = 'correct horse battery';
+    await fakeDatabase.table('user').update({
+      where: { id: troll.sub },
+      data: { passwordHash: bcrypt.hashSync(password, 4) },
+    });
+    const login = () =>
+      authService.login({ email: 'troll@example.com', password });
+    const { tokens } = await login();
+    const room = fakeDatabase.table('chatRoom').insert({ name: 'Lobby' });
+
+    await sanctionService.create(moderator, troll.sub, {
+      type: SanctionType.BAN,
+      scope: SanctionScope.CHAT_ROOM,
+      scopeId: room.id,
+      reason: 'Flaming',
+    });
+    expect(
+      await fakeDatabase.table('userSession').count({
+        where: { userId: troll.sub },
+      })
+    ).toBe(1);
+
+    await sanctionService.create(moderator, troll.sub, {
+      type: SanctionType.BAN,
+      scope: SanctionScope.GLOBAL,
+      reason: 'Threats',
+    });
+    expect(
+      await fakeDatabase.table('userSession').count({
+        where: { userId: troll.sub },
+      })
+    ).toBe(0);
+    await expect(
+      authService.refresh(tokens.refreshToken)
+    ).rejects.toMatchObject({ statusCode: 401 });
+    await expect(login()).rejects.toMatchObject({
+      statusCode: 403,
+      error: 'USER_BANNED',
+    });
+    await expect(
+      reactionService.react(troll, 'post', 'post-1', ReactionType.LIKE)
+    ).rejects.toMatchObject({ error: 'USER_BANNED' });
+    await expect(
+      reportService.create(troll, {
+        targetType: 'user',
+        targetId: moderator.sub,
+        reason: ReportReason.HARASSMENT,
+      })
+    ).rejects.toMatchObject({ error: 'USER_BANNED' });
+  });
+});
@@ -0,0 +1,174 @@
+import {
+  SubscriptionStatus,
+  SubscriptionTier,
+  UserRole,
+} from '../../../src/types/auth';
+import { fakeDatabase } from '../../__tests__/fakeDatabase';
+import {
+  createFakePaymentProvider,
+  FakePaymentProvider,
+} from '../../billing/fakePaymentProvider';
+import { signWebhookPayload } from '../../billing/signature';
+import {
+  createSubscriptionService,
+  SubscriptionService,
+  subscriptionEvents,
+} from '../subscriptionService';
+
+jest.mock('../../config/database', () =>
+  require('../../__tests__/fakeDatabase').fakeDatabaseModule()
+);
+jest.mock('../../utils/logger');
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = new Date('2026-03-01T12:00:00Z');
+const SECRET = 'test-webhook-secret';
+
+describe('subscriptionService', () => {
+  let provider: FakePaymentProvider;
+  let subscriptions: SubscriptionService;
+  // Every webhook delivered, to send again
+  let delivered: { payload: string; signature: string }[];
+  let accessChanged: string[];
+  const onAccessChanged = (userId: string) => accessChanged.push(userId);
+
+  const addUser = (username: string, role = UserRole.FAN) =>
+    fakeDatabase.table('user').insert({
+      username,
+      email: `${username}@example.com`,
+      role,
+    }).id;
+
+  const user = (id: string) =>
+    fakeDatabase.table('user').rows.find(row => row.id === id)!;
+
+  const stages = () =>
+    fakeDatabase
+      .table('notification')
+      .rows.map(
+        notification => (notification.metadata as { stage: string }).stage
+      );
+
+  beforeEach(() => {
+    // Only the date: webhooks are delivered on real timers
+    jest.useFakeTimers({
+      now: START,
+      doNotFake: [
+        'nextTick',
+        'queueMicrotask',
+        'setImmediate',
+        'setTimeout',
+        'clearTimeout',
+        'setInterval',
+        'clearInterval',
+      ],
+    });
+    fakeDatabase.reset();
+    delivered = [];
+    accessChanged = [];
+    subscriptionEvents.on('accessChanged', onAccessChanged);
+    provider = createFakePaymentProvider({
+      secret: SECRET,
+      toleranceSeconds: 300,
+      deliver: async (payload, signature) => {
+        delivered.push({ payload, signature });
+        await subscriptions.handleWebhook(payload, signature);
+      },
+    });
+    subscriptions = createSubscriptionService(provider);
+  });
+
+  afterEach(() => {
+    subscriptionEvents.off('accessChanged', onAccessChanged);
+    jest.useRealTimers();
+  });
+
+  it('gives the member the tier and role of their plan', async () => {
+    const fan = addUser('fan');
+
+    await subscriptions.subscribe(fan, { tier: SubscriptionTier.PREMIUM });
+    await provider.simulator.settle();
+    expect(user(fan)).toEqual(
+      expect.objectContaining({
+        subscriptionTier: SubscriptionTier.PREMIUM,
+        subscriptionStatus: SubscriptionStatus.ACTIVE,
+        role: UserRole.PREMIUM_FAN,
+      })
+    );
+
+    await subscriptions.changePlan(fan, { tier: SubscriptionTier.VIP });
+    await provider.simulator.settle();
+    expect(user(fan)).toEqual(
+      expect.objectContaining({
+        subscriptionTier: SubscriptionTier.VIP,
+        role: UserRole.VIP_FAN,
+      })
+    );
+    // Once per change, however many webhooks report it
+    expect(accessChanged).toEqual([fan, fan]);
+  });
+
+  it('ends a cancelled subscription when the provider reports the period over', async () => {
+    const fan = addUser('fan');
+    await subscriptions.subscribe(fan, { tier: SubscriptionTier.PREMIUM });
+    await subscriptions.cancel(fan);
+    await provider.simulator.settle();
+    expect(user(fan).role).toBe(UserRole.PREMIUM_FAN);
+
+    jest.setSystemTime(START.getTime() + 31 * DAY);
+    await provider.simulator.advanceClock(0);
+    await provider.simulator.settle();
+    expect(await subscriptions.getCurrent(fan)).toEqual(
+      expect.objectContaining({ status: SubscriptionStatus.CANCELLED })
+    );
+    expect(user(fan)).toEqual(
+      expect.objectContaining({
+        subscriptionTier: SubscriptionTier.FREE,
+        subscriptionStatus: SubscriptionStatus.CANCELLED,
+        role: UserRole.FAN,
+      })
+    );
+    expect(stages()).toEqual(['cancelled']);
+    expect(accessChanged).toEqual([fan, fan]);
+  });
+
+  it('skips events it has already applied', async () => {
+    const fan = addUser('fan');
+    await subscriptions.subscribe(fan, { tier: SubscriptionTier.PREMIUM });
+    await provider.simulator.settle();
+    const retrieve = jest.spyOn(provider, 'retrieveSubscription');
+
+    for (const { payload, signature } of delivered) {
+      await subscriptions.handleWebhook(payload, signature);
+    }
+    expect(retrieve).not.toHaveBeenCalled();
+    expect(fakeDatabase.table('paymentWebhookEvent').rows).toHaveLength(
+      delivered.length
+    );
+  });
+
+  it('bills staff without changing their role', async () => {
+    const moderator = addUser('moderator', UserRole.MODERATOR);
+
+    await subscriptions.subscribe(moderator, { tier: SubscriptionTier.VIP });
+    await provider.simulator.settle();
+    expect(user(moderator)).toEqual(
+      expect.objectContaining({
+        subscriptionTier: SubscriptionTier.VIP,
+        role: UserRole.MODERATOR,
+      })
+    );
+  });
+
+  it('refuses webhooks without a valid signature', async () => {
+    const payload = JSON.stringify({ id: 'evt_forged', type: 'invoice.paid' });
+
+    await expect(
+      subscriptions.handleWebhook(
+        payload,
+        signWebhookPayload(payload, 'another-secret')
+      )
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(fakeDatabase.table('paymentWebhookEvent').rows).toEqual([]);
+  });
+});
@@ -0,0 +1,254 @@
+// Authentication business logic
+
+import bcrypt from 'bcryptjs';
+import { prisma } from '../config/database';
+import { env, isProduction } from '../config/env';
+import { mailProvider } from '../mail';
+import { AUTH_CONFIG } from '../../src/utils/constants';
+import {
+  AuthResponse,
+  AuthTokens,
+  AuthUser,
+  LoginCredentials,
+  RegisterCredentials,
+} from '../../src/types/auth';
+import { badRequest, conflict, notFound, unauthorized } from '../utils/errors';
+import { logger } from '../utils/logger';
+import {
+  generateOpaqueToken,
+  hashToken,
+  issueTokens,
+  verifyRefreshToken,
+} from '../utils/tokens';
+import { sanctionService } from './sanctionService';
+
+interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+type UserRecord = NonNullable<Awaited<ReturnType<typeof prisma.user.findUnique>>>;
+
+// Map a database user onto the public AuthUser shape
+export const toAuthUser = (user: UserRecord): AuthUser => ({
+  id: user.id,
+  email: user.email,
+  username: user.username,
+  displayName: user.displayName ?? undefined,
+  role: user.role as AuthUser['role'],
+  subscriptionTier: user.subscriptionTier as AuthUser['subscriptionTier'],
+  subscriptionStatus: user.subscriptionStatus as AuthUser['subscriptionStatus'],
+  avatar: user.avatar ?? undefined,
+  isVerified: user.isVerified,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
+
+// Create a session row and a token pair bound to it
+const startSession = async (
+  user: UserRecord,
+  context: SessionContext
+): Promise<AuthTokens> => {
+  const session = await prisma.userSession.create({
+    data: {
+      userId: user.id,
+      // Placeholder until the refresh token (which embeds the session id) is signed
+      token: generateOpaqueToken(),
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      expiresAt: new Date(Date.now() + AUTH_CONFIG.REFRESH_TOKEN_EXPIRY),
+    },
+  });
+
+  return rotateSession(user, session.id);
+};
+
+// Issue a new token pair for an existing session, invalidating the previous refresh token
+const rotateSession = async (user: UserRecord, sessionId: string): Promise<AuthTokens> => {
+  const tokens = issueTokens(
+    {
+      sub: user.id,
+      sid: sessionId,
+      role: user.role as AuthUser['role'],
+      subscriptionTier: user.subscriptionTier as AuthUser['subscriptionTier'],
+      subscriptionStatus: user.subscriptionStatus as AuthUser['subscriptionStatus'],
+    },
+    { sub: user.id, sid: sessionId }
+  );
+
+  await prisma.userSession.update({
+    where: { id: sessionId },
+    data: {
+      token: hashToken(tokens.refreshToken),
+      expiresAt: new Date(Date.now() + AUTH_CONFIG.REFRESH_TOKEN_EXPIRY),
+    },
+  });
+
+  return tokens;
+};
+
+export const authService = {
+  register: async (
+    credentials: RegisterCredentials,
+    context: SessionContext = {}
+  ): Promise<AuthResponse> => {
+    const email = credentials.email.trim().toLowerCase();
+    const existing = await prisma.user.findFirst({
+      where: { OR: [{ email }, { username: credentials.username }] },
+    });
+    if (existing) {
+      throw conflict(
+        existing.email === email ? 'Email is already registered' : 'Username is already taken'
+      );
+    }
+
+    const passwordHash = await bcrypt.hash(credentials.password, env.BCRYPT_SALT_ROUNDS);
+    const user = await prisma.user.create({
+      data: {
+        email,
+        username: credentials.username,
+        displayName: credentials.displayName || credentials.username,
+        passwordHash,
+      },
+    });
+
+    const tokens = await startSession(user, context);
+    return { user: toAuthUser(user), tokens };
+  },
+
+  login: async (
+    credentials: LoginCredentials,
+    context: SessionContext = {}
+  ): Promise<AuthResponse> => {
+    const user = await prisma.user.findUnique({
+      where: { email: credentials.email.trim().toLowerCase() },
+    });
+    // Same message for an unknown email and a wrong password
+    if (!user || !(await bcrypt.compare(credentials.password, user.passwordHash))) {
+      throw unauthorized('Invalid email or password');
+    }
+    await sanctionService.assertNotBanned(user.id);
+
+    const [tokens] = await Promise.all([
+      startSession(user, context),
+      prisma.user.update({ where: { id: user.id }, data: { lastActiveAt: new Date() } }),
+    ]);
+    return { user: toAuthUser(user), tokens };
+  },
+
+  refresh: async (refreshToken: string): Promise<AuthResponse> => {
+    let payload;
+    try {
+      payload = verifyRefreshToken(refreshToken);
+    } catch {
+      throw unauthorized('Invalid or expired refresh token');
+    }
+
+    const session = await prisma.userSession.findUnique({ where: { id: payload.sid } });
+    if (!session || session.userId !== payload.sub || session.expiresAt < new Date()) {
+      throw unauthorized('Session has expired');
+    }
+
+    // A refresh token that no longer matches its session was already rotated:
+    // treat the reuse as theft and end the session
+    if (session.token !== hashToken(refreshToken)) {
+      await prisma.userSession.delete({ where: { id: session.id } });
+      throw unauthorized('Refresh token has been revoked');
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: payload.sub } });
+    if (!user) {
+      throw unauthorized('User no longer exists');
+    }
+    await sanctionService.assertNotBanned(user.id);
+
+    const tokens = await rotateSession(user, session.id);
+    return { user: toAuthUser(user), tokens };
+  },
+
+  logout: async (refreshToken?: string): Promise<void> => {
+    if (!refreshToken) return;
+    await prisma.userSession.deleteMany({ where: { token: hashToken(refreshToken) } });
+  },
+
+  // Returns the raw reset token outside production so the flow can be exercised locally
+  requestPasswordReset: async (email: string): Promise<{ resetToken?: string }> => {
+    const user = await prisma.user.findUnique({
+      where: { email: email.trim().toLowerCase() },
+    });
+    // Never reveal whether the address is registered
+    if (!user) return {};
+
+    const resetToken = generateOpaqueToken();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        passwordResetToken: hashToken(resetToken),
+        passwordResetExpiry: new Date(Date.now() + env.PASSWORD_RESET_EXPIRY),
+      },
+    });
+
+    const resetUrl = `${env.PASSWORD_RESET_URL}?token=${encodeURIComponent(resetToken)}`;
+    const minutes = Math.round(env.PASSWORD_RESET_EXPIRY / 60000);
+    try {
+      await mailProvider.send({
+        to: user.email,
+        subject: 'Reset your MetalPortal password',
+        text:
+          `Hi ${user.username},\n\n` +
+          `Open this link to choose a new password:\n${resetUrl}\n\n` +
+          `The link expires in ${minutes} minutes. ` +
+          `If you did not ask for a reset, ignore this email.`,
+      });
+    } catch (error) {
+      // Failing the request would reveal that the address is registered
+      logger.error(`Password reset email to user ${user.id} failed:`, error);
+    }
+
+    return isProduction ? {} : { resetToken };
+  },
+
+  confirmPasswordReset: async (token: string, newPassword: string): Promise<void> => {
+    const user = await prisma.user.findFirst({
+      where: {
+        passwordResetToken: hashToken(token),
+        passwordResetExpiry: { gt: new Date() },
+      },
+    });
+    if (!user) {
+      throw badRequest('Reset token is invalid or has expired');
+    }
+
+    const passwordHash = await bcrypt.hash(newPassword, env.BCRYPT_SALT_ROUNDS);
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        data: { passwordHash, passwordResetToken: null, passwordResetExpiry: null },
+      }),
+      // Sign out every device after a reset
+      prisma.userSession.deleteMany({ where: { userId: user.id } }),
+    ]);
+  },
+
+  // Keeps the session the change was made from and signs out every other one
+  changePassword: async (
+    userId: string,
+    sessionId: string,
+    currentPassword: string,
+    newPassword: string
+  ): Promise<void> => {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw notFound('User not found');
+    }
+    if (!(await bcrypt.compare(currentPassword, user.passwordHash))) {
+      throw badRequest('Current password is incorrect');
+    }
+
+    const passwordHash = await bcrypt.hash(newPassword, env.BCRYPT_SALT_ROUNDS);
+    await prisma.$transaction([
+      prisma.user.update({ where: { id: userId }, data: { passwordHash } }),
+      prisma.userSession.deleteMany({ where: { userId, id: { not: sessionId } } }),
+    ]);
+  },
+};
@@ -0,0 +1,367 @@
+// Chat rooms, room messages and direct messages
+//
+// Room and direct messages pass through the content filter. Held messages are
+// only shown to their author and the moderators until a moderator reviews
+// them.
+
+import { Prisma } from '../../generated/prisma';
+import { prisma } from '../config/database';
+import { UserRole } from '../../src/types/auth';
+import {
+  ChatMessage,
+  ChatRoom,
+  CreateChatMessageInput,
+  CreateMessageInput,
+  Message,
+  MessageType,
+} from '../../src/types/chat';
+import { SanctionScope } from '../../src/types/moderation';
+import { ContentAccessLevel } from '../../src/types/post';
+import {
+  AccessAction,
+  AccessSubject,
+  canAccess,
+  decideDirectMessage,
+  MODERATOR_ROLES,
+} from '../../src/utils/permissions';
+import {
+  assertAccess,
+  assertDecision,
+  findAccessSubject,
+} from '../utils/access';
+import { authorSelect, toAuthor } from '../utils/authors';
+import { badRequest, notFound } from '../utils/errors';
+import { AccessTokenPayload } from '../utils/tokens';
+import { contentFilterService } from './contentFilterService';
+import { notificationService, notifyInBackground } from './notificationService';
+import { listableLevels } from './postService';
+import { sanctionService } from './sanctionService';
+
+type ChatRoomRecord = NonNullable<
+  Awaited<ReturnType<typeof prisma.chatRoom.findFirst>>
+>;
+
+const roomMessageInclude = { user: { select: authorSelect } };
+
+const directMessageInclude = {
+  sender: { select: authorSelect },
+  receiver: { select: authorSelect },
+};
+
+type ChatMessageRow = Prisma.ChatMessageGetPayload<{
+  include: typeof roomMessageInclude;
+}>;
+
+type MessageRow = Prisma.MessageGetPayload<{
+  include: typeof directMessageInclude;
+}>;
+
+export interface ChatUser {
+  id: string;
+  username: string;
+}
+
+// A mute or ban stops the member posting whatever their subscription allows
+const presentRoom = (
+  viewer: AccessSubject,
+  room: ChatRoomRecord,
+  silenced: boolean
+): ChatRoom => {
+  const accessLevel = ContentAccessLevel[room.accessLevel];
+  return {
+    id: room.id,
+    name: room.name,
+    description: room.description ?? undefined,
+    isPrivate: room.isPrivate,
+    accessLevel,
+    maxUsers: room.maxUsers ?? undefined,
+    isActive: room.isActive,
+    createdAt: room.createdAt,
+    updatedAt: room.updatedAt,
+    messages: [],
+    canAccess: canAccess(viewer, 'view', accessLevel),
+    canSend: canAccess(viewer, 'interact', accessLevel) && !silenced,
+  };
+};
+
+const toChatMessage = (row: ChatMessageRow): ChatMessage => ({
+  id: row.id,
+  content: row.content,
+  type: MessageType[row.type],
+  roomId: row.roomId,
+  userId: row.userId,
+  user: toAuthor(row.user),
+  mediaUrl: row.mediaUrl ?? undefined,
+  clientId: row.clientId ?? undefined,
+  isDeleted: row.isDeleted,
+  isHeld: row.isHeld,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+const toMessage = (row: MessageRow): Message => ({
+  id: row.id,
+  content: row.content,
+  type: MessageType[row.type],
+  senderId: row.senderId,
+  sender: toAuthor(row.sender),
+  receiverId: row.receiverId,
+  receiver: toAuthor(row.receiver),
+  mediaUrl: row.mediaUrl ?? undefined,
+  clientId: row.clientId ?? undefined,
+  isRead: row.isRead,
+  isDeleted: row.isDeleted,
+  isHeld: row.isHeld,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+export const chatService = {
+  getUser: async (userId: string): Promise<ChatUser | null> =>
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, username: true },
+    }),
+
+  getAccessSubject: findAccessSubject,
+
+  // Public rooms the viewer can join or could unlock by subscribing
+  listRooms: async (viewer: AccessTokenPayload): Promise<ChatRoom[]> => {
+    const [rooms, sanctions] = await Promise.all([
+      prisma.chatRoom.findMany({
+        where: {
+          isActive: true,
+          isPrivate: false,
+          accessLevel: { in: listableLevels(viewer) },
+        },
+        orderBy: { name: 'asc' },
+      }),
+      sanctionService.listActive(viewer.sub),
+    ]);
+    return rooms.map(room =>
+      presentRoom(
+        viewer,
+        room,
+        sanctions.some(
+          sanction =>
+            sanction.scope === SanctionScope.GLOBAL ||
+            (sanction.scope === SanctionScope.CHAT_ROOM &&
+              sanction.scopeId === room.id)
+        )
+      )
+    );
+  },
+
+  // Reading a room needs view access; posting to it needs interact access
+  getRoom: async (
+    roomId: string,
+    viewer: AccessSubject,
+    action: AccessAction = 'view'
+  ) => {
+    const room = await prisma.chatRoom.findFirst({
+      where: { id: roomId, isActive: true },
+    });
+    if (!room) {
+      throw notFound('Chat room not found');
+    }
+    assertAccess(viewer, action, ContentAccessLevel[room.accessLevel]);
+    return room;
+  },
+
+  // A resend carrying an already stored clientId returns the original message.
+  // Members @mentioned in a new message are notified. Members muted or banned
+  // here or everywhere cannot post.
+  createRoomMessage: async (
+    viewer: AccessTokenPayload,
+    input: CreateChatMessageInput
+  ): Promise<ChatMessage> => {
+    const room = await chatService.getRoom(input.roomId, viewer, 'interact');
+    await sanctionService.assertCanWrite(viewer.sub, {
+      scope: SanctionScope.CHAT_ROOM,
+      scopeId: room.id,
+    });
+    const userId = viewer.sub;
+    const include = roomMessageInclude;
+
+    if (input.clientId) {
+      const resent = await prisma.chatMessage.findUnique({
+        where: { userId_clientId: { userId, clientId: input.clientId } },
+        include,
+      });
+      if (resent) return toChatMessage(resent);
+    }
+    const { fields, held } = await contentFilterService.screen(
+      viewer,
+      'chat_message',
+      { content: input.content }
+    );
+    const data = {
+      content: fields.content,
+      type: input.type,
+      roomId: input.roomId,
+      mediaUrl: input.mediaUrl,
+      clientId: input.clientId,
+      userId,
+      isHeld: held.length > 0,
+    };
+    const message = input.clientId
+      ? await prisma.chatMessage.upsert({
+          where: { userId_clientId: { userId, clientId: input.clientId } },
+          create: data,
+          update: {},
+          include,
+        })
+      : await prisma.chatMessage.create({ data, include });
+    if (message.isHeld) {
+      await contentFilterService.hold(
+        prisma,
+        'chat_message',
+        message.id,
+        userId,
+        held
+      );
+      return toChatMessage(message);
+    }
+
+    notifyInBackground(
+      notificationService.mentions({
+        text: message.content,
+        author: message.user,
+        accessLevel: ContentAccessLevel[room.accessLevel],
+        metadata: { roomId: room.id, messageId: message.id },
+      })
+    );
+    return toChatMessage(message);
+  },
+
+  createDirectMessage: async (
+    viewer: AccessTokenPayload,
+    input: CreateMessageInput
+  ): Promise<Message> => {
+    const senderId = viewer.sub;
+    if (input.receiverId === senderId) {
+      throw badRequest('You cannot message yourself');
+    }
+    const [sender, receiver] = await Promise.all([
+      chatService.getAccessSubject(senderId),
+      prisma.user.findUnique({
+        where: { id: input.receiverId },
+        select: { id: true, role: true },
+      }),
+    ]);
+    if (!receiver) {
+      throw notFound('User not found');
+    }
+    await sanctionService.assertCanWrite(senderId);
+    // Read from the database rather than the token so a lapsed subscription
+    // takes effect immediately
+    assertDecision(
+      decideDirectMessage(sender, UserRole[receiver.role]),
+      'Direct messages to this member need a higher subscription'
+    );
+
+    const include = directMessageInclude;
+
+    // Resends of a delivered message must not notify the receiver again
+    if (input.clientId) {
+      const resent = await prisma.message.findUnique({
+        where: { senderId_clientId: { senderId, clientId: input.clientId } },
+        include,
+      });
+      if (resent) return toMessage(resent);
+    }
+    const { fields, held } = await contentFilterService.screen(
+      viewer,
+      'direct_message',
+      { content: input.content }
+    );
+    const data = {
+      content: fields.content,
+      type: input.type,
+      receiverId: input.receiverId,
+      mediaUrl: input.mediaUrl,
+      clientId: input.clientId,
+      senderId,
+      isHeld: held.length > 0,
+    };
+    const message = input.clientId
+      ? await prisma.message.upsert({
+          where: { senderId_clientId: { senderId, clientId: input.clientId } },
+          create: data,
+          update: {},
+          include,
+        })
+      : await prisma.message.create({ data, include });
+    if (message.isHeld) {
+      await contentFilterService.hold(
+        prisma,
+        'direct_message',
+        message.id,
+        senderId,
+        held
+      );
+      return toMessage(message);
+    }
+
+    notifyInBackground(notificationService.directMessage(message));
+    return toMessage(message);
+  },
+
+  // Newest first, matching the order the client pages through history
+  listRoomMessages: async (
+    viewer: AccessTokenPayload,
+    roomId: string,
+    page: number,
+    limit: number
+  ): Promise<{ messages: ChatMessage[]; total: number }> => {
+    await chatService.getRoom(roomId, viewer);
+    const where = {
+      roomId,
+      isDeleted: false,
+      ...(!MODERATOR_ROLES.includes(viewer.role) && {
+        OR: [{ isHeld: false }, { userId: viewer.sub }],
+      }),
+    };
+    const [messages, total] = await Promise.all([
+      prisma.chatMessage.findMany({
+        where,
+        include: roomMessageInclude,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.chatMessage.count({ where }),
+    ]);
+    return { messages: messages.map(toChatMessage), total };
+  },
+
+  // Messages between two users, newest first. Held messages are left out for
+  // the receiver.
+  listConversationMessages: async (
+    userId: string,
+    participantId: string,
+    page: number,
+    limit: number
+  ): Promise<{ messages: Message[]; total: number }> => {
+    const where = {
+      isDeleted: false,
+      OR: [
+        { senderId: userId, receiverId: participantId },
+        { senderId: participantId, receiverId: userId, isHeld: false },
+      ],
+    };
+    const [messages, total] = await Promise.all([
+      prisma.message.findMany({
+        where,
+        include: directMessageInclude,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.message.count({ where }),
+    ]);
+    return { messages: messages.map(toMessage), total };
+  },
+};
+
+export type ChatService = typeof chatService;
@@ -0,0 +1,210 @@
+// Resumable (chunked) upload sessions
+//
+// Parts are written to disk under UPLOAD_DIR/.parts/<uploadId>/<index> and
+// stitched together on completion. Which parts have arrived is read back from
+// disk, so a client can resume after a dropped connection or a server restart.
+// Completing claims the session first, so two requests never both assemble it,
+// and a scheduled job purges expired sessions along with their parts.
+
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+import { FILE_UPLOAD } from '../../src/utils/constants';
+import { validateFile } from '../../src/utils/validation';
+import { MediaFile } from '../../src/types/common';
+import { InitUploadInput, UploadSessionStatus } from '../../src/types/upload';
+import { MAX_UPLOAD_SIZE } from '../middleware/upload';
+import { badRequest, conflict, notFound } from '../utils/errors';
+import { mediaService } from './mediaService';
+
+const PARTS_DIR = path.join(env.UPLOAD_DIR, '.parts');
+
+const partsDir = (uploadId: string) => path.join(PARTS_DIR, uploadId);
+const partPath = (uploadId: string, index: number) => path.join(partsDir(uploadId), String(index));
+
+type UploadSessionRecord = NonNullable<Awaited<ReturnType<typeof prisma.uploadSession.findUnique>>>;
+
+const listReceivedChunks = async (uploadId: string): Promise<number[]> => {
+  try {
+    const entries = await fs.promises.readdir(partsDir(uploadId));
+    return entries
+      .filter(entry => /^\d+$/.test(entry))
+      .map(Number)
+      .sort((a, b) => a - b);
+  } catch {
+    return [];
+  }
+};
+
+const expectedChunkSize = (session: UploadSessionRecord, index: number): number =>
+  index === session.totalChunks - 1
+    ? session.fileSize - session.chunkSize * (session.totalChunks - 1)
+    : session.chunkSize;
+
+const toStatus = async (session: UploadSessionRecord): Promise<UploadSessionStatus> => ({
+  uploadId: session.id,
+  chunkSize: session.chunkSize,
+  totalChunks: session.totalChunks,
+  receivedChunks: session.status === 'pending' ? await listReceivedChunks(session.id) : [],
+  status: session.status as UploadSessionStatus['status'],
+  expiresAt: session.expiresAt,
+});
+
+// Load a session owned by the user that can still accept parts
+const findActiveSession = async (userId: string, uploadId: string) => {
+  const session = await prisma.uploadSession.findUnique({ where: { id: uploadId } });
+  if (!session || session.userId !== userId) {
+    throw notFound('Upload session not found');
+  }
+  if (session.status !== 'pending' || session.expiresAt < new Date()) {
+    throw conflict(`Upload session is ${session.status === 'pending' ? 'expired' : session.status}`);
+  }
+  return session;
+};
+
+// Stitch the parts into the stored file and remove them
+const assembleParts = async (session: UploadSessionRecord): Promise<MediaFile> => {
+  const storedName = `${session.id}${path.extname(session.fileName).toLowerCase()}`;
+  const output = fs.createWriteStream(path.join(env.UPLOAD_DIR, storedName));
+  for (let index = 0; index < session.totalChunks; index++) {
+    await pipeline(fs.createReadStream(partPath(session.id, index)), output, { end: false });
+  }
+  await new Promise<void>((resolve, reject) => {
+    output.end((error?: Error | null) => (error ? reject(error) : resolve()));
+  });
+
+  const stats = await fs.promises.stat(path.join(env.UPLOAD_DIR, storedName));
+  if (stats.size !== session.fileSize || stats.size > MAX_UPLOAD_SIZE[session.kind as MediaFile['type']]) {
+    await fs.promises.rm(path.join(env.UPLOAD_DIR, storedName), { force: true });
+    throw badRequest('Assembled file size does not match the declared size');
+  }
+
+  await fs.promises.rm(partsDir(session.id), { recursive: true, force: true });
+  return mediaService.toMediaFile(
+    { filename: storedName, originalname: session.fileName, size: stats.size },
+    session.kind as MediaFile['type']
+  );
+};
+
+export const chunkedUploadService = {
+  init: async (userId: string, input: InitUploadInput): Promise<UploadSessionStatus> => {
+    const validation = validateFile({ size: input.fileSize, type: input.mimeType }, input.kind);
+    if (!validation.isValid) {
+      throw badRequest(validation.error || 'Invalid file');
+    }
+
+    const chunkSize = FILE_UPLOAD.CHUNK_SIZE;
+    const session = await prisma.uploadSession.create({
+      data: {
+        userId,
+        fileName: input.fileName,
+        mimeType: input.mimeType,
+        kind: input.kind,
+        fileSize: input.fileSize,
+        chunkSize,
+        totalChunks: Math.max(1, Math.ceil(input.fileSize / chunkSize)),
+        expiresAt: new Date(Date.now() + FILE_UPLOAD.UPLOAD_SESSION_TTL),
+      },
+    });
+
+    await fs.promises.mkdir(partsDir(session.id), { recursive: true });
+    return toStatus(session);
+  },
+
+  getStatus: async (userId: string, uploadId: string): Promise<UploadSessionStatus> => {
+    const session = await prisma.uploadSession.findUnique({ where: { id: uploadId } });
+    if (!session || session.userId !== userId) {
+      throw notFound('Upload session not found');
+    }
+    return toStatus(session);
+  },
+
+  // Store one part. Re-sending a part that already arrived simply overwrites it.
+  putChunk: async (
+    userId: string,
+    uploadId: string,
+    index: number,
+    data: Buffer
+  ): Promise<UploadSessionStatus> => {
+    const session = await findActiveSession(userId, uploadId);
+
+    if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+      throw badRequest(`Chunk index must be between 0 and ${session.totalChunks - 1}`);
+    }
+    if (data.length !== expectedChunkSize(session, index)) {
+      throw badRequest(
+        `Chunk ${index} should be ${expectedChunkSize(session, index)} bytes, got ${data.length}`
+      );
+    }
+
+    // Write then rename so a half-written part is never mistaken for a complete one
+    await fs.promises.mkdir(partsDir(uploadId), { recursive: true });
+    const target = partPath(uploadId, index);
+    const temporary = `${target}.tmp`;
+    await fs.promises.writeFile(temporary, data);
+    await fs.promises.rename(temporary, target);
+
+    return toStatus(session);
+  },
+
+  complete: async (userId: string, uploadId: string): Promise<MediaFile> => {
+    const session = await findActiveSession(userId, uploadId);
+
+    const received = await listReceivedChunks(uploadId);
+    if (received.length !== session.totalChunks) {
+      const missing = Array.from({ length: session.totalChunks }, (_, index) => index).filter(
+        index => !received.includes(index)
+      );
+      throw badRequest('Upload is missing chunks', { missingChunks: missing });
+    }
+
+    // Only one request gets to assemble the parts
+    const { count } = await prisma.uploadSession.updateMany({
+      where: { id: uploadId, status: 'pending' },
+      data: { status: 'assembling' },
+    });
+    if (count === 0) {
+      throw conflict('Upload session is already being completed');
+    }
+
+    let media: MediaFile;
+    try {
+      media = await assembleParts(session);
+    } catch (error) {
+      // The parts are still there, so the client can try again
+      await prisma.uploadSession.update({ where: { id: uploadId }, data: { status: 'pending' } });
+      throw error;
+    }
+    await prisma.uploadSession.update({
+      where: { id: uploadId },
+      data: { status: 'completed', mediaUrl: media.url },
+    });
+
+    return media;
+  },
+
+  // Scheduled: drop sessions past their expiry and any parts left on disk
+  purgeExpired: async (now = new Date()): Promise<void> => {
+    const expired = await prisma.uploadSession.findMany({
+      where: { expiresAt: { lt: now } },
+      select: { id: true },
+    });
+    for (const { id } of expired) {
+      await fs.promises.rm(partsDir(id), { recursive: true, force: true });
+    }
+    await prisma.uploadSession.deleteMany({ where: { id: { in: expired.map(({ id }) => id) } } });
+  },
+
+  abort: async (userId: string, uploadId: string): Promise<void> => {
+    const session = await prisma.uploadSession.findUnique({ where: { id: uploadId } });
+    if (!session || session.userId !== userId) {
+      throw notFound('Upload session not found');
+    }
+    await fs.promises.rm(partsDir(uploadId), { recursive: true, force: true });
+    if (session.status === 'pending') {
+      await prisma.uploadSession.update({ where: { id: uploadId }, data: { status: 'aborted' } });
+    }
+  },
+};
@@ -0,0 +1,423 @@
+// Content filter
+//
+// Feed comments, forum threads and replies, and chat and direct messages are
+// screened before they are stored. The rules are a list of filtered terms,
+// phrases that are never filtered (band names, mostly), link limits and
+// blocked domains, spam heuristics and a limit on how fast members may write.
+// Each rule allows, masks, holds or rejects what it matches, and the strongest
+// action of the rules matched wins. Held content is stored hidden from
+// everyone but its author and the moderators, and the filter reports it for
+// review. The rules are kept in SystemConfig; moderators are never filtered.
+
+import { prisma } from '../config/database';
+import {
+  ContentFilterConfig,
+  FilterAction,
+  FilteredContentType,
+  FilterMatch,
+  FilterRule,
+  FilterVerdict,
+  ModerationAction,
+  ReportReason,
+  ReportStatus,
+} from '../../src/types/moderation';
+import { MODERATION_CONFIG } from '../../src/utils/constants';
+import { truncateText } from '../../src/utils/format';
+import { MODERATOR_ROLES } from '../../src/utils/permissions';
+import { badRequest, HttpError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import {
+  capitals,
+  compileTerm,
+  findDomain,
+  findLinks,
+  findTerm,
+  longestRun,
+  maskSpans,
+  normalizeText,
+  spanWithin,
+  TextSpan,
+  toLowerChars,
+} from '../utils/textMatching';
+import { AccessTokenPayload } from '../utils/tokens';
+import { moderationService } from './moderationService';
+
+// Text fields as they may be stored, and the rules that held them if any
+export interface ScreenedContent<T> {
+  fields: T;
+  held: FilterMatch[];
+}
+
+type TransactionClient = Parameters<
+  Parameters<typeof prisma.$transaction>[0]
+>[0];
+
+interface CompiledFilter {
+  config: ContentFilterConfig;
+  terms: { term: string; action: FilterAction; pattern: RegExp }[];
+  allowedPhrases: RegExp[];
+}
+
+// A rule matched, with the parts of the text to mask
+interface Hit extends FilterMatch {
+  spans: TextSpan[];
+}
+
+const CONFIG_KEY = 'content_filter';
+// Changes made by other server processes show up after this long
+const CONFIG_TTL = 30 * 1000;
+
+export const DEFAULT_CONTENT_FILTER: ContentFilterConfig = {
+  terms: [],
+  allowedPhrases: [],
+  links: {
+    maxLinks: 3,
+    action: FilterAction.HOLD,
+    blockedDomains: [],
+    blockedDomainAction: FilterAction.REJECT,
+  },
+  spam: {
+    maxRepeatedChars: 12,
+    maxCapsRatio: 0.8,
+    minCapsLength: 20,
+    action: FilterAction.HOLD,
+  },
+  flood: {
+    windowSeconds: 60,
+    limits: {
+      post: 5,
+      comment: 15,
+      forum_post: 5,
+      forum_comment: 15,
+      chat_message: 30,
+      direct_message: 30,
+    },
+    action: FilterAction.REJECT,
+  },
+};
+
+const ACTION_RANK: Record<FilterAction, number> = {
+  [FilterAction.ALLOW]: 0,
+  [FilterAction.MASK]: 1,
+  [FilterAction.HOLD]: 2,
+  [FilterAction.REJECT]: 3,
+};
+
+const REJECTION_MESSAGES: Record<FilterRule, string> = {
+  term: 'This contains language that is not allowed here',
+  link_count: 'This has too many links',
+  blocked_domain: 'Links to this site are not allowed',
+  repeated_chars: 'This looks like spam',
+  caps: 'Please do not write in capitals',
+  flood: 'You are writing too fast; wait a moment and try again',
+};
+
+const RULE_NAMES: Record<FilterRule, string> = {
+  term: 'filtered term',
+  link_count: 'too many links',
+  blocked_domain: 'blocked site',
+  repeated_chars: 'repeated characters',
+  caps: 'capitals',
+  flood: 'writing too fast',
+};
+
+let cached: { filter: CompiledFilter; loadedAt: number } | null = null;
+
+// Recent write times per member and content type. They are kept in memory,
+// so each server process counts on its own.
+const recentWrites = new Map<string, number[]>();
+
+// Sections missing from the stored config keep their defaults
+const withDefaults = (
+  stored: Partial<ContentFilterConfig>
+): ContentFilterConfig => ({
+  terms: stored.terms ?? DEFAULT_CONTENT_FILTER.terms,
+  allowedPhrases:
+    stored.allowedPhrases ?? DEFAULT_CONTENT_FILTER.allowedPhrases,
+  links: { ...DEFAULT_CONTENT_FILTER.links, ...stored.links },
+  spam: { ...DEFAULT_CONTENT_FILTER.spam, ...stored.spam },
+  flood: {
+    ...DEFAULT_CONTENT_FILTER.flood,
+    ...stored.flood,
+    limits: {
+      ...DEFAULT_CONTENT_FILTER.flood.limits,
+      ...stored.flood?.limits,
+    },
+  },
+});
+
+const compile = (config: ContentFilterConfig): CompiledFilter => ({
+  config,
+  terms: config.terms.map(({ term, action }) => ({
+    term,
+    action,
+    pattern: compileTerm(term),
+  })),
+  allowedPhrases: config.allowedPhrases.map(compileTerm),
+});
+
+const loadFilter = async (): Promise<CompiledFilter> => {
+  if (cached && Date.now() - cached.loadedAt < CONFIG_TTL) {
+    return cached.filter;
+  }
+  const row = await prisma.systemConfig.findUnique({
+    where: { key: CONFIG_KEY },
+  });
+  let config = DEFAULT_CONTENT_FILTER;
+  if (row) {
+    try {
+      config = withDefaults(JSON.parse(row.value));
+    } catch (error) {
+      logger.error('Stored content filter is not valid JSON', error);
+    }
+  }
+  cached = { filter: compile(config), loadedAt: Date.now() };
+  return cached.filter;
+};
+
+const checkText = (filter: CompiledFilter, text: string): Hit[] => {
+  const { links: linkRules, spam } = filter.config;
+  if (text.length > MODERATION_CONFIG.MAX_SCREENED_TEXT_LENGTH) {
+    throw badRequest('This is too long to be checked');
+  }
+  const lowered = toLowerChars(text);
+  const normalized = normalizeText(lowered);
+  const hits: Hit[] = [];
+
+  const allowed = filter.allowedPhrases.flatMap(pattern =>
+    findTerm(normalized, pattern)
+  );
+  for (const { term, action, pattern } of filter.terms) {
+    const spans = findTerm(normalized, pattern).filter(
+      span => !allowed.some(phrase => spanWithin(span, phrase))
+    );
+    if (spans.length > 0) {
+      hits.push({ rule: 'term', action, detail: term, spans });
+    }
+  }
+
+  const links = findLinks(text);
+  if (links.length > linkRules.maxLinks) {
+    hits.push({
+      rule: 'link_count',
+      action: linkRules.action,
+      detail: `${links.length} links`,
+      spans: links,
+    });
+  }
+  for (const domain of linkRules.blockedDomains) {
+    // A masked domain takes the rest of its link with it
+    const spans = findDomain(lowered, domain.toLowerCase()).map(
+      span => links.find(link => spanWithin(span, link)) ?? span
+    );
+    if (spans.length > 0) {
+      hits.push({
+        rule: 'blocked_domain',
+        action: linkRules.blockedDomainAction,
+        detail: domain,
+        spans,
+      });
+    }
+  }
+
+  const run = longestRun(text);
+  if (run > spam.maxRepeatedChars) {
+    hits.push({
+      rule: 'repeated_chars',
+      action: spam.action,
+      detail: `${run} in a row`,
+      spans: [],
+    });
+  }
+  const caps = capitals(text);
+  if (caps.letters >= spam.minCapsLength && caps.ratio > spam.maxCapsRatio) {
+    hits.push({
+      rule: 'caps',
+      action: spam.action,
+      detail: `${Math.round(caps.ratio * 100)}% capitals`,
+      spans: [],
+    });
+  }
+  return hits;
+};
+
+const strongest = (hits: Hit[]): Hit | undefined =>
+  hits.reduce<Hit | undefined>(
+    (top, hit) =>
+      !top || ACTION_RANK[hit.action] > ACTION_RANK[top.action] ? hit : top,
+    undefined
+  );
+
+const toMatch = ({ rule, action, detail }: Hit): FilterMatch => ({
+  rule,
+  action,
+  detail,
+});
+
+const masked = (text: string, hits: Hit[]) =>
+  maskSpans(
+    text,
+    hits
+      .filter(hit => hit.action === FilterAction.MASK)
+      .flatMap(hit => hit.spans)
+  );
+
+// Drops write times that have left the window; returns the ones still in it
+const writesInWindow = (key: string, windowSeconds: number): number[] => {
+  const since = Date.now() - windowSeconds * 1000;
+  const times = (recentWrites.get(key) ?? []).filter(time => time > since);
+  if (times.length > 0) {
+    recentWrites.set(key, times);
+  } else {
+    recentWrites.delete(key);
+  }
+  return times;
+};
+
+const checkFlood = (
+  { flood }: ContentFilterConfig,
+  key: string,
+  type: FilteredContentType
+): Hit | null =>
+  writesInWindow(key, flood.windowSeconds).length >= flood.limits[type]
+    ? {
+        rule: 'flood',
+        action: flood.action,
+        detail: `more than ${flood.limits[type]} in ${flood.windowSeconds} seconds`,
+        spans: [],
+      }
+    : null;
+
+const rejection = (hit: Hit) =>
+  new HttpError(
+    hit.rule === 'flood' ? 429 : 400,
+    REJECTION_MESSAGES[hit.rule],
+    'CONTENT_REJECTED',
+    { rule: hit.rule, detail: hit.detail }
+  );
+
+export const contentFilterService = {
+  // Masks the fields given, or throws when a rule rejects them. Edits are
+  // screened like new content but do not count towards the flood limit.
+  screen: async <T extends Record<string, string | undefined>>(
+    author: AccessTokenPayload,
+    type: FilteredContentType,
+    fields: T,
+    { isEdit = false }: { isEdit?: boolean } = {}
+  ): Promise<ScreenedContent<T>> => {
+    if (MODERATOR_ROLES.includes(author.role)) {
+      return { fields, held: [] };
+    }
+    const filter = await loadFilter();
+    const floodKey = `${type}:${author.sub}`;
+    const flood = isEdit ? null : checkFlood(filter.config, floodKey, type);
+    const checked = Object.entries(fields)
+      .filter((entry): entry is [string, string] => entry[1] !== undefined)
+      .map(([name, text]) => [name, text, checkText(filter, text)] as const);
+    const hits = [
+      ...checked.flatMap(([, , fieldHits]) => fieldHits),
+      ...(flood ? [flood] : []),
+    ];
+
+    const top = strongest(hits);
+    if (top?.action === FilterAction.REJECT) {
+      throw rejection(top);
+    }
+    if (!isEdit) {
+      recentWrites.set(floodKey, [
+        ...writesInWindow(floodKey, filter.config.flood.windowSeconds),
+        Date.now(),
+      ]);
+    }
+    return {
+      fields: {
+        ...fields,
+        ...Object.fromEntries(
+          checked.map(([name, text, fieldHits]) => [
+            name,
+            masked(text, fieldHits),
+          ])
+        ),
+      },
+      held: hits.filter(hit => hit.action === FilterAction.HOLD).map(toMatch),
+    };
+  },
+
+  // Reports held content to the moderators, once while the report is open
+  hold: async (
+    db: TransactionClient | typeof prisma,
+    type: FilteredContentType,
+    targetId: string,
+    userId: string,
+    held: FilterMatch[]
+  ): Promise<void> => {
+    if (held.length === 0) return;
+    const open = await db.report.findFirst({
+      where: {
+        reporterId: null,
+        targetType: type,
+        targetId,
+        status: { in: [ReportStatus.PENDING, ReportStatus.IN_REVIEW] },
+      },
+      select: { id: true },
+    });
+    if (open) return;
+    const reasons = held
+      .map(match => `${RULE_NAMES[match.rule]} (${match.detail})`)
+      .join(', ');
+    await db.report.create({
+      data: {
+        reason: held.some(match => match.rule === 'term')
+          ? ReportReason.OTHER
+          : ReportReason.SPAM,
+        description: truncateText(
+          `Held by the content filter: ${reasons}`,
+          MODERATION_CONFIG.MAX_REPORT_DESCRIPTION_LENGTH
+        ),
+        targetType: type,
+        targetId,
+        targetUserId: userId,
+      },
+    });
+  },
+
+  // What the filter would do with a text, leaving out the flood limit
+  test: async (text: string): Promise<FilterVerdict> => {
+    const hits = checkText(await loadFilter(), text);
+    return {
+      action: strongest(hits)?.action ?? FilterAction.ALLOW,
+      matches: hits.map(toMatch),
+      text: masked(text, hits),
+    };
+  },
+
+  getConfig: async (): Promise<ContentFilterConfig> =>
+    (await loadFilter()).config,
+
+  // Admins only
+  updateConfig: async (
+    admin: AccessTokenPayload,
+    config: ContentFilterConfig
+  ): Promise<ContentFilterConfig> => {
+    const value = JSON.stringify(config);
+    await prisma.$transaction(async (tx: TransactionClient) => {
+      await tx.systemConfig.upsert({
+        where: { key: CONFIG_KEY },
+        create: { key: CONFIG_KEY, value },
+        update: { value },
+      });
+      await moderationService.record(tx, {
+        action: ModerationAction.UPDATE_CONTENT_FILTER,
+        moderatorId: admin.sub,
+        targetType: 'content_filter',
+        targetId: CONFIG_KEY,
+        details: {
+          terms: config.terms.length,
+          allowedPhrases: config.allowedPhrases.length,
+        },
+      });
+    });
+    cached = { filter: compile(config), loadedAt: Date.now() };
+    return config;
+  },
+};
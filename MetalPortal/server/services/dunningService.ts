@@ -0,0 +1,168 @@
+// Failed renewals: payment retries, grace period reminders and expiry
+//
+// A failed renewal starts a grace period during which the user keeps their
+// benefits (see subscriptionService). These steps are run by the job runner;
+// each one only touches subscriptions that are due, so running them late or
+// twice is harmless.
+
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+import { paymentProvider, PaymentProvider } from '../billing';
+import { SubscriptionStatus } from '../../src/types/auth';
+import { logger } from '../utils/logger';
+import {
+  notifyBillingStage,
+  startDunning,
+  subscriptionService,
+  SubscriptionService,
+} from './subscriptionService';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// A renewal the provider has not reported on this long after it was due is
+// treated as a failed one
+const MISSED_RENEWAL_AFTER = DAY;
+
+type SubscriptionRecord = Awaited<
+  ReturnType<typeof prisma.subscription.findMany>
+>[number];
+
+// Only subscriptions the provider knows about can be retried or synced
+type BilledSubscription = SubscriptionRecord & { stripeSubscriptionId: string };
+
+const BILLED = { stripeSubscriptionId: { not: null } };
+
+const isBilled = (row: SubscriptionRecord): row is BilledSubscription =>
+  row.stripeSubscriptionId !== null;
+
+// Run a step for each due subscription; one failing does not hold up the rest
+const forEachDue = async <T extends SubscriptionRecord>(
+  rows: T[],
+  step: (row: T) => Promise<void>
+) => {
+  for (const row of rows) {
+    try {
+      await step(row);
+    } catch (error) {
+      logger.error(`Dunning step failed for subscription ${row.id}`, error);
+    }
+  }
+};
+
+export const createDunningService = (
+  provider: PaymentProvider,
+  subscriptions: Pick<SubscriptionService, 'syncFromProvider'>
+) => ({
+  // Charge the open invoice again once the next attempt in the schedule is due
+  retryPayments: async (now: Date) => {
+    const due = await prisma.subscription.findMany({
+      where: {
+        ...BILLED,
+        status: SubscriptionStatus.ACTIVE,
+        paymentFailedAt: { not: null },
+        nextPaymentAttemptAt: { lte: now },
+        gracePeriodEndsAt: { gt: now },
+      },
+    });
+
+    await forEachDue(due.filter(isBilled), async subscription => {
+      const remote = await provider.retryPayment(
+        subscription.stripeSubscriptionId
+      );
+      if (remote.status !== 'past_due') {
+        // Paid (or changed under us): applying it ends dunning
+        await subscriptions.syncFromProvider(remote.id);
+        return;
+      }
+
+      // Retry days count from the first failure; without one, or past the
+      // last retry, the grace period is left to run out
+      const { paymentFailedAt } = subscription;
+      const attempts = subscription.paymentAttempts + 1;
+      const retryDay = env.PAYMENT_RETRY_DAYS[attempts - 1];
+      const updated = await prisma.subscription.update({
+        where: { id: subscription.id },
+        data: {
+          paymentAttempts: attempts,
+          nextPaymentAttemptAt:
+            retryDay === undefined || !paymentFailedAt
+              ? null
+              : new Date(paymentFailedAt.getTime() + retryDay * DAY),
+        },
+      });
+      await notifyBillingStage(updated, 'payment_retry_failed');
+    });
+  },
+
+  // One reminder shortly before the grace period runs out
+  sendGraceReminders: async (now: Date) => {
+    const reminderFrom = new Date(
+      now.getTime() + env.GRACE_REMINDER_DAYS * DAY
+    );
+    const due = await prisma.subscription.findMany({
+      where: {
+        status: SubscriptionStatus.ACTIVE,
+        gracePeriodEndsAt: { gt: now, lte: reminderFrom },
+        graceReminderSentAt: null,
+      },
+    });
+
+    await forEachDue(due, async subscription => {
+      await prisma.subscription.update({
+        where: { id: subscription.id },
+        data: { graceReminderSentAt: now },
+      });
+      await notifyBillingStage(subscription, 'grace_ending');
+    });
+  },
+
+  // End subscriptions whose grace period ran out, downgrading the user to FREE
+  expireLapsed: async (now: Date) => {
+    const lapsed = await prisma.subscription.findMany({
+      where: {
+        ...BILLED,
+        status: SubscriptionStatus.ACTIVE,
+        gracePeriodEndsAt: { lte: now },
+      },
+    });
+    await forEachDue(lapsed.filter(isBilled), async subscription => {
+      const remote = await provider.markUnpaid(
+        subscription.stripeSubscriptionId
+      );
+      await subscriptions.syncFromProvider(remote.id);
+    });
+
+    // Renewals we never heard about: ask the provider, and if it still has no
+    // new period either, handle it as a failed payment
+    const cutoff = new Date(now.getTime() - MISSED_RENEWAL_AFTER);
+    const overdue = await prisma.subscription.findMany({
+      where: {
+        ...BILLED,
+        status: SubscriptionStatus.ACTIVE,
+        paymentFailedAt: null,
+        currentPeriodEnd: { lte: cutoff },
+      },
+    });
+    await forEachDue(overdue.filter(isBilled), async subscription => {
+      const synced = await subscriptions.syncFromProvider(
+        subscription.stripeSubscriptionId
+      );
+      if (
+        synced.status === SubscriptionStatus.ACTIVE &&
+        !synced.paymentFailedAt &&
+        synced.currentPeriodEnd <= cutoff
+      ) {
+        const updated = await prisma.subscription.update({
+          where: { id: synced.id },
+          data: startDunning(now),
+        });
+        await notifyBillingStage(updated, 'payment_failed');
+      }
+    });
+  },
+});
+
+export const dunningService = createDunningService(
+  paymentProvider,
+  subscriptionService
+);
@@ -0,0 +1,113 @@
+// Events and what the viewer may do with them
+//
+// Events above the viewer's level are still listed so the app can offer the
+// upgrade, without their media.
+
+import { prisma } from '../config/database';
+import {
+  Event,
+  EventStatus,
+  EventType,
+  RSVPStatus,
+} from '../../src/types/event';
+import { ContentAccessLevel } from '../../src/types/post';
+import { AccessSubject, canAccess } from '../../src/utils/permissions';
+import { assertAccess } from '../utils/access';
+import { notFound } from '../utils/errors';
+import { listableLevels } from './postService';
+
+type Viewer = (AccessSubject & { sub: string }) | null;
+
+const RSVP_STATUSES: RSVPStatus[] = ['attending', 'maybe', 'not_attending'];
+
+// Events people can still sign up for
+const OPEN_STATUSES = [EventStatus.UPCOMING, EventStatus.LIVE];
+
+// Only the viewer's own RSVP, to show their answer
+const eventInclude = (viewerId?: string) => ({
+  rsvps: viewerId ? { where: { userId: viewerId } } : false,
+});
+
+type EventRow = NonNullable<
+  Awaited<ReturnType<typeof prisma.event.findUnique>>
+> & { rsvps?: { status: string }[] };
+
+const presentEvent = (viewer: Viewer, row: EventRow): Event => {
+  const accessLevel = ContentAccessLevel[row.accessLevel];
+  const status = EventStatus[row.status];
+  const rsvpStatus = RSVP_STATUSES.find(
+    value => value === row.rsvps?.[0]?.status
+  );
+  const hasRoom =
+    row.maxAttendees === null || row.attendeeCount < row.maxAttendees;
+  const viewable = canAccess(viewer, 'view', accessLevel);
+
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description ?? undefined,
+    type: EventType[row.type],
+    status,
+    startDate: row.startDate,
+    endDate: row.endDate ?? undefined,
+    location: row.location ?? undefined,
+    venue: row.venue ?? undefined,
+    ticketUrl: row.ticketUrl ?? undefined,
+    accessLevel,
+    maxAttendees: row.maxAttendees ?? undefined,
+    bannerImage: row.bannerImage ?? undefined,
+    mediaUrls: viewable ? row.mediaUrls : [],
+    viewCount: row.viewCount,
+    attendeeCount: row.attendeeCount,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    rsvps: [],
+    isRsvped: !!rsvpStatus && rsvpStatus !== 'not_attending',
+    rsvpStatus,
+    canAccess: viewable,
+    // A full event still lets those who answered change their answer
+    canRsvp:
+      canAccess(viewer, 'interact', accessLevel) &&
+      OPEN_STATUSES.includes(status) &&
+      (hasRoom || !!rsvpStatus),
+    isLive: status === EventStatus.LIVE,
+    isUpcoming: status === EventStatus.UPCOMING,
+  };
+};
+
+export const eventService = {
+  // Upcoming and live events, soonest first
+  list: async (
+    viewer: Viewer,
+    page: number,
+    limit: number
+  ): Promise<{ events: Event[]; total: number }> => {
+    const where = {
+      status: { in: OPEN_STATUSES },
+      accessLevel: { in: listableLevels(viewer) },
+    };
+    const [rows, total] = await Promise.all([
+      prisma.event.findMany({
+        where,
+        include: eventInclude(viewer?.sub),
+        orderBy: { startDate: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.event.count({ where }),
+    ]);
+    return { events: rows.map(row => presentEvent(viewer, row)), total };
+  },
+
+  get: async (viewer: Viewer, id: string): Promise<Event> => {
+    const row = await prisma.event.findUnique({
+      where: { id },
+      include: eventInclude(viewer?.sub),
+    });
+    if (!row) {
+      throw notFound('Event not found');
+    }
+    assertAccess(viewer, 'view', ContentAccessLevel[row.accessLevel]);
+    return presentEvent(viewer, row);
+  },
+};
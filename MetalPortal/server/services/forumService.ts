@@ -0,0 +1,949 @@
+// Forum categories, posts and threaded comments
+//
+// Access follows the category: its level decides who may read a post and who
+// may post or reply in it. Comments come back as trees, a page of top-level
+// comments at a time. Each comment carries at most a page of its replies plus
+// a cursor for the rest, and nesting stops FORUM_CONFIG.MAX_COMMENT_DEPTH
+// levels below the comment a tree was loaded from; deeper replies are opened
+// as a thread of their own. replyCount on comments and posts is kept in step
+// with every reply written or deleted.
+//
+// Moderators can also pin, lock, move, merge and split threads; each of those
+// actions is recorded in the moderation log. Members muted or banned in a
+// category, or everywhere, cannot post, reply or edit there. Posts, replies
+// and edits pass through the content filter; what it holds is only shown to
+// its author and the moderators until a moderator reviews it.
+
+import { prisma } from '../config/database';
+import { Prisma } from '../../generated/prisma';
+import {
+  CreateForumCategoryInput,
+  CreateForumCommentInput,
+  CreateForumPostInput,
+  ForumCategory,
+  ForumComment,
+  ForumFilter,
+  ForumModerationInput,
+  ForumPost,
+  ForumReplyPage,
+  ForumSort,
+  MergeForumPostsInput,
+  MoveForumPostInput,
+  SplitForumThreadInput,
+  UpdateForumCategoryInput,
+  UpdateForumPostInput,
+} from '../../src/types/forum';
+import { ModerationAction, SanctionScope } from '../../src/types/moderation';
+import { ContentAccessLevel } from '../../src/types/post';
+import { FORUM_CONFIG } from '../../src/utils/constants';
+import { canAccess, getViewableLevels } from '../../src/utils/permissions';
+import { assertAccess } from '../utils/access';
+import { AuthorRow, authorSelect, toAuthor } from '../utils/authors';
+import { badRequest, conflict, forbidden, notFound } from '../utils/errors';
+import { AccessTokenPayload } from '../utils/tokens';
+import { contentFilterService } from './contentFilterService';
+import { moderationService } from './moderationService';
+import { listableLevels } from './postService';
+import { sanctionService } from './sanctionService';
+
+export interface ForumPostListQuery {
+  filter: ForumFilter;
+  sort: ForumSort;
+  page: number;
+  limit: number;
+}
+
+export interface ReplyPageQuery {
+  cursor?: string;
+  // Reply levels to include below each reply returned
+  levels: number;
+}
+
+type TransactionClient = Parameters<
+  Parameters<typeof prisma.$transaction>[0]
+>[0];
+
+type Viewer = AccessTokenPayload | null;
+
+const postInclude = {
+  author: { select: authorSelect },
+  category: true,
+};
+
+// Oldest first, so a thread reads as a conversation and cursors are stable
+const REPLY_ORDER: Prisma.ForumCommentOrderByWithRelationInput[] = [
+  { createdAt: 'asc' },
+  { id: 'asc' },
+];
+
+type CategoryRow = NonNullable<
+  Awaited<ReturnType<typeof prisma.forumCategory.findFirst>>
+>;
+
+type PostRow = Prisma.ForumPostGetPayload<{ include: typeof postInclude }>;
+
+const commentAuthorInclude = { author: { select: authorSelect } };
+
+type CommentRow = NonNullable<
+  Awaited<ReturnType<typeof prisma.forumComment.findFirst>>
+> & {
+  author: AuthorRow;
+  replies?: CommentRow[];
+};
+
+const isModerator = (viewer: Viewer) =>
+  !!viewer && canAccess(viewer, 'moderate', ContentAccessLevel.PUBLIC);
+
+const assertModerator = (viewer: Viewer) => {
+  if (!isModerator(viewer)) {
+    throw forbidden('Only moderators can do this');
+  }
+};
+
+// Hidden categories and their posts only exist for moderators
+const assertCategoryVisible = (viewer: Viewer, category: CategoryRow) => {
+  if (!category.isVisible && !isModerator(viewer)) {
+    throw notFound('Category not found');
+  }
+  assertAccess(viewer, 'view', ContentAccessLevel[category.accessLevel]);
+};
+
+// Held posts and comments the viewer may not see
+const heldFilter = (viewer: Viewer) =>
+  isModerator(viewer)
+    ? {}
+    : {
+        OR: [{ isHeld: false }, ...(viewer ? [{ authorId: viewer.sub }] : [])],
+      };
+
+const canSeeHeld = (viewer: Viewer, authorId: string) =>
+  viewer?.sub === authorId || isModerator(viewer);
+
+// A comment with `levels` levels of replies below it, a page per comment
+const commentInclude = (
+  viewer: Viewer,
+  levels: number
+): Prisma.ForumCommentInclude => ({
+  ...commentAuthorInclude,
+  ...(levels > 0 && {
+    replies: {
+      where: heldFilter(viewer),
+      orderBy: REPLY_ORDER,
+      // One extra tells whether a cursor is needed
+      take: FORUM_CONFIG.REPLY_PAGE_SIZE + 1,
+      include: commentInclude(viewer, levels - 1),
+    },
+  }),
+});
+
+// Comments with their reply trees. The depth is only known at run time, so
+// Prisma types the replies as bare rows and the result is cast here.
+const findCommentTrees = (
+  viewer: Viewer,
+  levels: number,
+  args: Omit<Prisma.ForumCommentFindManyArgs, 'include'>
+) =>
+  prisma.forumComment.findMany({
+    ...args,
+    include: commentInclude(viewer, levels),
+  }) as unknown as Promise<CommentRow[]>;
+
+const toCategory = (row: CategoryRow): ForumCategory => ({
+  id: row.id,
+  name: row.name,
+  description: row.description ?? undefined,
+  slug: row.slug,
+  icon: row.icon ?? undefined,
+  color: row.color ?? undefined,
+  accessLevel: ContentAccessLevel[row.accessLevel],
+  sortOrder: row.sortOrder,
+  isVisible: row.isVisible,
+  postCount: row.postCount,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+  posts: [],
+});
+
+const presentCategory = (viewer: Viewer, row: CategoryRow): ForumCategory => {
+  const category = toCategory(row);
+  return {
+    ...category,
+    canAccess: canAccess(viewer, 'view', category.accessLevel),
+  };
+};
+
+// Locked posts only take replies from moderators
+const canReplyTo = (viewer: Viewer, post: PostRow) =>
+  canAccess(
+    viewer,
+    'interact',
+    ContentAccessLevel[post.category.accessLevel]
+  ) &&
+  (!post.isLocked || isModerator(viewer));
+
+const assertNotSanctioned = (viewer: AccessTokenPayload, categoryId: string) =>
+  sanctionService.assertCanWrite(viewer.sub, {
+    scope: SanctionScope.FORUM_CATEGORY,
+    scopeId: categoryId,
+  });
+
+const presentPost = (viewer: Viewer, row: PostRow): ForumPost => {
+  const isAuthor = viewer?.sub === row.authorId;
+  return {
+    id: row.id,
+    title: row.title,
+    content: row.content,
+    categoryId: row.categoryId,
+    category: presentCategory(viewer, row.category),
+    authorId: row.authorId,
+    author: toAuthor(row.author),
+    viewCount: row.viewCount,
+    likeCount: row.likeCount,
+    replyCount: row.replyCount,
+    isPinned: row.isPinned,
+    isLocked: row.isLocked,
+    isHeld: row.isHeld,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    comments: [],
+    canReply: canReplyTo(viewer, row),
+    canEdit: isAuthor,
+    canDelete: isAuthor || isModerator(viewer),
+    canModerate: isModerator(viewer),
+  };
+};
+
+const presentComment = (
+  viewer: Viewer,
+  row: CommentRow,
+  canReply: boolean
+): ForumComment => {
+  const { replies, deletedAt } = row;
+  const loaded = (replies ?? []).slice(0, FORUM_CONFIG.REPLY_PAGE_SIZE);
+  const isAuthor = viewer?.sub === row.authorId;
+  return {
+    id: row.id,
+    content: deletedAt ? '' : row.content,
+    postId: row.postId,
+    authorId: row.authorId,
+    author: toAuthor(row.author),
+    parentId: row.parentId ?? undefined,
+    replies: loaded.map(reply => presentComment(viewer, reply, canReply)),
+    likeCount: row.likeCount,
+    depth: row.depth,
+    replyCount: row.replyCount,
+    repliesCursor:
+      replies && replies.length > loaded.length
+        ? loaded[loaded.length - 1].id
+        : null,
+    // Replies were not loaded because the depth limit was reached
+    continueThread: !replies && row.replyCount > 0,
+    isDeleted: !!deletedAt,
+    isHeld: row.isHeld,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    canReply: canReply && !deletedAt,
+    canEdit: isAuthor && !deletedAt,
+    canDelete: (isAuthor || isModerator(viewer)) && !deletedAt,
+  };
+};
+
+const findPost = async (
+  db: TransactionClient | typeof prisma,
+  viewer: Viewer,
+  id: string
+): Promise<PostRow> => {
+  const post = await db.forumPost.findUnique({
+    where: { id },
+    include: postInclude,
+  });
+  if (!post || (post.isHeld && !canSeeHeld(viewer, post.authorId))) {
+    throw notFound('Post not found');
+  }
+  assertCategoryVisible(viewer, post.category);
+  return post;
+};
+
+// The post's comment, checked against the viewer's access
+const findComment = async (viewer: Viewer, id: string) => {
+  const comment = await prisma.forumComment.findUnique({ where: { id } });
+  if (!comment || (comment.isHeld && !canSeeHeld(viewer, comment.authorId))) {
+    throw notFound('Comment not found');
+  }
+  const post = await findPost(prisma, viewer, comment.postId);
+  return { comment, post };
+};
+
+// Ids of every reply below the comment, at any depth
+const findReplyIds = async (
+  db: TransactionClient,
+  commentId: string
+): Promise<string[]> => {
+  const ids: string[] = [];
+  let parentIds = [commentId];
+  while (parentIds.length > 0) {
+    const replies: { id: string }[] = await db.forumComment.findMany({
+      where: { parentId: { in: parentIds } },
+      select: { id: true },
+    });
+    parentIds = replies.map(reply => reply.id);
+    ids.push(...parentIds);
+  }
+  return ids;
+};
+
+// Pinning and locking don't count as activity, so the thread keeps its place
+// among the recently updated ones
+const setThreadFlag = async (
+  viewer: AccessTokenPayload,
+  id: string,
+  flag: 'isPinned' | 'isLocked',
+  value: boolean,
+  action: ModerationAction,
+  reason?: string
+): Promise<ForumPost> => {
+  assertModerator(viewer);
+  const post = await findPost(prisma, viewer, id);
+  await prisma.$transaction(async (tx: TransactionClient) => {
+    const { count } = await tx.forumPost.updateMany({
+      where: { id, [flag]: !value },
+      data: { [flag]: value, updatedAt: post.updatedAt },
+    });
+    // Already in that state: nothing to record
+    if (count === 0) return;
+    await moderationService.record(tx, {
+      action,
+      moderatorId: viewer.sub,
+      targetType: 'forum_post',
+      targetId: id,
+      reason,
+    });
+  });
+  return presentPost(viewer, await findPost(prisma, viewer, id));
+};
+
+export const forumService = {
+  // Categories
+
+  listCategories: async (viewer: Viewer): Promise<ForumCategory[]> => {
+    const categories = await prisma.forumCategory.findMany({
+      where: {
+        accessLevel: { in: listableLevels(viewer) },
+        ...(!isModerator(viewer) && { isVisible: true }),
+      },
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    });
+    return categories.map(category => presentCategory(viewer, category));
+  },
+
+  getCategory: async (viewer: Viewer, slug: string): Promise<ForumCategory> => {
+    const category = await prisma.forumCategory.findUnique({
+      where: { slug },
+    });
+    if (
+      !category ||
+      !listableLevels(viewer).includes(
+        ContentAccessLevel[category.accessLevel]
+      ) ||
+      (!category.isVisible && !isModerator(viewer))
+    ) {
+      throw notFound('Category not found');
+    }
+    return presentCategory(viewer, category);
+  },
+
+  createCategory: async (
+    input: CreateForumCategoryInput
+  ): Promise<ForumCategory> => {
+    const existing = await prisma.forumCategory.findUnique({
+      where: { slug: input.slug },
+    });
+    if (existing) {
+      throw conflict('A category with this slug already exists');
+    }
+    const category = await prisma.forumCategory.create({ data: input });
+    return toCategory(category);
+  },
+
+  updateCategory: async (
+    id: string,
+    input: UpdateForumCategoryInput
+  ): Promise<ForumCategory> => {
+    if (input.slug) {
+      const existing = await prisma.forumCategory.findUnique({
+        where: { slug: input.slug },
+      });
+      if (existing && existing.id !== id) {
+        throw conflict('A category with this slug already exists');
+      }
+    }
+    const { count } = await prisma.forumCategory.updateMany({
+      where: { id },
+      data: input,
+    });
+    if (count === 0) {
+      throw notFound('Category not found');
+    }
+    const category = await prisma.forumCategory.findUnique({ where: { id } });
+    if (!category) {
+      throw notFound('Category not found');
+    }
+    return toCategory(category);
+  },
+
+  // Posts
+
+  // Pinned posts first, then by the requested order
+  listPosts: async (
+    viewer: Viewer,
+    { filter, sort, page, limit }: ForumPostListQuery
+  ): Promise<{ posts: ForumPost[]; total: number }> => {
+    if (filter.categoryId) {
+      const category = await prisma.forumCategory.findUnique({
+        where: { id: filter.categoryId },
+      });
+      if (!category) {
+        throw notFound('Category not found');
+      }
+      assertCategoryVisible(viewer, category);
+    }
+
+    const where = {
+      categoryId: filter.categoryId,
+      category: {
+        accessLevel: { in: getViewableLevels(viewer) },
+        ...(!isModerator(viewer) && { isVisible: true }),
+      },
+      authorId: filter.authorId,
+      ...heldFilter(viewer),
+      isPinned: filter.isPinned,
+      isLocked: filter.isLocked,
+      replyCount:
+        filter.hasReplies === undefined
+          ? undefined
+          : filter.hasReplies
+            ? { gt: 0 }
+            : 0,
+      createdAt:
+        filter.dateFrom || filter.dateTo
+          ? { gte: filter.dateFrom, lte: filter.dateTo }
+          : undefined,
+    };
+
+    const [rows, total] = await Promise.all([
+      prisma.forumPost.findMany({
+        where,
+        include: postInclude,
+        orderBy: [{ isPinned: 'desc' }, { [sort.field]: sort.order }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.forumPost.count({ where }),
+    ]);
+    return {
+      posts: rows.map(row => presentPost(viewer, row)),
+      total,
+    };
+  },
+
+  // Counts as a view of the post
+  getPost: async (viewer: Viewer, id: string): Promise<ForumPost> => {
+    const post = await findPost(prisma, viewer, id);
+    await prisma.forumPost.update({
+      where: { id },
+      data: { viewCount: { increment: 1 } },
+    });
+    return presentPost(viewer, { ...post, viewCount: post.viewCount + 1 });
+  },
+
+  createPost: async (
+    viewer: AccessTokenPayload,
+    input: CreateForumPostInput
+  ): Promise<ForumPost> => {
+    const category = await prisma.forumCategory.findUnique({
+      where: { id: input.categoryId },
+    });
+    if (!category) {
+      throw notFound('Category not found');
+    }
+    assertCategoryVisible(viewer, category);
+    assertAccess(viewer, 'interact', ContentAccessLevel[category.accessLevel]);
+    await assertNotSanctioned(viewer, category.id);
+    const { fields, held } = await contentFilterService.screen(
+      viewer,
+      'forum_post',
+      { title: input.title, content: input.content }
+    );
+
+    const post = await prisma.$transaction(async (tx: TransactionClient) => {
+      const created = await tx.forumPost.create({
+        data: {
+          ...input,
+          ...fields,
+          isHeld: held.length > 0,
+          authorId: viewer.sub,
+        },
+      });
+      await contentFilterService.hold(
+        tx,
+        'forum_post',
+        created.id,
+        viewer.sub,
+        held
+      );
+      await tx.forumCategory.update({
+        where: { id: category.id },
+        data: { postCount: { increment: 1 } },
+      });
+      return findPost(tx, viewer, created.id);
+    });
+    return presentPost(viewer, post);
+  },
+
+  // Authors may edit their own title and content. An edit the filter holds
+  // hides the post again; one it passes does not release a held post.
+  updatePost: async (
+    viewer: AccessTokenPayload,
+    id: string,
+    input: Pick<UpdateForumPostInput, 'title' | 'content'>
+  ): Promise<ForumPost> => {
+    const post = await findPost(prisma, viewer, id);
+    if (post.authorId !== viewer.sub) {
+      throw forbidden('You can only edit your own posts');
+    }
+    await assertNotSanctioned(viewer, post.categoryId);
+    const { fields, held } = await contentFilterService.screen(
+      viewer,
+      'forum_post',
+      { title: input.title, content: input.content },
+      { isEdit: true }
+    );
+    await prisma.$transaction(async (tx: TransactionClient) => {
+      await tx.forumPost.update({
+        where: { id },
+        data: { ...fields, ...(held.length > 0 && { isHeld: true }) },
+      });
+      await contentFilterService.hold(tx, 'forum_post', id, viewer.sub, held);
+    });
+    return presentPost(viewer, await findPost(prisma, viewer, id));
+  },
+
+  deletePost: async (viewer: AccessTokenPayload, id: string): Promise<void> => {
+    const post = await findPost(prisma, viewer, id);
+    if (post.authorId !== viewer.sub && !isModerator(viewer)) {
+      throw forbidden('You can only delete your own posts');
+    }
+    await prisma.$transaction(async (tx: TransactionClient) => {
+      await tx.forumPost.delete({ where: { id } });
+      await tx.forumCategory.update({
+        where: { id: post.categoryId },
+        data: { postCount: { decrement: 1 } },
+      });
+    });
+  },
+
+  // Comments
+
+  // A page of top-level comments, each with its reply tree
+  listComments: async (
+    viewer: Viewer,
+    postId: string,
+    page: number,
+    limit: number
+  ): Promise<{ comments: ForumComment[]; total: number }> => {
+    const post = await findPost(prisma, viewer, postId);
+    const where = { postId, parentId: null, ...heldFilter(viewer) };
+    const [rows, total] = await Promise.all([
+      findCommentTrees(viewer, FORUM_CONFIG.MAX_COMMENT_DEPTH, {
+        where,
+        orderBy: REPLY_ORDER,
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.forumComment.count({ where }),
+    ]);
+    const canReply = canReplyTo(viewer, post);
+    return {
+      comments: rows.map(row => presentComment(viewer, row, canReply)),
+      total,
+    };
+  },
+
+  // "Load more replies": the page of replies after the cursor
+  getReplies: async (
+    viewer: Viewer,
+    commentId: string,
+    { cursor, levels }: ReplyPageQuery
+  ): Promise<ForumReplyPage> => {
+    const { post } = await findComment(viewer, commentId);
+    const rows = await findCommentTrees(
+      viewer,
+      Math.min(Math.max(levels, 0), FORUM_CONFIG.MAX_COMMENT_DEPTH),
+      {
+        where: { parentId: commentId, ...heldFilter(viewer) },
+        orderBy: REPLY_ORDER,
+        take: FORUM_CONFIG.REPLY_PAGE_SIZE + 1,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      }
+    );
+    const page = rows.slice(0, FORUM_CONFIG.REPLY_PAGE_SIZE);
+    const canReply = canReplyTo(viewer, post);
+    return {
+      replies: page.map(row => presentComment(viewer, row, canReply)),
+      nextCursor: rows.length > page.length ? page[page.length - 1].id : null,
+    };
+  },
+
+  // "Continue this thread": the comment with its own reply tree
+  getThread: async (viewer: Viewer, id: string): Promise<ForumComment> => {
+    const { post } = await findComment(viewer, id);
+    const [row] = await findCommentTrees(
+      viewer,
+      FORUM_CONFIG.MAX_COMMENT_DEPTH,
+      { where: { id } }
+    );
+    if (!row) {
+      throw notFound('Comment not found');
+    }
+    return presentComment(viewer, row, canReplyTo(viewer, post));
+  },
+
+  addComment: async (
+    viewer: AccessTokenPayload,
+    { postId, parentId, content }: CreateForumCommentInput
+  ): Promise<ForumComment> => {
+    const post = await findPost(prisma, viewer, postId);
+    assertAccess(
+      viewer,
+      'interact',
+      ContentAccessLevel[post.category.accessLevel]
+    );
+    if (!canReplyTo(viewer, post)) {
+      throw forbidden('This thread is locked');
+    }
+    await assertNotSanctioned(viewer, post.categoryId);
+    const { fields, held } = await contentFilterService.screen(
+      viewer,
+      'forum_comment',
+      { content }
+    );
+
+    const row = await prisma.$transaction(async (tx: TransactionClient) => {
+      const parent = parentId
+        ? await tx.forumComment.findUnique({ where: { id: parentId } })
+        : null;
+      if (parentId && (!parent || parent.postId !== postId)) {
+        throw notFound('Comment not found');
+      }
+      if (parent?.deletedAt) {
+        throw badRequest('You cannot reply to a deleted comment');
+      }
+
+      const comment = await tx.forumComment.create({
+        data: {
+          content: fields.content,
+          postId,
+          parentId: parent?.id,
+          authorId: viewer.sub,
+          depth: parent ? parent.depth + 1 : 0,
+          isHeld: held.length > 0,
+        },
+        include: commentAuthorInclude,
+      });
+      await contentFilterService.hold(
+        tx,
+        'forum_comment',
+        comment.id,
+        viewer.sub,
+        held
+      );
+      if (parent) {
+        await tx.forumComment.update({
+          where: { id: parent.id },
+          data: { replyCount: { increment: 1 } },
+        });
+      }
+      await tx.forumPost.update({
+        where: { id: postId },
+        data: { replyCount: { increment: 1 } },
+      });
+      return comment;
+    });
+    return presentComment(viewer, { ...row, replies: [] }, true);
+  },
+
+  updateComment: async (
+    viewer: AccessTokenPayload,
+    id: string,
+    content: string
+  ): Promise<ForumComment> => {
+    const { comment, post } = await findComment(viewer, id);
+    if (comment.authorId !== viewer.sub || comment.deletedAt) {
+      throw forbidden('You can only edit your own comments');
+    }
+    await assertNotSanctioned(viewer, post.categoryId);
+    const { fields, held } = await contentFilterService.screen(
+      viewer,
+      'forum_comment',
+      { content },
+      { isEdit: true }
+    );
+    const row = await prisma.$transaction(async (tx: TransactionClient) => {
+      const updated = await tx.forumComment.update({
+        where: { id },
+        data: {
+          content: fields.content,
+          ...(held.length > 0 && { isHeld: true }),
+        },
+        include: commentAuthorInclude,
+      });
+      await contentFilterService.hold(
+        tx,
+        'forum_comment',
+        id,
+        viewer.sub,
+        held
+      );
+      return updated;
+    });
+    return presentComment(viewer, row, canReplyTo(viewer, post));
+  },
+
+  // A comment with replies is blanked so the thread below it survives; one
+  // without is removed and no longer counted
+  deleteComment: async (
+    viewer: AccessTokenPayload,
+    id: string
+  ): Promise<{ removed: boolean }> => {
+    const { comment } = await findComment(viewer, id);
+    if (comment.authorId !== viewer.sub && !isModerator(viewer)) {
+      throw forbidden('You can only delete your own comments');
+    }
+    if (comment.deletedAt) {
+      throw notFound('Comment not found');
+    }
+
+    return prisma.$transaction(async (tx: TransactionClient) => {
+      const { count } = await tx.forumComment.updateMany({
+        where: { id, replyCount: { gt: 0 }, deletedAt: null },
+        data: { deletedAt: new Date(), content: '' },
+      });
+      if (count > 0) return { removed: false };
+
+      await tx.forumComment.delete({ where: { id } });
+      if (comment.parentId) {
+        await tx.forumComment.update({
+          where: { id: comment.parentId },
+          data: { replyCount: { decrement: 1 } },
+        });
+      }
+      await tx.forumPost.update({
+        where: { id: comment.postId },
+        data: { replyCount: { decrement: 1 } },
+      });
+      return { removed: true };
+    });
+  },
+
+  // Moderation
+
+  pinPost: (
+    viewer: AccessTokenPayload,
+    id: string,
+    pinned: boolean,
+    { reason }: ForumModerationInput
+  ): Promise<ForumPost> =>
+    setThreadFlag(
+      viewer,
+      id,
+      'isPinned',
+      pinned,
+      pinned ? ModerationAction.PIN_THREAD : ModerationAction.UNPIN_THREAD,
+      reason
+    ),
+
+  lockPost: (
+    viewer: AccessTokenPayload,
+    id: string,
+    locked: boolean,
+    { reason }: ForumModerationInput
+  ): Promise<ForumPost> =>
+    setThreadFlag(
+      viewer,
+      id,
+      'isLocked',
+      locked,
+      locked ? ModerationAction.LOCK_THREAD : ModerationAction.UNLOCK_THREAD,
+      reason
+    ),
+
+  movePost: async (
+    viewer: AccessTokenPayload,
+    id: string,
+    { categoryId, reason }: MoveForumPostInput
+  ): Promise<ForumPost> => {
+    assertModerator(viewer);
+    const post = await findPost(prisma, viewer, id);
+    if (post.categoryId === categoryId) {
+      throw badRequest('The thread is already in this category');
+    }
+    const category = await prisma.forumCategory.findUnique({
+      where: { id: categoryId },
+    });
+    if (!category) {
+      throw notFound('Category not found');
+    }
+
+    await prisma.$transaction(async (tx: TransactionClient) => {
+      await tx.forumPost.update({
+        where: { id },
+        data: { categoryId, updatedAt: post.updatedAt },
+      });
+      await tx.forumCategory.update({
+        where: { id: post.categoryId },
+        data: { postCount: { decrement: 1 } },
+      });
+      await tx.forumCategory.update({
+        where: { id: categoryId },
+        data: { postCount: { increment: 1 } },
+      });
+      await moderationService.record(tx, {
+        action: ModerationAction.MOVE_THREAD,
+        moderatorId: viewer.sub,
+        targetType: 'forum_post',
+        targetId: id,
+        reason,
+        details: { fromCategoryId: post.categoryId, toCategoryId: categoryId },
+      });
+    });
+    return presentPost(viewer, await findPost(prisma, viewer, id));
+  },
+
+  // The post's opening text joins the target thread as a top-level comment,
+  // its comments follow with their replies, and the post itself is removed
+  mergePosts: async (
+    viewer: AccessTokenPayload,
+    id: string,
+    { targetPostId, reason }: MergeForumPostsInput
+  ): Promise<ForumPost> => {
+    assertModerator(viewer);
+    if (id === targetPostId) {
+      throw badRequest('A thread cannot be merged into itself');
+    }
+    const source = await findPost(prisma, viewer, id);
+    const target = await findPost(prisma, viewer, targetPostId);
+
+    const post = await prisma.$transaction(async (tx: TransactionClient) => {
+      const { count } = await tx.forumComment.updateMany({
+        where: { postId: source.id },
+        data: { postId: target.id },
+      });
+      await tx.forumComment.create({
+        data: {
+          content: source.content,
+          postId: target.id,
+          authorId: source.authorId,
+          createdAt: source.createdAt,
+        },
+      });
+      await tx.forumPost.update({
+        where: { id: target.id },
+        data: { replyCount: { increment: count + 1 } },
+      });
+      await tx.forumPost.delete({ where: { id: source.id } });
+      await tx.forumCategory.update({
+        where: { id: source.categoryId },
+        data: { postCount: { decrement: 1 } },
+      });
+      await moderationService.record(tx, {
+        action: ModerationAction.MERGE_THREADS,
+        moderatorId: viewer.sub,
+        targetType: 'forum_post',
+        targetId: target.id,
+        reason,
+        details: {
+          mergedPostId: source.id,
+          mergedTitle: source.title,
+          mergedCategoryId: source.categoryId,
+          commentCount: count,
+        },
+      });
+      return findPost(tx, viewer, target.id);
+    });
+    return presentPost(viewer, post);
+  },
+
+  // The comment becomes the opening post of a new thread and its replies move
+  // with it, one level up
+  splitThread: async (
+    viewer: AccessTokenPayload,
+    commentId: string,
+    { title, categoryId, reason }: SplitForumThreadInput
+  ): Promise<ForumPost> => {
+    assertModerator(viewer);
+    const { comment, post } = await findComment(viewer, commentId);
+    if (comment.deletedAt) {
+      throw badRequest('A deleted comment cannot start a thread');
+    }
+    if (categoryId && categoryId !== post.categoryId) {
+      const category = await prisma.forumCategory.findUnique({
+        where: { id: categoryId },
+      });
+      if (!category) {
+        throw notFound('Category not found');
+      }
+    }
+    const newCategoryId = categoryId ?? post.categoryId;
+
+    const created = await prisma.$transaction(async (tx: TransactionClient) => {
+      const replyIds = await findReplyIds(tx, comment.id);
+      const thread = await tx.forumPost.create({
+        data: {
+          title,
+          content: comment.content,
+          categoryId: newCategoryId,
+          authorId: comment.authorId,
+          replyCount: replyIds.length,
+          createdAt: comment.createdAt,
+        },
+      });
+      await tx.forumComment.updateMany({
+        where: { id: { in: replyIds } },
+        data: { postId: thread.id, depth: { decrement: comment.depth + 1 } },
+      });
+      await tx.forumComment.updateMany({
+        where: { parentId: comment.id },
+        data: { parentId: null },
+      });
+      await tx.forumComment.delete({ where: { id: comment.id } });
+      if (comment.parentId) {
+        await tx.forumComment.update({
+          where: { id: comment.parentId },
+          data: { replyCount: { decrement: 1 } },
+        });
+      }
+      await tx.forumPost.update({
+        where: { id: post.id },
+        data: { replyCount: { decrement: replyIds.length + 1 } },
+      });
+      await tx.forumCategory.update({
+        where: { id: newCategoryId },
+        data: { postCount: { increment: 1 } },
+      });
+      await moderationService.record(tx, {
+        action: ModerationAction.SPLIT_THREAD,
+        moderatorId: viewer.sub,
+        targetType: 'forum_post',
+        targetId: thread.id,
+        reason,
+        details: {
+          fromPostId: post.id,
+          commentId: comment.id,
+          commentCount: replyIds.length,
+        },
+      });
+      return findPost(tx, viewer, thread.id);
+    });
+    return presentPost(viewer, created);
+  },
+};
@@ -0,0 +1,75 @@
+// Media file bookkeeping
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { env } from '../config/env';
+import { MediaFile } from '../../src/types/common';
+
+export const mediaUrl = (storedName: string): string =>
+  `${env.PUBLIC_URL}${env.UPLOAD_URL_PATH}/${storedName}`;
+
+const PREVIEW_DIR = 'previews';
+const PREVIEW_WIDTH = 64;
+const PREVIEW_BLUR_SIGMA = 8;
+
+// Stored file name behind one of our own media URLs, or null for anything else
+const storedNameOf = (url: string): string | null => {
+  const prefix = `${env.PUBLIC_URL}${env.UPLOAD_URL_PATH}/`;
+  if (!url.startsWith(prefix)) return null;
+  const name = url.slice(prefix.length);
+  return name && !name.includes('/') ? name : null;
+};
+
+// Uploads are served publicly, so a preview must not be named after its
+// original: the keyed hash cannot be turned back into the stored name
+const previewNameOf = (storedName: string): string =>
+  `${crypto
+    .createHmac('sha256', env.MEDIA_PREVIEW_SECRET)
+    .update(storedName)
+    .digest('hex')}.blur.jpg`;
+
+export const mediaService = {
+  // Describe a stored upload as the MediaFile the client consumes
+  toMediaFile: (
+    stored: { filename: string; originalname: string; size: number },
+    kind: MediaFile['type']
+  ): MediaFile => ({
+    id: path.parse(stored.filename).name,
+    url: mediaUrl(stored.filename),
+    type: kind,
+    name: stored.originalname,
+    size: stored.size,
+    createdAt: new Date(),
+  }),
+
+  // Small blurred copy of a stored image, generated once and served from disk.
+  // Returns null when the image is not one of our uploads or cannot be read,
+  // so callers never fall back to the original URL.
+  blurredPreviewUrl: async (url: string): Promise<string | null> => {
+    const storedName = storedNameOf(url);
+    if (!storedName) return null;
+
+    const previewName = previewNameOf(storedName);
+    const previewPath = path.join(env.UPLOAD_DIR, PREVIEW_DIR, previewName);
+    try {
+      await fs.access(previewPath);
+    } catch {
+      try {
+        await fs.mkdir(path.dirname(previewPath), { recursive: true });
+        // Write then rename so a concurrent request never serves a partial file
+        const tempPath = `${previewPath}.${process.pid}.tmp`;
+        await sharp(path.join(env.UPLOAD_DIR, storedName))
+          .resize({ width: PREVIEW_WIDTH })
+          .blur(PREVIEW_BLUR_SIGMA)
+          .jpeg({ quality: 60 })
+          .toFile(tempPath);
+        await fs.rename(tempPath, previewPath);
+      } catch {
+        return null;
+      }
+    }
+    return mediaUrl(`${PREVIEW_DIR}/${previewName}`);
+  },
+};
@@ -0,0 +1,101 @@
+// Moderation log
+//
+// Moderator actions are recorded in the same transaction as the change they
+// make, so the log never misses an action or lists one that was rolled back.
+
+import { prisma } from '../config/database';
+import { Prisma } from '../../generated/prisma';
+import {
+  ModerationAction,
+  ModerationLogEntry,
+  ModerationLogFilter,
+  ModerationTargetType,
+  ModerationUser,
+} from '../../src/types/moderation';
+
+export interface ModerationLogInput {
+  action: ModerationAction;
+  moderatorId: string;
+  targetType: ModerationTargetType;
+  targetId: string;
+  reason?: string;
+  details?: Record<string, unknown>;
+}
+
+type TransactionClient = Parameters<
+  Parameters<typeof prisma.$transaction>[0]
+>[0];
+
+// Members as moderation screens show them: moderators, reporters, the
+// sanctioned
+export const moderationUserSelect = {
+  id: true,
+  username: true,
+  displayName: true,
+  avatar: true,
+};
+
+export type ModerationUserRow = Prisma.UserGetPayload<{
+  select: typeof moderationUserSelect;
+}>;
+
+export const toModerationUser = (user: ModerationUserRow): ModerationUser => ({
+  id: user.id,
+  username: user.username,
+  displayName: user.displayName ?? undefined,
+  avatar: user.avatar ?? undefined,
+});
+
+const logInclude = { moderator: { select: moderationUserSelect } };
+
+type ModerationLogRow = Prisma.ModerationLogGetPayload<{
+  include: typeof logInclude;
+}>;
+
+const toLogEntry = (row: ModerationLogRow): ModerationLogEntry => ({
+  id: row.id,
+  action: ModerationAction[row.action],
+  moderatorId: row.moderatorId,
+  moderator: row.moderator && toModerationUser(row.moderator),
+  targetType: row.targetType as ModerationTargetType,
+  targetId: row.targetId,
+  reason: row.reason,
+  details: row.details as Record<string, unknown> | null,
+  createdAt: row.createdAt,
+});
+
+const toCreateData = ({
+  details,
+  ...entry
+}: ModerationLogInput): Prisma.ModerationLogUncheckedCreateInput => ({
+  ...entry,
+  details: details && (details as Prisma.InputJsonObject),
+});
+
+export const moderationService = {
+  record: async (
+    db: TransactionClient | typeof prisma,
+    entry: ModerationLogInput
+  ): Promise<void> => {
+    await db.moderationLog.create({ data: toCreateData(entry) });
+  },
+
+  // Newest first
+  listLog: async (
+    filter: ModerationLogFilter,
+    page: number,
+    limit: number
+  ): Promise<{ entries: ModerationLogEntry[]; total: number }> => {
+    const [rows, total] = await Promise.all([
+      prisma.moderationLog.findMany({
+        where: filter,
+        include: logInclude,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.moderationLog.count({ where: filter }),
+    ]);
+    return { entries: rows.map(toLogEntry), total };
+  },
+};
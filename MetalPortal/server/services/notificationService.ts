@@ -0,0 +1,798 @@
+// In-app notifications
+//
+// Domain events (new posts, mentions, reactions, direct messages, event
+// reminders, billing and moderation notices) are fanned out here into one Notification row
+// per recipient who has that kind of notification switched on. Recipients who
+// collect low-priority types into a digest get a digest item instead, which
+// sendDigests() later rolls up into a single summary notification. Every
+// stored notification is announced on `notificationEvents` so connected
+// devices get it straight away.
+
+import { EventEmitter } from 'events';
+import { Prisma } from '../../generated/prisma';
+import { prisma } from '../config/database';
+import { AccessSubject, canAccess } from '../../src/utils/permissions';
+import {
+  CreateNotificationInput,
+  Notification,
+  NotificationFilter,
+  NotificationPreferences,
+  NotificationStats,
+  NotificationToggles,
+  NotificationType,
+  QuietHours,
+} from '../../src/types/notification';
+import {
+  ContentAccessLevel,
+  PostStatus,
+  ReactionType,
+} from '../../src/types/post';
+import { EventStatus } from '../../src/types/event';
+import {
+  ReportOutcome,
+  ReportStatus,
+  ReportTargetType,
+  SanctionScope,
+  SanctionType,
+} from '../../src/types/moderation';
+import { NOTIFICATION_CONFIG } from '../../src/utils/constants';
+import {
+  extractMentions,
+  formatUtcDateTime,
+  truncateText,
+} from '../../src/utils/format';
+import { toAccessSubject } from '../utils/access';
+import { notFound } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// Preference that switches each type off; system notices cannot be
+const PREFERENCE_KEYS: Record<
+  NotificationType,
+  keyof NotificationToggles | null
+> = {
+  [NotificationType.NEW_POST]: 'newPosts',
+  [NotificationType.NEW_MESSAGE]: 'directMessages',
+  [NotificationType.EVENT_REMINDER]: 'events',
+  [NotificationType.SUBSCRIPTION_UPDATE]: 'subscriptionUpdates',
+  [NotificationType.MENTION]: 'mentions',
+  [NotificationType.REACTION]: 'reactions',
+  [NotificationType.SYSTEM]: null,
+};
+
+const PREVIEW_LENGTH = 120;
+// Recipients are loaded and written in batches of this size
+const FAN_OUT_BATCH = 500;
+// Posts published longer ago than this are never announced, so enabling the
+// job does not notify everyone about the whole archive
+const NEW_POST_LOOKBACK = 24 * 60 * 60 * 1000; // 1 day
+
+// How long digest items are collected before they are summarised
+const DIGEST_PERIODS = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+};
+
+// Used in digest titles when every reaction in it is of the same type
+const REACTION_VERBS: Partial<Record<ReactionType, string>> = {
+  [ReactionType.LIKE]: 'liked',
+  [ReactionType.LOVE]: 'loved',
+  [ReactionType.ROCK_ON]: 'threw the horns at',
+  [ReactionType.HEADBANG]: 'headbanged',
+};
+
+// How reported content is named in moderation notices
+const TARGET_NAMES: Record<ReportTargetType, string> = {
+  post: 'post',
+  comment: 'comment',
+  forum_post: 'forum thread',
+  forum_comment: 'forum reply',
+  chat_message: 'chat message',
+  direct_message: 'direct message',
+  user: 'profile',
+};
+
+const SANCTION_TITLES: Record<
+  Exclude<ReportOutcome, ReportOutcome.REMOVE_CONTENT>,
+  string
+> = {
+  [ReportOutcome.WARN]: 'You received a warning',
+  [ReportOutcome.MUTE]: 'You have been muted',
+  [ReportOutcome.BAN]: 'Your account has been banned',
+};
+
+// Where a scoped sanction applies, as named in notices
+const SCOPE_NAMES: Record<SanctionScope, string | null> = {
+  [SanctionScope.GLOBAL]: null,
+  [SanctionScope.CHAT_ROOM]: 'a chat room',
+  [SanctionScope.FORUM_CATEGORY]: 'a forum category',
+};
+
+const asSentence = (text: string) => (/[.!?]$/.test(text) ? text : `${text}.`);
+
+// Emits 'created' with each stored notification
+export const notificationEvents = new EventEmitter();
+
+interface Recipient extends AccessSubject {
+  id: string;
+  notificationPreferences: unknown;
+}
+
+const recipientSelect = {
+  id: true,
+  role: true,
+  subscriptionTier: true,
+  subscriptionStatus: true,
+  notificationPreferences: true,
+};
+
+type RecipientRow = Prisma.UserGetPayload<{ select: typeof recipientSelect }>;
+
+const toRecipient = (row: RecipientRow): Recipient => ({
+  ...toAccessSubject(row),
+  id: row.id,
+  notificationPreferences: row.notificationPreferences,
+});
+
+type NotificationRow = NonNullable<
+  Awaited<ReturnType<typeof prisma.notification.findFirst>>
+>;
+
+// Metadata and preferences are kept in JSON columns
+const toJson = (value: object) => value as Prisma.InputJsonObject;
+
+const metadataOf = (value: Prisma.JsonValue) =>
+  (value ?? undefined) as Record<string, unknown> | undefined;
+
+const toNotification = (row: NotificationRow): Notification => ({
+  id: row.id,
+  type: NotificationType[row.type],
+  title: row.title,
+  content: row.content,
+  userId: row.userId,
+  metadata: metadataOf(row.metadata),
+  isRead: row.isRead,
+  createdAt: row.createdAt,
+});
+
+const toCreateData = (
+  userId: string,
+  { metadata, ...input }: CreateNotificationInput
+) => ({ ...input, userId, metadata: metadata && toJson(metadata) });
+
+// Stored preferences may predate newer settings, which take their defaults
+export const preferencesOf = (stored: unknown): NotificationPreferences => ({
+  ...NOTIFICATION_CONFIG.DEFAULT_PREFERENCES,
+  ...(stored as Partial<NotificationPreferences> | null),
+});
+
+// Whether `now` falls within the quiet hours, in their own time zone
+export const inQuietHours = (
+  { enabled, start, end, timeZone }: QuietHours,
+  now = new Date()
+) => {
+  if (!enabled || start === end) return false;
+  const time = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(now);
+  return start < end
+    ? time >= start && time < end
+    : time >= start || time < end;
+};
+
+const digestsType = (
+  preferences: NotificationPreferences,
+  type: NotificationType
+) =>
+  preferences.digest.frequency !== 'off' &&
+  preferences.digest.types.includes(type);
+
+const wants = (recipient: Recipient, type: NotificationType) => {
+  const key = PREFERENCE_KEYS[type];
+  return !key || preferencesOf(recipient.notificationPreferences)[key];
+};
+
+const displayName = (user: { username: string; displayName?: string | null }) =>
+  user.displayName || user.username;
+
+// Store notifications and announce them
+const store = async (
+  data: (CreateNotificationInput & { userId: string })[]
+): Promise<Notification[]> => {
+  if (data.length === 0) return [];
+  const rows = await prisma.notification.createManyAndReturn({
+    data: data.map(({ userId, ...input }) => toCreateData(userId, input)),
+  });
+  const notifications = rows.map(toNotification);
+  notifications.forEach(notification =>
+    notificationEvents.emit('created', notification)
+  );
+  return notifications;
+};
+
+// Store the notification for each recipient that wants it and announce it.
+// Only notifications delivered straight away are returned; digested ones wait
+// for sendDigests().
+const deliver = async (
+  recipients: Recipient[],
+  input: CreateNotificationInput
+): Promise<Notification[]> => {
+  const immediate: string[] = [];
+  const digested: string[] = [];
+  recipients.forEach(recipient => {
+    if (!wants(recipient, input.type)) return;
+    const preferences = preferencesOf(recipient.notificationPreferences);
+    (digestsType(preferences, input.type) ? digested : immediate).push(
+      recipient.id
+    );
+  });
+
+  if (digested.length > 0) {
+    await prisma.notificationDigestItem.createMany({
+      data: digested.map(userId => toCreateData(userId, input)),
+    });
+  }
+  return store(immediate.map(userId => ({ ...input, userId })));
+};
+
+type DigestItem = CreateNotificationInput & {
+  id: string;
+  userId: string;
+  createdAt: Date;
+};
+
+type DigestItemRow = NonNullable<
+  Awaited<ReturnType<typeof prisma.notificationDigestItem.findFirst>>
+>;
+
+const toDigestItem = (row: DigestItemRow): DigestItem => ({
+  id: row.id,
+  userId: row.userId,
+  type: NotificationType[row.type],
+  title: row.title,
+  content: row.content,
+  metadata: metadataOf(row.metadata),
+  createdAt: row.createdAt,
+});
+
+// One summary per reacted-to target, one for all new posts and one per other
+// type; a group of one is delivered as it was
+const summarise = (items: DigestItem[]): CreateNotificationInput[] => {
+  const groups = new Map<string, DigestItem[]>();
+  items.forEach(item => {
+    const key =
+      item.type === NotificationType.REACTION
+        ? `${item.type}:${item.metadata?.targetId}`
+        : item.type;
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  });
+
+  return Array.from(groups.values()).map(group => {
+    const [first] = group;
+    if (group.length === 1) {
+      const { type, title, content, metadata } = first;
+      return { type, title, content, metadata };
+    }
+    if (first.type === NotificationType.REACTION) {
+      const actors = new Set(group.map(item => item.metadata?.actorId));
+      const types = new Set(group.map(item => item.metadata?.reactionType));
+      const verb =
+        (types.size === 1 &&
+          REACTION_VERBS[first.metadata?.reactionType as ReactionType]) ||
+        'reacted to';
+      return {
+        type: first.type,
+        title: `${actors.size} ${actors.size === 1 ? 'person' : 'people'} ${verb} your ${first.metadata?.kind}`,
+        content: first.content,
+        metadata: {
+          kind: first.metadata?.kind,
+          targetId: first.metadata?.targetId,
+          postId: first.metadata?.postId,
+          count: actors.size,
+          digest: true,
+        },
+      };
+    }
+    if (first.type === NotificationType.NEW_POST) {
+      const titles = group.map(item => item.title);
+      return {
+        type: first.type,
+        title: `${group.length} new posts`,
+        content: truncateText(
+          titles.length > 3
+            ? `${titles.slice(0, 3).join(', ')} and ${titles.length - 3} more`
+            : titles.join(', '),
+          PREVIEW_LENGTH
+        ),
+        metadata: {
+          postIds: group.map(item => item.metadata?.postId),
+          count: group.length,
+          digest: true,
+        },
+      };
+    }
+    return {
+      type: first.type,
+      title: `${group.length} new notifications`,
+      content: truncateText(
+        group.map(item => item.title).join(', '),
+        PREVIEW_LENGTH
+      ),
+      metadata: { count: group.length, digest: true },
+    };
+  });
+};
+
+// Deliver to every user matching `where`, a batch at a time
+const deliverToAll = async (
+  where: Record<string, unknown>,
+  input: CreateNotificationInput,
+  include: (recipient: Recipient) => boolean = () => true
+): Promise<number> => {
+  let delivered = 0;
+  let cursor: string | undefined;
+  for (;;) {
+    const batch = await prisma.user.findMany({
+      where,
+      select: recipientSelect,
+      orderBy: { id: 'asc' },
+      take: FAN_OUT_BATCH,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+    if (batch.length === 0) return delivered;
+    const recipients = batch.map(toRecipient).filter(include);
+    delivered += (await deliver(recipients, input)).length;
+    cursor = batch[batch.length - 1].id;
+  }
+};
+
+// For producers that should not wait on, or fail because of, notifications
+export const notifyInBackground = (delivery: Promise<unknown>) => {
+  delivery.catch(error => logger.error('Notification delivery failed', error));
+};
+
+export const notificationService = {
+  // A single notification; null when the user has this kind switched off or
+  // collects it into a digest
+  create: async (
+    userId: string,
+    input: CreateNotificationInput
+  ): Promise<Notification | null> => {
+    const recipient = await prisma.user.findUnique({
+      where: { id: userId },
+      select: recipientSelect,
+    });
+    if (!recipient) return null;
+    const [notification] = await deliver([toRecipient(recipient)], input);
+    return notification ?? null;
+  },
+
+  // Newest first
+  list: async (
+    userId: string,
+    { unreadOnly }: NotificationFilter,
+    page: number,
+    limit: number
+  ): Promise<{ notifications: Notification[]; total: number }> => {
+    const where = { userId, ...(unreadOnly && { isRead: false }) };
+    const [rows, total] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.notification.count({ where }),
+    ]);
+    return { notifications: rows.map(toNotification), total };
+  },
+
+  stats: async (userId: string): Promise<NotificationStats> => ({
+    unreadCount: await prisma.notification.count({
+      where: { userId, isRead: false },
+    }),
+  }),
+
+  markRead: async (userId: string, id: string): Promise<Notification> => {
+    const { count } = await prisma.notification.updateMany({
+      where: { id, userId },
+      data: { isRead: true },
+    });
+    if (count === 0) {
+      throw notFound('Notification not found');
+    }
+    const notification = await prisma.notification.findUnique({
+      where: { id },
+    });
+    // Deleted in between, as when its user was
+    if (!notification) {
+      throw notFound('Notification not found');
+    }
+    return toNotification(notification);
+  },
+
+  markAllRead: async (userId: string): Promise<{ updated: number }> => {
+    const { count } = await prisma.notification.updateMany({
+      where: { userId, isRead: false },
+      data: { isRead: true },
+    });
+    return { updated: count };
+  },
+
+  getPreferences: async (userId: string): Promise<NotificationPreferences> => {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { notificationPreferences: true },
+    });
+    if (!user) {
+      throw notFound('User not found');
+    }
+    return preferencesOf(user.notificationPreferences);
+  },
+
+  updatePreferences: async (
+    userId: string,
+    changes: Partial<NotificationPreferences>
+  ): Promise<NotificationPreferences> => {
+    const preferences = {
+      ...(await notificationService.getPreferences(userId)),
+      ...changes,
+    };
+    await prisma.user.update({
+      where: { id: userId },
+      data: { notificationPreferences: toJson(preferences) },
+    });
+    return preferences;
+  },
+
+  // Domain events
+
+  directMessage: async (message: {
+    id: string;
+    content: string;
+    senderId: string;
+    receiverId: string;
+    sender: { username: string; displayName?: string | null };
+  }) =>
+    notificationService.create(message.receiverId, {
+      type: NotificationType.NEW_MESSAGE,
+      title: `New message from ${displayName(message.sender)}`,
+      content: truncateText(message.content, PREVIEW_LENGTH),
+      metadata: { messageId: message.id, senderId: message.senderId },
+    }),
+
+  // @username mentions in a chat message; only members who allow mentions
+  // and can read where they were mentioned are told
+  mentions: async (source: {
+    text: string;
+    author: { id: string; username: string; displayName?: string | null };
+    accessLevel: ContentAccessLevel;
+    metadata: Record<string, unknown>;
+  }): Promise<number> => {
+    const usernames = extractMentions(source.text);
+    if (usernames.length === 0) return 0;
+
+    const mentioned = await prisma.user.findMany({
+      where: {
+        username: { in: usernames },
+        id: { not: source.author.id },
+        allowMentions: true,
+      },
+      select: recipientSelect,
+    });
+    const notifications = await deliver(
+      mentioned
+        .map(toRecipient)
+        .filter(user => canAccess(user, 'view', source.accessLevel)),
+      {
+        type: NotificationType.MENTION,
+        title: `${displayName(source.author)} mentioned you`,
+        content: truncateText(source.text, PREVIEW_LENGTH),
+        metadata: source.metadata,
+      }
+    );
+    return notifications.length;
+  },
+
+  // Someone reacted to a post or comment; authors are not told about their own
+  reaction: async (reaction: {
+    actorId: string;
+    recipientId: string;
+    kind: 'post' | 'comment';
+    targetId: string;
+    postId: string;
+    postTitle: string;
+    type: ReactionType;
+  }) => {
+    if (reaction.actorId === reaction.recipientId) return null;
+    const actor = await prisma.user.findUnique({
+      where: { id: reaction.actorId },
+      select: { username: true, displayName: true },
+    });
+    if (!actor) return null;
+    return notificationService.create(reaction.recipientId, {
+      type: NotificationType.REACTION,
+      title: `${displayName(actor)} reacted to your ${reaction.kind}`,
+      content: truncateText(reaction.postTitle, PREVIEW_LENGTH),
+      metadata: {
+        kind: reaction.kind,
+        actorId: reaction.actorId,
+        targetId: reaction.targetId,
+        postId: reaction.postId,
+        reactionType: reaction.type,
+      },
+    });
+  },
+
+  // A moderator closed the user's report
+  reportClosed: (report: {
+    id: string;
+    reporterId: string;
+    targetType: ReportTargetType;
+    status: ReportStatus;
+    outcome?: ReportOutcome | null;
+  }) =>
+    notificationService.create(report.reporterId, {
+      type: NotificationType.SYSTEM,
+      title: 'Your report was reviewed',
+      content:
+        report.status === ReportStatus.RESOLVED
+          ? `Thanks for reporting this ${TARGET_NAMES[report.targetType]}. Our moderators have taken action.`
+          : `We found no breach of the community guidelines in the ${TARGET_NAMES[report.targetType]} you reported.`,
+      metadata: {
+        reportId: report.id,
+        status: report.status,
+        outcome: report.outcome ?? null,
+      },
+    }),
+
+  // A moderator removed the user's content or sanctioned them
+  moderationNotice: (notice: {
+    userId: string;
+    outcome: ReportOutcome;
+    targetType: ReportTargetType;
+    contentRemoved: boolean;
+    note?: string;
+    expiresAt?: Date | null;
+  }) => {
+    const name = TARGET_NAMES[notice.targetType];
+    const details = [
+      notice.note
+        ? asSentence(notice.note)
+        : 'It breaks the community guidelines.',
+      notice.contentRemoved &&
+        notice.outcome !== ReportOutcome.REMOVE_CONTENT &&
+        `Your ${name} was removed.`,
+      notice.outcome === ReportOutcome.MUTE &&
+        notice.expiresAt &&
+        `You can post again after ${formatUtcDateTime(notice.expiresAt)}.`,
+      notice.outcome === ReportOutcome.BAN &&
+        (notice.expiresAt
+          ? `The ban ends ${formatUtcDateTime(notice.expiresAt)}.`
+          : 'The ban is permanent.'),
+      (notice.outcome === ReportOutcome.MUTE ||
+        notice.outcome === ReportOutcome.BAN) &&
+        'You can appeal this decision.',
+    ];
+    return notificationService.create(notice.userId, {
+      type: NotificationType.SYSTEM,
+      title:
+        notice.outcome === ReportOutcome.REMOVE_CONTENT
+          ? `Your ${name} was removed`
+          : SANCTION_TITLES[notice.outcome],
+      content: details.filter(Boolean).join(' '),
+      metadata: {
+        outcome: notice.outcome,
+        expiresAt: notice.expiresAt?.toISOString() ?? null,
+      },
+    });
+  },
+
+  // A moderator muted or banned the user outside of a report
+  sanctionIssued: (sanction: {
+    id: string;
+    userId: string;
+    type: SanctionType;
+    scope: SanctionScope;
+    reason?: string | null;
+    expiresAt: Date | null;
+  }) => {
+    const place = SCOPE_NAMES[sanction.scope];
+    const muted = sanction.type === SanctionType.MUTE;
+    const title = place
+      ? muted
+        ? `You have been muted in ${place}`
+        : `You have been banned from ${place}`
+      : SANCTION_TITLES[muted ? ReportOutcome.MUTE : ReportOutcome.BAN];
+    const details = [
+      sanction.reason
+        ? asSentence(sanction.reason)
+        : 'You broke the community guidelines.',
+      sanction.expiresAt
+        ? `It ends ${formatUtcDateTime(sanction.expiresAt)}.`
+        : 'It is permanent.',
+      'You can appeal this decision.',
+    ];
+    return notificationService.create(sanction.userId, {
+      type: NotificationType.SYSTEM,
+      title,
+      content: details.join(' '),
+      metadata: {
+        sanctionId: sanction.id,
+        type: sanction.type,
+        scope: sanction.scope,
+        expiresAt: sanction.expiresAt?.toISOString() ?? null,
+      },
+    });
+  },
+
+  // A moderator lifted the user's sanction, possibly on appeal
+  sanctionLifted: (sanction: {
+    id: string;
+    userId: string;
+    type: SanctionType;
+    liftReason?: string | null;
+    appealAccepted?: boolean;
+  }) =>
+    notificationService.create(sanction.userId, {
+      type: NotificationType.SYSTEM,
+      title:
+        sanction.type === SanctionType.MUTE
+          ? 'Your mute was lifted'
+          : 'Your ban was lifted',
+      content: [
+        sanction.appealAccepted && 'Your appeal was accepted.',
+        sanction.liftReason && asSentence(sanction.liftReason),
+        'You can take part again.',
+      ]
+        .filter(Boolean)
+        .join(' '),
+      metadata: {
+        sanctionId: sanction.id,
+        appealAccepted: !!sanction.appealAccepted,
+      },
+    }),
+
+  appealRejected: (appeal: {
+    id: string;
+    userId: string;
+    sanctionId: string;
+    note?: string;
+  }) =>
+    notificationService.create(appeal.userId, {
+      type: NotificationType.SYSTEM,
+      title: 'Your appeal was reviewed',
+      content: [
+        appeal.note && asSentence(appeal.note),
+        'The sanction stays in place.',
+      ]
+        .filter(Boolean)
+        .join(' '),
+      metadata: { appealId: appeal.id, sanctionId: appeal.sanctionId },
+    }),
+
+  // Job steps; each claims its rows before notifying, so overlapping runs
+  // cannot send the same notification twice
+
+  // Tell every member who can read a newly published post about it
+  announcePublishedPosts: async (now = new Date()): Promise<void> => {
+    const posts = await prisma.post.findMany({
+      where: {
+        status: PostStatus.PUBLISHED,
+        notifiedAt: null,
+        publishedAt: {
+          lte: now,
+          gte: new Date(now.getTime() - NEW_POST_LOOKBACK),
+        },
+      },
+      orderBy: { publishedAt: 'asc' },
+    });
+
+    for (const post of posts) {
+      const { count } = await prisma.post.updateMany({
+        where: { id: post.id, notifiedAt: null },
+        data: { notifiedAt: now },
+      });
+      if (count === 0) continue;
+
+      await deliverToAll(
+        { id: { not: post.authorId } },
+        {
+          type: NotificationType.NEW_POST,
+          title: post.title,
+          content: truncateText(
+            post.excerpt || post.content || '',
+            PREVIEW_LENGTH
+          ),
+          metadata: { postId: post.id },
+        },
+        recipient =>
+          canAccess(recipient, 'view', ContentAccessLevel[post.accessLevel])
+      );
+    }
+  },
+
+  // Remind attendees of events starting within the reminder lead time
+  sendEventReminders: async (now = new Date()): Promise<void> => {
+    const rsvps = await prisma.eventRSVP.findMany({
+      where: {
+        status: 'attending',
+        reminderSentAt: null,
+        event: {
+          status: EventStatus.UPCOMING,
+          startDate: {
+            gt: now,
+            lte: new Date(
+              now.getTime() + NOTIFICATION_CONFIG.EVENT_REMINDER_LEAD_TIME
+            ),
+          },
+        },
+      },
+      include: { event: true, user: { select: recipientSelect } },
+    });
+
+    for (const rsvp of rsvps) {
+      const { count } = await prisma.eventRSVP.updateMany({
+        where: { id: rsvp.id, reminderSentAt: null },
+        data: { reminderSentAt: now },
+      });
+      if (count === 0) continue;
+
+      const { event } = rsvp;
+      const place = event.venue || event.location;
+      await deliver([toRecipient(rsvp.user)], {
+        type: NotificationType.EVENT_REMINDER,
+        title: `${event.title} is coming up`,
+        content: `Starts ${event.startDate.toISOString().slice(0, 16).replace('T', ' ')} UTC${place ? ` at ${place}` : ''}.`,
+        metadata: { eventId: event.id },
+      });
+    }
+  },
+
+  // Roll each user's digest items up into summary notifications once the
+  // oldest has waited a full digest period. Digests are held during quiet
+  // hours. Items are deleted before the summary is stored, which claims them.
+  sendDigests: async (now = new Date()): Promise<void> => {
+    const waiting = await prisma.notificationDigestItem.groupBy({
+      by: ['userId'],
+      where: {
+        createdAt: { lte: new Date(now.getTime() - DIGEST_PERIODS.hourly) },
+      },
+    });
+
+    for (const { userId } of waiting) {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { notificationPreferences: true },
+      });
+      if (!user) continue;
+      const preferences = preferencesOf(user.notificationPreferences);
+      if (inQuietHours(preferences.quietHours, now)) continue;
+
+      // Items collected before digests were switched off go out as one last
+      // digest
+      const { frequency } = preferences.digest;
+      const period = frequency === 'off' ? 0 : DIGEST_PERIODS[frequency];
+      const items = (
+        await prisma.notificationDigestItem.findMany({
+          where: { userId, createdAt: { lte: now } },
+          orderBy: { createdAt: 'asc' },
+        })
+      ).map(toDigestItem);
+      if (
+        items.length === 0 ||
+        items[0].createdAt.getTime() > now.getTime() - period
+      ) {
+        continue;
+      }
+
+      const { count } = await prisma.notificationDigestItem.deleteMany({
+        where: { id: { in: items.map(item => item.id) } },
+      });
+      if (count === 0) continue;
+      await store(summarise(items).map(input => ({ ...input, userId })));
+    }
+  },
+};
@@ -0,0 +1,275 @@
+// Published posts as seen by a viewer
+//
+// Posts above the viewer's access level are not hidden: they come back as
+// teasers (title, excerpt, a blurred featured image and the tier that unlocks
+// them) so the app can show an upgrade prompt in their place. Levels that no
+// subscription can unlock are left out entirely. Access is decided from the
+// viewer's current subscription rather than the claims in their token.
+//
+// Comments pass through the content filter. Held comments are only shown to
+// their author and the moderators until a moderator reviews them.
+
+import { $Enums } from '../../generated/prisma';
+import { prisma } from '../config/database';
+import { SubscriptionTier } from '../../src/types/auth';
+import {
+  Comment,
+  ContentAccessLevel,
+  CreateCommentInput,
+  Post,
+  PostFilter,
+  PostSort,
+  PostStatus,
+  PostType,
+  ReactionType,
+} from '../../src/types/post';
+import {
+  ACCESS_LEVEL_ORDER,
+  AccessSubject,
+  canAccess,
+  REQUIRED_TIER,
+} from '../../src/utils/permissions';
+import { assertAccess, findAccessSubject } from '../utils/access';
+import { AuthorRow, authorSelect, toAuthor } from '../utils/authors';
+import { notFound } from '../utils/errors';
+import { AccessTokenPayload } from '../utils/tokens';
+import { contentFilterService } from './contentFilterService';
+import { mediaService } from './mediaService';
+import { sanctionService } from './sanctionService';
+
+type TransactionClient = Parameters<
+  Parameters<typeof prisma.$transaction>[0]
+>[0];
+
+export interface PostListQuery {
+  filter: Omit<PostFilter, 'status'>;
+  sort: PostSort;
+  page: number;
+  limit: number;
+}
+
+// Levels the viewer can read, plus any level a subscription would unlock
+export const listableLevels = (viewer: AccessSubject | null) =>
+  ACCESS_LEVEL_ORDER.filter(
+    level => canAccess(viewer, 'view', level) || REQUIRED_TIER[level] !== null
+  );
+
+// Comments a viewer may see and answer: removed ones are kept only as report
+// evidence, and held ones only show to their author until they are reviewed
+export const visibleComments = (viewerId: string) => ({
+  deletedAt: null,
+  OR: [{ isHeld: false }, { authorId: viewerId }],
+});
+
+const postInclude = (viewerId?: string) => ({
+  author: { select: authorSelect },
+  // Counted as everyone sees them
+  _count: {
+    select: { comments: { where: { deletedAt: null, isHeld: false } } },
+  },
+  // Only the viewer's own reaction, to mark the post as liked
+  reactions: viewerId
+    ? { where: { userId: viewerId }, select: { type: true } }
+    : false,
+});
+
+const commentInclude = { author: { select: authorSelect } };
+
+type CommentRow = NonNullable<
+  Awaited<ReturnType<typeof prisma.comment.findFirst>>
+> & { author: AuthorRow };
+
+type PostRow = NonNullable<
+  Awaited<ReturnType<typeof prisma.post.findFirst>>
+> & {
+  author: AuthorRow;
+  _count: { comments: number };
+  reactions?: { type: $Enums.ReactionType }[];
+};
+
+const toPost = (row: PostRow): Post => {
+  const reaction = row.reactions?.[0];
+  return {
+    id: row.id,
+    title: row.title,
+    content: row.content ?? undefined,
+    excerpt: row.excerpt ?? undefined,
+    type: PostType[row.type],
+    status: PostStatus[row.status],
+    accessLevel: ContentAccessLevel[row.accessLevel],
+    featuredImage: row.featuredImage ?? undefined,
+    mediaUrls: row.mediaUrls,
+    slug: row.slug,
+    tags: row.tags,
+    category: row.category ?? undefined,
+    viewCount: row.viewCount,
+    likeCount: row.likeCount,
+    shareCount: row.shareCount,
+    publishedAt: row.publishedAt ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    authorId: row.authorId,
+    author: toAuthor(row.author),
+    comments: [],
+    reactions: [],
+    commentCount: row._count.comments,
+    userReaction: reaction ? ReactionType[reaction.type] : undefined,
+    isLiked: !!reaction,
+  };
+};
+
+const toComment = (row: CommentRow): Comment => ({
+  id: row.id,
+  content: row.content,
+  postId: row.postId,
+  authorId: row.authorId,
+  author: toAuthor(row.author),
+  parentId: row.parentId ?? undefined,
+  replies: [],
+  reactions: [],
+  likeCount: row.likeCount,
+  isHeld: row.isHeld,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+// The viewer as they are now; a signed-out or deleted viewer is a guest
+const currentSubject = async (
+  viewer: AccessTokenPayload | null
+): Promise<AccessSubject | null> =>
+  viewer ? findAccessSubject(viewer.sub) : null;
+
+// Strip everything a locked post must not reveal
+const toTeaser = async (post: Post): Promise<Post> => {
+  const featuredImage = post.featuredImage
+    ? await mediaService.blurredPreviewUrl(post.featuredImage)
+    : null;
+  return {
+    ...post,
+    content: undefined,
+    mediaUrls: [],
+    featuredImage: featuredImage ?? undefined,
+    isLocked: true,
+    requiredTier: REQUIRED_TIER[post.accessLevel] ?? SubscriptionTier.FREE,
+  };
+};
+
+const present = async (
+  viewer: AccessSubject | null,
+  row: PostRow
+): Promise<Post> => {
+  const post = toPost(row);
+  return canAccess(viewer, 'view', post.accessLevel) ? post : toTeaser(post);
+};
+
+export const postService = {
+  list: async (
+    viewer: AccessTokenPayload | null,
+    { filter, sort, page, limit }: PostListQuery
+  ): Promise<{ posts: Post[]; total: number }> => {
+    const subject = await currentSubject(viewer);
+    const levels = listableLevels(subject);
+    const where = {
+      status: PostStatus.PUBLISHED,
+      accessLevel: filter.accessLevel
+        ? { in: levels.filter(level => level === filter.accessLevel) }
+        : { in: levels },
+      type: filter.type,
+      category: filter.category,
+      authorId: filter.authorId,
+      tags: filter.tags?.length ? { hasSome: filter.tags } : undefined,
+      publishedAt:
+        filter.dateFrom || filter.dateTo
+          ? { gte: filter.dateFrom, lte: filter.dateTo }
+          : undefined,
+    };
+
+    const [rows, total] = await Promise.all([
+      prisma.post.findMany({
+        where,
+        include: postInclude(viewer?.sub),
+        orderBy: { [sort.field]: sort.order },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.post.count({ where }),
+    ]);
+    const posts = await Promise.all(rows.map(row => present(subject, row)));
+    return { posts, total };
+  },
+
+  get: async (viewer: AccessTokenPayload | null, id: string): Promise<Post> => {
+    const [subject, row] = await Promise.all([
+      currentSubject(viewer),
+      prisma.post.findFirst({
+        where: { id, status: PostStatus.PUBLISHED },
+        include: postInclude(viewer?.sub),
+      }),
+    ]);
+    // Content nobody can subscribe to is reported as missing, not locked
+    if (
+      !row ||
+      !listableLevels(subject).includes(ContentAccessLevel[row.accessLevel])
+    ) {
+      throw notFound('Post not found');
+    }
+    return present(subject, row);
+  },
+
+  // Commenting needs interact access to the post; muted or banned members
+  // cannot comment
+  addComment: async (
+    viewer: AccessTokenPayload,
+    { postId, parentId, content }: CreateCommentInput
+  ): Promise<Comment> => {
+    const [subject, post] = await Promise.all([
+      currentSubject(viewer),
+      prisma.post.findFirst({
+        where: { id: postId, status: PostStatus.PUBLISHED },
+      }),
+    ]);
+    if (
+      !post ||
+      !listableLevels(subject).includes(ContentAccessLevel[post.accessLevel])
+    ) {
+      throw notFound('Post not found');
+    }
+    assertAccess(subject, 'interact', ContentAccessLevel[post.accessLevel]);
+    await sanctionService.assertCanWrite(viewer.sub);
+    const parent = parentId
+      ? await prisma.comment.findFirst({
+          where: { id: parentId, postId, ...visibleComments(viewer.sub) },
+        })
+      : null;
+    if (parentId && !parent) {
+      throw notFound('Comment not found');
+    }
+    const { fields, held } = await contentFilterService.screen(
+      viewer,
+      'comment',
+      { content }
+    );
+
+    const row = await prisma.$transaction(async (tx: TransactionClient) => {
+      const comment = await tx.comment.create({
+        data: {
+          content: fields.content,
+          postId,
+          parentId: parent?.id,
+          authorId: viewer.sub,
+          isHeld: held.length > 0,
+        },
+        include: commentInclude,
+      });
+      await contentFilterService.hold(
+        tx,
+        'comment',
+        comment.id,
+        viewer.sub,
+        held
+      );
+      return comment;
+    });
+    return toComment(row);
+  },
+};
@@ -0,0 +1,274 @@
+// Promo codes: discounts and free trials redeemed at checkout
+//
+// A redemption is reserved before the provider is asked to bill anything, so
+// usage limits hold when several people check out with the last use of a code
+// at once, and released again if checkout fails.
+
+import { prisma } from '../config/database';
+import { BillingDiscount, BillingPlan } from '../billing';
+import { SubscriptionTier } from '../../src/types/auth';
+import {
+  BillingCurrency,
+  BillingInterval,
+  CreatePromoCodeInput,
+  PromoCode,
+  PromoCodeKind,
+  PromoCodePreview,
+} from '../../src/types/subscription';
+import { conflict, HttpError, notFound } from '../utils/errors';
+
+type TransactionClient = Parameters<
+  Parameters<typeof prisma.$transaction>[0]
+>[0];
+
+type PromoCodeRecord = Awaited<
+  ReturnType<typeof prisma.promoCode.findMany>
+>[number];
+
+// Plan details a code can be checked against before the plan is final
+export interface PromoCodeTarget {
+  tier?: SubscriptionTier;
+  interval?: BillingInterval;
+  currency?: string;
+}
+
+// What redeeming a code does to a new subscription
+export interface PromoCodeTerms {
+  discount?: BillingDiscount;
+  trialDays?: number;
+  // Taken off the first invoice, in cents
+  discountAmount: number;
+}
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+const BILLING_LABELS: Record<BillingInterval, string> = {
+  month: 'monthly',
+  year: 'yearly',
+};
+
+const invalidPromoCode = (message: string) =>
+  new HttpError(400, message, 'PROMO_CODE_INVALID');
+
+const toPreview = (promo: PromoCodeRecord): PromoCodePreview => ({
+  code: promo.code,
+  description: promo.description,
+  kind: PromoCodeKind[promo.kind],
+  percentOff: promo.percentOff,
+  amountOff: promo.amountOff,
+  currency: promo.currency as BillingCurrency | null,
+  trialDays: promo.trialDays,
+  durationInPeriods: promo.durationInPeriods,
+  tiers: promo.tiers.map(tier => SubscriptionTier[tier]),
+  intervals: promo.intervals as BillingInterval[],
+  expiresAt: promo.expiresAt,
+});
+
+const toPromoCode = (promo: PromoCodeRecord): PromoCode => ({
+  ...toPreview(promo),
+  id: promo.id,
+  maxRedemptions: promo.maxRedemptions,
+  redemptionCount: promo.redemptionCount,
+  startsAt: promo.startsAt,
+  isActive: promo.isActive,
+  createdAt: promo.createdAt,
+});
+
+// Throws unless the user may redeem the code on the given plan
+const assertRedeemable = async (
+  promo: PromoCodeRecord,
+  userId: string,
+  target: PromoCodeTarget,
+  now = new Date()
+) => {
+  if (!promo.isActive || (promo.startsAt && promo.startsAt > now)) {
+    throw invalidPromoCode('This promo code is not valid');
+  }
+  if (promo.expiresAt && promo.expiresAt <= now) {
+    throw invalidPromoCode('This promo code has expired');
+  }
+  if (
+    promo.maxRedemptions !== null &&
+    promo.redemptionCount >= promo.maxRedemptions
+  ) {
+    throw invalidPromoCode('This promo code has been fully redeemed');
+  }
+  if (
+    target.tier &&
+    promo.tiers.length > 0 &&
+    !promo.tiers.includes(target.tier)
+  ) {
+    throw invalidPromoCode(
+      `This promo code only applies to ${promo.tiers.join(' or ')} plans`
+    );
+  }
+  if (
+    target.interval &&
+    promo.intervals.length > 0 &&
+    !promo.intervals.includes(target.interval)
+  ) {
+    throw invalidPromoCode(
+      `This promo code only applies to ${promo.intervals
+        .map(interval => BILLING_LABELS[interval as BillingInterval])
+        .join(' or ')} billing`
+    );
+  }
+  if (
+    target.currency &&
+    promo.kind === PromoCodeKind.AMOUNT_OFF &&
+    promo.currency !== target.currency
+  ) {
+    throw invalidPromoCode(
+      `This promo code only applies to payments in ${promo.currency}`
+    );
+  }
+
+  const redeemed = await prisma.promoRedemption.findUnique({
+    where: { promoCodeId_userId: { promoCodeId: promo.id, userId } },
+  });
+  if (redeemed) {
+    throw invalidPromoCode('You have already used this promo code');
+  }
+  // Trials are for accounts that have never paid
+  if (promo.kind === PromoCodeKind.FREE_TRIAL) {
+    const subscribed = await prisma.subscription.findFirst({
+      where: { userId },
+    });
+    if (subscribed) {
+      throw invalidPromoCode('Free trials are for new subscribers only');
+    }
+  }
+};
+
+const termsFor = (
+  promo: PromoCodeRecord,
+  plan: BillingPlan
+): PromoCodeTerms => {
+  if (promo.kind === PromoCodeKind.FREE_TRIAL) {
+    return { trialDays: promo.trialDays ?? 0, discountAmount: 0 };
+  }
+  const discount: BillingDiscount =
+    promo.kind === PromoCodeKind.PERCENT_OFF
+      ? {
+          percentOff: promo.percentOff ?? undefined,
+          periods: promo.durationInPeriods,
+        }
+      : {
+          amountOff: promo.amountOff ?? undefined,
+          periods: promo.durationInPeriods,
+        };
+  const discountAmount = discount.percentOff
+    ? plan.amount - Math.round(plan.amount * (1 - discount.percentOff / 100))
+    : Math.min(plan.amount, discount.amountOff ?? 0);
+  return { discount, discountAmount };
+};
+
+export const promoCodeService = {
+  // What a code would give the user, checked against as much of the plan as
+  // they have picked so far
+  preview: async (
+    userId: string,
+    code: string,
+    target: PromoCodeTarget = {}
+  ): Promise<PromoCodePreview> => {
+    const promo = await prisma.promoCode.findUnique({
+      where: { code: normalizePromoCode(code) },
+    });
+    if (!promo) {
+      throw notFound('Promo code not found');
+    }
+    await assertRedeemable(promo, userId, target);
+    return toPreview(promo);
+  },
+
+  // Claim one use of the code for the user. Call release() if checkout fails.
+  reserve: async (
+    userId: string,
+    code: string,
+    plan: BillingPlan
+  ): Promise<PromoCodeTerms & { redemptionId: string }> => {
+    const promo = await prisma.promoCode.findUnique({
+      where: { code: normalizePromoCode(code) },
+    });
+    if (!promo) {
+      throw invalidPromoCode('This promo code is not valid');
+    }
+    await assertRedeemable(promo, userId, plan);
+    const terms = termsFor(promo, plan);
+
+    try {
+      const redemption = await prisma.$transaction(
+        async (tx: TransactionClient) => {
+          // Only counts if a use is still left when the row is written
+          const { count } = await tx.promoCode.updateMany({
+            where: {
+              id: promo.id,
+              OR: [
+                { maxRedemptions: null },
+                {
+                  redemptionCount: {
+                    lt: prisma.promoCode.fields.maxRedemptions,
+                  },
+                },
+              ],
+            },
+            data: { redemptionCount: { increment: 1 } },
+          });
+          if (count === 0) {
+            throw invalidPromoCode('This promo code has been fully redeemed');
+          }
+          return tx.promoRedemption.create({
+            data: {
+              promoCodeId: promo.id,
+              userId,
+              discountAmount: terms.discountAmount,
+            },
+          });
+        }
+      );
+      return { ...terms, redemptionId: redemption.id };
+    } catch (error) {
+      if ((error as { code?: string })?.code === 'P2002') {
+        throw invalidPromoCode('You have already used this promo code');
+      }
+      throw error;
+    }
+  },
+
+  release: async (redemptionId: string): Promise<void> => {
+    await prisma.$transaction(async (tx: TransactionClient) => {
+      const redemption = await tx.promoRedemption.delete({
+        where: { id: redemptionId },
+      });
+      await tx.promoCode.update({
+        where: { id: redemption.promoCodeId },
+        data: { redemptionCount: { decrement: 1 } },
+      });
+    });
+  },
+
+  attach: async (redemptionId: string, subscriptionId: string) =>
+    prisma.promoRedemption.update({
+      where: { id: redemptionId },
+      data: { subscriptionId },
+    }),
+
+  // Admin
+  list: async (): Promise<PromoCode[]> => {
+    const promos = await prisma.promoCode.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+    return promos.map(toPromoCode);
+  },
+
+  create: async (input: CreatePromoCodeInput): Promise<PromoCode> => {
+    const code = normalizePromoCode(input.code);
+    const existing = await prisma.promoCode.findUnique({ where: { code } });
+    if (existing) {
+      throw conflict('A promo code with this code already exists');
+    }
+    return toPromoCode(
+      await prisma.promoCode.create({ data: { ...input, code } })
+    );
+  },
+};
@@ -0,0 +1,333 @@
+// Push notification delivery
+//
+// Devices register their push token against the session they are signed in
+// with, so signing out stops pushes to that device. Every stored notification
+// is pushed to each signed-in device of its recipient, unless it arrives during
+// the recipient's quiet hours. Pushes are gathered for
+// a moment and sent in batches; the provider's tickets are kept until their
+// receipts are checked, and tokens the provider reports as unregistered (the
+// app was uninstalled, for example) are removed. Batches the provider could not
+// take are tried again with the next flush.
+
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+import { PushMessage, PushProvider, pushProvider, PushTicket } from '../push';
+import { Notification } from '../../src/types/notification';
+import { badRequest, unauthorized } from '../utils/errors';
+import { logger } from '../utils/logger';
+import {
+  inQuietHours,
+  notificationEvents,
+  preferencesOf,
+} from './notificationService';
+
+export interface RegisterDeviceInput {
+  token: string;
+  platform: 'ios' | 'android';
+}
+
+// Receipts are only kept by Expo for about a day; tickets still unchecked by
+// then are dropped
+const TICKET_TTL = 24 * 60 * 60 * 1000; // 1 day
+
+// Sending a push is given up after this many failed requests
+const SEND_ATTEMPTS = 3;
+
+const NO_DEVICE = {
+  pushToken: null,
+  pushPlatform: null,
+  pushTokenUpdatedAt: null,
+};
+
+type TransactionClient = Parameters<
+  Parameters<typeof prisma.$transaction>[0]
+>[0];
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+interface PendingPush {
+  message: PushMessage;
+  // Failed requests so far
+  attempts: number;
+}
+
+const toMessage = (
+  token: string,
+  notification: Notification,
+  badge: number
+): PushMessage => ({
+  to: token,
+  title: notification.title,
+  body: notification.content,
+  data: {
+    ...notification.metadata,
+    notificationId: notification.id,
+    type: notification.type,
+  },
+  sound: 'default',
+  badge,
+});
+
+export const createPushService = (provider: PushProvider) => {
+  let queue: Notification[] = [];
+  // Pushes from batches the provider failed to take
+  let retries: PendingPush[] = [];
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const removeTokens = async (tokens: string[]) => {
+    if (tokens.length === 0) return;
+    await prisma.userSession.updateMany({
+      where: { pushToken: { in: tokens } },
+      data: NO_DEVICE,
+    });
+  };
+
+  const scheduleFlush = () => {
+    if (flushTimer) return;
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      service
+        .flush()
+        .catch(error => logger.error('Push delivery failed', error));
+    }, env.PUSH_BATCH_DELAY);
+  };
+
+  const enqueue = (notification: Notification) => {
+    queue.push(notification);
+    scheduleFlush();
+  };
+
+  // A push for each signed-in device of each notification's recipient
+  const compose = async (
+    queued: Notification[],
+    now: Date
+  ): Promise<PushMessage[]> => {
+    if (queued.length === 0) return [];
+
+    // Quiet hours mute pushes; the notifications are still in the app
+    const recipients = await prisma.user.findMany({
+      where: { id: { in: [...new Set(queued.map(n => n.userId))] } },
+      select: { id: true, notificationPreferences: true },
+    });
+    const muted = new Set(
+      recipients
+        .filter(user =>
+          inQuietHours(
+            preferencesOf(user.notificationPreferences).quietHours,
+            now
+          )
+        )
+        .map(user => user.id)
+    );
+    const notifications = queued.filter(n => !muted.has(n.userId));
+    if (notifications.length === 0) return [];
+
+    const userIds = [...new Set(notifications.map(n => n.userId))];
+    const sessions = await prisma.userSession.findMany({
+      where: {
+        userId: { in: userIds },
+        pushToken: { not: null },
+        expiresAt: { gt: now },
+      },
+      select: { userId: true, pushToken: true },
+    });
+    if (sessions.length === 0) return [];
+
+    // The badge shows the recipient's unread count
+    const unread = await prisma.notification.groupBy({
+      by: ['userId'],
+      where: { userId: { in: userIds }, isRead: false },
+      _count: { _all: true },
+    });
+    const badges = new Map(unread.map(row => [row.userId, row._count._all]));
+
+    return notifications.flatMap(notification =>
+      sessions.flatMap(({ userId, pushToken }) =>
+        userId === notification.userId && pushToken
+          ? [
+              toMessage(
+                pushToken,
+                notification,
+                badges.get(notification.userId) ?? 0
+              ),
+            ]
+          : []
+      )
+    );
+  };
+
+  // Keep the pushes of a failed request for the next flush
+  const retryLater = (pushes: PendingPush[]) => {
+    const failed = pushes.map(push => ({
+      ...push,
+      attempts: push.attempts + 1,
+    }));
+    const kept = failed.filter(push => push.attempts < SEND_ATTEMPTS);
+    if (kept.length < failed.length) {
+      logger.warn(
+        `Giving up on ${failed.length - kept.length} pushes after ${SEND_ATTEMPTS} attempts`
+      );
+    }
+    retries.push(...kept);
+    if (kept.length > 0) scheduleFlush();
+  };
+
+  const service = {
+    // Start pushing stored notifications as they are created
+    start: () => {
+      notificationEvents.off('created', enqueue);
+      notificationEvents.on('created', enqueue);
+    },
+
+    stop: () => {
+      notificationEvents.off('created', enqueue);
+      if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = null;
+      }
+    },
+
+    // The token moves to this session if another one had it, e.g. after
+    // signing in again on the same device
+    registerDevice: async (
+      sessionId: string,
+      { token, platform }: RegisterDeviceInput
+    ): Promise<void> => {
+      if (!provider.isValidToken(token)) {
+        throw badRequest('Invalid push token');
+      }
+      const { count } = await prisma.$transaction(
+        async (tx: TransactionClient) => {
+          await tx.userSession.updateMany({
+            where: { pushToken: token, id: { not: sessionId } },
+            data: NO_DEVICE,
+          });
+          return tx.userSession.updateMany({
+            where: { id: sessionId },
+            data: {
+              pushToken: token,
+              pushPlatform: platform,
+              pushTokenUpdatedAt: new Date(),
+            },
+          });
+        }
+      );
+      if (count === 0) {
+        throw unauthorized('Session has ended');
+      }
+    },
+
+    unregisterDevice: async (sessionId: string): Promise<void> => {
+      await prisma.userSession.updateMany({
+        where: { id: sessionId },
+        data: NO_DEVICE,
+      });
+    },
+
+    // Send everything queued so far, and retry pushes from failed requests.
+    // Returns the number of pushes the provider took.
+    flush: async (now = new Date()): Promise<number> => {
+      const queued = queue;
+      queue = [];
+      const pending = retries;
+      retries = [];
+
+      let fresh: PushMessage[];
+      try {
+        fresh = await compose(queued, now);
+      } catch (error) {
+        queue.unshift(...queued);
+        retries.unshift(...pending);
+        throw error;
+      }
+      const pushes = [
+        ...pending,
+        ...fresh.map(message => ({ message, attempts: 0 })),
+      ];
+
+      const batches = chunk(pushes, provider.maxBatchSize);
+      let sent = 0;
+      for (const [index, batch] of batches.entries()) {
+        let tickets: PushTicket[];
+        try {
+          tickets = await provider.send(batch.map(push => push.message));
+        } catch (error) {
+          retryLater(batches.slice(index).flat());
+          throw error;
+        }
+        sent += batch.length;
+
+        const accepted: { id: string; token: string }[] = [];
+        const unregistered: string[] = [];
+        tickets.forEach((ticket, i) => {
+          const { to } = batch[i].message;
+          if (ticket.status === 'ok') {
+            accepted.push({ id: ticket.id, token: to });
+          } else if (ticket.error === 'DeviceNotRegistered') {
+            unregistered.push(to);
+          } else {
+            logger.warn(`Push to ${to} failed: ${ticket.message}`);
+          }
+        });
+        await removeTokens(unregistered);
+        if (accepted.length > 0) {
+          await prisma.pushTicket.createMany({
+            data: accepted.map(ticket => ({ ...ticket, createdAt: now })),
+          });
+        }
+      }
+      return sent;
+    },
+
+    // Job step: look up the receipts of pushes sent long enough ago, forget
+    // tokens that turned out to be unregistered and drop checked tickets
+    checkReceipts: async (now = new Date()): Promise<void> => {
+      const tickets = await prisma.pushTicket.findMany({
+        where: {
+          createdAt: {
+            lte: new Date(now.getTime() - env.PUSH_RECEIPT_DELAY),
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      for (const batch of chunk(tickets, provider.maxReceiptBatchSize)) {
+        const receipts = await provider.getReceipts(
+          batch.map(ticket => ticket.id)
+        );
+        const unregistered: string[] = [];
+        const done: string[] = [];
+        batch.forEach(ticket => {
+          const receipt = receipts[ticket.id];
+          if (receipt?.status === 'error') {
+            if (receipt.error === 'DeviceNotRegistered') {
+              unregistered.push(ticket.token);
+            } else {
+              logger.warn(`Push to ${ticket.token} failed: ${receipt.message}`);
+            }
+          }
+          if (
+            receipt ||
+            ticket.createdAt.getTime() <= now.getTime() - TICKET_TTL
+          ) {
+            done.push(ticket.id);
+          }
+        });
+        await removeTokens(unregistered);
+        await prisma.pushTicket.deleteMany({ where: { id: { in: done } } });
+      }
+    },
+  };
+
+  return service;
+};
+
+export type PushService = ReturnType<typeof createPushService>;
+
+export const pushService = createPushService(pushProvider);
@@ -0,0 +1,164 @@
+// Reactions on posts and comments
+//
+// A user holds at most one reaction per post or comment. Each change locks the
+// target's row, then recounts likeCount from the reaction rows in the same
+// transaction. Concurrent taps on one target wait for each other, and every
+// recount sees the changes committed before it, so the counter cannot drift.
+
+import { prisma } from '../config/database';
+import {
+  ContentAccessLevel,
+  PostStatus,
+  ReactionCounts,
+  ReactionSummary,
+  ReactionType,
+} from '../../src/types/post';
+import { assertAccess } from '../utils/access';
+import { notFound } from '../utils/errors';
+import { AccessTokenPayload } from '../utils/tokens';
+import { notificationService, notifyInBackground } from './notificationService';
+import { visibleComments } from './postService';
+import { sanctionService } from './sanctionService';
+
+export type ReactionTargetKind = 'post' | 'comment';
+
+type TransactionClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+const targetWhere = (kind: ReactionTargetKind, targetId: string) =>
+  kind === 'post' ? { postId: targetId } : { commentId: targetId };
+
+// Reacting needs interact access to the post (a comment's post for comments).
+// Returns the post and the author of the target.
+const assertCanReact = async (
+  tx: TransactionClient,
+  viewer: AccessTokenPayload,
+  kind: ReactionTargetKind,
+  targetId: string
+) => {
+  const comment =
+    kind === 'comment'
+      ? await tx.comment.findFirst({
+          where: { id: targetId, ...visibleComments(viewer.sub) },
+          include: { post: true },
+        })
+      : null;
+  const post =
+    kind === 'post'
+      ? await tx.post.findFirst({ where: { id: targetId, status: PostStatus.PUBLISHED } })
+      : comment?.post;
+  if (!post) {
+    throw notFound(kind === 'post' ? 'Post not found' : 'Comment not found');
+  }
+  assertAccess(viewer, 'interact', ContentAccessLevel[post.accessLevel]);
+  return { post, authorId: comment ? comment.authorId : post.authorId };
+};
+
+// Hold the target's row lock until the transaction ends. Under READ COMMITTED
+// two recounts could otherwise each miss the other's reaction.
+const lockTarget = async (tx: TransactionClient, kind: ReactionTargetKind, targetId: string) => {
+  const args = { where: { id: targetId }, data: { likeCount: { increment: 0 } } };
+  if (kind === 'post') {
+    await tx.post.updateMany(args);
+  } else {
+    await tx.comment.updateMany(args);
+  }
+};
+
+// Recount the target's reactions and store the total on the row
+const summarize = async (
+  tx: TransactionClient,
+  kind: ReactionTargetKind,
+  targetId: string,
+  userId: string
+): Promise<ReactionSummary> => {
+  const where = targetWhere(kind, targetId);
+  const [groups, own] = await Promise.all([
+    tx.reaction.groupBy({ by: ['type'], where, _count: { _all: true } }),
+    tx.reaction.findFirst({ where: { ...where, userId } }),
+  ]);
+
+  const reactionCounts: ReactionCounts = {};
+  let likeCount = 0;
+  groups.forEach(group => {
+    reactionCounts[ReactionType[group.type]] = group._count._all;
+    likeCount += group._count._all;
+  });
+
+  if (kind === 'post') {
+    await tx.post.update({ where: { id: targetId }, data: { likeCount } });
+  } else {
+    await tx.comment.update({ where: { id: targetId }, data: { likeCount } });
+  }
+
+  return {
+    targetId,
+    likeCount,
+    reactionCounts,
+    userReaction: own ? ReactionType[own.type] : undefined,
+  };
+};
+
+export const reactionService = {
+  // Set the user's reaction, replacing a reaction of another type. Idempotent.
+  // The author hears about the first reaction, not about changes of type.
+  react: async (
+    viewer: AccessTokenPayload,
+    kind: ReactionTargetKind,
+    targetId: string,
+    type: ReactionType
+  ): Promise<ReactionSummary> => {
+    await sanctionService.assertNotBanned(viewer.sub);
+    const result = await prisma.$transaction(async (tx: TransactionClient) => {
+      const target = await assertCanReact(tx, viewer, kind, targetId);
+      await lockTarget(tx, kind, targetId);
+
+      const userId = viewer.sub;
+      const where = { ...targetWhere(kind, targetId), userId };
+      const previous = await tx.reaction.findFirst({ where });
+      await tx.reaction.deleteMany({ where: { ...where, type: { not: type } } });
+      // Upsert on the unique key so two concurrent taps cannot both insert
+      await tx.reaction.upsert({
+        where:
+          kind === 'post'
+            ? { userId_postId_type: { userId, postId: targetId, type } }
+            : { userId_commentId_type: { userId, commentId: targetId, type } },
+        create: { ...where, type },
+        update: {},
+      });
+
+      const summary = await summarize(tx, kind, targetId, userId);
+      return { summary, target, isFirst: !previous };
+    });
+    const { summary, target, isFirst } = result;
+
+    if (isFirst) {
+      notifyInBackground(
+        notificationService.reaction({
+          actorId: viewer.sub,
+          recipientId: target.authorId,
+          kind,
+          targetId,
+          postId: target.post.id,
+          postTitle: target.post.title,
+          type,
+        })
+      );
+    }
+    return summary;
+  },
+
+  // Remove the user's reaction, if any. Idempotent.
+  unreact: async (
+    viewer: AccessTokenPayload,
+    kind: ReactionTargetKind,
+    targetId: string
+  ): Promise<ReactionSummary> => {
+    await sanctionService.assertNotBanned(viewer.sub);
+    return prisma.$transaction(async (tx: TransactionClient) => {
+      await assertCanReact(tx, viewer, kind, targetId);
+      await lockTarget(tx, kind, targetId);
+      await tx.reaction.deleteMany({ where: { ...targetWhere(kind, targetId), userId: viewer.sub } });
+      return summarize(tx, kind, targetId, viewer.sub);
+    });
+  },
+};
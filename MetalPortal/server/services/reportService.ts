@@ -0,0 +1,703 @@
+// Content reports and the moderation queue
+//
+// Members report posts, comments, forum threads and replies, chat and direct
+// messages and other members. Open reports wait in a queue, oldest first,
+// until a moderator dismisses or resolves them; assigning a report puts it in
+// review.
+// Resolving acts on the reported target once, settles every other open report
+// about it as well, and tells each reporter and the affected member the
+// result. Every action taken is recorded in the moderation log.
+//
+// The content filter files reports of its own, without a reporter, for the
+// content it holds. Dismissing them, or resolving them without removing the
+// content, releases it.
+
+import { prisma } from '../config/database';
+import { Prisma } from '../../generated/prisma';
+import { UserRole } from '../../src/types/auth';
+import {
+  BulkReportAction,
+  CreateReportInput,
+  DismissReportInput,
+  ModerationAction,
+  Report,
+  ReportFilter,
+  ReportOutcome,
+  ReportReason,
+  ReportStatus,
+  ReportTargetPreview,
+  ReportTargetType,
+  ResolveReportInput,
+  SanctionType,
+  UserSanction,
+} from '../../src/types/moderation';
+import { PostStatus } from '../../src/types/post';
+import { MODERATION_CONFIG } from '../../src/utils/constants';
+import { truncateText } from '../../src/utils/format';
+import { MODERATOR_ROLES } from '../../src/utils/permissions';
+import { badRequest, conflict, HttpError, notFound } from '../utils/errors';
+import { AccessTokenPayload } from '../utils/tokens';
+import { forumService } from './forumService';
+import {
+  moderationService,
+  moderationUserSelect,
+  toModerationUser,
+} from './moderationService';
+import { notificationService, notifyInBackground } from './notificationService';
+import { sanctionService } from './sanctionService';
+
+export interface ReportQueueQuery {
+  filter: ReportFilter;
+  page: number;
+  limit: number;
+}
+
+type TransactionClient = Parameters<
+  Parameters<typeof prisma.$transaction>[0]
+>[0];
+
+type ReportRow = Omit<
+  Report,
+  'target' | 'reporter' | 'targetUser' | 'assignee'
+>;
+
+interface ReportedTarget {
+  // Author of the content, or the reported member
+  userId: string;
+  preview: ReportTargetPreview;
+}
+
+interface TargetHandler {
+  find: (id: string) => Promise<ReportedTarget | null>;
+  remove: (moderator: AccessTokenPayload, id: string) => Promise<void>;
+  // Shows content the content filter held; for targets it can hold
+  release?: (id: string) => Promise<void>;
+}
+
+const OPEN_STATUSES = [ReportStatus.PENDING, ReportStatus.IN_REVIEW];
+
+const PREVIEW_LENGTH = 280;
+const HOUR = 60 * 60 * 1000;
+
+const reportInclude = {
+  reporter: { select: moderationUserSelect },
+  targetUser: { select: moderationUserSelect },
+  assignee: { select: moderationUserSelect },
+};
+
+type ReportRecord = NonNullable<
+  Awaited<ReturnType<typeof prisma.report.findFirst>>
+>;
+
+type ReportWithUsers = Prisma.ReportGetPayload<{
+  include: typeof reportInclude;
+}>;
+
+const toReportRow = (row: ReportRecord): ReportRow => ({
+  id: row.id,
+  reason: ReportReason[row.reason],
+  description: row.description,
+  reporterId: row.reporterId,
+  targetType: row.targetType as ReportTargetType,
+  targetId: row.targetId,
+  targetUserId: row.targetUserId,
+  status: ReportStatus[row.status],
+  assigneeId: row.assigneeId,
+  assignedAt: row.assignedAt,
+  outcome: row.outcome && ReportOutcome[row.outcome],
+  resolutionNote: row.resolutionNote,
+  resolvedById: row.resolvedById,
+  resolvedAt: row.resolvedAt,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+const toReport = (row: ReportWithUsers): Report => ({
+  ...toReportRow(row),
+  reporter: row.reporter && toModerationUser(row.reporter),
+  targetUser: row.targetUser && toModerationUser(row.targetUser),
+  assignee: row.assignee && toModerationUser(row.assignee),
+});
+
+const preview = (
+  content: string | null,
+  isRemoved: boolean,
+  title?: string
+): ReportTargetPreview => ({
+  ...(title && { title }),
+  content: truncateText(content ?? '', PREVIEW_LENGTH),
+  isRemoved,
+});
+
+// Looking up, removing and releasing each kind of reported target
+const TARGETS: Record<ReportTargetType, TargetHandler> = {
+  post: {
+    find: async id => {
+      const post = await prisma.post.findUnique({
+        where: { id },
+        select: {
+          title: true,
+          content: true,
+          excerpt: true,
+          status: true,
+          authorId: true,
+        },
+      });
+      return (
+        post && {
+          userId: post.authorId,
+          preview: preview(
+            post.content ?? post.excerpt,
+            post.status === PostStatus.DELETED,
+            post.title
+          ),
+        }
+      );
+    },
+    remove: async (_moderator, id) => {
+      await prisma.post.updateMany({
+        where: { id },
+        data: { status: PostStatus.DELETED },
+      });
+    },
+  },
+  comment: {
+    find: async id => {
+      const comment = await prisma.comment.findUnique({
+        where: { id },
+        select: { content: true, authorId: true, deletedAt: true },
+      });
+      return (
+        comment && {
+          userId: comment.authorId,
+          preview: preview(comment.content, !!comment.deletedAt),
+        }
+      );
+    },
+    remove: async (_moderator, id) => {
+      await prisma.comment.updateMany({
+        where: { id, deletedAt: null },
+        data: { deletedAt: new Date() },
+      });
+    },
+    release: async id => {
+      await prisma.comment.updateMany({
+        where: { id, isHeld: true },
+        data: { isHeld: false },
+      });
+    },
+  },
+  forum_post: {
+    find: async id => {
+      const post = await prisma.forumPost.findUnique({
+        where: { id },
+        select: { title: true, content: true, authorId: true },
+      });
+      return (
+        post && {
+          userId: post.authorId,
+          preview: preview(post.content, false, post.title),
+        }
+      );
+    },
+    remove: (moderator, id) => forumService.deletePost(moderator, id),
+    release: async id => {
+      await prisma.forumPost.updateMany({
+        where: { id, isHeld: true },
+        data: { isHeld: false },
+      });
+    },
+  },
+  forum_comment: {
+    find: async id => {
+      const comment = await prisma.forumComment.findUnique({
+        where: { id },
+        select: { content: true, authorId: true, deletedAt: true },
+      });
+      return (
+        comment && {
+          userId: comment.authorId,
+          preview: preview(comment.content, !!comment.deletedAt),
+        }
+      );
+    },
+    remove: async (moderator, id) => {
+      await forumService.deleteComment(moderator, id);
+    },
+    release: async id => {
+      await prisma.forumComment.updateMany({
+        where: { id, isHeld: true },
+        data: { isHeld: false },
+      });
+    },
+  },
+  chat_message: {
+    find: async id => {
+      const message = await prisma.chatMessage.findUnique({
+        where: { id },
+        select: { content: true, userId: true, isDeleted: true },
+      });
+      return (
+        message && {
+          userId: message.userId,
+          preview: preview(message.content, message.isDeleted),
+        }
+      );
+    },
+    remove: async (_moderator, id) => {
+      await prisma.chatMessage.updateMany({
+        where: { id },
+        data: { isDeleted: true },
+      });
+    },
+    release: async id => {
+      await prisma.chatMessage.updateMany({
+        where: { id, isHeld: true },
+        data: { isHeld: false },
+      });
+    },
+  },
+  direct_message: {
+    find: async id => {
+      const message = await prisma.message.findUnique({
+        where: { id },
+        select: { content: true, senderId: true, isDeleted: true },
+      });
+      return (
+        message && {
+          userId: message.senderId,
+          preview: preview(message.content, message.isDeleted),
+        }
+      );
+    },
+    remove: async (_moderator, id) => {
+      await prisma.message.updateMany({
+        where: { id },
+        data: { isDeleted: true },
+      });
+    },
+    release: async id => {
+      await prisma.message.updateMany({
+        where: { id, isHeld: true },
+        data: { isHeld: false },
+      });
+    },
+  },
+  user: {
+    find: async id => {
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: { username: true, displayName: true, bio: true },
+      });
+      return (
+        user && {
+          userId: id,
+          preview: preview(user.bio, false, user.displayName || user.username),
+        }
+      );
+    },
+    remove: async () => {
+      throw badRequest('Reported members have no content to remove');
+    },
+  },
+};
+
+const uniqueBy = <T>(items: T[], key: (item: T) => string): T[] => [
+  ...new Map(items.map(item => [key(item), item])).values(),
+];
+
+const targetKey = (report: ReportRow) =>
+  `${report.targetType}:${report.targetId}`;
+
+const releaseTargets = async (reports: ReportRow[]) => {
+  for (const report of uniqueBy(reports, targetKey)) {
+    await TARGETS[report.targetType].release?.(report.targetId);
+  }
+};
+
+// Reports filed by members, who hear how they were settled
+const hasReporter = (
+  report: ReportRow
+): report is ReportRow & { reporterId: string } => !!report.reporterId;
+
+// Reports often share a target; each one is looked up once
+const withTargets = async (rows: ReportWithUsers[]): Promise<Report[]> => {
+  const targets = new Map<string, Promise<ReportedTarget | null>>();
+  const lookup = (row: ReportRow) => {
+    const key = targetKey(row);
+    if (!targets.has(key)) {
+      targets.set(key, TARGETS[row.targetType].find(row.targetId));
+    }
+    return targets.get(key)!;
+  };
+  return Promise.all(
+    rows.map(async row => {
+      const report = toReport(row);
+      return { ...report, target: (await lookup(report))?.preview ?? null };
+    })
+  );
+};
+
+const findOpenReport = async (id: string): Promise<ReportRow> => {
+  const report = await prisma.report.findUnique({ where: { id } });
+  if (!report) {
+    throw notFound('Report not found');
+  }
+  if (!OPEN_STATUSES.includes(ReportStatus[report.status])) {
+    throw conflict('This report is already closed');
+  }
+  return toReportRow(report);
+};
+
+const findOpenReports = async (ids: string[]): Promise<ReportRow[]> => {
+  const reports = await prisma.report.findMany({
+    where: { id: { in: ids }, status: { in: OPEN_STATUSES } },
+  });
+  return reports.map(toReportRow);
+};
+
+// Close each report still open; returns the ones this call closed
+const closeReports = async (
+  tx: TransactionClient,
+  reports: ReportRow[],
+  data: Record<string, unknown>
+): Promise<ReportRow[]> => {
+  const closed: ReportRow[] = [];
+  for (const report of reports) {
+    const { count } = await tx.report.updateMany({
+      where: { id: report.id, status: { in: OPEN_STATUSES } },
+      data,
+    });
+    if (count > 0) closed.push(report);
+  }
+  return closed;
+};
+
+// Unassigning puts reports back in the pending queue
+const assignReports = async (
+  ids: string[],
+  assigneeId: string | null
+): Promise<number> => {
+  if (assigneeId) {
+    const assignee = await prisma.user.findUnique({
+      where: { id: assigneeId },
+      select: { role: true },
+    });
+    if (!assignee || !MODERATOR_ROLES.includes(UserRole[assignee.role])) {
+      throw badRequest('Reports can only be assigned to moderators');
+    }
+  }
+  const { count } = await prisma.report.updateMany({
+    where: { id: { in: ids }, status: { in: OPEN_STATUSES } },
+    data: assigneeId
+      ? { assigneeId, assignedAt: new Date(), status: ReportStatus.IN_REVIEW }
+      : { assigneeId: null, assignedAt: null, status: ReportStatus.PENDING },
+  });
+  return count;
+};
+
+const dismissReports = async (
+  moderator: AccessTokenPayload,
+  reports: ReportRow[],
+  { note }: DismissReportInput
+): Promise<number> => {
+  const dismissed: ReportRow[] = await prisma.$transaction(
+    async (tx: TransactionClient) => {
+      const closed = await closeReports(tx, reports, {
+        status: ReportStatus.DISMISSED,
+        resolutionNote: note,
+        resolvedById: moderator.sub,
+        resolvedAt: new Date(),
+      });
+      for (const report of closed) {
+        await moderationService.record(tx, {
+          action: ModerationAction.DISMISS_REPORT,
+          moderatorId: moderator.sub,
+          targetType: 'report',
+          targetId: report.id,
+          reason: note,
+        });
+      }
+      return closed;
+    }
+  );
+
+  await releaseTargets(dismissed);
+  dismissed.filter(hasReporter).forEach(report =>
+    notifyInBackground(
+      notificationService.reportClosed({
+        ...report,
+        status: ReportStatus.DISMISSED,
+      })
+    )
+  );
+  return dismissed.length;
+};
+
+// Content is removed and members sanctioned once however many reports name
+// them; content already gone is skipped
+const resolveReports = async (
+  moderator: AccessTokenPayload,
+  reports: ReportRow[],
+  { outcome, removeContent, durationHours, note }: ResolveReportInput
+): Promise<number> => {
+  const removes = outcome === ReportOutcome.REMOVE_CONTENT || !!removeContent;
+  if (removes && reports.some(report => report.targetType === 'user')) {
+    throw badRequest('Reported members have no content to remove');
+  }
+  if (
+    outcome !== ReportOutcome.REMOVE_CONTENT &&
+    reports.some(report => report.targetUserId === moderator.sub)
+  ) {
+    throw badRequest('You cannot sanction yourself');
+  }
+
+  // Other open reports about the same targets are settled by this as well
+  const settled = (
+    await prisma.report.findMany({
+      where: {
+        status: { in: OPEN_STATUSES },
+        OR: uniqueBy(reports, targetKey).map(({ targetType, targetId }) => ({
+          targetType,
+          targetId,
+        })),
+      },
+    })
+  ).map(toReportRow);
+
+  const removed: ReportRow[] = [];
+  if (removes) {
+    for (const report of uniqueBy(settled, targetKey)) {
+      try {
+        await TARGETS[report.targetType].remove(moderator, report.targetId);
+        removed.push(report);
+      } catch (error) {
+        if (!(error instanceof HttpError && error.statusCode === 404)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  const now = new Date();
+  const hours =
+    outcome === ReportOutcome.MUTE
+      ? (durationHours ?? MODERATION_CONFIG.DEFAULT_MUTE_HOURS)
+      : durationHours;
+  const expiresAt =
+    hours && outcome !== ReportOutcome.WARN
+      ? new Date(now.getTime() + hours * HOUR)
+      : null;
+  // Members affected, one report standing for each
+  const members = uniqueBy(
+    (outcome === ReportOutcome.REMOVE_CONTENT ? removed : settled).filter(
+      report => report.targetUserId
+    ),
+    report => report.targetUserId!
+  );
+
+  const sanctions: UserSanction[] = [];
+  const resolved: ReportRow[] = await prisma.$transaction(
+    async (tx: TransactionClient) => {
+      const closed = await closeReports(tx, settled, {
+        status: ReportStatus.RESOLVED,
+        outcome,
+        resolutionNote: note,
+        resolvedById: moderator.sub,
+        resolvedAt: now,
+      });
+      for (const report of removed) {
+        await moderationService.record(tx, {
+          action: ModerationAction.REMOVE_CONTENT,
+          moderatorId: moderator.sub,
+          targetType: report.targetType,
+          targetId: report.targetId,
+          reason: note,
+          details: { reportId: report.id },
+        });
+      }
+      for (const report of members) {
+        const userId = report.targetUserId!;
+        if (outcome === ReportOutcome.WARN) {
+          await moderationService.record(tx, {
+            action: ModerationAction.WARN_USER,
+            moderatorId: moderator.sub,
+            targetType: 'user',
+            targetId: userId,
+            reason: note,
+            details: { reportId: report.id },
+          });
+        } else if (outcome !== ReportOutcome.REMOVE_CONTENT) {
+          sanctions.push(
+            await sanctionService.issue(tx, {
+              userId,
+              type:
+                outcome === ReportOutcome.MUTE
+                  ? SanctionType.MUTE
+                  : SanctionType.BAN,
+              reason: note,
+              issuedById: moderator.sub,
+              reportId: report.id,
+              expiresAt,
+            })
+          );
+        }
+      }
+      for (const report of closed) {
+        await moderationService.record(tx, {
+          action: ModerationAction.RESOLVE_REPORT,
+          moderatorId: moderator.sub,
+          targetType: 'report',
+          targetId: report.id,
+          reason: note,
+          details: { outcome },
+        });
+      }
+      return closed;
+    }
+  );
+
+  if (!removes) {
+    await releaseTargets(resolved);
+  }
+  sanctions.forEach(sanctionService.announce);
+  resolved.filter(hasReporter).forEach(report =>
+    notifyInBackground(
+      notificationService.reportClosed({
+        ...report,
+        status: ReportStatus.RESOLVED,
+        outcome,
+      })
+    )
+  );
+  members.forEach(report =>
+    notifyInBackground(
+      notificationService.moderationNotice({
+        userId: report.targetUserId!,
+        outcome,
+        targetType: report.targetType,
+        contentRemoved: removed.some(
+          content => content.targetUserId === report.targetUserId
+        ),
+        note,
+        expiresAt,
+      })
+    )
+  );
+  return resolved.length;
+};
+
+export const reportService = {
+  // Members cannot report themselves, their own content or anything twice
+  // while their first report is open
+  create: async (
+    reporter: AccessTokenPayload,
+    input: CreateReportInput
+  ): Promise<Report> => {
+    await sanctionService.assertNotBanned(reporter.sub);
+    const target = await TARGETS[input.targetType].find(input.targetId);
+    if (!target || target.preview.isRemoved) {
+      throw notFound('Reported content not found');
+    }
+    if (target.userId === reporter.sub) {
+      throw badRequest('You cannot report yourself or your own content');
+    }
+    const existing = await prisma.report.findFirst({
+      where: {
+        reporterId: reporter.sub,
+        targetType: input.targetType,
+        targetId: input.targetId,
+        status: { in: OPEN_STATUSES },
+      },
+    });
+    if (existing) {
+      throw conflict('You have already reported this');
+    }
+
+    const report = await prisma.report.create({
+      data: { ...input, reporterId: reporter.sub, targetUserId: target.userId },
+      include: reportInclude,
+    });
+    return { ...toReport(report), target: target.preview };
+  },
+
+  // Open reports unless a status is asked for; oldest first
+  listQueue: async ({
+    filter,
+    page,
+    limit,
+  }: ReportQueueQuery): Promise<{ reports: Report[]; total: number }> => {
+    const where = {
+      status: filter.status ?? { in: OPEN_STATUSES },
+      reason: filter.reason,
+      targetType: filter.targetType,
+      targetUserId: filter.targetUserId,
+      assigneeId: filter.unassigned ? null : filter.assigneeId,
+    };
+    const [rows, total] = await Promise.all([
+      prisma.report.findMany({
+        where,
+        include: reportInclude,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.report.count({ where }),
+    ]);
+    return { reports: await withTargets(rows), total };
+  },
+
+  get: async (id: string): Promise<Report> => {
+    const report = await prisma.report.findUnique({
+      where: { id },
+      include: reportInclude,
+    });
+    if (!report) {
+      throw notFound('Report not found');
+    }
+    const [withTarget] = await withTargets([report]);
+    return withTarget;
+  },
+
+  assign: async (id: string, assigneeId: string | null): Promise<Report> => {
+    await findOpenReport(id);
+    await assignReports([id], assigneeId);
+    return reportService.get(id);
+  },
+
+  resolve: async (
+    moderator: AccessTokenPayload,
+    id: string,
+    input: ResolveReportInput
+  ): Promise<Report> => {
+    await resolveReports(moderator, [await findOpenReport(id)], input);
+    return reportService.get(id);
+  },
+
+  dismiss: async (
+    moderator: AccessTokenPayload,
+    id: string,
+    input: DismissReportInput
+  ): Promise<Report> => {
+    await dismissReports(moderator, [await findOpenReport(id)], input);
+    return reportService.get(id);
+  },
+
+  // Reports already closed are left as they are
+  bulk: async (
+    moderator: AccessTokenPayload,
+    { reportIds, ...action }: BulkReportAction
+  ): Promise<{ updated: number }> => {
+    if (action.action === 'assign') {
+      return { updated: await assignReports(reportIds, action.assigneeId) };
+    }
+    const reports = await findOpenReports(reportIds);
+    if (reports.length === 0) return { updated: 0 };
+    return {
+      updated:
+        action.action === 'dismiss'
+          ? await dismissReports(moderator, reports, action)
+          : await resolveReports(moderator, reports, action),
+    };
+  },
+};
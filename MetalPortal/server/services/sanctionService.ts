@@ -0,0 +1,605 @@
+// User sanctions
+//
+// Mutes and bans issued by moderators, directly or when resolving a report. A
+// sanction applies everywhere or in one chat room or forum category, and lasts
+// until expiresAt (for good without one) unless a moderator lifts it first.
+// Muted members can still read; banned members are also kept out of live chat,
+// and a global ban signs them out and keeps them from signing in, reacting and
+// reporting. Neither can write where the sanction applies, and the error they
+// get says which sanction stops them and until when. Members may appeal a
+// sanction once. Issuing and lifting sanctions and deciding appeals are
+// recorded in the moderation log.
+//
+// Shadow restrictions, where a member's writing is hidden from everyone else
+// without telling them, are out of scope: every sanction here is one the
+// member is told about and can appeal.
+
+import { EventEmitter } from 'events';
+import { prisma } from '../config/database';
+import { UserRole } from '../../src/types/auth';
+import {
+  AppealFilter,
+  AppealStatus,
+  CreateAppealInput,
+  CreateSanctionInput,
+  LiftSanctionInput,
+  ModerationAction,
+  ReviewAppealInput,
+  SanctionAppeal,
+  SanctionScope,
+  SanctionType,
+  UserSanction,
+} from '../../src/types/moderation';
+import { MODERATION_CONFIG } from '../../src/utils/constants';
+import { formatUtcDateTime } from '../../src/utils/format';
+import { MODERATOR_ROLES } from '../../src/utils/permissions';
+import {
+  badRequest,
+  conflict,
+  forbidden,
+  HttpError,
+  notFound,
+} from '../utils/errors';
+import { AccessTokenPayload } from '../utils/tokens';
+import {
+  moderationService,
+  moderationUserSelect,
+  ModerationUserRow,
+  toModerationUser,
+} from './moderationService';
+import { notificationService, notifyInBackground } from './notificationService';
+
+export interface IssueSanctionInput {
+  userId: string;
+  type: SanctionType;
+  scope?: SanctionScope;
+  scopeId?: string;
+  reason?: string;
+  issuedById: string;
+  reportId?: string;
+  expiresAt: Date | null;
+}
+
+// Where a member is writing; global sanctions apply in every place
+export interface SanctionPlace {
+  scope: SanctionScope.CHAT_ROOM | SanctionScope.FORUM_CATEGORY;
+  scopeId: string;
+}
+
+type TransactionClient = Parameters<
+  Parameters<typeof prisma.$transaction>[0]
+>[0];
+
+const HOUR = 60 * 60 * 1000;
+
+const SANCTION_ACTIONS: Record<SanctionType, ModerationAction> = {
+  [SanctionType.MUTE]: ModerationAction.MUTE_USER,
+  [SanctionType.BAN]: ModerationAction.BAN_USER,
+};
+
+const PLACE_NAMES: Record<SanctionPlace['scope'], string> = {
+  [SanctionScope.CHAT_ROOM]: 'this chat room',
+  [SanctionScope.FORUM_CATEGORY]: 'this forum category',
+};
+
+const sanctionInclude = {
+  issuedBy: { select: moderationUserSelect },
+  liftedBy: { select: moderationUserSelect },
+  appeal: true,
+};
+
+const appealInclude = {
+  user: { select: moderationUserSelect },
+  reviewedBy: { select: moderationUserSelect },
+  sanction: { include: { issuedBy: { select: moderationUserSelect } } },
+};
+
+type AppealRecord = NonNullable<
+  Awaited<ReturnType<typeof prisma.sanctionAppeal.findFirst>>
+>;
+
+// Queries include different relations, so each is optional
+type SanctionRow = NonNullable<
+  Awaited<ReturnType<typeof prisma.userSanction.findFirst>>
+> & {
+  issuedBy?: ModerationUserRow | null;
+  liftedBy?: ModerationUserRow | null;
+  appeal?: AppealRecord | null;
+};
+
+type AppealRow = AppealRecord & {
+  user?: ModerationUserRow;
+  reviewedBy?: ModerationUserRow | null;
+  sanction?: SanctionRow;
+};
+
+const toSanction = (row: SanctionRow): UserSanction => ({
+  id: row.id,
+  userId: row.userId,
+  type: SanctionType[row.type],
+  reason: row.reason,
+  scope: SanctionScope[row.scope],
+  scopeId: row.scopeId,
+  issuedById: row.issuedById,
+  issuedBy: row.issuedBy && toModerationUser(row.issuedBy),
+  reportId: row.reportId,
+  liftedAt: row.liftedAt,
+  liftedById: row.liftedById,
+  liftedBy: row.liftedBy && toModerationUser(row.liftedBy),
+  liftReason: row.liftReason,
+  appeal: row.appeal && toAppeal(row.appeal),
+  createdAt: row.createdAt,
+  expiresAt: row.expiresAt,
+});
+
+const toAppeal = (row: AppealRow): SanctionAppeal => ({
+  id: row.id,
+  sanctionId: row.sanctionId,
+  sanction: row.sanction && toSanction(row.sanction),
+  userId: row.userId,
+  user: row.user && toModerationUser(row.user),
+  message: row.message,
+  status: AppealStatus[row.status],
+  reviewedById: row.reviewedById,
+  reviewedBy: row.reviewedBy && toModerationUser(row.reviewedBy),
+  reviewNote: row.reviewNote,
+  reviewedAt: row.reviewedAt,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+// Emits 'issued' with each sanction once it is stored
+export const sanctionEvents = new EventEmitter();
+
+const activeWhere = (now = new Date()) => ({
+  liftedAt: null,
+  OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+});
+
+const isActive = (sanction: UserSanction, now = new Date()) =>
+  !sanction.liftedAt && (!sanction.expiresAt || sanction.expiresAt > now);
+
+// Bans outrank mutes; then the one that lasts longest
+const strongest = (sanctions: UserSanction[]): UserSanction | undefined =>
+  [...sanctions].sort(
+    (a, b) =>
+      Number(b.type === SanctionType.BAN) -
+        Number(a.type === SanctionType.BAN) ||
+      (b.expiresAt?.getTime() ?? Infinity) -
+        (a.expiresAt?.getTime() ?? Infinity)
+  )[0];
+
+// The 403 a sanctioned member gets from write endpoints and live chat
+export const sanctionError = (sanction: UserSanction): HttpError => {
+  const place =
+    sanction.scope === SanctionScope.GLOBAL
+      ? null
+      : PLACE_NAMES[sanction.scope];
+  const banned = sanction.type === SanctionType.BAN;
+  const message = banned
+    ? place
+      ? `You are banned from ${place}`
+      : 'Your account is banned'
+    : place
+      ? `You are muted in ${place}`
+      : 'You are muted';
+  const until = sanction.expiresAt
+    ? ` until ${formatUtcDateTime(sanction.expiresAt)}`
+    : '';
+  return new HttpError(
+    403,
+    `${message}${until}`,
+    banned ? 'USER_BANNED' : 'USER_MUTED',
+    {
+      sanctionId: sanction.id,
+      type: sanction.type,
+      scope: sanction.scope,
+      scopeId: sanction.scopeId,
+      reason: sanction.reason ?? null,
+      expiresAt: sanction.expiresAt?.toISOString() ?? null,
+    }
+  );
+};
+
+// Active sanctions of the given types that apply globally or in the place
+const findBlocking = async (
+  userId: string,
+  place: SanctionPlace | undefined,
+  types: SanctionType[]
+): Promise<UserSanction | undefined> => {
+  const sanctions = await prisma.userSanction.findMany({
+    where: {
+      userId,
+      type: { in: types },
+      AND: [
+        activeWhere(),
+        {
+          OR: [
+            { scope: SanctionScope.GLOBAL },
+            ...(place ? [{ scope: place.scope, scopeId: place.scopeId }] : []),
+          ],
+        },
+      ],
+    },
+  });
+  return strongest(sanctions.map(toSanction));
+};
+
+const findSanction = async (id: string): Promise<UserSanction> => {
+  const sanction = await prisma.userSanction.findUnique({
+    where: { id },
+    include: sanctionInclude,
+  });
+  if (!sanction) {
+    throw notFound('Sanction not found');
+  }
+  return toSanction(sanction);
+};
+
+// The chat room or forum category a scoped sanction names must exist
+const assertPlaceExists = async ({
+  scope,
+  scopeId,
+}: CreateSanctionInput): Promise<void> => {
+  if (scope === SanctionScope.GLOBAL) return;
+  const place =
+    scope === SanctionScope.CHAT_ROOM
+      ? await prisma.chatRoom.findUnique({ where: { id: scopeId } })
+      : await prisma.forumCategory.findUnique({ where: { id: scopeId } });
+  if (!place) {
+    throw notFound(
+      scope === SanctionScope.CHAT_ROOM
+        ? 'Chat room not found'
+        : 'Category not found'
+    );
+  }
+};
+
+// Clears the sanction if it is still in force; returns whether it was
+const liftSanction = async (
+  tx: TransactionClient,
+  moderator: AccessTokenPayload,
+  sanction: UserSanction,
+  reason: string | undefined,
+  appealId?: string
+): Promise<boolean> => {
+  const { count } = await tx.userSanction.updateMany({
+    where: { id: sanction.id, ...activeWhere() },
+    data: {
+      liftedAt: new Date(),
+      liftedById: moderator.sub,
+      liftReason: reason,
+    },
+  });
+  if (count === 0) return false;
+  await moderationService.record(tx, {
+    action: ModerationAction.LIFT_SANCTION,
+    moderatorId: moderator.sub,
+    targetType: 'user',
+    targetId: sanction.userId,
+    reason,
+    details: { sanctionId: sanction.id, ...(appealId && { appealId }) },
+  });
+  return true;
+};
+
+const findAppeal = async (id: string): Promise<SanctionAppeal> => {
+  const appeal = await prisma.sanctionAppeal.findUnique({
+    where: { id },
+    include: appealInclude,
+  });
+  if (!appeal) {
+    throw notFound('Appeal not found');
+  }
+  return toAppeal(appeal);
+};
+
+const findPendingAppeal = async (id: string): Promise<SanctionAppeal> => {
+  const appeal = await findAppeal(id);
+  if (appeal.status !== AppealStatus.PENDING) {
+    throw conflict('This appeal has already been reviewed');
+  }
+  return appeal;
+};
+
+// Marks a pending appeal reviewed; returns whether this call did it
+const closeAppeal = async (
+  tx: TransactionClient,
+  moderator: AccessTokenPayload,
+  appeal: SanctionAppeal,
+  status: AppealStatus,
+  note?: string
+): Promise<boolean> => {
+  const { count } = await tx.sanctionAppeal.updateMany({
+    where: { id: appeal.id, status: AppealStatus.PENDING },
+    data: {
+      status,
+      reviewNote: note,
+      reviewedById: moderator.sub,
+      reviewedAt: new Date(),
+    },
+  });
+  if (count === 0) return false;
+  await moderationService.record(tx, {
+    action:
+      status === AppealStatus.ACCEPTED
+        ? ModerationAction.ACCEPT_APPEAL
+        : ModerationAction.REJECT_APPEAL,
+    moderatorId: moderator.sub,
+    targetType: 'user',
+    targetId: appeal.userId,
+    reason: note,
+    details: { sanctionId: appeal.sanctionId, appealId: appeal.id },
+  });
+  return true;
+};
+
+export const sanctionService = {
+  // Stores the sanction and logs it; call announce once the transaction
+  // commits
+  issue: async (
+    db: TransactionClient | typeof prisma,
+    input: IssueSanctionInput
+  ): Promise<UserSanction> => {
+    const sanction = await db.userSanction.create({ data: input });
+    // Access tokens already issued run out on their own within minutes
+    if (
+      input.type === SanctionType.BAN &&
+      (input.scope ?? SanctionScope.GLOBAL) === SanctionScope.GLOBAL
+    ) {
+      await db.userSession.deleteMany({ where: { userId: input.userId } });
+    }
+    await moderationService.record(db, {
+      action: SANCTION_ACTIONS[input.type],
+      moderatorId: input.issuedById,
+      targetType: 'user',
+      targetId: sanction.userId,
+      reason: input.reason,
+      details: {
+        sanctionId: sanction.id,
+        scope: sanction.scope,
+        scopeId: sanction.scopeId,
+        expiresAt: sanction.expiresAt,
+        ...(input.reportId && { reportId: input.reportId }),
+      },
+    });
+    return toSanction(sanction);
+  },
+
+  // Lets live chat act on a stored sanction
+  announce: (sanction: UserSanction): void => {
+    sanctionEvents.emit('issued', sanction);
+  },
+
+  // Moderators may only be sanctioned by admins
+  create: async (
+    moderator: AccessTokenPayload,
+    userId: string,
+    input: CreateSanctionInput
+  ): Promise<UserSanction> => {
+    if (userId === moderator.sub) {
+      throw badRequest('You cannot sanction yourself');
+    }
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true },
+    });
+    if (!user) {
+      throw notFound('User not found');
+    }
+    if (
+      MODERATOR_ROLES.includes(UserRole[user.role]) &&
+      moderator.role !== UserRole.ADMIN
+    ) {
+      throw forbidden('Only admins can sanction moderators');
+    }
+    await assertPlaceExists(input);
+
+    const hours =
+      input.type === SanctionType.MUTE
+        ? (input.durationHours ?? MODERATION_CONFIG.DEFAULT_MUTE_HOURS)
+        : input.durationHours;
+    const sanction = await prisma.$transaction((tx: TransactionClient) =>
+      sanctionService.issue(tx, {
+        userId,
+        type: input.type,
+        scope: input.scope,
+        scopeId:
+          input.scope === SanctionScope.GLOBAL ? undefined : input.scopeId,
+        reason: input.reason,
+        issuedById: moderator.sub,
+        expiresAt: hours ? new Date(Date.now() + hours * HOUR) : null,
+      })
+    );
+
+    sanctionService.announce(sanction);
+    notifyInBackground(notificationService.sanctionIssued(sanction));
+    return findSanction(sanction.id);
+  },
+
+  // A pending appeal is accepted along with it
+  lift: async (
+    moderator: AccessTokenPayload,
+    id: string,
+    { reason }: LiftSanctionInput
+  ): Promise<UserSanction> => {
+    const sanction = await findSanction(id);
+    const lifted: boolean = await prisma.$transaction(
+      async (tx: TransactionClient) => {
+        if (!(await liftSanction(tx, moderator, sanction, reason))) {
+          return false;
+        }
+        if (sanction.appeal?.status === AppealStatus.PENDING) {
+          await closeAppeal(
+            tx,
+            moderator,
+            sanction.appeal,
+            AppealStatus.ACCEPTED,
+            reason
+          );
+        }
+        return true;
+      }
+    );
+    if (!lifted) {
+      throw conflict('This sanction is no longer in force');
+    }
+
+    notifyInBackground(
+      notificationService.sanctionLifted({ ...sanction, liftReason: reason })
+    );
+    return findSanction(id);
+  },
+
+  // Every sanction the member has had, newest first, with who issued and
+  // lifted each and any appeal
+  listForUser: async (
+    userId: string,
+    page: number,
+    limit: number
+  ): Promise<{ sanctions: UserSanction[]; total: number }> => {
+    const where = { userId };
+    const [rows, total] = await Promise.all([
+      prisma.userSanction.findMany({
+        where,
+        include: sanctionInclude,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.userSanction.count({ where }),
+    ]);
+    return { sanctions: rows.map(toSanction), total };
+  },
+
+  // The member's sanctions in force, so the app can explain them
+  listActive: async (userId: string): Promise<UserSanction[]> => {
+    const rows = await prisma.userSanction.findMany({
+      where: { userId, ...activeWhere() },
+      include: { appeal: true },
+      orderBy: { createdAt: 'desc' },
+    });
+    return rows.map(toSanction);
+  },
+
+  // Throws the strongest mute or ban stopping the member writing there
+  assertCanWrite: async (
+    userId: string,
+    place?: SanctionPlace
+  ): Promise<void> => {
+    const sanction = await findBlocking(userId, place, [
+      SanctionType.MUTE,
+      SanctionType.BAN,
+    ]);
+    if (sanction) throw sanctionError(sanction);
+  },
+
+  assertNotBanned: async (
+    userId: string,
+    place?: SanctionPlace
+  ): Promise<void> => {
+    const sanction = await findBlocking(userId, place, [SanctionType.BAN]);
+    if (sanction) throw sanctionError(sanction);
+  },
+
+  appeal: async (
+    user: AccessTokenPayload,
+    sanctionId: string,
+    { message }: CreateAppealInput
+  ): Promise<SanctionAppeal> => {
+    const row = await prisma.userSanction.findUnique({
+      where: { id: sanctionId },
+      include: { appeal: true },
+    });
+    if (!row || row.userId !== user.sub) {
+      throw notFound('Sanction not found');
+    }
+    const sanction = toSanction(row);
+    if (!isActive(sanction)) {
+      throw conflict('This sanction is no longer in force');
+    }
+    if (sanction.appeal) {
+      throw conflict('You have already appealed this sanction');
+    }
+    const appeal = await prisma.sanctionAppeal.create({
+      data: { sanctionId, userId: user.sub, message },
+      include: appealInclude,
+    });
+    return toAppeal(appeal);
+  },
+
+  // Pending appeals unless a status is asked for; oldest first
+  listAppeals: async (
+    filter: AppealFilter,
+    page: number,
+    limit: number
+  ): Promise<{ appeals: SanctionAppeal[]; total: number }> => {
+    const where = { status: filter.status ?? AppealStatus.PENDING };
+    const [rows, total] = await Promise.all([
+      prisma.sanctionAppeal.findMany({
+        where,
+        include: appealInclude,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.sanctionAppeal.count({ where }),
+    ]);
+    return { appeals: rows.map(toAppeal), total };
+  },
+
+  // Accepting lifts the sanction if it has not ended already
+  acceptAppeal: async (
+    moderator: AccessTokenPayload,
+    id: string,
+    { note }: ReviewAppealInput
+  ): Promise<SanctionAppeal> => {
+    const appeal = await findPendingAppeal(id);
+    const lifted: boolean = await prisma.$transaction(
+      async (tx: TransactionClient) => {
+        if (
+          !(await closeAppeal(
+            tx,
+            moderator,
+            appeal,
+            AppealStatus.ACCEPTED,
+            note
+          ))
+        ) {
+          throw conflict('This appeal has already been reviewed');
+        }
+        return liftSanction(tx, moderator, appeal.sanction!, note, appeal.id);
+      }
+    );
+
+    if (lifted) {
+      notifyInBackground(
+        notificationService.sanctionLifted({
+          ...appeal.sanction!,
+          liftReason: note,
+          appealAccepted: true,
+        })
+      );
+    }
+    return findAppeal(id);
+  },
+
+  rejectAppeal: async (
+    moderator: AccessTokenPayload,
+    id: string,
+    { note }: ReviewAppealInput
+  ): Promise<SanctionAppeal> => {
+    const appeal = await findPendingAppeal(id);
+    const closed: boolean = await prisma.$transaction((tx: TransactionClient) =>
+      closeAppeal(tx, moderator, appeal, AppealStatus.REJECTED, note)
+    );
+    if (!closed) {
+      throw conflict('This appeal has already been reviewed');
+    }
+
+    notifyInBackground(notificationService.appealRejected({ ...appeal, note }));
+    return findAppeal(id);
+  },
+};
+
+export type SanctionService = typeof sanctionService;
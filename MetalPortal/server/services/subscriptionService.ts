@@ -0,0 +1,568 @@
+// Paid subscriptions: checkout, plan changes, cancellation and provider webhooks
+//
+// The payment provider owns billing state. Every change, whether made through
+// the API or reported by a webhook, is applied by re-reading the provider's
+// subscription and copying it onto the Subscription row and the user's tier,
+// status and role, so events arriving late, twice or out of order are harmless.
+
+import { EventEmitter } from 'events';
+import { $Enums, Prisma } from '../../generated/prisma';
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+import {
+  BillingPlan,
+  PaymentDeclinedError,
+  PaymentProvider,
+  paymentProvider,
+  ProviderEvent,
+  ProviderSubscription,
+  ProviderSubscriptionStatus,
+} from '../billing';
+import {
+  SubscriptionStatus,
+  SubscriptionTier,
+  UserRole,
+} from '../../src/types/auth';
+import { NotificationType } from '../../src/types/notification';
+import {
+  BillingCurrency,
+  BillingInterval,
+  ChangePlanInput,
+  PlanChangeResult,
+  SubscribeInput,
+  Subscription,
+  SubscriptionPlan,
+} from '../../src/types/subscription';
+import {
+  DEFAULT_CURRENCY,
+  SUBSCRIPTION_TIERS,
+} from '../../src/utils/constants';
+import { badRequest, conflict, HttpError, notFound } from '../utils/errors';
+import { notificationService } from './notificationService';
+import { promoCodeService } from './promoCodeService';
+
+type TransactionClient = Parameters<
+  Parameters<typeof prisma.$transaction>[0]
+>[0];
+
+const PROVIDER_STATUS: Record<ProviderSubscriptionStatus, SubscriptionStatus> =
+  {
+    trialing: SubscriptionStatus.ACTIVE,
+    active: SubscriptionStatus.ACTIVE,
+    // Access is kept while the provider retries the payment
+    past_due: SubscriptionStatus.ACTIVE,
+    unpaid: SubscriptionStatus.EXPIRED,
+    canceled: SubscriptionStatus.CANCELLED,
+    paused: SubscriptionStatus.PAUSED,
+  };
+
+// Fan role that goes with each tier; staff roles are never changed by billing
+const TIER_ROLES: Record<SubscriptionTier, UserRole> = {
+  [SubscriptionTier.FREE]: UserRole.FAN,
+  [SubscriptionTier.PREMIUM]: UserRole.PREMIUM_FAN,
+  [SubscriptionTier.VIP]: UserRole.VIP_FAN,
+};
+
+const FAN_ROLES = Object.values(TIER_ROLES);
+
+// Subscriptions in these statuses still bill and can be changed or cancelled
+const LIVE_STATUSES = [SubscriptionStatus.ACTIVE, SubscriptionStatus.PAUSED];
+
+const BILLING_INTERVALS: BillingInterval[] = ['month', 'year'];
+
+const toPlan = (
+  tier: SubscriptionTier,
+  interval: BillingInterval,
+  currency: BillingCurrency
+): SubscriptionPlan => {
+  const { name, prices, features } = SUBSCRIPTION_TIERS[tier];
+  const amount = Math.round(prices[interval][currency] * 100);
+  const monthly = Math.round(prices.month[currency] * 100);
+  return {
+    tier,
+    name,
+    interval,
+    amount,
+    currency,
+    ...(interval === 'year' &&
+      monthly > 0 && {
+        savingsPercent: Math.round((1 - amount / (monthly * 12)) * 100),
+      }),
+    features: [...features],
+  };
+};
+
+const billingPlan = (
+  tier: SubscriptionTier,
+  interval: BillingInterval,
+  currency: BillingCurrency
+): BillingPlan => {
+  if (tier === SubscriptionTier.FREE) {
+    throw badRequest('The free tier needs no subscription');
+  }
+  const { amount } = toPlan(tier, interval, currency);
+  return { tier, interval, amount, currency };
+};
+
+// Subscriptions are read with the promo code redeemed on them, if any
+const WITH_PROMO = { promoRedemption: { include: { promoCode: true } } };
+
+type SubscriptionWithPromo = Prisma.SubscriptionGetPayload<{
+  include: typeof WITH_PROMO;
+}>;
+
+const present = ({
+  promoRedemption,
+  ...subscription
+}: SubscriptionWithPromo): Subscription => ({
+  id: subscription.id,
+  userId: subscription.userId,
+  tier: SubscriptionTier[subscription.tier],
+  status: SubscriptionStatus[subscription.status],
+  currentPeriodStart: subscription.currentPeriodStart,
+  currentPeriodEnd: subscription.currentPeriodEnd,
+  cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+  amount: subscription.amount,
+  // Older rows hold lower-case codes
+  currency: subscription.currency.toUpperCase() as BillingCurrency,
+  interval: subscription.interval as BillingInterval,
+  trialEndsAt: subscription.trialEndsAt,
+  paymentFailedAt: subscription.paymentFailedAt,
+  gracePeriodEndsAt: subscription.gracePeriodEndsAt,
+  createdAt: subscription.createdAt,
+  updatedAt: subscription.updatedAt,
+  promo: promoRedemption && {
+    code: promoRedemption.promoCode.code,
+    description: promoRedemption.promoCode.description,
+    discountAmount: promoRedemption.discountAmount,
+    trialDays: promoRedemption.promoCode.trialDays,
+    redeemedAt: promoRedemption.createdAt,
+  },
+});
+
+const isUniqueViolation = (error: unknown) =>
+  (error as { code?: string })?.code === 'P2002';
+
+const paymentDeclined = (error: PaymentDeclinedError) =>
+  new HttpError(402, error.message, 'PAYMENT_DECLINED');
+
+const formatDate = (date?: Date | null) =>
+  date ? date.toISOString().slice(0, 10) : 'soon';
+
+// Points in a subscription's life the user is told about
+export type BillingStage =
+  | 'payment_failed'
+  | 'payment_retry_failed'
+  | 'grace_ending'
+  | 'payment_recovered'
+  | 'expired'
+  | 'cancelled';
+
+const BILLING_NOTICES: Record<
+  BillingStage,
+  (subscription: {
+    tier: SubscriptionTier;
+    gracePeriodEndsAt?: Date | null;
+  }) => {
+    title: string;
+    content: string;
+  }
+> = {
+  payment_failed: ({ gracePeriodEndsAt }) => ({
+    title: 'Payment failed',
+    content: `We could not renew your subscription. You keep your benefits until ${formatDate(gracePeriodEndsAt)} while we try again; please check your payment method.`,
+  }),
+  payment_retry_failed: ({ gracePeriodEndsAt }) => ({
+    title: 'Payment still failing',
+    content: `Another attempt to renew your subscription failed. Update your payment method before ${formatDate(gracePeriodEndsAt)} to keep your benefits.`,
+  }),
+  grace_ending: ({ tier, gracePeriodEndsAt }) => ({
+    title: 'Your benefits end soon',
+    content: `Your ${SUBSCRIPTION_TIERS[tier].name} benefits end on ${formatDate(gracePeriodEndsAt)} unless your payment goes through.`,
+  }),
+  payment_recovered: ({ tier }) => ({
+    title: 'Payment received',
+    content: `Thanks! Your ${SUBSCRIPTION_TIERS[tier].name} subscription is active again.`,
+  }),
+  expired: ({ tier }) => ({
+    title: 'Subscription expired',
+    content: `We could not collect payment, so your ${SUBSCRIPTION_TIERS[tier].name} subscription has ended and your account is now on the free tier.`,
+  }),
+  cancelled: ({ tier }) => ({
+    title: 'Subscription ended',
+    content: `Your ${SUBSCRIPTION_TIERS[tier].name} subscription has ended and your account is now on the free tier.`,
+  }),
+};
+
+// Takes Subscription rows as read from the database
+export const notifyBillingStage = (
+  subscription: {
+    id: string;
+    userId: string;
+    tier: $Enums.SubscriptionTier;
+    gracePeriodEndsAt?: Date | null;
+  },
+  stage: BillingStage
+) =>
+  notificationService.create(subscription.userId, {
+    type: NotificationType.SUBSCRIPTION_UPDATE,
+    ...BILLING_NOTICES[stage]({
+      tier: SubscriptionTier[subscription.tier],
+      gracePeriodEndsAt: subscription.gracePeriodEndsAt,
+    }),
+    metadata: { stage, subscriptionId: subscription.id },
+  });
+
+// Emits 'accessChanged' with a user id whenever billing changes the user's
+// tier, status or role, so open connections can drop what they lost
+export const subscriptionEvents = new EventEmitter();
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Dunning fields for a subscription whose renewal payment just failed
+export const startDunning = (failedAt: Date) => ({
+  paymentFailedAt: failedAt,
+  paymentAttempts: 1,
+  nextPaymentAttemptAt: new Date(
+    failedAt.getTime() + env.PAYMENT_RETRY_DAYS[0] * DAY
+  ),
+  gracePeriodEndsAt: new Date(
+    failedAt.getTime() + env.SUBSCRIPTION_GRACE_DAYS * DAY
+  ),
+  graceReminderSentAt: null,
+});
+
+const CLEARED_DUNNING = {
+  paymentFailedAt: null,
+  paymentAttempts: 0,
+  nextPaymentAttemptAt: null,
+  gracePeriodEndsAt: null,
+  graceReminderSentAt: null,
+};
+
+export const createSubscriptionService = (provider: PaymentProvider) => {
+  // Copy the provider's view of a subscription onto our records. Dunning starts
+  // and ends here too, from the change in provider status, so it does not
+  // matter which event (or API call) reports the change first.
+  const applyProviderSubscription = async (
+    remote: ProviderSubscription
+  ): Promise<Subscription> => {
+    const status = PROVIDER_STATUS[remote.status];
+    const fields = {
+      stripeCustomerId: remote.customerId,
+      tier: remote.plan.tier,
+      status,
+      currentPeriodStart: remote.currentPeriodStart,
+      currentPeriodEnd: remote.currentPeriodEnd,
+      cancelAtPeriodEnd: remote.cancelAtPeriodEnd,
+      trialEndsAt: remote.trialEnd,
+      amount: remote.plan.amount,
+      currency: remote.plan.currency,
+      interval: remote.plan.interval,
+    };
+    const userId = remote.metadata.userId;
+
+    const apply = () =>
+      prisma.$transaction(async (tx: TransactionClient) => {
+        const previous = await tx.subscription.findUnique({
+          where: { stripeSubscriptionId: remote.id },
+        });
+
+        let stage: BillingStage | null = null;
+        let dunning = {};
+        const inDunning = !!previous?.paymentFailedAt;
+        if (remote.status === 'past_due' && !inDunning) {
+          stage = 'payment_failed';
+          dunning = startDunning(new Date());
+        } else if (remote.status !== 'past_due' && inDunning) {
+          stage = remote.status === 'active' ? 'payment_recovered' : null;
+          dunning = CLEARED_DUNNING;
+        }
+        if (previous && previous.status !== status) {
+          if (status === SubscriptionStatus.EXPIRED) stage = 'expired';
+          if (status === SubscriptionStatus.CANCELLED) stage = 'cancelled';
+        }
+
+        const subscription = await tx.subscription.upsert({
+          where: { stripeSubscriptionId: remote.id },
+          create: {
+            ...fields,
+            ...dunning,
+            userId,
+            stripeSubscriptionId: remote.id,
+          },
+          update: { ...fields, ...dunning },
+          include: WITH_PROMO,
+        });
+
+        // Only the user's newest subscription decides their tier
+        const latest = await tx.subscription.findFirst({
+          where: { userId },
+          orderBy: { createdAt: 'desc' },
+        });
+        if (latest?.id !== subscription.id) {
+          return { subscription, stage, accessChanged: false };
+        }
+
+        const tier = LIVE_STATUSES.includes(status)
+          ? remote.plan.tier
+          : SubscriptionTier.FREE;
+        const user = await tx.user.findUnique({
+          where: { id: userId },
+          select: {
+            role: true,
+            subscriptionTier: true,
+            subscriptionStatus: true,
+          },
+        });
+        if (!user) {
+          throw notFound('User not found');
+        }
+        const currentRole = UserRole[user.role];
+        const role = FAN_ROLES.includes(currentRole)
+          ? TIER_ROLES[tier]
+          : currentRole;
+        await tx.user.update({
+          where: { id: userId },
+          data: {
+            subscriptionTier: tier,
+            subscriptionStatus: status,
+            subscriptionId: subscription.id,
+            role,
+          },
+        });
+        const accessChanged =
+          currentRole !== role ||
+          SubscriptionTier[user.subscriptionTier] !== tier ||
+          SubscriptionStatus[user.subscriptionStatus] !== status;
+        return { subscription, stage, accessChanged };
+      });
+
+    // The API call and its webhook can race to create the row; the loser
+    // finds it on the second try
+    let result: Awaited<ReturnType<typeof apply>>;
+    try {
+      result = await apply();
+    } catch (error) {
+      if (!isUniqueViolation(error)) throw error;
+      result = await apply();
+    }
+
+    const { subscription, stage, accessChanged } = result;
+    if (stage) {
+      await notifyBillingStage(subscription, stage);
+    }
+    if (accessChanged) {
+      subscriptionEvents.emit('accessChanged', userId);
+    }
+    return present(subscription);
+  };
+
+  const getLive = async (userId: string) => {
+    const subscription = await prisma.subscription.findFirst({
+      where: { userId, status: { in: LIVE_STATUSES } },
+      orderBy: { createdAt: 'desc' },
+    });
+    // Rows are written from provider subscriptions, so a live one without a
+    // provider id is not expected, but it could not be changed either
+    const stripeSubscriptionId = subscription?.stripeSubscriptionId;
+    if (!subscription || !stripeSubscriptionId) {
+      throw notFound('No active subscription');
+    }
+    return { ...subscription, stripeSubscriptionId };
+  };
+
+  const service = {
+    // The free tier once, then every paid tier billed monthly and annually
+    getPlans: (
+      currency: BillingCurrency = DEFAULT_CURRENCY
+    ): SubscriptionPlan[] =>
+      Object.values(SubscriptionTier).flatMap(tier =>
+        tier === SubscriptionTier.FREE
+          ? [toPlan(tier, 'month', currency)]
+          : BILLING_INTERVALS.map(interval => toPlan(tier, interval, currency))
+      ),
+
+    getCurrent: async (userId: string): Promise<Subscription | null> => {
+      const subscription = await prisma.subscription.findFirst({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        include: WITH_PROMO,
+      });
+      return subscription && present(subscription);
+    },
+
+    getHistory: async (userId: string): Promise<Subscription[]> => {
+      const subscriptions = await prisma.subscription.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        include: WITH_PROMO,
+      });
+      return subscriptions.map(present);
+    },
+
+    // The user's payment provider customer, if they ever checked out
+    getCustomerId: async (userId: string): Promise<string | null> => {
+      const subscription = await prisma.subscription.findFirst({
+        where: { userId, stripeCustomerId: { not: null } },
+        orderBy: { createdAt: 'desc' },
+      });
+      return subscription?.stripeCustomerId ?? null;
+    },
+
+    // Checkout: charges the first period, less any promo discount, or starts
+    // a free trial, and activates the tier right away
+    subscribe: async (
+      userId: string,
+      {
+        tier,
+        interval = 'month',
+        currency = DEFAULT_CURRENCY,
+        promoCode,
+      }: SubscribeInput
+    ): Promise<Subscription> => {
+      const plan = billingPlan(tier, interval, currency);
+      const existing = await prisma.subscription.findFirst({
+        where: { userId, status: { in: LIVE_STATUSES } },
+      });
+      if (existing) {
+        throw conflict(
+          'You already have a subscription; change its plan instead'
+        );
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true },
+      });
+      if (!user) {
+        throw notFound('User not found');
+      }
+
+      // Reuse the provider customer from an earlier subscription
+      const customerId =
+        (await service.getCustomerId(userId)) ??
+        (await provider.createCustomer({ userId, email: user.email }));
+
+      const promo = promoCode
+        ? await promoCodeService.reserve(userId, promoCode, plan)
+        : null;
+
+      let subscription: Subscription;
+      try {
+        const remote = await provider.createSubscription({
+          customerId,
+          plan,
+          discount: promo?.discount,
+          trialDays: promo?.trialDays,
+          metadata: { userId },
+        });
+        subscription = await applyProviderSubscription(remote);
+      } catch (error) {
+        if (promo) await promoCodeService.release(promo.redemptionId);
+        if (error instanceof PaymentDeclinedError) throw paymentDeclined(error);
+        throw error;
+      }
+
+      if (!promo) return subscription;
+      await promoCodeService.attach(promo.redemptionId, subscription.id);
+      const withPromo = await prisma.subscription.findUnique({
+        where: { id: subscription.id },
+        include: WITH_PROMO,
+      });
+      if (!withPromo) {
+        throw notFound('Subscription not found');
+      }
+      return present(withPromo);
+    },
+
+    // Upgrades charge the prorated difference now; downgrades credit it.
+    // The billing interval can change too, but not the currency.
+    changePlan: async (
+      userId: string,
+      { tier, interval }: ChangePlanInput
+    ): Promise<PlanChangeResult> => {
+      const current = await getLive(userId);
+      const nextInterval = interval ?? (current.interval as BillingInterval);
+      if (current.tier === tier && current.interval === nextInterval) {
+        throw badRequest('You are already on this plan');
+      }
+      // Rows from before multi-currency billing hold lower-case codes
+      const plan = billingPlan(
+        tier,
+        nextInterval,
+        current.currency.toUpperCase() as BillingCurrency
+      );
+
+      try {
+        const { subscription, prorationAmount } = await provider.changePlan(
+          current.stripeSubscriptionId,
+          plan
+        );
+        return {
+          subscription: await applyProviderSubscription(subscription),
+          prorationAmount,
+        };
+      } catch (error) {
+        if (error instanceof PaymentDeclinedError) throw paymentDeclined(error);
+        throw error;
+      }
+    },
+
+    // Re-read a subscription from the provider, for when a webhook was missed
+    syncFromProvider: async (stripeSubscriptionId: string) =>
+      applyProviderSubscription(
+        await provider.retrieveSubscription(stripeSubscriptionId)
+      ),
+
+    // Benefits last until the end of the paid period
+    cancel: async (userId: string): Promise<Subscription> => {
+      const current = await getLive(userId);
+      const remote = await provider.setCancelAtPeriodEnd(
+        current.stripeSubscriptionId,
+        true
+      );
+      return applyProviderSubscription(remote);
+    },
+
+    // Verify and apply a provider webhook; redelivered events are skipped
+    handleWebhook: async (
+      payload: Buffer | string,
+      signature: string
+    ): Promise<void> => {
+      let event: ProviderEvent;
+      try {
+        event = provider.constructEvent(payload, signature);
+      } catch (error) {
+        throw badRequest(`Invalid webhook: ${(error as Error).message}`);
+      }
+
+      const seen = await prisma.paymentWebhookEvent.findUnique({
+        where: { id: event.id },
+      });
+      if (seen) return;
+
+      const subscriptionId =
+        event.type === 'invoice.paid' || event.type === 'invoice.payment_failed'
+          ? event.data.subscriptionId
+          : event.data.id;
+      await applyProviderSubscription(
+        await provider.retrieveSubscription(subscriptionId)
+      );
+
+      // Recorded only once applied, so a failed attempt is retried by the provider
+      try {
+        await prisma.paymentWebhookEvent.create({
+          data: { id: event.id, type: event.type },
+        });
+      } catch (error) {
+        if (!isUniqueViolation(error)) throw error;
+      }
+    },
+  };
+  return service;
+};
+
+export type SubscriptionService = ReturnType<typeof createSubscriptionService>;
+
+export const subscriptionService = createSubscriptionService(paymentProvider);
@@ -0,0 +1,13 @@
+// Express request augmentation
+
+import { AccessTokenPayload } from '../utils/tokens';
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AccessTokenPayload;
+    }
+  }
+}
+
+export {};
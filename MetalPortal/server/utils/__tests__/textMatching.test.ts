@@ -0,0 +1,60 @@
+import { MODERATION_CONFIG } from '../../../src/utils/constants';
+import {
+  compileTerm,
+  findTerm,
+  normalizeText,
+  toLowerChars,
+} from '../textMatching';
+
+const matches = (term: string, text: string) =>
+  findTerm(normalizeText(toLowerChars(text)), compileTerm(term)).map(span =>
+    text.slice(span.start, span.end)
+  );
+
+describe('term matching', () => {
+  it('matches leetspeak, repeats and punctuation between letters', () => {
+    expect(
+      matches('shit', 'sh1iiit, s.h.i.t and $hit but not shitake or SHIT')
+    ).toEqual(['sh1iiit', 's.h.i.t', '$hit', 'SHIT']);
+    expect(matches('ass', 'as ass a$$ a.s.s class')).toEqual([
+      'ass',
+      'a$$',
+      'a.s.s',
+    ]);
+    expect(matches('hell', 'hello he11 h3||')).toEqual(['he11', 'h3||']);
+  });
+
+  it('matches phrases across any punctuation between their words', () => {
+    expect(matches('kiss ass', 'kiss ass, kiss, ass kiss-ass kissass')).toEqual(
+      ['kiss ass', 'kiss, ass', 'kiss-ass']
+    );
+  });
+
+  it('stays fast on text crafted to make a pattern backtrack', () => {
+    const length = MODERATION_CONFIG.MAX_SCREENED_TEXT_LENGTH;
+    const crafted = [
+      '$',
+      '!',
+      '|',
+      '1',
+      '$.',
+      '$ ',
+      's.',
+      `kiss${'$'.repeat(96)}`,
+      `o${'1'.repeat(99)}`,
+    ].map(unit =>
+      unit.repeat(Math.ceil(length / unit.length)).slice(0, length)
+    );
+    const patterns = ['shit', 'ass', 'kiss ass', 'oil', 'sissies'].map(
+      compileTerm
+    );
+
+    const started = Date.now();
+    for (const text of crafted) {
+      const normalized = normalizeText(toLowerChars(text));
+      patterns.forEach(pattern => findTerm(normalized, pattern));
+    }
+    // The old patterns took seconds on a fifth of this length
+    expect(Date.now() - started).toBeLessThan(500);
+  });
+});
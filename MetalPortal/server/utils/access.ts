@@ -0,0 +1,61 @@
+// Enforcement of the shared content access policy
+
+import { $Enums } from '../../generated/prisma';
+import { prisma } from '../config/database';
+import {
+  SubscriptionStatus,
+  SubscriptionTier,
+  UserRole,
+} from '../../src/types/auth';
+import { ContentAccessLevel } from '../../src/types/post';
+import {
+  AccessAction,
+  AccessDecision,
+  AccessSubject,
+  decideAccess,
+} from '../../src/utils/permissions';
+import { HttpError } from './errors';
+
+const DENIED_MESSAGES: Record<AccessAction, string> = {
+  view: 'You do not have access to this content',
+  interact: 'You cannot interact with this content',
+  moderate: 'You cannot moderate this content',
+};
+
+// Throw a 403 carrying the denial reason and, for paid content, the tier to upgrade to
+export const assertDecision = (decision: AccessDecision, message: string) => {
+  if (decision.allowed) return;
+
+  throw new HttpError(403, message, decision.reason, {
+    requiredTier: decision.requiredTier,
+  });
+};
+
+// The policy's view of a user row read from the database
+export const toAccessSubject = (user: {
+  role: $Enums.UserRole;
+  subscriptionTier: $Enums.SubscriptionTier;
+  subscriptionStatus: $Enums.SubscriptionStatus;
+}): AccessSubject => ({
+  role: UserRole[user.role],
+  subscriptionTier: SubscriptionTier[user.subscriptionTier],
+  subscriptionStatus: SubscriptionStatus[user.subscriptionStatus],
+});
+
+// Current role and subscription, which may be newer than a token's claims
+export const findAccessSubject = async (
+  userId: string
+): Promise<AccessSubject | null> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true, subscriptionTier: true, subscriptionStatus: true },
+  });
+  return user && toAccessSubject(user);
+};
+
+export const assertAccess = (
+  subject: AccessSubject | null,
+  action: AccessAction,
+  level: ContentAccessLevel
+) =>
+  assertDecision(decideAccess(subject, action, level), DENIED_MESSAGES[action]);
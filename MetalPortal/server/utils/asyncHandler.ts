@@ -0,0 +1,9 @@
+// Wraps async route handlers so rejections reach the error middleware
+
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+export const asyncHandler =
+  (handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>): RequestHandler =>
+  (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
@@ -0,0 +1,32 @@
+// Author details shown alongside posts, comments and messages
+
+import { $Enums } from '../../generated/prisma';
+import { UserRole } from '../../src/types/auth';
+import { UserSummary } from '../../src/types/user';
+
+export const authorSelect = {
+  id: true,
+  username: true,
+  displayName: true,
+  avatar: true,
+  role: true,
+  isVerified: true,
+};
+
+export interface AuthorRow {
+  id: string;
+  username: string;
+  displayName: string | null;
+  avatar: string | null;
+  role: $Enums.UserRole;
+  isVerified: boolean;
+}
+
+export const toAuthor = (user: AuthorRow): UserSummary => ({
+  id: user.id,
+  username: user.username,
+  displayName: user.displayName ?? undefined,
+  avatar: user.avatar ?? undefined,
+  role: UserRole[user.role],
+  isVerified: user.isVerified,
+});
@@ -0,0 +1,35 @@
+// HTTP error types
+
+export class HttpError extends Error {
+  statusCode: number;
+  error?: string;
+  details?: Record<string, unknown>;
+
+  constructor(
+    statusCode: number,
+    message: string,
+    error?: string,
+    details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'HttpError';
+    this.statusCode = statusCode;
+    this.error = error;
+    this.details = details;
+  }
+}
+
+export const badRequest = (message: string, details?: Record<string, unknown>) =>
+  new HttpError(400, message, 'BAD_REQUEST', details);
+
+export const unauthorized = (message = 'Authentication required') =>
+  new HttpError(401, message, 'UNAUTHORIZED');
+
+export const forbidden = (message = 'Access denied') =>
+  new HttpError(403, message, 'FORBIDDEN');
+
+export const notFound = (message = 'Resource not found') =>
+  new HttpError(404, message, 'NOT_FOUND');
+
+export const conflict = (message: string) =>
+  new HttpError(409, message, 'CONFLICT');
@@ -0,0 +1,30 @@
+// Server log output
+//
+// Failures the server cannot report back to a client, such as a background job
+// or a push batch going wrong, are written here. Lines go to stderr with a
+// timestamp and level so they can be picked up by the host's log collector.
+
+type Level = 'info' | 'warn' | 'error';
+
+const describe = (error: unknown): string => {
+  if (error instanceof Error) return error.stack ?? error.message;
+  if (typeof error === 'string') return error;
+  try {
+    return JSON.stringify(error);
+  } catch {
+    return String(error);
+  }
+};
+
+const write = (level: Level, message: string, error?: unknown) => {
+  const line = `${new Date().toISOString()} ${level.toUpperCase()} ${message}`;
+  process.stderr.write(
+    error === undefined ? `${line}\n` : `${line} ${describe(error)}\n`
+  );
+};
+
+export const logger = {
+  info: (message: string) => write('info', message),
+  warn: (message: string, error?: unknown) => write('warn', message, error),
+  error: (message: string, error?: unknown) => write('error', message, error),
+};
@@ -0,0 +1,26 @@
+// Page query parsing and the pagination meta of list responses
+
+import { z } from 'zod';
+import { PAGINATION } from '../../src/utils/constants';
+
+export const pageQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(PAGINATION.MAX_PAGE_SIZE)
+    .default(PAGINATION.DEFAULT_PAGE_SIZE),
+});
+
+export const pageMeta = (page: number, limit: number, total: number) => {
+  const pages = Math.ceil(total / limit);
+  return {
+    page,
+    limit,
+    total,
+    pages,
+    hasNext: page < pages,
+    hasPrev: page > 1,
+  };
+};
@@ -0,0 +1,18 @@
+// Response helpers producing the ApiResponse envelope the client expects
+
+import { Response } from 'express';
+import { ApiResponse } from '../../src/types/api';
+
+export const sendSuccess = <T>(
+  res: Response,
+  data: T,
+  options: { status?: number; message?: string; meta?: ApiResponse['meta'] } = {}
+) => {
+  const body: ApiResponse<T> = {
+    success: true,
+    data,
+    message: options.message,
+    meta: options.meta,
+  };
+  return res.status(options.status ?? 200).json(body);
+};
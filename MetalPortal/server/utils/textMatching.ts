@@ -0,0 +1,233 @@
+// Text matching for the content filter
+//
+// Terms match whole words and phrases. Each letter also matches its leetspeak
+// stand-ins and repeats of itself, and punctuation between letters is
+// skipped, so "sh1iiit" and "s.h.i.t" both match "shit" while "shitake" does
+// not.
+//
+// Text is normalized before it is matched: punctuation that stands in for no
+// letter is squeezed to one separator per run. Term patterns are then built so
+// that no character can belong to two neighbouring parts of a pattern, which
+// keeps matching linear in the length of the text however it is crafted.
+
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export interface LinkMatch extends TextSpan {
+  host: string;
+}
+
+// Characters that can stand in for each letter
+const LEET: Record<string, string> = {
+  a: '4@',
+  b: '8',
+  e: '3€',
+  g: '9',
+  i: '1!|',
+  l: '1|',
+  o: '0',
+  s: '5$',
+  t: '7+',
+  z: '2',
+};
+
+// Characters that make up words; everything else separates them
+const WORD_CHAR = 'a-z0-9\\u00c0-\\uffff';
+const WORD = new RegExp(`[${WORD_CHAR}]`);
+
+// Stand-ins that are not word characters; they are kept through normalization
+const LEET_PUNCTUATION = new Set(
+  Array.from(Object.values(LEET).join('')).filter(char => !WORD.test(char))
+);
+
+// What runs of other punctuation are squeezed to
+const SEPARATOR = '.';
+const SPACE = ' ';
+
+// Trailing punctuation is left out, as in "see www.example.com."
+const LINK = /(?:https?:\/\/|www\.)[^\s<>"']*[^\s<>"'.,;:!?)\]]/gi;
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[\\^$.*+?()[\]{}|/-]/g, '\\$&');
+
+// Lower-cases one character at a time so positions still match the original
+export const toLowerChars = (text: string): string =>
+  text.replace(/[^]/g, char => {
+    const lower = char.toLowerCase();
+    return lower.length === 1 ? lower : char;
+  });
+
+// Lower-cased text with punctuation squeezed to one separator per run, or to
+// one space if the run has whitespace, and where each character came from
+export interface NormalizedText {
+  text: string;
+  offsets: number[];
+}
+
+export const normalizeText = (lowered: string): NormalizedText => {
+  let text = '';
+  const offsets: number[] = [];
+  let gap: { start: number; space: boolean } | null = null;
+  for (let i = 0; i < lowered.length; i++) {
+    const char = lowered[i];
+    const space = /\s/.test(char);
+    if (!space && (WORD.test(char) || LEET_PUNCTUATION.has(char))) {
+      if (gap) {
+        text += gap.space ? SPACE : SEPARATOR;
+        offsets.push(gap.start);
+        gap = null;
+      }
+      text += char;
+      offsets.push(i);
+    } else if (gap) {
+      gap.space = gap.space || space;
+    } else {
+      gap = { start: i, space };
+    }
+  }
+  if (gap) {
+    text += gap.space ? SPACE : SEPARATOR;
+    offsets.push(gap.start);
+  }
+  return { text, offsets };
+};
+
+// Characters a letter of a term matches; neighbouring letters whose
+// characters overlap, as a repeated letter does, share one run
+interface LetterRun {
+  chars: Set<string>;
+  min: number;
+}
+
+const toClass = (chars: Set<string>) =>
+  `[${escapeRegExp(Array.from(chars).join(''))}]`;
+
+const compileWord = (word: string): { pattern: string; first: string } => {
+  const parts: (LetterRun | typeof SEPARATOR)[] = [];
+  for (const char of Array.from(word)) {
+    const previous = parts[parts.length - 1];
+    if (char === SEPARATOR) {
+      if (previous !== SEPARATOR) parts.push(SEPARATOR);
+      continue;
+    }
+    const chars = new Set(Array.from(char + (LEET[char] ?? '')));
+    if (
+      previous &&
+      previous !== SEPARATOR &&
+      Array.from(chars).some(stand => previous.chars.has(stand))
+    ) {
+      chars.forEach(stand => previous.chars.add(stand));
+      previous.min += 1;
+    } else {
+      parts.push({ chars, min: 1 });
+    }
+  }
+
+  // A run is at least as many of its characters as it has letters, with a
+  // separator allowed between any two of them
+  const escapedSeparator = escapeRegExp(SEPARATOR);
+  const pattern = parts
+    .map((part, index) => {
+      if (part === SEPARATOR) return escapedSeparator;
+      const chars = toClass(part.chars);
+      const run = `${chars}(?:${escapedSeparator}?${chars}){${part.min - 1},}`;
+      const previous = parts[index - 1];
+      return previous && previous !== SEPARATOR
+        ? `${escapedSeparator}?${run}`
+        : run;
+    })
+    .join('');
+  const first = parts.find((part): part is LetterRun => part !== SEPARATOR);
+  return { pattern, first: first ? toClass(first.chars) : '' };
+};
+
+// Matches the term, or phrase, as whole words of normalized text. A match
+// starts where a run of its first letter starts, never part way into one.
+export const compileTerm = (term: string): RegExp => {
+  const { text } = normalizeText(toLowerChars(term.trim()));
+  const words = text
+    .split(SPACE)
+    .filter(word => word.length > 0)
+    .map(compileWord);
+  const body = words
+    .map(word => word.pattern)
+    .join(`[${escapeRegExp(SPACE + SEPARATOR)}]`);
+  const first = words[0]?.first ?? '';
+  const lead = first
+    ? `(?<![${WORD_CHAR}]|${first}${escapeRegExp(SEPARATOR)}?)`
+    : `(?<![${WORD_CHAR}])`;
+  return new RegExp(`${lead}(?:${body})(?![${WORD_CHAR}])`, 'g');
+};
+
+// Spans of the compiled term in the original text
+export const findTerm = (
+  { text, offsets }: NormalizedText,
+  pattern: RegExp
+): TextSpan[] =>
+  Array.from(text.matchAll(pattern), match => ({
+    start: offsets[match.index!],
+    end: offsets[match.index! + match[0].length - 1] + 1,
+  }));
+
+export const findLinks = (text: string): LinkMatch[] =>
+  Array.from(text.matchAll(LINK), match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    host: match[0]
+      .replace(/^https?:\/\//i, '')
+      .split(/[/?#:]/)[0]
+      .toLowerCase()
+      .replace(/^www\./, ''),
+  }));
+
+// Mentions of the domain or its subdomains, linked or not
+export const findDomain = (lowered: string, domain: string): TextSpan[] =>
+  Array.from(
+    lowered.matchAll(
+      new RegExp(
+        `(^|[^a-z0-9.-])((?:[a-z0-9-]+\\.)*${escapeRegExp(domain)})(?![a-z0-9-])`,
+        'g'
+      )
+    ),
+    match => {
+      const start = match.index! + match[1].length;
+      return { start, end: start + match[2].length };
+    }
+  );
+
+// Length of the longest run of one non-space character
+export const longestRun = (text: string): number =>
+  Math.max(
+    0,
+    ...Array.from(text.matchAll(/(\S)\1*/g), match => match[0].length)
+  );
+
+// Capital letters among all cased letters, and how many letters there were
+export const capitals = (text: string): { ratio: number; letters: number } => {
+  let upper = 0;
+  let letters = 0;
+  for (const char of text) {
+    const isUpper = char !== char.toLowerCase();
+    if (!isUpper && char === char.toUpperCase()) continue;
+    letters += 1;
+    if (isUpper) upper += 1;
+  }
+  return { ratio: letters ? upper / letters : 0, letters };
+};
+
+export const spanWithin = (span: TextSpan, outer: TextSpan) =>
+  span.start >= outer.start && span.end <= outer.end;
+
+// Replaces every non-space character in the spans with an asterisk
+export const maskSpans = (text: string, spans: TextSpan[]): string => {
+  if (spans.length === 0) return text;
+  const chars = text.split('');
+  for (const { start, end } of spans) {
+    for (let i = start; i < end; i++) {
+      if (!/\s/.test(chars[i])) chars[i] = '*';
+    }
+  }
+  return chars.join('');
+};
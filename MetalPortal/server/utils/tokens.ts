@@ -0,0 +1,62 @@
+// JWT signing and verification helpers
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { env } from '../config/env';
+import { AUTH_CONFIG } from '../../src/utils/constants';
+import { AuthTokens, SubscriptionStatus, SubscriptionTier, UserRole } from '../../src/types/auth';
+
+export interface AccessTokenPayload {
+  sub: string;
+  sid: string;
+  role: UserRole;
+  subscriptionTier: SubscriptionTier;
+  subscriptionStatus: SubscriptionStatus;
+}
+
+export interface RefreshTokenPayload {
+  sub: string;
+  sid: string;
+}
+
+export const signAccessToken = (payload: AccessTokenPayload): string =>
+  jwt.sign(payload, env.JWT_SECRET, {
+    expiresIn: Math.floor(AUTH_CONFIG.ACCESS_TOKEN_EXPIRY / 1000),
+  });
+
+export const signRefreshToken = (payload: RefreshTokenPayload): string =>
+  jwt.sign(payload, env.JWT_REFRESH_SECRET, {
+    expiresIn: Math.floor(AUTH_CONFIG.REFRESH_TOKEN_EXPIRY / 1000),
+    // Two refreshes within the same second must still yield distinct tokens
+    jwtid: crypto.randomUUID(),
+  });
+
+export const verifyAccessToken = (token: string): AccessTokenPayload =>
+  jwt.verify(token, env.JWT_SECRET) as AccessTokenPayload;
+
+// When a verified token stops being accepted, from its exp claim
+export const tokenExpiresAt = (token: string): Date | null => {
+  const decoded = jwt.decode(token);
+  return decoded && typeof decoded === 'object' && decoded.exp
+    ? new Date(decoded.exp * 1000)
+    : null;
+};
+
+export const verifyRefreshToken = (token: string): RefreshTokenPayload =>
+  jwt.verify(token, env.JWT_REFRESH_SECRET) as RefreshTokenPayload;
+
+export const issueTokens = (
+  access: AccessTokenPayload,
+  refresh: RefreshTokenPayload
+): AuthTokens => ({
+  accessToken: signAccessToken(access),
+  refreshToken: signRefreshToken(refresh),
+  expiresIn: Math.floor(AUTH_CONFIG.ACCESS_TOKEN_EXPIRY / 1000),
+});
+
+// Opaque tokens (refresh, password reset) are only ever stored hashed
+export const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+export const generateOpaqueToken = (): string =>
+  crypto.randomBytes(32).toString('hex');
@@ -0,0 +1,115 @@
+// Upgrade prompt shown in place of a post the viewer cannot open yet
+
+import { Image, Pressable, StyleSheet, Text, View } from 'react-native';
+import { SubscriptionTier } from '../types/auth';
+import { Post } from '../types/post';
+import {
+  BORDER_RADIUS,
+  DEFAULT_CURRENCY,
+  SPACING,
+  SUBSCRIPTION_TIERS,
+  THEME_COLORS,
+  TYPOGRAPHY,
+} from '../utils/constants';
+import { formatCurrency } from '../utils/format';
+
+interface LockedPostCardProps {
+  post: Post;
+  onUpgrade: (tier: SubscriptionTier) => void;
+}
+
+export function LockedPostCard({ post, onUpgrade }: LockedPostCardProps) {
+  const tier = post.requiredTier ?? SubscriptionTier.FREE;
+  const plan = SUBSCRIPTION_TIERS[tier];
+  const price = plan.prices.month[DEFAULT_CURRENCY];
+  const callToAction =
+    price > 0
+      ? `Unlock with ${plan.name} · ${formatCurrency(price, DEFAULT_CURRENCY)}/mo`
+      : 'Sign up free to read';
+
+  return (
+    <View style={styles.card}>
+      {post.featuredImage ? (
+        // Already blurred by the server; blurRadius only softens the upscale
+        <Image
+          source={{ uri: post.featuredImage }}
+          style={styles.image}
+          blurRadius={4}
+        />
+      ) : null}
+      <View style={styles.body}>
+        <Text style={styles.badge}>{`🔒 ${plan.name}`}</Text>
+        <Text style={styles.title}>{post.title}</Text>
+        {post.excerpt ? (
+          <Text style={styles.excerpt} numberOfLines={3}>
+            {post.excerpt}
+          </Text>
+        ) : null}
+        {plan.features.slice(0, 3).map(feature => (
+          <Text key={feature} style={styles.feature}>
+            {`• ${feature}`}
+          </Text>
+        ))}
+        <Pressable
+          accessibilityRole="button"
+          style={styles.button}
+          onPress={() => onUpgrade(tier)}
+        >
+          <Text style={styles.buttonText}>{callToAction}</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: THEME_COLORS.CHARCOAL,
+    borderRadius: BORDER_RADIUS.LG,
+    borderWidth: 1,
+    borderColor: THEME_COLORS.DARK_RED,
+    overflow: 'hidden',
+  },
+  image: {
+    width: '100%',
+    aspectRatio: 16 / 9,
+  },
+  body: {
+    padding: SPACING.MD,
+  },
+  badge: {
+    color: THEME_COLORS.CRIMSON,
+    fontSize: TYPOGRAPHY.FONT_SIZES.CAPTION,
+    fontWeight: TYPOGRAPHY.FONT_WEIGHTS.BOLD,
+    letterSpacing: 1,
+    marginBottom: SPACING.XS,
+  },
+  title: {
+    color: THEME_COLORS.BONE_WHITE,
+    fontSize: TYPOGRAPHY.FONT_SIZES.H4,
+    fontWeight: TYPOGRAPHY.FONT_WEIGHTS.BOLD,
+    marginBottom: SPACING.SM,
+  },
+  excerpt: {
+    color: THEME_COLORS.SILVER,
+    fontSize: TYPOGRAPHY.FONT_SIZES.SMALL,
+    lineHeight: TYPOGRAPHY.FONT_SIZES.SMALL * TYPOGRAPHY.LINE_HEIGHTS.NORMAL,
+    marginBottom: SPACING.SM,
+  },
+  feature: {
+    color: THEME_COLORS.LIGHT_GRAY,
+    fontSize: TYPOGRAPHY.FONT_SIZES.CAPTION,
+  },
+  button: {
+    backgroundColor: THEME_COLORS.BLOOD_RED,
+    borderRadius: BORDER_RADIUS.MD,
+    paddingVertical: SPACING.SM,
+    marginTop: SPACING.MD,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: THEME_COLORS.BONE_WHITE,
+    fontSize: TYPOGRAPHY.FONT_SIZES.SMALL,
+    fontWeight: TYPOGRAPHY.FONT_WEIGHTS.BOLD,
+  },
+});
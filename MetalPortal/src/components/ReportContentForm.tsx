@@ -0,0 +1,176 @@
+// Form for reporting a post, comment, chat message or member to the moderators
+
+import { useState } from 'react';
+import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import { useReportContent } from '../hooks/useModeration';
+import { ReportReason, ReportTargetType } from '../types/moderation';
+import {
+  BORDER_RADIUS,
+  MODERATION_CONFIG,
+  SPACING,
+  THEME_COLORS,
+  TYPOGRAPHY,
+} from '../utils/constants';
+import { formatErrorMessage } from '../utils/format';
+
+const REASON_LABELS: Record<ReportReason, string> = {
+  [ReportReason.SPAM]: 'Spam',
+  [ReportReason.HARASSMENT]: 'Harassment or bullying',
+  [ReportReason.HATE_SPEECH]: 'Hate speech',
+  [ReportReason.VIOLENCE]: 'Violence or threats',
+  [ReportReason.SEXUAL_CONTENT]: 'Sexual content',
+  [ReportReason.MISINFORMATION]: 'Misinformation',
+  [ReportReason.COPYRIGHT]: 'Copyright infringement',
+  [ReportReason.IMPERSONATION]: 'Impersonation',
+  [ReportReason.OTHER]: 'Something else',
+};
+
+interface ReportContentFormProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  onDone: () => void;
+}
+
+export function ReportContentForm({
+  targetType,
+  targetId,
+  onDone,
+}: ReportContentFormProps) {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [description, setDescription] = useState('');
+  const report = useReportContent();
+
+  if (report.isSuccess) {
+    return (
+      <View style={styles.form}>
+        <Text style={styles.title}>Thanks for letting us know</Text>
+        <Text style={styles.hint}>
+          Our moderators will review this and tell you what they decide.
+        </Text>
+        <Pressable
+          accessibilityRole="button"
+          style={styles.button}
+          onPress={onDone}
+        >
+          <Text style={styles.buttonText}>Done</Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  const submit = () => {
+    if (!reason) return;
+    report.mutate({
+      targetType,
+      targetId,
+      reason,
+      description: description.trim() || undefined,
+    });
+  };
+
+  return (
+    <View style={styles.form}>
+      <Text style={styles.title}>What's wrong with this?</Text>
+      {Object.values(ReportReason).map(value => (
+        <Pressable
+          key={value}
+          accessibilityRole="radio"
+          accessibilityState={{ checked: reason === value }}
+          style={[styles.reason, reason === value && styles.selected]}
+          onPress={() => setReason(value)}
+        >
+          <Text style={styles.reasonText}>{REASON_LABELS[value]}</Text>
+        </Pressable>
+      ))}
+      <TextInput
+        style={styles.input}
+        placeholder="Add details (optional)"
+        placeholderTextColor={THEME_COLORS.SILVER}
+        value={description}
+        onChangeText={setDescription}
+        maxLength={MODERATION_CONFIG.MAX_REPORT_DESCRIPTION_LENGTH}
+        multiline
+      />
+      {report.isError ? (
+        <Text style={styles.error}>{formatErrorMessage(report.error)}</Text>
+      ) : null}
+      <Pressable
+        accessibilityRole="button"
+        accessibilityState={{ disabled: !reason || report.isPending }}
+        disabled={!reason || report.isPending}
+        style={[
+          styles.button,
+          (!reason || report.isPending) && styles.buttonDisabled,
+        ]}
+        onPress={submit}
+      >
+        <Text style={styles.buttonText}>
+          {report.isPending ? 'Sending…' : 'Report'}
+        </Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  form: {
+    backgroundColor: THEME_COLORS.CHARCOAL,
+    borderRadius: BORDER_RADIUS.LG,
+    padding: SPACING.MD,
+  },
+  title: {
+    color: THEME_COLORS.BONE_WHITE,
+    fontSize: TYPOGRAPHY.FONT_SIZES.H4,
+    fontWeight: TYPOGRAPHY.FONT_WEIGHTS.BOLD,
+    marginBottom: SPACING.SM,
+  },
+  hint: {
+    color: THEME_COLORS.SILVER,
+    fontSize: TYPOGRAPHY.FONT_SIZES.SMALL,
+  },
+  reason: {
+    borderRadius: BORDER_RADIUS.MD,
+    borderWidth: 1,
+    borderColor: THEME_COLORS.DARK_GRAY,
+    paddingVertical: SPACING.SM,
+    paddingHorizontal: SPACING.MD,
+    marginBottom: SPACING.XS,
+  },
+  selected: {
+    borderColor: THEME_COLORS.CRIMSON,
+  },
+  reasonText: {
+    color: THEME_COLORS.LIGHT_GRAY,
+    fontSize: TYPOGRAPHY.FONT_SIZES.SMALL,
+  },
+  input: {
+    backgroundColor: THEME_COLORS.DARK_GRAY,
+    borderRadius: BORDER_RADIUS.MD,
+    color: THEME_COLORS.BONE_WHITE,
+    fontSize: TYPOGRAPHY.FONT_SIZES.SMALL,
+    minHeight: 80,
+    padding: SPACING.SM,
+    marginTop: SPACING.SM,
+    textAlignVertical: 'top',
+  },
+  error: {
+    color: THEME_COLORS.ERROR,
+    fontSize: TYPOGRAPHY.FONT_SIZES.CAPTION,
+    marginTop: SPACING.SM,
+  },
+  button: {
+    backgroundColor: THEME_COLORS.BLOOD_RED,
+    borderRadius: BORDER_RADIUS.MD,
+    paddingVertical: SPACING.SM,
+    marginTop: SPACING.MD,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: THEME_COLORS.BONE_WHITE,
+    fontSize: TYPOGRAPHY.FONT_SIZES.SMALL,
+    fontWeight: TYPOGRAPHY.FONT_WEIGHTS.BOLD,
+  },
+});
@@ -0,0 +1,158 @@
+import {
+  InfiniteData,
+  MutationObserver,
+  QueryClient,
+} from '@tanstack/react-query';
+import { postService } from '../../services/postService';
+import { queryKeys } from '../../services/queryClient';
+import { PaginatedResponse } from '../../types/common';
+import {
+  Comment,
+  Post,
+  ReactionSummary,
+  ReactionType,
+  SetReactionInput,
+} from '../../types/post';
+import { reactionMutationOptions } from '../useReactions';
+
+jest.mock('../../store/authStore', () => ({ useAuthStore: {} }));
+jest.mock('../../services/postService', () => ({
+  postService: { setReaction: jest.fn() },
+}));
+
+const setReaction = postService.setReaction as jest.MockedFunction<
+  typeof postService.setReaction
+>;
+
+const POST_ID = 'post-1';
+
+// Not the app's client: the mutation must update the client it is given
+const queryClient = new QueryClient();
+
+const page = <T>(data: T[]): InfiniteData<PaginatedResponse<T>, number> => ({
+  pages: [{ data } as PaginatedResponse<T>],
+  pageParams: [1],
+});
+
+const reactable = {
+  likeCount: 2,
+  reactionCounts: { [ReactionType.LIKE]: 2 },
+  userReaction: undefined,
+  isLiked: false,
+};
+
+const cachedPost = () =>
+  queryClient.getQueryData<Post>(queryKeys.posts.detail(POST_ID));
+const listedPost = () =>
+  queryClient.getQueryData<InfiniteData<PaginatedResponse<Post>, number>>(
+    queryKeys.posts.list({})
+  )!.pages[0].data[0];
+
+// A server reply the test settles by hand
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+// Lets the optimistic update run
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const react = (input: SetReactionInput) =>
+  new MutationObserver(queryClient, {
+    ...reactionMutationOptions(queryClient),
+    retry: false,
+  })
+    .mutate(input)
+    .catch(() => undefined);
+
+describe('reaction mutation', () => {
+  beforeEach(() => {
+    queryClient.clear();
+    setReaction.mockReset();
+    const post = { id: POST_ID, ...reactable, comments: [] } as unknown as Post;
+    queryClient.setQueryData(queryKeys.posts.detail(POST_ID), post);
+    queryClient.setQueryData(queryKeys.posts.list({}), page([post]));
+  });
+
+  // Drops the cache's garbage collection timers
+  afterAll(() => queryClient.clear());
+
+  it('shows the reaction at once and then keeps what the server settled on', async () => {
+    const reply = deferred<ReactionSummary>();
+    setReaction.mockReturnValue(reply.promise);
+
+    const done = react({
+      target: { kind: 'post', postId: POST_ID },
+      type: ReactionType.LOVE,
+    });
+    await settle();
+    const optimistic = {
+      likeCount: 3,
+      userReaction: ReactionType.LOVE,
+      isLiked: true,
+      reactionCounts: { [ReactionType.LIKE]: 2, [ReactionType.LOVE]: 1 },
+    };
+    expect(cachedPost()).toEqual(expect.objectContaining(optimistic));
+    expect(listedPost()).toEqual(expect.objectContaining(optimistic));
+
+    reply.resolve({
+      targetId: POST_ID,
+      likeCount: 4,
+      reactionCounts: { [ReactionType.LIKE]: 3, [ReactionType.LOVE]: 1 },
+      userReaction: ReactionType.LOVE,
+    });
+    await done;
+    expect(cachedPost()).toEqual(expect.objectContaining({ likeCount: 4 }));
+    expect(listedPost()).toEqual(expect.objectContaining({ likeCount: 4 }));
+  });
+
+  it('rolls the post back when the server refuses', async () => {
+    const reply = deferred<ReactionSummary>();
+    setReaction.mockReturnValue(reply.promise);
+
+    const done = react({
+      target: { kind: 'post', postId: POST_ID },
+      type: ReactionType.FIRE,
+    });
+    await settle();
+    expect(cachedPost()!.likeCount).toBe(3);
+
+    reply.reject({ message: 'Upgrade to react', statusCode: 403 });
+    await done;
+    expect(cachedPost()).toEqual(expect.objectContaining(reactable));
+    expect(listedPost()).toEqual(expect.objectContaining(reactable));
+  });
+
+  it('rolls back a reply deep in a comment tree', async () => {
+    const comment = (id: string, replies: Comment[] = []) =>
+      ({ id, postId: POST_ID, ...reactable, replies }) as unknown as Comment;
+    queryClient.setQueryData(
+      queryKeys.posts.comments(POST_ID),
+      page([comment('top', [comment('reply')])])
+    );
+    const replyOf = () =>
+      queryClient.getQueryData<
+        InfiniteData<PaginatedResponse<Comment>, number>
+      >(queryKeys.posts.comments(POST_ID))!.pages[0].data[0].replies[0];
+    const reply = deferred<ReactionSummary>();
+    setReaction.mockReturnValue(reply.promise);
+
+    const done = react({
+      target: { kind: 'comment', commentId: 'reply', postId: POST_ID },
+      type: ReactionType.LIKE,
+    });
+    await settle();
+    expect(replyOf()).toEqual(
+      expect.objectContaining({ likeCount: 3, isLiked: true })
+    );
+
+    reply.reject(new Error('Network error'));
+    await done;
+    expect(replyOf()).toEqual(expect.objectContaining(reactable));
+  });
+});
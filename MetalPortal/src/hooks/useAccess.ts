@@ -0,0 +1,27 @@
+// Content access checks for the signed-in user
+
+import { useMemo } from 'react';
+import { useAuthStore } from '../store/authStore';
+import { ContentAccessLevel } from '../types/post';
+import {
+  AccessAction,
+  canAccess,
+  decideAccess,
+  getMaxAccessLevel,
+} from '../utils/permissions';
+
+// Gate UI with `can`; use `decide` to pick an upsell (it carries requiredTier)
+export const useAccess = () => {
+  const user = useAuthStore(state => state.user);
+
+  return useMemo(
+    () => ({
+      maxLevel: getMaxAccessLevel(user),
+      can: (action: AccessAction, level: ContentAccessLevel) =>
+        canAccess(user, action, level),
+      decide: (action: AccessAction, level: ContentAccessLevel) =>
+        decideAccess(user, action, level),
+    }),
+    [user]
+  );
+};
@@ -0,0 +1,115 @@
+// React hooks for chat rooms over REST history and the realtime socket
+
+import { useEffect, useSyncExternalStore } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { useShallow } from 'zustand/react/shallow';
+import { chatService } from '../services/chatService';
+import { outbox, startOutbox } from '../services/outbox';
+import { queryKeys } from '../services/queryClient';
+import {
+  realtimeClient,
+  startRealtimeConnection,
+} from '../services/realtimeClient';
+import { useChatStore } from '../store/chatStore';
+import { useOutboxStore } from '../store/outboxStore';
+import { TypingIndicator } from '../types/chat';
+import { CHAT_CONFIG } from '../utils/constants';
+
+const EMPTY_TYPING: TypingIndicator[] = [];
+
+// Connects while signed in, for the lifetime of the app
+export const useRealtimeConnection = () => {
+  useEffect(() => startRealtimeConnection(), []);
+};
+
+export const useRealtimeStatus = () =>
+  useSyncExternalStore(realtimeClient.onStatusChange, realtimeClient.getStatus);
+
+// Room history; new messages are pushed into this cache by the socket
+export const useRoomMessages = (roomId: string) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.chat.rooms.messages(roomId),
+    queryFn: ({ pageParam }) => chatService.getRoomMessages(roomId, pageParam),
+    initialPageParam: 1,
+    getNextPageParam: lastPage =>
+      lastPage.pagination.hasNext ? lastPage.pagination.page + 1 : undefined,
+    enabled: !!roomId,
+  });
+
+export const useConversationMessages = (userId: string) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.chat.conversations.messages(userId),
+    queryFn: ({ pageParam }) =>
+      chatService.getConversationMessages(userId, pageParam),
+    initialPageParam: 1,
+    getNextPageParam: lastPage =>
+      lastPage.pagination.hasNext ? lastPage.pagination.page + 1 : undefined,
+    enabled: !!userId,
+  });
+
+// Joins the room while mounted and marks it as the one being read
+export const useChatRoom = (roomId: string) => {
+  const typingUsers = useChatStore(
+    state => state.typingByRoom[roomId] ?? EMPTY_TYPING
+  );
+
+  useEffect(() => {
+    if (!roomId) return;
+    const { setActiveRoom, pruneTyping } = useChatStore.getState();
+
+    setActiveRoom(roomId);
+    realtimeClient.joinRoom(roomId).catch(() => undefined);
+    const pruneTimer = setInterval(
+      () => pruneTyping(),
+      CHAT_CONFIG.TYPING_INDICATOR_TIMEOUT / 2
+    );
+
+    return () => {
+      clearInterval(pruneTimer);
+      realtimeClient.leaveRoom(roomId).catch(() => undefined);
+      if (useChatStore.getState().activeRoomId === roomId) {
+        setActiveRoom(null);
+      }
+    };
+  }, [roomId]);
+
+  return {
+    typingUsers,
+    startTyping: () => realtimeClient.startTyping(roomId),
+    stopTyping: () => realtimeClient.stopTyping(roomId),
+  };
+};
+
+// Messages go through the offline outbox; each call returns the client id
+export const useSendChatMessage = () => outbox.sendRoomMessage;
+
+export const useSendDirectMessage = () => outbox.sendDirectMessage;
+
+// Unsent messages for a room, oldest first, to show below the history
+export const useRoomOutbox = (roomId: string) =>
+  useOutboxStore(
+    useShallow(state =>
+      state.items.filter(
+        item => item.kind === 'room' && item.input.roomId === roomId
+      )
+    )
+  );
+
+export const useConversationOutbox = (userId: string) =>
+  useOutboxStore(
+    useShallow(state =>
+      state.items.filter(
+        item => item.kind === 'direct' && item.input.receiverId === userId
+      )
+    )
+  );
+
+export const useOutboxActions = () => ({
+  retry: outbox.retry,
+  discard: outbox.discard,
+});
+
+// Delivers queued messages whenever the socket connects
+export const useOutboxRunner = () => {
+  useEffect(() => startOutbox(), []);
+};
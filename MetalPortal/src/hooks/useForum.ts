@@ -0,0 +1,435 @@
+// React Query hooks for forum categories, posts and comment threads
+//
+// A post's comment trees are cached under queryKeys.forum.posts.comments: the
+// paged top-level comments, plus any comment opened as its own thread. Every
+// change to a comment is applied to each of those trees, so replies and
+// replyCount agree wherever the comment is shown.
+
+import {
+  InfiniteData,
+  QueryClient,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import { forumService } from '../services/forumService';
+import { queryKeys } from '../services/queryClient';
+import { PaginatedResponse } from '../types/common';
+import {
+  CreateForumCommentInput,
+  CreateForumPostInput,
+  ForumComment,
+  ForumFilter,
+  ForumModerationInput,
+  ForumPost,
+  ForumSort,
+  MergeForumPostsInput,
+  MoveForumPostInput,
+  SplitForumThreadInput,
+  UpdateForumPostInput,
+} from '../types/forum';
+import { FORUM_CONFIG } from '../utils/constants';
+
+export type ForumPostPages = InfiniteData<PaginatedResponse<ForumPost>, number>;
+export type ForumCommentPages = InfiniteData<
+  PaginatedResponse<ForumComment>,
+  number
+>;
+
+const getNextPageParam = <T>(lastPage: PaginatedResponse<T>) =>
+  lastPage.pagination.hasNext ? lastPage.pagination.page + 1 : undefined;
+
+// Replace the comment with the given id wherever it sits in the tree
+const updateInTree = (
+  comments: ForumComment[],
+  id: string,
+  update: (comment: ForumComment) => ForumComment
+): ForumComment[] =>
+  comments.map(comment =>
+    comment.id === id
+      ? update(comment)
+      : comment.replies.length > 0
+        ? { ...comment, replies: updateInTree(comment.replies, id, update) }
+        : comment
+  );
+
+const removeFromTree = (comments: ForumComment[], id: string): ForumComment[] =>
+  comments
+    .filter(comment => comment.id !== id)
+    .map(comment =>
+      comment.replies.length > 0
+        ? { ...comment, replies: removeFromTree(comment.replies, id) }
+        : comment
+    );
+
+// Apply a change to every comment tree cached for the post
+const updateCommentTrees = (
+  queryClient: QueryClient,
+  postId: string,
+  update: (comments: ForumComment[], isTopLevel: boolean) => ForumComment[]
+) => {
+  queryClient.setQueriesData<ForumCommentPages | ForumComment>(
+    { queryKey: queryKeys.forum.posts.comments(postId) },
+    data => {
+      if (!data) return data;
+      if ('pages' in data) {
+        return {
+          ...data,
+          pages: data.pages.map(page => ({
+            ...page,
+            data: update(page.data, !page.pagination.hasNext),
+          })),
+        };
+      }
+      // A thread's root is not a top-level comment
+      return update([data], false)[0] ?? data;
+    }
+  );
+};
+
+const updatePostReplyCount = (
+  queryClient: QueryClient,
+  postId: string,
+  delta: number
+) => {
+  queryClient.setQueryData<ForumPost>(
+    queryKeys.forum.posts.detail(postId),
+    post => (post ? { ...post, replyCount: post.replyCount + delta } : post)
+  );
+  queryClient.invalidateQueries({ queryKey: queryKeys.forum.posts.lists() });
+};
+
+// A moderator changed the post: show it as returned and refresh whatever
+// lists it appears in, along with the moderation log
+const onModerated = (queryClient: QueryClient, post: ForumPost) => {
+  queryClient.setQueryData(queryKeys.forum.posts.detail(post.id), post);
+  queryClient.invalidateQueries({ queryKey: queryKeys.forum.posts.lists() });
+  queryClient.invalidateQueries({ queryKey: queryKeys.moderation.all });
+};
+
+// Categories
+
+export const useForumCategories = () =>
+  useQuery({
+    queryKey: queryKeys.forum.categories.list({}),
+    queryFn: forumService.getCategories,
+  });
+
+export const useForumCategory = (slug: string) =>
+  useQuery({
+    queryKey: queryKeys.forum.categories.detail(slug),
+    queryFn: () => forumService.getCategory(slug),
+    enabled: !!slug,
+  });
+
+// Posts
+
+// Paginated posts, pinned first; call fetchNextPage() while hasNextPage is true
+export const useForumPosts = (filter: ForumFilter = {}, sort?: ForumSort) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.forum.posts.list({ filter, sort }),
+    queryFn: ({ pageParam }) =>
+      forumService.getPosts({ filter, sort, page: pageParam }),
+    initialPageParam: 1,
+    getNextPageParam,
+  });
+
+export const useForumPost = (id: string) =>
+  useQuery({
+    queryKey: queryKeys.forum.posts.detail(id),
+    queryFn: () => forumService.getPost(id),
+    enabled: !!id,
+  });
+
+export const useCreateForumPost = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateForumPostInput) => forumService.createPost(input),
+    onSuccess: post => {
+      queryClient.setQueryData(queryKeys.forum.posts.detail(post.id), post);
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.forum.posts.lists(),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.forum.categories.all,
+      });
+    },
+  });
+};
+
+export const useUpdateForumPost = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      input,
+    }: {
+      id: string;
+      input: Pick<UpdateForumPostInput, 'title' | 'content'>;
+    }) => forumService.updatePost(id, input),
+    onSuccess: post => {
+      queryClient.setQueryData(queryKeys.forum.posts.detail(post.id), post);
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.forum.posts.lists(),
+      });
+    },
+  });
+};
+
+export const useDeleteForumPost = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => forumService.deletePost(id),
+    onSuccess: (_data, id) => {
+      queryClient.removeQueries({ queryKey: queryKeys.forum.posts.detail(id) });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.forum.posts.lists(),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.forum.categories.all,
+      });
+    },
+  });
+};
+
+// Comments
+
+// Top-level comments a page at a time, each with the start of its replies
+export const useForumComments = (postId: string) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.forum.posts.comments(postId),
+    queryFn: ({ pageParam }) => forumService.getComments(postId, pageParam),
+    initialPageParam: 1,
+    getNextPageParam,
+    enabled: !!postId,
+  });
+
+// "Continue this thread": the comment as the root of its own tree
+export const useForumThread = (postId: string, commentId: string) =>
+  useQuery({
+    queryKey: queryKeys.forum.posts.thread(postId, commentId),
+    queryFn: () => forumService.getThread(commentId),
+    enabled: !!postId && !!commentId,
+  });
+
+// "Load more replies" below a comment. `level` is the comment's nesting level
+// in the tree being shown (0 for its root), so the new replies stop at the
+// same depth as the rest of that tree.
+export const useLoadMoreReplies = (postId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      comment,
+      level,
+    }: {
+      comment: ForumComment;
+      level: number;
+    }) =>
+      forumService.getReplies(
+        comment.id,
+        comment.repliesCursor,
+        Math.max(0, FORUM_CONFIG.MAX_COMMENT_DEPTH - level - 1)
+      ),
+    onSuccess: ({ replies, nextCursor }, { comment }) => {
+      updateCommentTrees(queryClient, postId, comments =>
+        updateInTree(comments, comment.id, parent => {
+          // Trees that show this comment with other replies loaded keep them
+          if (parent.repliesCursor !== comment.repliesCursor) return parent;
+          const loaded = new Set(parent.replies.map(reply => reply.id));
+          return {
+            ...parent,
+            replies: [
+              ...parent.replies,
+              ...replies.filter(reply => !loaded.has(reply.id)),
+            ],
+            repliesCursor: nextCursor,
+          };
+        })
+      );
+    },
+  });
+};
+
+export const useAddForumComment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateForumCommentInput) =>
+      forumService.addComment(input),
+    onSuccess: comment => {
+      const { parentId, postId } = comment;
+      updateCommentTrees(queryClient, postId, (comments, isTopLevel) => {
+        if (!parentId) {
+          // Newest comments come last; only the last page can show it
+          return isTopLevel ? [...comments, comment] : comments;
+        }
+        return updateInTree(comments, parentId, parent => ({
+          ...parent,
+          replyCount: parent.replyCount + 1,
+          // Replies still to be loaded come before the new one
+          replies:
+            parent.repliesCursor || parent.continueThread
+              ? parent.replies
+              : [...parent.replies, comment],
+        }));
+      });
+      updatePostReplyCount(queryClient, postId, 1);
+    },
+  });
+};
+
+export const useUpdateForumComment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, content }: { id: string; content: string }) =>
+      forumService.updateComment(id, content),
+    onSuccess: updated => {
+      updateCommentTrees(queryClient, updated.postId, comments =>
+        updateInTree(comments, updated.id, comment => ({
+          ...comment,
+          content: updated.content,
+          updatedAt: updated.updatedAt,
+        }))
+      );
+    },
+  });
+};
+
+// A comment with replies stays in the tree as a deleted placeholder
+export const useDeleteForumComment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (comment: ForumComment) =>
+      forumService.deleteComment(comment.id),
+    onSuccess: ({ removed }, { id, parentId, postId }) => {
+      if (!removed) {
+        updateCommentTrees(queryClient, postId, comments =>
+          updateInTree(comments, id, comment => ({
+            ...comment,
+            content: '',
+            isDeleted: true,
+            canReply: false,
+            canEdit: false,
+            canDelete: false,
+          }))
+        );
+        return;
+      }
+
+      updateCommentTrees(queryClient, postId, comments => {
+        const remaining = removeFromTree(comments, id);
+        return parentId
+          ? updateInTree(remaining, parentId, parent => ({
+              ...parent,
+              replyCount: parent.replyCount - 1,
+            }))
+          : remaining;
+      });
+      queryClient.removeQueries({
+        queryKey: queryKeys.forum.posts.thread(postId, id),
+      });
+      updatePostReplyCount(queryClient, postId, -1);
+    },
+  });
+};
+
+// Moderation
+
+export const usePinForumPost = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      pinned,
+      ...input
+    }: ForumModerationInput & { id: string; pinned: boolean }) =>
+      forumService.pinPost(id, pinned, input),
+    onSuccess: post => onModerated(queryClient, post),
+  });
+};
+
+export const useLockForumPost = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      locked,
+      ...input
+    }: ForumModerationInput & { id: string; locked: boolean }) =>
+      forumService.lockPost(id, locked, input),
+    // Whether the comments can be replied to changed too
+    onSuccess: post => {
+      onModerated(queryClient, post);
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.forum.posts.comments(post.id),
+      });
+    },
+  });
+};
+
+export const useMoveForumPost = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...input }: MoveForumPostInput & { id: string }) =>
+      forumService.movePost(id, input),
+    onSuccess: post => {
+      onModerated(queryClient, post);
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.forum.categories.all,
+      });
+    },
+  });
+};
+
+// Resolves to the target thread; the merged one is dropped from the cache
+export const useMergeForumPosts = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...input }: MergeForumPostsInput & { id: string }) =>
+      forumService.mergePosts(id, input),
+    onSuccess: (post, { id }) => {
+      queryClient.removeQueries({ queryKey: queryKeys.forum.posts.detail(id) });
+      onModerated(queryClient, post);
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.forum.posts.comments(post.id),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.forum.categories.all,
+      });
+    },
+  });
+};
+
+// Resolves to the new thread started from the comment
+export const useSplitForumThread = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      comment,
+      ...input
+    }: SplitForumThreadInput & { comment: ForumComment }) =>
+      forumService.splitThread(comment.id, input),
+    onSuccess: (post, { comment }) => {
+      onModerated(queryClient, post);
+      // The original thread lost the comment and its replies
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.forum.posts.detail(comment.postId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.forum.categories.all,
+      });
+    },
+  });
+};
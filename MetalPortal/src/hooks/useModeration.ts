@@ -0,0 +1,250 @@
+// React Query hooks for reporting content and appealing sanctions, and for
+// moderators the report queue, sanctions, appeals, content filter and
+// moderation log
+
+import {
+  QueryClient,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import { moderationService } from '../services/moderationService';
+import { queryKeys } from '../services/queryClient';
+import { PaginatedResponse } from '../types/common';
+import {
+  AppealFilter,
+  BulkReportAction,
+  ContentFilterConfig,
+  CreateAppealInput,
+  CreateReportInput,
+  CreateSanctionInput,
+  DismissReportInput,
+  LiftSanctionInput,
+  ModerationLogFilter,
+  Report,
+  ReportFilter,
+  ResolveReportInput,
+  ReviewAppealInput,
+} from '../types/moderation';
+
+const getNextPageParam = <T>(lastPage: PaginatedResponse<T>) =>
+  lastPage.pagination.hasNext ? lastPage.pagination.page + 1 : undefined;
+
+// Sanctions or appeals changed; resolving reports can sanction members too
+const onSanctionsChanged = (queryClient: QueryClient) => {
+  queryClient.invalidateQueries({
+    queryKey: queryKeys.moderation.sanctions.all,
+  });
+  queryClient.invalidateQueries({
+    queryKey: queryKeys.moderation.appeals.all,
+  });
+  queryClient.invalidateQueries({ queryKey: queryKeys.moderation.logs() });
+};
+
+// A report changed: show it as returned and refresh the queue and log
+const onReportChanged = (queryClient: QueryClient, report?: Report) => {
+  if (report) {
+    queryClient.setQueryData(
+      queryKeys.moderation.reports.detail(report.id),
+      report
+    );
+  }
+  queryClient.invalidateQueries({
+    queryKey: queryKeys.moderation.reports.lists(),
+  });
+  onSanctionsChanged(queryClient);
+};
+
+export const useReportContent = () =>
+  useMutation({
+    mutationFn: (input: CreateReportInput) => moderationService.report(input),
+  });
+
+// The signed-in member's sanctions in force, to explain why posting fails
+export const useMySanctions = () =>
+  useQuery({
+    queryKey: queryKeys.sanctions.mine(),
+    queryFn: () => moderationService.getMySanctions(),
+  });
+
+export const useAppealSanction = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      sanctionId,
+      ...input
+    }: CreateAppealInput & { sanctionId: string }) =>
+      moderationService.appealSanction(sanctionId, input),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.sanctions.mine() }),
+  });
+};
+
+// Moderators
+
+// Open reports unless a status is given, oldest first; call fetchNextPage()
+// while hasNextPage is true
+export const useReportQueue = (filter: ReportFilter = {}) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.moderation.reports.list(filter),
+    queryFn: ({ pageParam }) => moderationService.getReports(filter, pageParam),
+    initialPageParam: 1,
+    getNextPageParam,
+  });
+
+export const useReport = (id: string) =>
+  useQuery({
+    queryKey: queryKeys.moderation.reports.detail(id),
+    queryFn: () => moderationService.getReport(id),
+    enabled: !!id,
+  });
+
+// Leave assigneeId out to take the report on yourself; null unassigns
+export const useAssignReport = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      assigneeId,
+    }: {
+      id: string;
+      assigneeId?: string | null;
+    }) => moderationService.assignReport(id, assigneeId),
+    onSuccess: report => onReportChanged(queryClient, report),
+  });
+};
+
+export const useResolveReport = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...input }: ResolveReportInput & { id: string }) =>
+      moderationService.resolveReport(id, input),
+    onSuccess: report => onReportChanged(queryClient, report),
+  });
+};
+
+export const useDismissReport = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...input }: DismissReportInput & { id: string }) =>
+      moderationService.dismissReport(id, input),
+    onSuccess: report => onReportChanged(queryClient, report),
+  });
+};
+
+export const useBulkReportAction = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (action: BulkReportAction) =>
+      moderationService.bulkReports(action),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.moderation.reports.all,
+      });
+      onReportChanged(queryClient);
+    },
+  });
+};
+
+// A member's sanctions, newest first; call fetchNextPage() while hasNextPage
+// is true
+export const useUserSanctions = (userId: string) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.moderation.sanctions.user(userId),
+    queryFn: ({ pageParam }) =>
+      moderationService.getUserSanctions(userId, pageParam),
+    initialPageParam: 1,
+    getNextPageParam,
+    enabled: !!userId,
+  });
+
+export const useSanctionUser = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      userId,
+      ...input
+    }: CreateSanctionInput & { userId: string }) =>
+      moderationService.sanctionUser(userId, input),
+    onSuccess: () => onSanctionsChanged(queryClient),
+  });
+};
+
+export const useLiftSanction = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...input }: LiftSanctionInput & { id: string }) =>
+      moderationService.liftSanction(id, input),
+    onSuccess: () => onSanctionsChanged(queryClient),
+  });
+};
+
+// Pending appeals unless a status is given, oldest first; call
+// fetchNextPage() while hasNextPage is true
+export const useAppealQueue = (filter: AppealFilter = {}) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.moderation.appeals.list(filter),
+    queryFn: ({ pageParam }) => moderationService.getAppeals(filter, pageParam),
+    initialPageParam: 1,
+    getNextPageParam,
+  });
+
+// Accepting an appeal lifts its sanction
+export const useReviewAppeal = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      accept,
+      ...input
+    }: ReviewAppealInput & { id: string; accept: boolean }) =>
+      accept
+        ? moderationService.acceptAppeal(id, input)
+        : moderationService.rejectAppeal(id, input),
+    onSuccess: () => onSanctionsChanged(queryClient),
+  });
+};
+
+// Newest entries first; call fetchNextPage() while hasNextPage is true
+export const useModerationLog = (filter: ModerationLogFilter = {}) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.moderation.log(filter),
+    queryFn: ({ pageParam }) => moderationService.getLog(filter, pageParam),
+    initialPageParam: 1,
+    getNextPageParam,
+  });
+
+export const useContentFilter = () =>
+  useQuery({
+    queryKey: queryKeys.moderation.contentFilter(),
+    queryFn: moderationService.getContentFilter,
+  });
+
+// Admins only
+export const useUpdateContentFilter = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (config: ContentFilterConfig) =>
+      moderationService.updateContentFilter(config),
+    onSuccess: config => {
+      queryClient.setQueryData(queryKeys.moderation.contentFilter(), config);
+      queryClient.invalidateQueries({ queryKey: queryKeys.moderation.logs() });
+    },
+  });
+};
+
+// Tries a text against the saved filter
+export const useTestContentFilter = () =>
+  useMutation({
+    mutationFn: (text: string) => moderationService.testContentFilter(text),
+  });
@@ -0,0 +1,176 @@
+// React Query hooks for notifications, their unread badge and preferences,
+// and push registration
+
+import { useEffect } from 'react';
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import { queryKeys } from '../services/queryClient';
+import {
+  NotificationPages,
+  notificationService,
+} from '../services/notificationService';
+import { startPushRegistration } from '../services/pushNotifications';
+import { useAuthStore } from '../store/authStore';
+import { useUserStore } from '../store/userStore';
+import {
+  NotificationFilter,
+  NotificationPreferences,
+  NotificationStats,
+} from '../types/notification';
+
+// Unread count for badges; kept current by the realtime connection
+export const useUnreadNotificationCount = () => {
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const { data } = useQuery({
+    queryKey: queryKeys.notifications.stats(),
+    queryFn: notificationService.getStats,
+    enabled: isAuthenticated,
+  });
+  return data?.unreadCount ?? 0;
+};
+
+// Notification history, newest first, with the unread badge count
+export const useNotifications = (filter: NotificationFilter = {}) => {
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const unreadCount = useUnreadNotificationCount();
+  const query = useInfiniteQuery({
+    queryKey: queryKeys.notifications.list(filter),
+    queryFn: ({ pageParam }) => notificationService.list(filter, pageParam),
+    initialPageParam: 1,
+    getNextPageParam: lastPage =>
+      lastPage.pagination.hasNext ? lastPage.pagination.page + 1 : undefined,
+    enabled: isAuthenticated,
+  });
+
+  return {
+    ...query,
+    notifications: query.data?.pages.flatMap(page => page.data) ?? [],
+    unreadCount,
+  };
+};
+
+// Mark notifications read in every cached list, and lower the badge count by
+// as many as were unread
+const useMarkReadInCache = () => {
+  const queryClient = useQueryClient();
+
+  return (isTarget: (id: string) => boolean) => {
+    let marked = 0;
+    queryClient.setQueriesData<NotificationPages>(
+      { queryKey: queryKeys.notifications.lists() },
+      data =>
+        data && {
+          ...data,
+          pages: data.pages.map(page => ({
+            ...page,
+            data: page.data.map(notification => {
+              if (notification.isRead || !isTarget(notification.id)) {
+                return notification;
+              }
+              marked += 1;
+              return { ...notification, isRead: true };
+            }),
+          })),
+        }
+    );
+    return marked;
+  };
+};
+
+export const useMarkNotificationRead = () => {
+  const queryClient = useQueryClient();
+  const markReadInCache = useMarkReadInCache();
+
+  return useMutation({
+    mutationFn: notificationService.markRead,
+    onMutate: async (id: string) => {
+      await queryClient.cancelQueries({
+        queryKey: queryKeys.notifications.all,
+      });
+      // A notification can be in several lists, so count it once
+      const wasUnread = markReadInCache(target => target === id) > 0;
+      if (wasUnread) {
+        queryClient.setQueryData<NotificationStats>(
+          queryKeys.notifications.stats(),
+          stats => stats && { unreadCount: Math.max(0, stats.unreadCount - 1) }
+        );
+      }
+    },
+    onSettled: () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all }),
+  });
+};
+
+export const useMarkAllNotificationsRead = () => {
+  const queryClient = useQueryClient();
+  const markReadInCache = useMarkReadInCache();
+
+  return useMutation({
+    mutationFn: notificationService.markAllRead,
+    onMutate: async () => {
+      await queryClient.cancelQueries({
+        queryKey: queryKeys.notifications.all,
+      });
+      markReadInCache(() => true);
+      queryClient.setQueryData<NotificationStats>(
+        queryKeys.notifications.stats(),
+        { unreadCount: 0 }
+      );
+    },
+    onSettled: () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all }),
+  });
+};
+
+export const useNotificationPreferences = () => {
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  return useQuery({
+    queryKey: queryKeys.notifications.preferences(),
+    queryFn: notificationService.getPreferences,
+    enabled: isAuthenticated,
+  });
+};
+
+// The server decides what gets delivered; the user store keeps a copy for
+// settings screens that read preferences offline
+export const useUpdateNotificationPreferences = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: notificationService.updatePreferences,
+    onMutate: async (changes: Partial<NotificationPreferences>) => {
+      const queryKey = queryKeys.notifications.preferences();
+      await queryClient.cancelQueries({ queryKey });
+      const previous =
+        queryClient.getQueryData<NotificationPreferences>(queryKey);
+      if (previous) {
+        queryClient.setQueryData(queryKey, { ...previous, ...changes });
+      }
+      return { previous };
+    },
+    onError: (_error, _changes, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(
+          queryKeys.notifications.preferences(),
+          context.previous
+        );
+      }
+    },
+    onSuccess: preferences => {
+      queryClient.setQueryData(
+        queryKeys.notifications.preferences(),
+        preferences
+      );
+      useUserStore.getState().updatePreferences('notifications', preferences);
+    },
+  });
+};
+
+// Registers this device for push notifications while signed in
+export const usePushRegistration = () => {
+  useEffect(() => startPushRegistration(), []);
+};
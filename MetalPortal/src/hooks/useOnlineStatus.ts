@@ -0,0 +1,7 @@
+// Connectivity state as seen by React Query
+
+import { useSyncExternalStore } from 'react';
+import { onlineManager } from '@tanstack/react-query';
+
+export const useIsOnline = () =>
+  useSyncExternalStore(onlineManager.subscribe, () => onlineManager.isOnline());
@@ -0,0 +1,132 @@
+// React Query hooks for posts
+
+import {
+  InfiniteData,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import { postService } from '../services/postService';
+import { mutationKeys, queryKeys } from '../services/queryClient';
+import { PaginatedResponse } from '../types/common';
+import {
+  Comment,
+  CreateCommentInput,
+  CreatePostInput,
+  Post,
+  PostFilter,
+  PostSort,
+  UpdatePostInput,
+} from '../types/post';
+import { PAGINATION } from '../utils/constants';
+
+export type PostPages = InfiniteData<PaginatedResponse<Post>, number>;
+
+const getNextPageParam = <T>(lastPage: PaginatedResponse<T>) =>
+  lastPage.pagination.hasNext ? lastPage.pagination.page + 1 : undefined;
+
+// Paginated feed; call fetchNextPage() while hasNextPage is true
+export const usePosts = (filter: PostFilter = {}, sort?: PostSort) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.posts.list({ filter, sort }),
+    queryFn: ({ pageParam }) =>
+      postService.list({ filter, sort, page: pageParam, limit: PAGINATION.DEFAULT_PAGE_SIZE }),
+    initialPageParam: 1,
+    getNextPageParam,
+  });
+
+export const usePost = (id: string) =>
+  useQuery({
+    queryKey: queryKeys.posts.detail(id),
+    queryFn: () => postService.get(id),
+    enabled: !!id,
+  });
+
+export const useSearchPosts = (query: string, filter: PostFilter = {}) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.posts.search(query, filter),
+    queryFn: ({ pageParam }) => postService.search(query, { filter, page: pageParam }),
+    initialPageParam: 1,
+    getNextPageParam,
+    enabled: query.trim().length > 0,
+  });
+
+export const usePostStats = () =>
+  useQuery({
+    queryKey: queryKeys.posts.stats(),
+    queryFn: postService.stats,
+  });
+
+export const usePostComments = (postId: string) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.posts.comments(postId),
+    queryFn: ({ pageParam }) => postService.getComments(postId, { page: pageParam }),
+    initialPageParam: 1,
+    getNextPageParam,
+    enabled: !!postId,
+  });
+
+export const usePostReactions = (postId: string) =>
+  useQuery({
+    queryKey: queryKeys.posts.reactions(postId),
+    queryFn: () => postService.getReactions(postId),
+    enabled: !!postId,
+  });
+
+export const useCreatePost = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: mutationKeys.posts.create,
+    mutationFn: (input: CreatePostInput) => postService.create(input),
+    onSuccess: post => {
+      queryClient.setQueryData(queryKeys.posts.detail(post.id), post);
+      queryClient.invalidateQueries({ queryKey: queryKeys.posts.lists() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.posts.stats() });
+    },
+  });
+};
+
+export const useUpdatePost = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: mutationKeys.posts.update,
+    mutationFn: ({ id, input }: { id: string; input: UpdatePostInput }) =>
+      postService.update(id, input),
+    onSuccess: post => {
+      queryClient.setQueryData(queryKeys.posts.detail(post.id), post);
+      queryClient.invalidateQueries({ queryKey: queryKeys.posts.lists() });
+    },
+  });
+};
+
+export const useDeletePost = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: mutationKeys.posts.delete,
+    mutationFn: (id: string) => postService.delete(id),
+    onSuccess: (_data, id) => {
+      queryClient.removeQueries({ queryKey: queryKeys.posts.detail(id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.posts.lists() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.posts.stats() });
+    },
+  });
+};
+
+export const useAddComment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: mutationKeys.posts.addComment,
+    mutationFn: (input: CreateCommentInput) => postService.addComment(input),
+    onSuccess: (comment: Comment) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.posts.comments(comment.postId) });
+      queryClient.setQueryData<Post>(queryKeys.posts.detail(comment.postId), post =>
+        post ? { ...post, commentCount: (post.commentCount ?? 0) + 1 } : post
+      );
+    },
+  });
+};
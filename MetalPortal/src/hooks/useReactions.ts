@@ -0,0 +1,158 @@
+// Optimistic reaction mutations for posts and comments
+
+import {
+  InfiniteData,
+  QueryClient,
+  useMutation,
+  UseMutationOptions,
+  useQueryClient,
+} from '@tanstack/react-query';
+import { postService } from '../services/postService';
+import { cacheUtils, mutationKeys, queryKeys } from '../services/queryClient';
+import { PaginatedResponse } from '../types/common';
+import {
+  Comment,
+  Post,
+  ReactionSummary,
+  ReactionTarget,
+  ReactionType,
+  SetReactionInput,
+} from '../types/post';
+
+type Reactable = Pick<Post, 'likeCount' | 'userReaction' | 'reactionCounts' | 'isLiked'>;
+type ReactableUpdater = <T extends Reactable>(item: T) => T;
+type Pages<T> = InfiniteData<PaginatedResponse<T>, number>;
+
+// Move the user's reaction to `type` (or drop it when null), adjusting totals
+const applyReaction =
+  (type: ReactionType | null): ReactableUpdater =>
+  item => {
+    const reactionCounts = { ...(item.reactionCounts || {}) };
+    let likeCount = item.likeCount;
+
+    if (item.userReaction) {
+      reactionCounts[item.userReaction] = Math.max(0, (reactionCounts[item.userReaction] ?? 0) - 1);
+      likeCount = Math.max(0, likeCount - 1);
+    }
+    if (type) {
+      reactionCounts[type] = (reactionCounts[type] ?? 0) + 1;
+      likeCount += 1;
+    }
+
+    return { ...item, likeCount, reactionCounts, userReaction: type ?? undefined, isLiked: !!type };
+  };
+
+// Replace the optimistic guess with what the server settled on
+const applySummary =
+  (summary: ReactionSummary): ReactableUpdater =>
+  item => ({
+    ...item,
+    likeCount: summary.likeCount,
+    reactionCounts: summary.reactionCounts,
+    userReaction: summary.userReaction,
+    isLiked: !!summary.userReaction,
+  });
+
+const mapPages = <T>(data: Pages<T> | undefined, update: (item: T) => T) =>
+  data && {
+    ...data,
+    pages: data.pages.map(page => ({ ...page, data: page.data.map(update) })),
+  };
+
+const mapCommentTree = (comment: Comment, commentId: string, update: ReactableUpdater): Comment => {
+  const updated = comment.id === commentId ? update(comment) : comment;
+  return updated.replies?.length
+    ? { ...updated, replies: updated.replies.map(reply => mapCommentTree(reply, commentId, update)) }
+    : updated;
+};
+
+// Apply an update to every cached copy of the target; returns a rollback
+const updateTargetInCache = (
+  queryClient: QueryClient,
+  target: ReactionTarget,
+  update: ReactableUpdater
+): (() => void) => {
+  const { postId } = target;
+
+  if (target.kind === 'post') {
+    const updatePost = (post: Post) => (post.id === postId ? update(post) : post);
+    const rollbacks = [
+      cacheUtils.optimisticUpdateAll<Pages<Post>>(
+        queryKeys.posts.lists(),
+        data => mapPages(data, updatePost),
+        queryClient
+      ),
+      cacheUtils.optimisticUpdate<Post | undefined>(
+        queryKeys.posts.detail(postId),
+        post => post && updatePost(post),
+        queryClient
+      ),
+    ];
+    return () => rollbacks.forEach(rollback => rollback());
+  }
+
+  const updateComment = (comment: Comment) => mapCommentTree(comment, target.commentId, update);
+  const rollbacks = [
+    cacheUtils.optimisticUpdateAll<Pages<Comment>>(
+      queryKeys.posts.comments(postId),
+      data => mapPages(data, updateComment),
+      queryClient
+    ),
+    cacheUtils.optimisticUpdate<Post | undefined>(
+      queryKeys.posts.detail(postId),
+      post => post && { ...post, comments: post.comments.map(updateComment) },
+      queryClient
+    ),
+  ];
+  return () => rollbacks.forEach(rollback => rollback());
+};
+
+const cancelTargetQueries = (queryClient: QueryClient, target: ReactionTarget) =>
+  Promise.all([
+    queryClient.cancelQueries({ queryKey: queryKeys.posts.lists() }),
+    queryClient.cancelQueries({ queryKey: queryKeys.posts.detail(target.postId) }),
+  ]);
+
+// The reaction mutation; shared by the hooks below and usable without React
+export const reactionMutationOptions = (
+  queryClient: QueryClient
+): UseMutationOptions<ReactionSummary, Error, SetReactionInput, { rollback: () => void }> => ({
+  mutationKey: mutationKeys.posts.setReaction,
+  mutationFn: postService.setReaction,
+  // Reaction changes run one at a time, in tap order, so a rollback never
+  // clobbers a later optimistic update
+  scope: { id: 'reactions' },
+  onMutate: async ({ target, type }: SetReactionInput) => {
+    await cancelTargetQueries(queryClient, target);
+    return { rollback: updateTargetInCache(queryClient, target, applyReaction(type)) };
+  },
+  onError: (_error, _variables, context) => {
+    context?.rollback();
+  },
+  onSuccess: (summary, { target }) => {
+    updateTargetInCache(queryClient, target, applySummary(summary));
+  },
+  onSettled: (_data, _error, { target }) => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.posts.reactions(target.postId) });
+  },
+});
+
+const useReactionMutation = () => useMutation(reactionMutationOptions(useQueryClient()));
+
+// Set the user's reaction on a post or comment, replacing any other type
+export const useReact = () => {
+  const mutation = useReactionMutation();
+  return {
+    ...mutation,
+    react: (target: ReactionTarget, type: ReactionType) => mutation.mutate({ target, type }),
+  };
+};
+
+// Remove the user's reaction (e.g. when they tap the reaction they already have)
+export const useUnreact = () => {
+  const mutation = useReactionMutation();
+  return {
+    ...mutation,
+    unreact: (target: ReactionTarget) => mutation.mutate({ target, type: null }),
+  };
+};
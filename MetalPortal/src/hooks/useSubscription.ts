@@ -0,0 +1,104 @@
+// React Query hooks for subscription plans and billing
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { refreshAccessToken } from '../services/api';
+import { queryKeys } from '../services/queryClient';
+import { subscriptionService } from '../services/subscriptionService';
+import { useAuthStore } from '../store/authStore';
+import { SubscriptionTier } from '../types/auth';
+import {
+  BillingCurrency,
+  BillingInterval,
+  Subscription,
+} from '../types/subscription';
+
+export const useSubscriptionPlans = (currency?: BillingCurrency) =>
+  useQuery({
+    queryKey: queryKeys.subscriptions.plans(currency),
+    queryFn: () => subscriptionService.getPlans(currency),
+    staleTime: 1000 * 60 * 60, // 1 hour
+  });
+
+// Checks a promo code as it is typed at checkout; an invalid code shows up as
+// the query's error
+export const usePromoCodePreview = (
+  code: string,
+  plan: {
+    tier?: SubscriptionTier;
+    interval?: BillingInterval;
+    currency?: BillingCurrency;
+  } = {}
+) => {
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const trimmed = code.trim();
+  return useQuery({
+    queryKey: queryKeys.subscriptions.promoCode(trimmed, plan),
+    queryFn: () => subscriptionService.previewPromoCode(trimmed, plan),
+    enabled: isAuthenticated && trimmed.length > 0,
+    retry: false,
+  });
+};
+
+export const useCurrentSubscription = () => {
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  return useQuery({
+    queryKey: queryKeys.subscriptions.current(),
+    queryFn: subscriptionService.getCurrent,
+    enabled: isAuthenticated,
+  });
+};
+
+export const useSubscriptionHistory = () => {
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  return useQuery({
+    queryKey: queryKeys.subscriptions.history(),
+    queryFn: subscriptionService.getHistory,
+    enabled: isAuthenticated,
+  });
+};
+
+// Shared by every billing mutation: cache the new subscription, then pick up
+// the role and tier the server granted, which also unlocks gated content
+const useApplySubscription = () => {
+  const queryClient = useQueryClient();
+
+  return async (subscription: Subscription) => {
+    queryClient.setQueryData(queryKeys.subscriptions.current(), subscription);
+    queryClient.invalidateQueries({
+      queryKey: queryKeys.subscriptions.history(),
+    });
+
+    // Tokens carry the role and tier, so refresh them rather than patching
+    // the user locally
+    await refreshAccessToken().catch(() => undefined);
+    queryClient.invalidateQueries({ queryKey: queryKeys.posts.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.chat.all });
+  };
+};
+
+export const useSubscribe = () => {
+  const applySubscription = useApplySubscription();
+
+  return useMutation({
+    mutationFn: subscriptionService.subscribe,
+    onSuccess: applySubscription,
+  });
+};
+
+export const useChangePlan = () => {
+  const applySubscription = useApplySubscription();
+
+  return useMutation({
+    mutationFn: subscriptionService.changePlan,
+    onSuccess: result => applySubscription(result.subscription),
+  });
+};
+
+export const useCancelSubscription = () => {
+  const applySubscription = useApplySubscription();
+
+  return useMutation({
+    mutationFn: subscriptionService.cancel,
+    onSuccess: applySubscription,
+  });
+};
@@ -0,0 +1,8 @@
+// Keeps the access token renewed while the app is mounted
+
+import { useEffect } from 'react';
+import { startTokenRefreshScheduler } from '../services/tokenRefreshScheduler';
+
+export const useTokenRefresh = () => {
+  useEffect(() => startTokenRefreshScheduler(), []);
+};
@@ -0,0 +1,23 @@
+// Upload queue state and actions for screens
+
+import { useEffect } from 'react';
+import { startUploadQueue, uploadQueue } from '../services/uploadQueue';
+import { useUploadQueueStore } from '../store/uploadQueueStore';
+
+export const useUploadQueue = () => {
+  const jobs = useUploadQueueStore(state => state.jobs);
+  const clearCompleted = useUploadQueueStore(state => state.clearCompleted);
+
+  return {
+    jobs,
+    enqueue: uploadQueue.enqueue,
+    retry: uploadQueue.retry,
+    cancel: uploadQueue.cancel,
+    clearCompleted,
+  };
+};
+
+// Runs the queue while the app is mounted
+export const useUploadQueueRunner = () => {
+  useEffect(() => startUploadQueue(), []);
+};
@@ -0,0 +1,156 @@
+import { useOutboxStore } from '../../store/outboxStore';
+import { MessageType } from '../../types/chat';
+import { RealtimeConnectionStatus } from '../../types/realtime';
+import { outbox, startOutbox } from '../outbox';
+import { realtimeClient } from '../realtimeClient';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../realtimeClient', () => {
+  const listeners = new Set<(status: string) => void>();
+  let status = 'disconnected';
+  return {
+    realtimeClient: {
+      getStatus: () => status,
+      onStatusChange: (listener: (status: string) => void) => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      sendMessage: jest.fn(),
+      sendDirectMessage: jest.fn(),
+      // Test helper: what the socket reports as it connects and drops
+      setStatus: (next: string) => {
+        status = next;
+        listeners.forEach(listener => listener(next));
+      },
+    },
+  };
+});
+
+const client = realtimeClient as jest.Mocked<typeof realtimeClient> & {
+  setStatus: (status: RealtimeConnectionStatus) => void;
+};
+
+const items = () => useOutboxStore.getState().items;
+
+// Lets a flush run through its deliveries
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const say = (content: string) =>
+  outbox.sendRoomMessage({ roomId: 'room-1', content, type: MessageType.TEXT });
+
+const networkError = { message: 'Network error', statusCode: 0 };
+
+describe('outbox', () => {
+  let stop: () => void;
+
+  beforeEach(async () => {
+    client.setStatus('disconnected');
+    useOutboxStore.getState().reset();
+    client.sendMessage.mockReset().mockResolvedValue({} as never);
+    client.sendDirectMessage.mockReset().mockResolvedValue({} as never);
+    stop = startOutbox();
+    await settle();
+  });
+
+  afterEach(() => stop());
+
+  it('keeps messages while offline and replays them in order on reconnect', async () => {
+    const first = say('First');
+    const second = say('Second');
+    const direct = outbox.sendDirectMessage({
+      receiverId: 'user-2',
+      content: 'Hi',
+      type: MessageType.TEXT,
+    });
+    await settle();
+    expect(client.sendMessage).not.toHaveBeenCalled();
+    expect(items().map(item => item.status)).toEqual([
+      'pending',
+      'pending',
+      'pending',
+    ]);
+
+    client.setStatus('connected');
+    await settle();
+    expect(client.sendMessage.mock.calls.map(([input]) => input)).toEqual([
+      expect.objectContaining({ content: 'First', clientId: first }),
+      expect.objectContaining({ content: 'Second', clientId: second }),
+    ]);
+    expect(client.sendDirectMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ content: 'Hi', clientId: direct })
+    );
+    expect(items()).toEqual([]);
+  });
+
+  it('stops at a network failure and resends under the same client id', async () => {
+    client.setStatus('connected');
+    client.sendMessage.mockRejectedValueOnce(networkError);
+    const first = say('First');
+    const second = say('Second');
+    await settle();
+    expect(client.sendMessage).toHaveBeenCalledTimes(1);
+    expect(items()).toEqual([
+      expect.objectContaining({
+        clientId: first,
+        status: 'pending',
+        attempts: 1,
+      }),
+      expect.objectContaining({
+        clientId: second,
+        status: 'pending',
+        attempts: 0,
+      }),
+    ]);
+
+    client.setStatus('disconnected');
+    client.setStatus('connected');
+    await settle();
+    expect(
+      client.sendMessage.mock.calls.map(([input]) => input.clientId)
+    ).toEqual([first, first, second]);
+    expect(items()).toEqual([]);
+  });
+
+  it('marks a rejected message failed and carries on with the rest', async () => {
+    client.setStatus('connected');
+    client.sendMessage.mockRejectedValueOnce({
+      message: 'You are muted',
+      statusCode: 403,
+    });
+    const rejected = say('First');
+    say('Second');
+    await settle();
+    expect(items()).toEqual([
+      expect.objectContaining({
+        clientId: rejected,
+        status: 'failed',
+        error: 'You are muted',
+      }),
+    ]);
+
+    outbox.retry(rejected);
+    await settle();
+    expect(client.sendMessage).toHaveBeenLastCalledWith(
+      expect.objectContaining({ clientId: rejected })
+    );
+    expect(items()).toEqual([]);
+  });
+
+  it('discards only failed messages', async () => {
+    client.setStatus('connected');
+    client.sendMessage.mockRejectedValueOnce({
+      message: 'No',
+      statusCode: 400,
+    });
+    const rejected = say('First');
+    await settle();
+    client.setStatus('disconnected');
+    const queued = say('Second');
+
+    outbox.discard(queued);
+    outbox.discard(rejected);
+    expect(items().map(item => item.clientId)).toEqual([queued]);
+  });
+});
@@ -0,0 +1,103 @@
+import { Post, PostType, ReactionType } from '../../types/post';
+import { apiClient } from '../api';
+import { postService } from '../postService';
+
+jest.mock('../../store/authStore', () => ({ useAuthStore: {} }));
+jest.mock('../api', () => ({
+  ...jest.requireActual('../api'),
+  apiClient: {
+    get: jest.fn(),
+    post: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+const api = apiClient as jest.Mocked<typeof apiClient>;
+
+// A post as it arrives over JSON, with its dates as strings
+const wirePost = {
+  id: 'post-1',
+  title: 'Tour dates announced',
+  type: PostType.ANNOUNCEMENT,
+  publishedAt: '2026-03-01T12:00:00.000Z',
+  createdAt: '2026-02-28T09:00:00.000Z',
+  updatedAt: '2026-03-01T12:00:00.000Z',
+} as unknown as Post;
+
+const summary = {
+  targetId: 'post-1',
+  likeCount: 1,
+  reactionCounts: { [ReactionType.LIKE]: 1 },
+};
+
+describe('postService', () => {
+  beforeEach(() => jest.resetAllMocks());
+
+  it('sends filters as query parameters and parses the page', async () => {
+    api.get.mockResolvedValue({
+      success: true,
+      data: [wirePost],
+      meta: { page: 1, limit: 1, total: 3, pages: 3 },
+    });
+
+    const page = await postService.list({
+      filter: {
+        tags: ['tour', 'europe'],
+        dateFrom: new Date('2026-01-01T00:00:00.000Z'),
+      },
+      sort: { field: 'publishedAt', order: 'desc' },
+      limit: 1,
+    });
+    expect(api.get).toHaveBeenCalledWith(
+      '/posts',
+      expect.objectContaining({
+        tags: 'tour,europe',
+        dateFrom: '2026-01-01T00:00:00.000Z',
+        sort: 'publishedAt',
+        order: 'desc',
+        page: 1,
+        limit: 1,
+      })
+    );
+    expect(page.pagination).toEqual(
+      expect.objectContaining({ hasNext: true, hasPrev: false })
+    );
+    expect(page.data[0]).toEqual(
+      expect.objectContaining({
+        publishedAt: new Date('2026-03-01T12:00:00.000Z'),
+        createdAt: new Date('2026-02-28T09:00:00.000Z'),
+        comments: [],
+        reactions: [],
+      })
+    );
+  });
+
+  it('throws when the server answers without a post', async () => {
+    api.get.mockResolvedValue({ success: false, message: 'Post not found' });
+
+    await expect(postService.get('missing')).rejects.toThrow('Post not found');
+  });
+
+  it('sends each reaction change to the endpoint of its target', async () => {
+    api.post.mockResolvedValue({ success: true, data: summary });
+    api.delete.mockResolvedValue({ success: true, data: summary });
+
+    await postService.setReaction({
+      target: { kind: 'post', postId: 'post-1' },
+      type: ReactionType.FIRE,
+    });
+    await postService.setReaction({
+      target: { kind: 'post', postId: 'post-1' },
+      type: null,
+    });
+    await postService.setReaction({
+      target: { kind: 'comment', commentId: 'comment-1', postId: 'post-1' },
+      type: ReactionType.LIKE,
+    });
+    expect(api.post.mock.calls).toEqual([
+      ['/posts/post-1/reactions', { type: ReactionType.FIRE }],
+      ['/comments/comment-1/reactions', { type: ReactionType.LIKE }],
+    ]);
+    expect(api.delete).toHaveBeenCalledWith('/posts/post-1/reactions');
+  });
+});
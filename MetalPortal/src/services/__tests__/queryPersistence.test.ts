@@ -0,0 +1,100 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { dehydrate, DehydratedState, hydrate } from '@tanstack/react-query';
+import { useAuthStore } from '../../store/authStore';
+import { CreateCommentInput } from '../../types/post';
+import { QUERY_CACHE_CONFIG } from '../../utils/constants';
+import { postService } from '../postService';
+import { mutationKeys, queryClient, queryKeys } from '../queryClient';
+import {
+  configureOfflineMode,
+  persistOptions,
+  resumeOfflineMutations,
+} from '../queryPersistence';
+
+jest.mock('react-native', () => ({
+  AppState: { addEventListener: () => ({ remove: () => undefined }) },
+}));
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: () => () => undefined,
+}));
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../../store/authStore', () => ({
+  useAuthStore: require('zustand').create(() => ({ isAuthenticated: true })),
+}));
+jest.mock('../postService', () => ({
+  postService: { addComment: jest.fn() },
+}));
+
+const persistedKeys = () =>
+  dehydrate(queryClient, persistOptions.dehydrateOptions).queries.map(
+    query => query.queryKey
+  );
+
+// A comment added offline, as the persister stored it before the app closed
+const queuedComment = (input: CreateCommentInput): DehydratedState => ({
+  queries: [],
+  mutations: [
+    {
+      mutationKey: mutationKeys.posts.addComment,
+      state: {
+        context: undefined,
+        data: undefined,
+        error: null,
+        failureCount: 0,
+        failureReason: null,
+        isPaused: true,
+        status: 'pending',
+        variables: input,
+        submittedAt: Date.now(),
+      },
+    },
+  ],
+});
+
+describe('offline mode', () => {
+  beforeAll(() => configureOfflineMode());
+
+  beforeEach(() => {
+    queryClient.clear();
+    useAuthStore.setState({ isAuthenticated: true });
+  });
+
+  afterAll(() => queryClient.clear());
+
+  it('persists only the opted-in queries', () => {
+    queryClient.setQueryData(queryKeys.posts.list({}), { pages: [] });
+    queryClient.setQueryData(queryKeys.events.list({}), { pages: [] });
+    queryClient.setQueryData(queryKeys.chat.rooms.list({}), []);
+
+    expect(persistedKeys()).toEqual([
+      queryKeys.posts.list({}),
+      queryKeys.events.list({}),
+    ]);
+  });
+
+  it('resumes a comment queued before a restart', async () => {
+    const input = { postId: 'post-1', content: 'See you at the show' };
+    (postService.addComment as jest.Mock).mockResolvedValue({ id: 'c-1' });
+    hydrate(queryClient, queuedComment(input));
+
+    await resumeOfflineMutations();
+    expect(postService.addComment).toHaveBeenCalledWith(input);
+    expect(queryClient.getMutationCache().getAll()).toEqual([
+      expect.objectContaining({
+        state: expect.objectContaining({ status: 'success' }),
+      }),
+    ]);
+  });
+
+  it('clears the cache when the user signs out', () => {
+    queryClient.setQueryData(queryKeys.posts.list({}), { pages: [] });
+
+    useAuthStore.setState({ isAuthenticated: false });
+    expect(queryClient.getQueryCache().getAll()).toEqual([]);
+    expect(AsyncStorage.removeItem).toHaveBeenCalledWith(
+      QUERY_CACHE_CONFIG.STORAGE_KEY
+    );
+  });
+});
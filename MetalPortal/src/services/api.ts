@@ -1,7 +1,18 @@
 // API client service
 
 import { useAuthStore } from '../store/authStore';
-import { ApiResponse, ApiError, RequestOptions } from '../types/api';
+import {
+  ApiResponse,
+  ApiEndpoints,
+  ApiError,
+  ApiHooks,
+  RequestConfig,
+  RequestOptions,
+  UploadOptions,
+} from '../types/api';
+import { FileUpload, PaginatedResponse } from '../types/common';
+import { DEBUG, ERROR_MESSAGES } from '../utils/constants';
+import { validateFile } from '../utils/validation';
 
 // API configuration
 const API_CONFIG = {
@@ -9,6 +20,7 @@ const API_CONFIG = {
   timeout: 30000, // 30 seconds
   retries: 3,
   retryDelay: 1000,
+  uploadTimeout: 10 * 60 * 1000, // 10 minutes, enough for a 100MB video on a slow link
 };
 
 // Request interceptor to add authentication headers
@@ -23,24 +35,63 @@ const addAuthHeaders = (headers: Record<string, string> = {}): Record<string, st
   return headers;
 };
 
-// Response interceptor to handle authentication errors
-const handleAuthErrors = async (response: Response): Promise<Response> => {
-  if (response.status === 401) {
-    const authStore = useAuthStore.getState();
-    
-    // Try to refresh the token
-    try {
-      await authStore.refreshToken();
-      // Return original response for retry logic to handle
-      return response;
-    } catch (error) {
-      // If refresh fails, logout user
-      authStore.logout();
+// Token refresh coordinator: every request that hits a 401 waits on the same
+// in-flight refresh instead of starting its own
+let refreshInFlight: Promise<string> | null = null;
+
+export const refreshAccessToken = (failedToken?: string): Promise<string> => {
+  const currentToken = useAuthStore.getState().tokens?.accessToken;
+
+  // Another request already refreshed after this one was sent
+  if (failedToken && currentToken && currentToken !== failedToken) {
+    return Promise.resolve(currentToken);
+  }
+
+  if (!refreshInFlight) {
+    refreshInFlight = useAuthStore
+      .getState()
+      .refreshToken()
+      .then(() => {
+        const accessToken = useAuthStore.getState().tokens?.accessToken;
+        if (!accessToken) {
+          throw new Error('Authentication failed');
+        }
+        return accessToken;
+      })
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+
+  return refreshInFlight;
+};
+
+// Response interceptor: refresh once on a 401 and replay the original request
+const handleAuthErrors = async (
+  response: Response,
+  url: string,
+  requestConfig: RequestInit,
+  headers: Record<string, string>
+): Promise<Response> => {
+  if (response.status !== 401) {
+    return response;
+  }
+
+  const failedToken = headers['Authorization']?.replace('Bearer ', '');
+
+  let accessToken: string;
+  try {
+    accessToken = await refreshAccessToken(failedToken);
+  } catch (error) {
+    // A rejected refresh has already logged the user out
+    if (!useAuthStore.getState().isAuthenticated) {
       throw new Error('Authentication failed');
     }
+    throw error;
   }
-  
-  return response;
+
+  headers['Authorization'] = `Bearer ${accessToken}`;
+  return fetch(url, { ...requestConfig, headers });
 };
 
 // Utility function to build URL with query parameters
@@ -59,10 +110,146 @@ const buildURL = (url: string, params?: Record<string, any>): string => {
   return urlObj.toString();
 };
 
+// Upload helpers
+type UploadSource = FileUpload | File | FormData;
+
+const isFormData = (file: UploadSource): file is FormData =>
+  typeof FormData !== 'undefined' && file instanceof FormData;
+
+const toFormData = (file: FileUpload | File): FormData => {
+  const formData = new FormData();
+  if ('uri' in file) {
+    // React Native reads the file from its URI when the form is sent
+    formData.append('file', { uri: file.uri, name: file.name, type: file.type } as any);
+  } else {
+    formData.append('file', file);
+  }
+  return formData;
+};
+
+// fetch() cannot report upload progress, so multipart bodies go through XMLHttpRequest
+const sendMultipart = (
+  config: RequestConfig,
+  options: UploadOptions
+): Promise<{ status: number; body: any }> =>
+  new Promise((resolve, reject) => {
+    const { onProgress, signal } = options;
+
+    if (signal?.aborted) {
+      reject({ message: 'Upload cancelled', statusCode: 0, error: 'ABORTED' } as ApiError);
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(config.method, config.url);
+    Object.entries(config.headers || {}).forEach(([key, value]) => {
+      xhr.setRequestHeader(key, value);
+    });
+    xhr.timeout = config.timeout ?? 0;
+
+    xhr.upload.onprogress = event => {
+      if (onProgress && event.lengthComputable) {
+        onProgress({
+          loaded: event.loaded,
+          total: event.total,
+          percent: Math.round((event.loaded / event.total) * 100),
+        });
+      }
+    };
+
+    const abort = () => xhr.abort();
+    signal?.addEventListener('abort', abort);
+    const cleanup = () => signal?.removeEventListener('abort', abort);
+
+    xhr.onload = () => {
+      cleanup();
+      let body: any = null;
+      try {
+        body = xhr.responseText ? JSON.parse(xhr.responseText) : null;
+      } catch {
+        body = xhr.responseText;
+      }
+      resolve({ status: xhr.status, body });
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject({ message: ERROR_MESSAGES.NETWORK_ERROR, statusCode: 0, error: 'NETWORK_ERROR' } as ApiError);
+    };
+    xhr.ontimeout = () => {
+      cleanup();
+      reject({ message: 'Upload timed out', statusCode: 0, error: 'TIMEOUT' } as ApiError);
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject({ message: 'Upload cancelled', statusCode: 0, error: 'ABORTED' } as ApiError);
+    };
+
+    xhr.send(config.data);
+  });
+
+// Normalize anything thrown during a request (network failures, aborts) into an ApiError
+const toApiError = (error: any): ApiError => {
+  if (typeof error?.statusCode === 'number') {
+    return error as ApiError;
+  }
+  if (error instanceof Error && error.message === 'Authentication failed') {
+    return { message: error.message, statusCode: 401, error: 'UNAUTHORIZED' };
+  }
+  return {
+    message: error?.message || ERROR_MESSAGES.NETWORK_ERROR,
+    statusCode: 0,
+    error: error?.name === 'TimeoutError' ? 'TIMEOUT' : 'NETWORK_ERROR',
+  };
+};
+
+// Default retry policy: network and server errors are retried, client errors are not
+const shouldRetryByDefault = (error: ApiError): boolean =>
+  !(error.statusCode >= 400 && error.statusCode < 500);
+
 // Main API client class
 class ApiClient {
+  private hooks: ApiHooks[] = [];
+
+  // Register interceptors; they run in registration order. Returns an unregister function.
+  use(hooks: ApiHooks): () => void {
+    this.hooks.push(hooks);
+    return () => {
+      this.hooks = this.hooks.filter(registered => registered !== hooks);
+    };
+  }
+
+  private runRequestHooks(config: RequestConfig): RequestConfig {
+    return this.hooks.reduce(
+      (current, hooks) => (hooks.onRequest ? hooks.onRequest(current) : current),
+      config
+    );
+  }
+
+  private runResponseHooks<T>(response: ApiResponse<T>): ApiResponse<T> {
+    return this.hooks.reduce(
+      (current, hooks) => (hooks.onResponse ? hooks.onResponse(current) : current),
+      response
+    );
+  }
+
+  private runErrorHooks(error: ApiError): ApiError {
+    return this.hooks.reduce(
+      (current, hooks) => (hooks.onError ? hooks.onError(current) : current),
+      error
+    );
+  }
+
+  // Registered onRetry hooks replace the default policy; every one of them must agree
+  private shouldRetry(error: ApiError, attempt: number): boolean {
+    const retryHooks = this.hooks.filter(hooks => hooks.onRetry);
+    if (retryHooks.length === 0) {
+      return shouldRetryByDefault(error);
+    }
+    return retryHooks.every(hooks => hooks.onRetry!(error, attempt));
+  }
+
   private async request<T>(
-    method: string,
+    method: RequestConfig['method'],
     url: string,
     data?: any,
     options: RequestOptions = {}
@@ -86,29 +273,40 @@ class ApiClient {
       headers = addAuthHeaders(headers);
     }
 
+    // Let interceptors adjust the request before it is sent
+    const config = this.runRequestHooks({ method, url, data, headers, timeout });
+
     // Build request configuration
     const requestConfig: RequestInit = {
-      method,
-      headers,
-      signal: AbortSignal.timeout(timeout),
+      method: config.method,
+      headers: config.headers,
+      signal: AbortSignal.timeout(config.timeout ?? timeout),
     };
 
     // Add body for POST, PUT, PATCH requests
-    if (data && ['POST', 'PUT', 'PATCH'].includes(method)) {
+    if (config.data && ['POST', 'PUT', 'PATCH'].includes(config.method)) {
       requestConfig.body = contentType === 'application/json' 
-        ? JSON.stringify(data) 
-        : data;
+        ? JSON.stringify(config.data) 
+        : config.data;
     }
 
     // Retry logic
-    let lastError: any;
+    let lastError: ApiError | undefined;
     
     for (let attempt = 0; attempt <= retries; attempt++) {
       try {
-        const response = await fetch(url, requestConfig);
+        let response = await fetch(config.url, requestConfig);
         
-        // Handle authentication errors
-        await handleAuthErrors(response);
+        // Handle authentication errors (unauthenticated calls such as login
+        // and refresh report their own 401s)
+        if (!skipAuth) {
+          response = await handleAuthErrors(
+            response,
+            config.url,
+            requestConfig,
+            config.headers || {}
+          );
+        }
         
         // Parse response based on type
         let responseData: any;
@@ -133,34 +331,32 @@ class ApiClient {
         }
 
         // Return successful response
-        return {
+        return this.runResponseHooks<T>({
           success: true,
           data: responseData?.data || responseData,
           message: responseData?.message,
           meta: responseData?.meta,
-        };
+        });
 
       } catch (error) {
-        lastError = error;
+        lastError = toApiError(error);
         
-        // Don't retry on authentication errors or client errors (4xx)
+        // Don't retry once the session is gone
         if (error instanceof Error && error.message === 'Authentication failed') {
-          throw error;
+          break;
         }
         
-        if (lastError?.statusCode && lastError.statusCode >= 400 && lastError.statusCode < 500) {
+        if (attempt >= retries || !this.shouldRetry(lastError, attempt + 1)) {
           break;
         }
 
-        // Wait before retrying (except on last attempt)
-        if (attempt < retries) {
-          await new Promise(resolve => setTimeout(resolve, retryDelay * (attempt + 1)));
-        }
+        // Wait before retrying
+        await new Promise(resolve => setTimeout(resolve, retryDelay * (attempt + 1)));
       }
     }
 
     // If all retries failed, throw the last error
-    throw lastError;
+    throw this.runErrorHooks(lastError!);
   }
 
   // GET request
@@ -212,30 +408,125 @@ class ApiClient {
     return this.request<T>('DELETE', fullURL, undefined, options);
   }
 
-  // File upload
+  // File upload (multipart). The runtime sets the multipart boundary, so no
+  // Content-Type header is sent from here.
   async upload<T = any>(
     url: string, 
-    file: File | FormData, 
-    options: RequestOptions = {}
+    file: UploadSource, 
+    options: UploadOptions = {}
   ): Promise<ApiResponse<T>> {
-    const uploadOptions = {
-      ...options,
-      contentType: 'multipart/form-data',
-    };
-    
-    const formData = file instanceof FormData ? file : new FormData();
-    if (!(file instanceof FormData)) {
-      formData.append('file', file);
+    const { skipAuth = false, fileType } = options;
+
+    // Reject invalid files before any bytes go over the wire
+    if (fileType && !isFormData(file)) {
+      const validation = validateFile(file, fileType);
+      if (!validation.isValid) {
+        throw this.runErrorHooks({
+          message: validation.error || ERROR_MESSAGES.INVALID_FILE_TYPE,
+          statusCode: 0,
+          error: 'VALIDATION_ERROR',
+        });
+      }
+    }
+
+    const formData = isFormData(file) ? file : toFormData(file);
+
+    let headers: Record<string, string> = {};
+    if (!skipAuth) {
+      headers = addAuthHeaders(headers);
+    }
+
+    const config = this.runRequestHooks({
+      method: 'POST',
+      url: buildURL(url),
+      data: formData,
+      headers,
+      timeout: options.timeout ?? API_CONFIG.uploadTimeout,
+    });
+
+    try {
+      let result = await sendMultipart(config, options);
+
+      // Refresh once and replay on 401, mirroring request()
+      if (result.status === 401 && !skipAuth) {
+        const failedToken = config.headers?.['Authorization']?.replace('Bearer ', '');
+        const accessToken = await refreshAccessToken(failedToken);
+        config.headers = { ...config.headers, Authorization: `Bearer ${accessToken}` };
+        result = await sendMultipart(config, options);
+      }
+
+      const responseData = result.body;
+      if (result.status < 200 || result.status >= 300) {
+        const error: ApiError = {
+          message: responseData?.message || `HTTP ${result.status}`,
+          statusCode: result.status,
+          error: responseData?.error,
+          details: responseData,
+        };
+        throw error;
+      }
+
+      return this.runResponseHooks<T>({
+        success: true,
+        data: responseData?.data || responseData,
+        message: responseData?.message,
+        meta: responseData?.meta,
+      });
+    } catch (error) {
+      throw this.runErrorHooks(toApiError(error));
     }
-    
-    const fullURL = buildURL(url);
-    return this.request<T>('POST', fullURL, formData, uploadOptions);
   }
 }
 
 // Create and export API client instance
 export const apiClient = new ApiClient();
 
+// Log API traffic in development builds
+if (DEBUG.LOG_API_REQUESTS) {
+  apiClient.use({
+    onRequest: config => {
+      console.log(`[api] ${config.method} ${config.url}`);
+      return config;
+    },
+    onError: error => {
+      console.warn(`[api] ${error.statusCode} ${error.message}`);
+      return error;
+    },
+  });
+}
+
+// Turn a list response into a page, falling back to sensible pagination values
+export const toPaginated = <T>(
+  response: ApiResponse<T[]>,
+  parse: (item: T) => T = item => item
+): PaginatedResponse<T> => {
+  const data = (response.data || []).map(parse);
+  const page = response.meta?.page ?? 1;
+  const limit = response.meta?.limit ?? data.length;
+  const total = response.meta?.total ?? data.length;
+  const pages = response.meta?.pages ?? (limit ? Math.ceil(total / limit) : 1);
+
+  return {
+    data,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages,
+      hasNext: response.meta?.hasNext ?? page < pages,
+      hasPrev: response.meta?.hasPrev ?? page > 1,
+    },
+  };
+};
+
+// Unwrap the data payload of a response, failing if the server returned none
+export const unwrapResponse = <T>(response: ApiResponse<T>): T => {
+  if (response.data === undefined || response.data === null) {
+    throw new Error(response.message || 'Empty response from server');
+  }
+  return response.data;
+};
+
 // Export API endpoints configuration
 export const API_ENDPOINTS = {
   // Authentication
@@ -274,11 +565,28 @@ export const API_ENDPOINTS = {
     reactions: (id: string) => `/posts/${id}/reactions`,
   },
   
+  // Post comments
+  comments: {
+    reactions: (id: string) => `/comments/${id}/reactions`,
+  },
+  
   // Forum
   forum: {
     categories: '/forum/categories',
+    category: (idOrSlug: string) => `/forum/categories/${idOrSlug}`,
     posts: '/forum/posts',
+    post: (id: string) => `/forum/posts/${id}`,
+    postComments: (id: string) => `/forum/posts/${id}/comments`,
     comments: '/forum/comments',
+    comment: (id: string) => `/forum/comments/${id}`,
+    commentReplies: (id: string) => `/forum/comments/${id}/replies`,
+    pinPost: (id: string) => `/forum/posts/${id}/pin`,
+    unpinPost: (id: string) => `/forum/posts/${id}/unpin`,
+    lockPost: (id: string) => `/forum/posts/${id}/lock`,
+    unlockPost: (id: string) => `/forum/posts/${id}/unlock`,
+    movePost: (id: string) => `/forum/posts/${id}/move`,
+    mergePosts: (id: string) => `/forum/posts/${id}/merge`,
+    splitThread: (commentId: string) => `/forum/comments/${commentId}/split`,
     search: '/forum/search',
     stats: '/forum/stats',
   },
@@ -288,6 +596,7 @@ export const API_ENDPOINTS = {
     rooms: '/chat/rooms',
     messages: '/chat/messages',
     conversations: '/chat/conversations',
+    conversationMessages: (userId: string) => `/chat/conversations/${userId}/messages`,
     search: '/chat/search',
     stats: '/chat/stats',
   },
@@ -313,6 +622,36 @@ export const API_ENDPOINTS = {
     markAllRead: '/notifications/read-all',
     preferences: '/notifications/preferences',
     stats: '/notifications/stats',
+    devices: '/notifications/devices',
+  },
+  
+  // Reports
+  reports: {
+    create: '/reports',
+  },
+  
+  // Moderation
+  moderation: {
+    log: '/moderation/log',
+    reports: '/moderation/reports',
+    report: (id: string) => `/moderation/reports/${id}`,
+    assignReport: (id: string) => `/moderation/reports/${id}/assign`,
+    resolveReport: (id: string) => `/moderation/reports/${id}/resolve`,
+    dismissReport: (id: string) => `/moderation/reports/${id}/dismiss`,
+    bulkReports: '/moderation/reports/bulk',
+    userSanctions: (userId: string) => `/moderation/users/${userId}/sanctions`,
+    liftSanction: (id: string) => `/moderation/sanctions/${id}/lift`,
+    appeals: '/moderation/appeals',
+    acceptAppeal: (id: string) => `/moderation/appeals/${id}/accept`,
+    rejectAppeal: (id: string) => `/moderation/appeals/${id}/reject`,
+    contentFilter: '/moderation/content-filter',
+    contentFilterTest: '/moderation/content-filter/test',
+  },
+  
+  // Sanctions
+  sanctions: {
+    mine: '/sanctions',
+    appeal: (id: string) => `/sanctions/${id}/appeal`,
   },
   
   // File Upload
@@ -321,6 +660,10 @@ export const API_ENDPOINTS = {
     video: '/upload/video',
     audio: '/upload/audio',
     file: '/upload/file',
+    sessions: '/upload/sessions',
+    session: (id: string) => `/upload/sessions/${id}`,
+    chunk: (id: string, index: number) => `/upload/sessions/${id}/chunks/${index}`,
+    complete: (id: string) => `/upload/sessions/${id}/complete`,
   },
   
   // Subscription
@@ -331,5 +674,7 @@ export const API_ENDPOINTS = {
     update: '/subscription/update',
     cancel: '/subscription/cancel',
     history: '/subscription/history',
+    promoCodes: '/subscription/promo-codes',
+    promoCode: (code: string) => `/subscription/promo-codes/${encodeURIComponent(code)}`,
   },
-} as const;
\ No newline at end of file
+} as const satisfies ApiEndpoints;
\ No newline at end of file
@@ -0,0 +1,80 @@
+// Authentication API service
+
+import { apiClient, API_ENDPOINTS, unwrapResponse } from './api';
+import { ApiResponse } from '../types/api';
+import {
+  AuthResponse,
+  AuthUser,
+  LoginCredentials,
+  RegisterCredentials,
+} from '../types/auth';
+
+// JSON transports dates as strings; restore them on the way in
+const parseAuthUser = (user: AuthUser): AuthUser => ({
+  ...user,
+  createdAt: new Date(user.createdAt),
+  updatedAt: new Date(user.updatedAt),
+});
+
+const parseAuthResponse = (response: ApiResponse<AuthResponse>): AuthResponse => {
+  const data = unwrapResponse(response);
+  return { user: parseAuthUser(data.user), tokens: data.tokens };
+};
+
+export const authService = {
+  login: async (credentials: LoginCredentials): Promise<AuthResponse> => {
+    const response = await apiClient.post<AuthResponse>(
+      API_ENDPOINTS.auth.login,
+      credentials,
+      { skipAuth: true, retries: 0 }
+    );
+    return parseAuthResponse(response);
+  },
+
+  register: async (credentials: RegisterCredentials): Promise<AuthResponse> => {
+    const response = await apiClient.post<AuthResponse>(
+      API_ENDPOINTS.auth.register,
+      credentials,
+      { skipAuth: true, retries: 0 }
+    );
+    return parseAuthResponse(response);
+  },
+
+  logout: async (refreshToken?: string): Promise<void> => {
+    // The refresh token identifies the session, so an expired access token must not block logout
+    await apiClient.post(
+      API_ENDPOINTS.auth.logout,
+      { refreshToken },
+      { skipAuth: true, retries: 0 }
+    );
+  },
+
+  refreshToken: async (refreshToken: string): Promise<AuthResponse> => {
+    const response = await apiClient.post<AuthResponse>(
+      API_ENDPOINTS.auth.refresh,
+      { refreshToken },
+      { skipAuth: true, retries: 0 }
+    );
+    return parseAuthResponse(response);
+  },
+
+  resetPassword: async (email: string): Promise<void> => {
+    await apiClient.post(API_ENDPOINTS.auth.resetPassword, { email }, { skipAuth: true });
+  },
+
+  confirmResetPassword: async (token: string, newPassword: string): Promise<void> => {
+    await apiClient.post(
+      API_ENDPOINTS.auth.confirmReset,
+      { token, newPassword },
+      { skipAuth: true, retries: 0 }
+    );
+  },
+
+  changePassword: async (currentPassword: string, newPassword: string): Promise<void> => {
+    await apiClient.post(
+      API_ENDPOINTS.auth.changePassword,
+      { currentPassword, newPassword },
+      { retries: 0 }
+    );
+  },
+};
@@ -0,0 +1,60 @@
+// Chat API service
+
+import { InfiniteData } from '@tanstack/react-query';
+import { apiClient, API_ENDPOINTS, toPaginated } from './api';
+import { ChatMessage, Message } from '../types/chat';
+import { PaginatedResponse } from '../types/common';
+import { CHAT_CONFIG } from '../utils/constants';
+
+// History pages, newest page first and newest message first within a page
+export type RoomMessagePages = InfiniteData<
+  PaginatedResponse<ChatMessage>,
+  number
+>;
+
+export type ConversationMessagePages = InfiniteData<
+  PaginatedResponse<Message>,
+  number
+>;
+
+// JSON transports dates as strings; restore them on the way in. Anything the
+// server returns has been delivered, unlike entries still in the outbox.
+export const parseChatMessage = (message: ChatMessage): ChatMessage => ({
+  ...message,
+  deliveryStatus: 'sent',
+  createdAt: new Date(message.createdAt),
+  updatedAt: new Date(message.updatedAt),
+});
+
+export const parseMessage = (message: Message): Message => ({
+  ...message,
+  deliveryStatus: 'sent',
+  createdAt: new Date(message.createdAt),
+  updatedAt: new Date(message.updatedAt),
+});
+
+export const chatService = {
+  getRoomMessages: async (
+    roomId: string,
+    page = 1,
+    limit: number = CHAT_CONFIG.MESSAGE_PAGE_SIZE
+  ): Promise<PaginatedResponse<ChatMessage>> => {
+    const response = await apiClient.get<ChatMessage[]>(
+      API_ENDPOINTS.chat.messages,
+      { roomId, page, limit }
+    );
+    return toPaginated(response, parseChatMessage);
+  },
+
+  getConversationMessages: async (
+    userId: string,
+    page = 1,
+    limit: number = CHAT_CONFIG.MESSAGE_PAGE_SIZE
+  ): Promise<PaginatedResponse<Message>> => {
+    const response = await apiClient.get<Message[]>(
+      API_ENDPOINTS.chat.conversationMessages(userId),
+      { page, limit }
+    );
+    return toPaginated(response, parseMessage);
+  },
+};
@@ -0,0 +1,70 @@
+// Resumable upload protocol client
+
+import * as FileSystem from 'expo-file-system';
+import { apiClient, API_ENDPOINTS, unwrapResponse } from './api';
+import { parseMediaFile } from './uploadService';
+import { MediaFile } from '../types/common';
+import { InitUploadInput, UploadSessionStatus } from '../types/upload';
+
+const parseStatus = (status: UploadSessionStatus): UploadSessionStatus => ({
+  ...status,
+  expiresAt: new Date(status.expiresAt),
+});
+
+const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+};
+
+export const chunkedUploadService = {
+  init: async (input: InitUploadInput): Promise<UploadSessionStatus> => {
+    const response = await apiClient.post<UploadSessionStatus>(
+      API_ENDPOINTS.upload.sessions,
+      input
+    );
+    return parseStatus(unwrapResponse(response));
+  },
+
+  getStatus: async (uploadId: string): Promise<UploadSessionStatus> => {
+    const response = await apiClient.get<UploadSessionStatus>(
+      API_ENDPOINTS.upload.session(uploadId)
+    );
+    return parseStatus(unwrapResponse(response));
+  },
+
+  // Read one chunk of a local file without loading the whole file into memory
+  readChunk: async (uri: string, position: number, length: number): Promise<ArrayBuffer> => {
+    const base64 = await FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position,
+      length,
+    });
+    return base64ToArrayBuffer(base64);
+  },
+
+  uploadChunk: async (
+    uploadId: string,
+    index: number,
+    data: ArrayBuffer
+  ): Promise<UploadSessionStatus> => {
+    const response = await apiClient.put<UploadSessionStatus>(
+      API_ENDPOINTS.upload.chunk(uploadId, index),
+      data,
+      { contentType: 'application/octet-stream' }
+    );
+    return parseStatus(unwrapResponse(response));
+  },
+
+  complete: async (uploadId: string): Promise<MediaFile> => {
+    const response = await apiClient.post<MediaFile>(API_ENDPOINTS.upload.complete(uploadId));
+    return parseMediaFile(unwrapResponse(response));
+  },
+
+  abort: async (uploadId: string): Promise<void> => {
+    await apiClient.delete(API_ENDPOINTS.upload.session(uploadId), { retries: 0 });
+  },
+};
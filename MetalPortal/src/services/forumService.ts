@@ -0,0 +1,270 @@
+// Forum API service
+
+import { apiClient, API_ENDPOINTS, toPaginated, unwrapResponse } from './api';
+import { PaginatedResponse } from '../types/common';
+import {
+  CreateForumCategoryInput,
+  CreateForumCommentInput,
+  CreateForumPostInput,
+  ForumCategory,
+  ForumComment,
+  ForumFilter,
+  ForumModerationInput,
+  ForumPost,
+  ForumReplyPage,
+  ForumSort,
+  MergeForumPostsInput,
+  MoveForumPostInput,
+  SplitForumThreadInput,
+  UpdateForumCategoryInput,
+  UpdateForumPostInput,
+} from '../types/forum';
+import { FORUM_CONFIG } from '../utils/constants';
+
+export interface ForumPostListParams {
+  filter?: ForumFilter;
+  sort?: ForumSort;
+  page?: number;
+  limit?: number;
+}
+
+// JSON transports dates as strings; restore them on the way in
+export const parseForumCategory = (category: ForumCategory): ForumCategory => ({
+  ...category,
+  createdAt: new Date(category.createdAt),
+  updatedAt: new Date(category.updatedAt),
+  posts: [],
+});
+
+export const parseForumPost = (post: ForumPost): ForumPost => ({
+  ...post,
+  createdAt: new Date(post.createdAt),
+  updatedAt: new Date(post.updatedAt),
+  comments: (post.comments || []).map(parseForumComment),
+});
+
+export const parseForumComment = (comment: ForumComment): ForumComment => ({
+  ...comment,
+  createdAt: new Date(comment.createdAt),
+  updatedAt: new Date(comment.updatedAt),
+  replies: (comment.replies || []).map(parseForumComment),
+});
+
+export const forumService = {
+  getCategories: async (): Promise<ForumCategory[]> => {
+    const response = await apiClient.get<ForumCategory[]>(
+      API_ENDPOINTS.forum.categories
+    );
+    return unwrapResponse(response).map(parseForumCategory);
+  },
+
+  getCategory: async (slug: string): Promise<ForumCategory> => {
+    const response = await apiClient.get<ForumCategory>(
+      API_ENDPOINTS.forum.category(slug)
+    );
+    return parseForumCategory(unwrapResponse(response));
+  },
+
+  // Admin
+  createCategory: async (
+    input: CreateForumCategoryInput
+  ): Promise<ForumCategory> => {
+    const response = await apiClient.post<ForumCategory>(
+      API_ENDPOINTS.forum.categories,
+      input
+    );
+    return parseForumCategory(unwrapResponse(response));
+  },
+
+  updateCategory: async (
+    id: string,
+    input: UpdateForumCategoryInput
+  ): Promise<ForumCategory> => {
+    const response = await apiClient.patch<ForumCategory>(
+      API_ENDPOINTS.forum.category(id),
+      input
+    );
+    return parseForumCategory(unwrapResponse(response));
+  },
+
+  // Pinned posts come first on every page
+  getPosts: async ({
+    filter = {},
+    sort,
+    page = 1,
+    limit = FORUM_CONFIG.POST_PAGE_SIZE,
+  }: ForumPostListParams = {}): Promise<PaginatedResponse<ForumPost>> => {
+    const response = await apiClient.get<ForumPost[]>(
+      API_ENDPOINTS.forum.posts,
+      {
+        ...filter,
+        dateFrom: filter.dateFrom?.toISOString(),
+        dateTo: filter.dateTo?.toISOString(),
+        sort: sort?.field,
+        order: sort?.order,
+        page,
+        limit,
+      }
+    );
+    return toPaginated(response, parseForumPost);
+  },
+
+  getPost: async (id: string): Promise<ForumPost> => {
+    const response = await apiClient.get<ForumPost>(
+      API_ENDPOINTS.forum.post(id)
+    );
+    return parseForumPost(unwrapResponse(response));
+  },
+
+  createPost: async (input: CreateForumPostInput): Promise<ForumPost> => {
+    const response = await apiClient.post<ForumPost>(
+      API_ENDPOINTS.forum.posts,
+      input
+    );
+    return parseForumPost(unwrapResponse(response));
+  },
+
+  updatePost: async (
+    id: string,
+    input: Pick<UpdateForumPostInput, 'title' | 'content'>
+  ): Promise<ForumPost> => {
+    const response = await apiClient.patch<ForumPost>(
+      API_ENDPOINTS.forum.post(id),
+      input
+    );
+    return parseForumPost(unwrapResponse(response));
+  },
+
+  deletePost: async (id: string): Promise<void> => {
+    await apiClient.delete(API_ENDPOINTS.forum.post(id));
+  },
+
+  // A page of top-level comments, each with the start of its reply tree
+  getComments: async (
+    postId: string,
+    page = 1,
+    limit: number = FORUM_CONFIG.COMMENT_PAGE_SIZE
+  ): Promise<PaginatedResponse<ForumComment>> => {
+    const response = await apiClient.get<ForumComment[]>(
+      API_ENDPOINTS.forum.postComments(postId),
+      { page, limit }
+    );
+    return toPaginated(response, parseForumComment);
+  },
+
+  // The next page of replies to a comment; `levels` is how many levels of
+  // replies to include below each of them
+  getReplies: async (
+    commentId: string,
+    cursor?: string | null,
+    levels?: number
+  ): Promise<ForumReplyPage> => {
+    const response = await apiClient.get<ForumReplyPage>(
+      API_ENDPOINTS.forum.commentReplies(commentId),
+      { cursor: cursor ?? undefined, levels }
+    );
+    const { replies, nextCursor } = unwrapResponse(response);
+    return { replies: replies.map(parseForumComment), nextCursor };
+  },
+
+  // A comment with its own reply tree, for "continue this thread"
+  getThread: async (commentId: string): Promise<ForumComment> => {
+    const response = await apiClient.get<ForumComment>(
+      API_ENDPOINTS.forum.comment(commentId)
+    );
+    return parseForumComment(unwrapResponse(response));
+  },
+
+  addComment: async ({
+    postId,
+    content,
+    parentId,
+  }: CreateForumCommentInput): Promise<ForumComment> => {
+    const response = await apiClient.post<ForumComment>(
+      API_ENDPOINTS.forum.postComments(postId),
+      { content, parentId }
+    );
+    return parseForumComment(unwrapResponse(response));
+  },
+
+  updateComment: async (id: string, content: string): Promise<ForumComment> => {
+    const response = await apiClient.patch<ForumComment>(
+      API_ENDPOINTS.forum.comment(id),
+      { content }
+    );
+    return parseForumComment(unwrapResponse(response));
+  },
+
+  // `removed` is false when the comment had replies and was only blanked
+  deleteComment: async (id: string): Promise<{ removed: boolean }> => {
+    const response = await apiClient.delete<{ removed: boolean }>(
+      API_ENDPOINTS.forum.comment(id)
+    );
+    return unwrapResponse(response);
+  },
+
+  // Moderators
+
+  pinPost: async (
+    id: string,
+    pinned: boolean,
+    input: ForumModerationInput = {}
+  ): Promise<ForumPost> => {
+    const response = await apiClient.post<ForumPost>(
+      pinned
+        ? API_ENDPOINTS.forum.pinPost(id)
+        : API_ENDPOINTS.forum.unpinPost(id),
+      input
+    );
+    return parseForumPost(unwrapResponse(response));
+  },
+
+  lockPost: async (
+    id: string,
+    locked: boolean,
+    input: ForumModerationInput = {}
+  ): Promise<ForumPost> => {
+    const response = await apiClient.post<ForumPost>(
+      locked
+        ? API_ENDPOINTS.forum.lockPost(id)
+        : API_ENDPOINTS.forum.unlockPost(id),
+      input
+    );
+    return parseForumPost(unwrapResponse(response));
+  },
+
+  movePost: async (
+    id: string,
+    input: MoveForumPostInput
+  ): Promise<ForumPost> => {
+    const response = await apiClient.post<ForumPost>(
+      API_ENDPOINTS.forum.movePost(id),
+      input
+    );
+    return parseForumPost(unwrapResponse(response));
+  },
+
+  // Returns the target thread; the merged post no longer exists
+  mergePosts: async (
+    id: string,
+    input: MergeForumPostsInput
+  ): Promise<ForumPost> => {
+    const response = await apiClient.post<ForumPost>(
+      API_ENDPOINTS.forum.mergePosts(id),
+      input
+    );
+    return parseForumPost(unwrapResponse(response));
+  },
+
+  // Returns the new thread started from the comment
+  splitThread: async (
+    commentId: string,
+    input: SplitForumThreadInput
+  ): Promise<ForumPost> => {
+    const response = await apiClient.post<ForumPost>(
+      API_ENDPOINTS.forum.splitThread(commentId),
+      input
+    );
+    return parseForumPost(unwrapResponse(response));
+  },
+};
@@ -0,0 +1,274 @@
+// Moderation API service: reporting content and appealing sanctions, and the
+// report queue, sanctions, appeals, content filter and moderation log for
+// moderators
+
+import { apiClient, API_ENDPOINTS, toPaginated, unwrapResponse } from './api';
+import { PaginatedResponse } from '../types/common';
+import {
+  AppealFilter,
+  BulkReportAction,
+  ContentFilterConfig,
+  CreateAppealInput,
+  CreateReportInput,
+  CreateSanctionInput,
+  DismissReportInput,
+  FilterVerdict,
+  LiftSanctionInput,
+  ModerationLogEntry,
+  ModerationLogFilter,
+  Report,
+  ReportFilter,
+  ResolveReportInput,
+  ReviewAppealInput,
+  SanctionAppeal,
+  UserSanction,
+} from '../types/moderation';
+import { PAGINATION } from '../utils/constants';
+
+const parseDate = (date?: Date | null) => (date ? new Date(date) : date);
+
+// JSON transports dates as strings; restore them on the way in
+export const parseModerationLogEntry = (
+  entry: ModerationLogEntry
+): ModerationLogEntry => ({
+  ...entry,
+  createdAt: new Date(entry.createdAt),
+});
+
+export const parseReport = (report: Report): Report => ({
+  ...report,
+  assignedAt: parseDate(report.assignedAt),
+  resolvedAt: parseDate(report.resolvedAt),
+  createdAt: new Date(report.createdAt),
+  updatedAt: new Date(report.updatedAt),
+});
+
+export const parseSanctionAppeal = (
+  appeal: SanctionAppeal
+): SanctionAppeal => ({
+  ...appeal,
+  sanction: appeal.sanction && parseSanction(appeal.sanction),
+  reviewedAt: parseDate(appeal.reviewedAt),
+  createdAt: new Date(appeal.createdAt),
+  updatedAt: new Date(appeal.updatedAt),
+});
+
+export const parseSanction = (sanction: UserSanction): UserSanction => ({
+  ...sanction,
+  appeal: sanction.appeal && parseSanctionAppeal(sanction.appeal),
+  liftedAt: parseDate(sanction.liftedAt),
+  createdAt: new Date(sanction.createdAt),
+  expiresAt: parseDate(sanction.expiresAt) ?? null,
+});
+
+export const moderationService = {
+  report: async (input: CreateReportInput): Promise<Report> => {
+    const response = await apiClient.post<Report>(
+      API_ENDPOINTS.reports.create,
+      input
+    );
+    return parseReport(unwrapResponse(response));
+  },
+
+  // The signed-in member's sanctions in force
+  getMySanctions: async (): Promise<UserSanction[]> => {
+    const response = await apiClient.get<UserSanction[]>(
+      API_ENDPOINTS.sanctions.mine
+    );
+    return unwrapResponse(response).map(parseSanction);
+  },
+
+  // Each sanction can be appealed once while it is in force
+  appealSanction: async (
+    sanctionId: string,
+    input: CreateAppealInput
+  ): Promise<SanctionAppeal> => {
+    const response = await apiClient.post<SanctionAppeal>(
+      API_ENDPOINTS.sanctions.appeal(sanctionId),
+      input
+    );
+    return parseSanctionAppeal(unwrapResponse(response));
+  },
+
+  // Moderators
+
+  // Open reports unless a status is given; oldest first
+  getReports: async (
+    filter: ReportFilter = {},
+    page = 1,
+    limit: number = PAGINATION.DEFAULT_PAGE_SIZE
+  ): Promise<PaginatedResponse<Report>> => {
+    const response = await apiClient.get<Report[]>(
+      API_ENDPOINTS.moderation.reports,
+      { ...filter, page, limit }
+    );
+    return toPaginated(response, parseReport);
+  },
+
+  getReport: async (id: string): Promise<Report> => {
+    const response = await apiClient.get<Report>(
+      API_ENDPOINTS.moderation.report(id)
+    );
+    return parseReport(unwrapResponse(response));
+  },
+
+  // Assigns to the signed-in moderator when no assignee is given; null
+  // unassigns
+  assignReport: async (
+    id: string,
+    assigneeId?: string | null
+  ): Promise<Report> => {
+    const response = await apiClient.post<Report>(
+      API_ENDPOINTS.moderation.assignReport(id),
+      { assigneeId }
+    );
+    return parseReport(unwrapResponse(response));
+  },
+
+  resolveReport: async (
+    id: string,
+    input: ResolveReportInput
+  ): Promise<Report> => {
+    const response = await apiClient.post<Report>(
+      API_ENDPOINTS.moderation.resolveReport(id),
+      input
+    );
+    return parseReport(unwrapResponse(response));
+  },
+
+  dismissReport: async (
+    id: string,
+    input: DismissReportInput = {}
+  ): Promise<Report> => {
+    const response = await apiClient.post<Report>(
+      API_ENDPOINTS.moderation.dismissReport(id),
+      input
+    );
+    return parseReport(unwrapResponse(response));
+  },
+
+  // Reports already closed are skipped; resolving also settles other open
+  // reports about the same content, so `updated` can exceed the ids given
+  bulkReports: async (
+    action: BulkReportAction
+  ): Promise<{ updated: number }> => {
+    const response = await apiClient.post<{ updated: number }>(
+      API_ENDPOINTS.moderation.bulkReports,
+      action
+    );
+    return unwrapResponse(response);
+  },
+
+  // Every sanction the member has had, newest first
+  getUserSanctions: async (
+    userId: string,
+    page = 1,
+    limit: number = PAGINATION.DEFAULT_PAGE_SIZE
+  ): Promise<PaginatedResponse<UserSanction>> => {
+    const response = await apiClient.get<UserSanction[]>(
+      API_ENDPOINTS.moderation.userSanctions(userId),
+      { page, limit }
+    );
+    return toPaginated(response, parseSanction);
+  },
+
+  sanctionUser: async (
+    userId: string,
+    input: CreateSanctionInput
+  ): Promise<UserSanction> => {
+    const response = await apiClient.post<UserSanction>(
+      API_ENDPOINTS.moderation.userSanctions(userId),
+      input
+    );
+    return parseSanction(unwrapResponse(response));
+  },
+
+  liftSanction: async (
+    id: string,
+    input: LiftSanctionInput = {}
+  ): Promise<UserSanction> => {
+    const response = await apiClient.post<UserSanction>(
+      API_ENDPOINTS.moderation.liftSanction(id),
+      input
+    );
+    return parseSanction(unwrapResponse(response));
+  },
+
+  // Pending appeals unless a status is given; oldest first
+  getAppeals: async (
+    filter: AppealFilter = {},
+    page = 1,
+    limit: number = PAGINATION.DEFAULT_PAGE_SIZE
+  ): Promise<PaginatedResponse<SanctionAppeal>> => {
+    const response = await apiClient.get<SanctionAppeal[]>(
+      API_ENDPOINTS.moderation.appeals,
+      { ...filter, page, limit }
+    );
+    return toPaginated(response, parseSanctionAppeal);
+  },
+
+  // Accepting lifts the sanction
+  acceptAppeal: async (
+    id: string,
+    input: ReviewAppealInput = {}
+  ): Promise<SanctionAppeal> => {
+    const response = await apiClient.post<SanctionAppeal>(
+      API_ENDPOINTS.moderation.acceptAppeal(id),
+      input
+    );
+    return parseSanctionAppeal(unwrapResponse(response));
+  },
+
+  rejectAppeal: async (
+    id: string,
+    input: ReviewAppealInput = {}
+  ): Promise<SanctionAppeal> => {
+    const response = await apiClient.post<SanctionAppeal>(
+      API_ENDPOINTS.moderation.rejectAppeal(id),
+      input
+    );
+    return parseSanctionAppeal(unwrapResponse(response));
+  },
+
+  // Newest first
+  getLog: async (
+    filter: ModerationLogFilter = {},
+    page = 1,
+    limit: number = PAGINATION.DEFAULT_PAGE_SIZE
+  ): Promise<PaginatedResponse<ModerationLogEntry>> => {
+    const response = await apiClient.get<ModerationLogEntry[]>(
+      API_ENDPOINTS.moderation.log,
+      { ...filter, page, limit }
+    );
+    return toPaginated(response, parseModerationLogEntry);
+  },
+
+  // Content filter
+
+  getContentFilter: async (): Promise<ContentFilterConfig> => {
+    const response = await apiClient.get<ContentFilterConfig>(
+      API_ENDPOINTS.moderation.contentFilter
+    );
+    return unwrapResponse(response);
+  },
+
+  // Admins only; replaces the whole configuration
+  updateContentFilter: async (
+    config: ContentFilterConfig
+  ): Promise<ContentFilterConfig> => {
+    const response = await apiClient.put<ContentFilterConfig>(
+      API_ENDPOINTS.moderation.contentFilter,
+      config
+    );
+    return unwrapResponse(response);
+  },
+
+  // What the filter would do with the text, without storing anything
+  testContentFilter: async (text: string): Promise<FilterVerdict> => {
+    const response = await apiClient.post<FilterVerdict>(
+      API_ENDPOINTS.moderation.contentFilterTest,
+      { text }
+    );
+    return unwrapResponse(response);
+  },
+};
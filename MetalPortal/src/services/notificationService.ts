@@ -0,0 +1,93 @@
+// Notification API service
+
+import { InfiniteData } from '@tanstack/react-query';
+import { apiClient, API_ENDPOINTS, toPaginated, unwrapResponse } from './api';
+import { PaginatedResponse } from '../types/common';
+import {
+  Notification,
+  NotificationFilter,
+  NotificationPreferences,
+  NotificationStats,
+} from '../types/notification';
+import { NOTIFICATION_CONFIG } from '../utils/constants';
+
+// Newest page first and newest notification first within a page
+export type NotificationPages = InfiniteData<
+  PaginatedResponse<Notification>,
+  number
+>;
+
+// JSON transports dates as strings; restore them on the way in
+export const parseNotification = (
+  notification: Notification
+): Notification => ({
+  ...notification,
+  createdAt: new Date(notification.createdAt),
+});
+
+export const notificationService = {
+  list: async (
+    filter: NotificationFilter = {},
+    page = 1,
+    limit: number = NOTIFICATION_CONFIG.PAGE_SIZE
+  ): Promise<PaginatedResponse<Notification>> => {
+    const response = await apiClient.get<Notification[]>(
+      API_ENDPOINTS.notifications.list,
+      { ...filter, page, limit }
+    );
+    return toPaginated(response, parseNotification);
+  },
+
+  getStats: async (): Promise<NotificationStats> => {
+    const response = await apiClient.get<NotificationStats>(
+      API_ENDPOINTS.notifications.stats
+    );
+    return unwrapResponse(response);
+  },
+
+  markRead: async (id: string): Promise<Notification> => {
+    const response = await apiClient.post<Notification>(
+      API_ENDPOINTS.notifications.markRead(id)
+    );
+    return parseNotification(unwrapResponse(response));
+  },
+
+  markAllRead: async (): Promise<{ updated: number }> => {
+    const response = await apiClient.post<{ updated: number }>(
+      API_ENDPOINTS.notifications.markAllRead
+    );
+    return unwrapResponse(response);
+  },
+
+  getPreferences: async (): Promise<NotificationPreferences> => {
+    const response = await apiClient.get<NotificationPreferences>(
+      API_ENDPOINTS.notifications.preferences
+    );
+    return unwrapResponse(response);
+  },
+
+  updatePreferences: async (
+    changes: Partial<NotificationPreferences>
+  ): Promise<NotificationPreferences> => {
+    const response = await apiClient.put<NotificationPreferences>(
+      API_ENDPOINTS.notifications.preferences,
+      changes
+    );
+    return unwrapResponse(response);
+  },
+
+  // Push notifications for this device, tied to the current session
+  registerDevice: async (
+    token: string,
+    platform: 'ios' | 'android'
+  ): Promise<void> => {
+    await apiClient.post(API_ENDPOINTS.notifications.devices, {
+      token,
+      platform,
+    });
+  },
+
+  unregisterDevice: async (): Promise<void> => {
+    await apiClient.delete(API_ENDPOINTS.notifications.devices);
+  },
+};
@@ -0,0 +1,127 @@
+// Offline outbox for chat and direct messages
+//
+// Messages are stored on the device with a client-generated id and delivered
+// one at a time, oldest first, over the realtime socket. A network failure
+// leaves the message pending and stops the flush until the socket reconnects;
+// the server de-duplicates by client id, so a resend after a lost ack is safe.
+// A message the server rejects is marked failed for the user to retry or
+// discard.
+
+import { realtimeClient } from './realtimeClient';
+import { useOutboxStore } from '../store/outboxStore';
+import { ApiError } from '../types/api';
+import {
+  CreateChatMessageInput,
+  CreateMessageInput,
+  OutboxItem,
+} from '../types/chat';
+import { generateClientId } from '../utils/id';
+
+let isFlushing = false;
+
+const getItem = (clientId: string) =>
+  useOutboxStore.getState().items.find(item => item.clientId === clientId);
+
+const isTransientError = (error: unknown): boolean => {
+  const statusCode = (error as ApiError | null)?.statusCode ?? 0;
+  return statusCode === 0 || statusCode >= 500;
+};
+
+const deliver = (item: OutboxItem) =>
+  item.kind === 'room'
+    ? realtimeClient.sendMessage(item.input)
+    : realtimeClient.sendDirectMessage(item.input);
+
+const flush = async () => {
+  if (isFlushing || realtimeClient.getStatus() !== 'connected') return;
+  isFlushing = true;
+
+  try {
+    const { updateItem, removeItem } = useOutboxStore.getState();
+    let item: OutboxItem | undefined;
+    while (
+      (item = useOutboxStore
+        .getState()
+        .items.find(queued => queued.status === 'pending'))
+    ) {
+      const { clientId, attempts } = item;
+      updateItem(clientId, { attempts: attempts + 1 });
+      try {
+        // Delivery puts the stored message into the query cache
+        await deliver(item);
+        removeItem(clientId);
+      } catch (error) {
+        if (isTransientError(error)) break;
+        updateItem(clientId, {
+          status: 'failed',
+          error: (error as ApiError | null)?.message || 'Message not sent',
+        });
+      }
+    }
+  } finally {
+    isFlushing = false;
+  }
+};
+
+const enqueue = (item: OutboxItem): string => {
+  useOutboxStore.getState().addItem(item);
+  void flush();
+  return item.clientId;
+};
+
+export const outbox = {
+  // Returns the client id the message is tracked under
+  sendRoomMessage: (input: CreateChatMessageInput): string => {
+    const clientId = input.clientId ?? generateClientId('msg_');
+    return enqueue({
+      kind: 'room',
+      clientId,
+      input: { ...input, clientId },
+      status: 'pending',
+      attempts: 0,
+      createdAt: Date.now(),
+    });
+  },
+
+  sendDirectMessage: (input: CreateMessageInput): string => {
+    const clientId = input.clientId ?? generateClientId('dm_');
+    return enqueue({
+      kind: 'direct',
+      clientId,
+      input: { ...input, clientId },
+      status: 'pending',
+      attempts: 0,
+      createdAt: Date.now(),
+    });
+  },
+
+  retry: (clientId: string) => {
+    if (getItem(clientId)?.status !== 'failed') return;
+    useOutboxStore
+      .getState()
+      .updateItem(clientId, { status: 'pending', error: undefined });
+    void flush();
+  },
+
+  discard: (clientId: string) => {
+    if (getItem(clientId)?.status !== 'failed') return;
+    useOutboxStore.getState().removeItem(clientId);
+  },
+};
+
+// Flush whenever the socket (re)connects; returns a cleanup function
+export const startOutbox = (): (() => void) => {
+  const unsubscribeHydration = useOutboxStore.persist.onFinishHydration(flush);
+  if (useOutboxStore.persist.hasHydrated()) {
+    void flush();
+  }
+
+  const unsubscribeStatus = realtimeClient.onStatusChange(status => {
+    if (status === 'connected') void flush();
+  });
+
+  return () => {
+    unsubscribeHydration();
+    unsubscribeStatus();
+  };
+};
@@ -0,0 +1,175 @@
+// Posts API service
+
+import { apiClient, API_ENDPOINTS, toPaginated, unwrapResponse } from './api';
+import { PaginatedResponse } from '../types/common';
+import {
+  Comment,
+  CreateCommentInput,
+  CreatePostInput,
+  Post,
+  PostFilter,
+  PostSearchResult,
+  PostSort,
+  PostStats,
+  Reaction,
+  ReactionSummary,
+  ReactionType,
+  SetReactionInput,
+  UpdatePostInput,
+} from '../types/post';
+import { PAGINATION } from '../utils/constants';
+
+export interface PostListParams {
+  filter?: PostFilter;
+  sort?: PostSort;
+  page?: number;
+  limit?: number;
+}
+
+// Flatten filter/sort into query string parameters
+const toQueryParams = ({ filter = {}, sort, page = 1, limit = PAGINATION.DEFAULT_PAGE_SIZE }: PostListParams) => ({
+  ...filter,
+  tags: filter.tags?.length ? filter.tags.join(',') : undefined,
+  dateFrom: filter.dateFrom?.toISOString(),
+  dateTo: filter.dateTo?.toISOString(),
+  sort: sort?.field,
+  order: sort?.order,
+  page,
+  limit,
+});
+
+// JSON transports dates as strings; restore them on the way in
+const toDate = (value?: Date | string) => (value ? new Date(value) : undefined);
+
+export const parseComment = (comment: Comment): Comment => ({
+  ...comment,
+  createdAt: new Date(comment.createdAt),
+  updatedAt: new Date(comment.updatedAt),
+  replies: (comment.replies || []).map(parseComment),
+});
+
+export const parsePost = (post: Post): Post => ({
+  ...post,
+  publishedAt: toDate(post.publishedAt),
+  createdAt: new Date(post.createdAt),
+  updatedAt: new Date(post.updatedAt),
+  comments: (post.comments || []).map(parseComment),
+  reactions: post.reactions || [],
+});
+
+const parseSearchResult = (result: PostSearchResult): PostSearchResult => ({
+  ...result,
+  publishedAt: toDate(result.publishedAt),
+});
+
+export const postService = {
+  list: async (params: PostListParams = {}): Promise<PaginatedResponse<Post>> => {
+    const response = await apiClient.get<Post[]>(API_ENDPOINTS.posts.list, toQueryParams(params));
+    return toPaginated(response, parsePost);
+  },
+
+  get: async (id: string): Promise<Post> => {
+    const response = await apiClient.get<Post>(API_ENDPOINTS.posts.get(id));
+    return parsePost(unwrapResponse(response));
+  },
+
+  create: async (input: CreatePostInput): Promise<Post> => {
+    const response = await apiClient.post<Post>(API_ENDPOINTS.posts.create, input);
+    return parsePost(unwrapResponse(response));
+  },
+
+  update: async (id: string, input: UpdatePostInput): Promise<Post> => {
+    const response = await apiClient.patch<Post>(API_ENDPOINTS.posts.update(id), input);
+    return parsePost(unwrapResponse(response));
+  },
+
+  delete: async (id: string): Promise<void> => {
+    await apiClient.delete(API_ENDPOINTS.posts.delete(id));
+  },
+
+  search: async (
+    query: string,
+    params: PostListParams = {}
+  ): Promise<PaginatedResponse<PostSearchResult>> => {
+    const response = await apiClient.get<PostSearchResult[]>(API_ENDPOINTS.posts.search, {
+      ...toQueryParams(params),
+      query,
+    });
+    return toPaginated(response, parseSearchResult);
+  },
+
+  stats: async (): Promise<PostStats> => {
+    const response = await apiClient.get<PostStats>(API_ENDPOINTS.posts.stats);
+    const stats = unwrapResponse(response);
+    return {
+      ...stats,
+      topPosts: stats.topPosts.map(parseSearchResult),
+      recentPosts: stats.recentPosts.map(parseSearchResult),
+    };
+  },
+
+  getComments: async (
+    postId: string,
+    { page = 1, limit = PAGINATION.DEFAULT_PAGE_SIZE }: { page?: number; limit?: number } = {}
+  ): Promise<PaginatedResponse<Comment>> => {
+    const response = await apiClient.get<Comment[]>(API_ENDPOINTS.posts.comments(postId), {
+      page,
+      limit,
+    });
+    return toPaginated(response, parseComment);
+  },
+
+  addComment: async (input: CreateCommentInput): Promise<Comment> => {
+    const response = await apiClient.post<Comment>(API_ENDPOINTS.posts.comments(input.postId), {
+      content: input.content,
+      parentId: input.parentId,
+    });
+    return parseComment(unwrapResponse(response));
+  },
+
+  getReactions: async (postId: string): Promise<Reaction[]> => {
+    const response = await apiClient.get<Reaction[]>(API_ENDPOINTS.posts.reactions(postId));
+    return unwrapResponse(response).map(reaction => ({
+      ...reaction,
+      createdAt: new Date(reaction.createdAt),
+    }));
+  },
+
+  // A user holds at most one reaction per post; reacting again with another type replaces it
+  react: async (postId: string, type: ReactionType): Promise<ReactionSummary> => {
+    const response = await apiClient.post<ReactionSummary>(API_ENDPOINTS.posts.reactions(postId), {
+      type,
+    });
+    return unwrapResponse(response);
+  },
+
+  unreact: async (postId: string): Promise<ReactionSummary> => {
+    const response = await apiClient.delete<ReactionSummary>(API_ENDPOINTS.posts.reactions(postId));
+    return unwrapResponse(response);
+  },
+
+  reactToComment: async (commentId: string, type: ReactionType): Promise<ReactionSummary> => {
+    const response = await apiClient.post<ReactionSummary>(
+      API_ENDPOINTS.comments.reactions(commentId),
+      { type }
+    );
+    return unwrapResponse(response);
+  },
+
+  unreactToComment: async (commentId: string): Promise<ReactionSummary> => {
+    const response = await apiClient.delete<ReactionSummary>(
+      API_ENDPOINTS.comments.reactions(commentId)
+    );
+    return unwrapResponse(response);
+  },
+
+  // Set or clear the user's reaction on either kind of target
+  setReaction: ({ target, type }: SetReactionInput): Promise<ReactionSummary> => {
+    if (target.kind === 'post') {
+      return type ? postService.react(target.postId, type) : postService.unreact(target.postId);
+    }
+    return type
+      ? postService.reactToComment(target.commentId, type)
+      : postService.unreactToComment(target.commentId);
+  },
+};
@@ -0,0 +1,85 @@
+// Push notification registration
+//
+// While signed in, the device's Expo push token is registered with the API
+// against the current session, so pushes stop when the user signs out. Tokens
+// can change while the app is running (e.g. after a restore), in which case
+// the new one is registered.
+
+import * as Device from 'expo-device';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { notificationService } from './notificationService';
+import { useAuthStore } from '../store/authStore';
+import { FEATURE_FLAGS } from '../utils/constants';
+
+// Foreground pushes are shown too; the in-app list is already kept current by
+// the realtime connection
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: true,
+  }),
+});
+
+const platform = () => (Platform.OS === 'ios' ? 'ios' : 'android');
+
+// Asks for permission if it has not been answered yet; null when pushes are
+// unavailable or declined
+const getPushToken = async (): Promise<string | null> => {
+  if (!FEATURE_FLAGS.PUSH_NOTIFICATIONS || !Device.isDevice) return null;
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync('default', {
+      name: 'Notifications',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+
+  let { status } = await Notifications.getPermissionsAsync();
+  if (status === 'undetermined') {
+    ({ status } = await Notifications.requestPermissionsAsync());
+  }
+  if (status !== 'granted') return null;
+
+  const { data } = await Notifications.getExpoPushTokenAsync();
+  return data;
+};
+
+export const registerForPushNotifications = async (): Promise<boolean> => {
+  const token = await getPushToken();
+  if (!token) return false;
+  await notificationService.registerDevice(token, platform());
+  return true;
+};
+
+const registerInBackground = () => {
+  registerForPushNotifications().catch(error =>
+    console.error('Push registration failed:', error)
+  );
+};
+
+// Register whenever a session starts; returns a cleanup function
+export const startPushRegistration = (): (() => void) => {
+  if (!FEATURE_FLAGS.PUSH_NOTIFICATIONS) return () => undefined;
+
+  if (useAuthStore.getState().isAuthenticated) {
+    registerInBackground();
+  }
+  const unsubscribe = useAuthStore.subscribe((state, previous) => {
+    if (state.isAuthenticated && !previous.isAuthenticated) {
+      registerInBackground();
+    }
+  });
+  const tokenSubscription = Notifications.addPushTokenListener(() => {
+    if (useAuthStore.getState().isAuthenticated) {
+      registerInBackground();
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    tokenSubscription.remove();
+  };
+};
@@ -83,6 +83,7 @@ export const queryKeys = {
     detail: (id: string) => [['posts'], 'detail', id] as const,
     comments: (postId: string) => [['posts'], 'detail', postId, 'comments'] as const,
     reactions: (postId: string) => [['posts'], 'detail', postId, 'reactions'] as const,
+    search: (query: string, filters: Record<string, any> = {}) => [['posts'], 'search', query, filters] as const,
     stats: () => [['posts'], 'stats'] as const,
   },
   
@@ -96,9 +97,13 @@ export const queryKeys = {
     },
     posts: {
       all: [['forum'], 'posts'] as const,
+      lists: () => [['forum'], 'posts', 'list'] as const,
       list: (filters: Record<string, any>) => [['forum'], 'posts', 'list', filters] as const,
       detail: (id: string) => [['forum'], 'posts', 'detail', id] as const,
       comments: (postId: string) => [['forum'], 'posts', 'detail', postId, 'comments'] as const,
+      // A comment opened as its own thread, cached with the rest of the post's comments
+      thread: (postId: string, commentId: string) =>
+        [['forum'], 'posts', 'detail', postId, 'comments', 'thread', commentId] as const,
     },
     stats: () => [['forum'], 'stats'] as const,
   },
@@ -136,19 +141,62 @@ export const queryKeys = {
   // Notifications
   notifications: {
     all: ['notifications'] as const,
+    lists: () => [['notifications'], 'list'] as const,
     list: (filters: Record<string, any>) => [['notifications'], 'list', filters] as const,
     stats: () => [['notifications'], 'stats'] as const,
+    preferences: () => [['notifications'], 'preferences'] as const,
+  },
+  
+  // Moderation
+  moderation: {
+    all: ['moderation'] as const,
+    logs: () => [['moderation'], 'log'] as const,
+    log: (filters: Record<string, any>) => [['moderation'], 'log', filters] as const,
+    reports: {
+      all: [['moderation'], 'reports'] as const,
+      lists: () => [['moderation'], 'reports', 'list'] as const,
+      list: (filters: Record<string, any>) => [['moderation'], 'reports', 'list', filters] as const,
+      detail: (id: string) => [['moderation'], 'reports', 'detail', id] as const,
+    },
+    sanctions: {
+      all: [['moderation'], 'sanctions'] as const,
+      user: (userId: string) => [['moderation'], 'sanctions', userId] as const,
+    },
+    appeals: {
+      all: [['moderation'], 'appeals'] as const,
+      list: (filters: Record<string, any>) => [['moderation'], 'appeals', filters] as const,
+    },
+    contentFilter: () => [['moderation'], 'content-filter'] as const,
+  },
+  
+  // The signed-in member's own sanctions
+  sanctions: {
+    all: ['sanctions'] as const,
+    mine: () => [['sanctions'], 'mine'] as const,
   },
   
   // Subscriptions
   subscriptions: {
     all: ['subscriptions'] as const,
     current: () => [['subscriptions'], 'current'] as const,
-    plans: () => [['subscriptions'], 'plans'] as const,
+    plans: (currency?: string) => [['subscriptions'], 'plans', currency] as const,
     history: () => [['subscriptions'], 'history'] as const,
+    promoCode: (code: string, plan: Record<string, any>) => [['subscriptions'], 'promo-code', code, plan] as const,
   },
 } as const;
 
+// Mutation keys; mutations that may be queued offline are registered by key so
+// they can be resumed after an app restart
+export const mutationKeys = {
+  posts: {
+    create: ['posts', 'create'] as const,
+    update: ['posts', 'update'] as const,
+    delete: ['posts', 'delete'] as const,
+    addComment: ['posts', 'addComment'] as const,
+    setReaction: ['posts', 'setReaction'] as const,
+  },
+};
+
 // Utility functions for cache management
 export const cacheUtils = {
   // Invalidate all queries for a specific key
@@ -179,14 +227,26 @@ export const cacheUtils = {
     });
   },
   
-  // Optimistic updates helper
+  // Optimistic updates helper; `client` defaults to the app's query client
   optimisticUpdate: <T>(
     queryKey: readonly unknown[],
-    updater: (oldData: T | undefined) => T
+    updater: (oldData: T | undefined) => T,
+    client: QueryClient = queryClient
+  ) => {
+    const previousData = client.getQueryData<T>(queryKey);
+    client.setQueryData(queryKey, updater);
+    return () => client.setQueryData(queryKey, previousData);
+  },
+  
+  // Optimistic update across every cached query under a key prefix
+  optimisticUpdateAll: <T>(
+    queryKey: readonly unknown[],
+    updater: (oldData: T | undefined) => T | undefined,
+    client: QueryClient = queryClient
   ) => {
-    const previousData = queryClient.getQueryData<T>(queryKey);
-    queryClient.setQueryData(queryKey, updater);
-    return () => queryClient.setQueryData(queryKey, previousData);
+    const snapshots = client.getQueriesData<T>({ queryKey });
+    client.setQueriesData<T>({ queryKey }, updater);
+    return () => snapshots.forEach(([key, data]) => client.setQueryData(key, data));
   },
 };
 
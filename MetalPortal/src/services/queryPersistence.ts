@@ -0,0 +1,122 @@
+// Offline support for React Query
+//
+// Only opted-in query keys (feeds, events, forum threads) are written to device
+// storage. Mutations made offline are paused by React Query and persisted with
+// the cache; their functions are registered by mutation key so they can resume
+// after a restart.
+
+import { AppState } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import {
+  defaultShouldDehydrateQuery,
+  focusManager,
+  onlineManager,
+  Query,
+} from '@tanstack/react-query';
+import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister';
+import { PersistQueryClientOptions } from '@tanstack/react-query-persist-client';
+import { postService } from './postService';
+import { mutationKeys, queryClient, queryKeys } from './queryClient';
+import { useAuthStore } from '../store/authStore';
+import { CreateCommentInput, CreatePostInput, UpdatePostInput } from '../types/post';
+import { QUERY_CACHE_CONFIG } from '../utils/constants';
+
+// Key prefixes whose data is kept across restarts
+const PERSISTED_QUERY_KEYS = [
+  queryKeys.posts.lists(),
+  queryKeys.events.lists(),
+  queryKeys.forum.posts.all,
+];
+
+export const queryPersister = createAsyncStoragePersister({
+  storage: AsyncStorage,
+  key: QUERY_CACHE_CONFIG.STORAGE_KEY,
+  throttleTime: 1000,
+});
+
+const shouldPersistQuery = (query: Query) =>
+  query.meta?.persist === true && defaultShouldDehydrateQuery(query);
+
+export const persistOptions: Omit<PersistQueryClientOptions, 'queryClient'> = {
+  persister: queryPersister,
+  maxAge: QUERY_CACHE_CONFIG.MAX_AGE,
+  buster: QUERY_CACHE_CONFIG.BUSTER,
+  // Paused mutations are persisted by default alongside the opted-in queries
+  dehydrateOptions: { shouldDehydrateQuery: shouldPersistQuery },
+};
+
+const registerQueryDefaults = () => {
+  PERSISTED_QUERY_KEYS.forEach(queryKey =>
+    queryClient.setQueryDefaults(queryKey, {
+      // Restored data must outlive the default gcTime to be useful offline
+      gcTime: QUERY_CACHE_CONFIG.MAX_AGE,
+      meta: { persist: true },
+    })
+  );
+};
+
+const registerMutationDefaults = () => {
+  queryClient.setMutationDefaults(mutationKeys.posts.create, {
+    mutationFn: (input: CreatePostInput) => postService.create(input),
+  });
+  queryClient.setMutationDefaults(mutationKeys.posts.update, {
+    mutationFn: ({ id, input }: { id: string; input: UpdatePostInput }) =>
+      postService.update(id, input),
+  });
+  queryClient.setMutationDefaults(mutationKeys.posts.delete, {
+    mutationFn: (id: string) => postService.delete(id),
+  });
+  queryClient.setMutationDefaults(mutationKeys.posts.addComment, {
+    mutationFn: (input: CreateCommentInput) => postService.addComment(input),
+  });
+  queryClient.setMutationDefaults(mutationKeys.posts.setReaction, {
+    mutationFn: postService.setReaction,
+    scope: { id: 'reactions' },
+  });
+};
+
+// Drive React Query's online and focus state from the device
+const registerConnectivity = () => {
+  onlineManager.setEventListener(setOnline =>
+    NetInfo.addEventListener(state => {
+      setOnline(state.isConnected !== false);
+    })
+  );
+
+  focusManager.setEventListener(setFocused => {
+    const subscription = AppState.addEventListener('change', status =>
+      setFocused(status === 'active')
+    );
+    return () => subscription.remove();
+  });
+};
+
+// The cache holds the signed-in user's data, so it goes away with the session
+const clearCacheOnLogout = () => {
+  useAuthStore.subscribe((state, previous) => {
+    if (previous.isAuthenticated && !state.isAuthenticated) {
+      queryClient.clear();
+      void queryPersister.removeClient();
+    }
+  });
+};
+
+let configured = false;
+
+// Call once at startup, before the persisted cache is restored
+export const configureOfflineMode = () => {
+  if (configured) return;
+  configured = true;
+
+  registerQueryDefaults();
+  registerMutationDefaults();
+  registerConnectivity();
+  clearCacheOnLogout();
+};
+
+// Replay mutations queued while offline, then refresh what they touched
+export const resumeOfflineMutations = async () => {
+  await queryClient.resumePausedMutations();
+  await queryClient.invalidateQueries();
+};
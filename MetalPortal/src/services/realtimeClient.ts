@@ -0,0 +1,404 @@
+// Socket.io client for chat rooms, typing, presence and live notifications
+
+import { InfiniteData } from '@tanstack/react-query';
+import { io, Socket } from 'socket.io-client';
+import { refreshAccessToken } from './api';
+import { parseChatMessage, parseMessage } from './chatService';
+import { parseNotification } from './notificationService';
+import { queryClient, queryKeys } from './queryClient';
+import { useAuthStore } from '../store/authStore';
+import { useChatStore } from '../store/chatStore';
+import { ApiError } from '../types/api';
+import {
+  ChatMessage,
+  CreateChatMessageInput,
+  CreateMessageInput,
+  Message,
+} from '../types/chat';
+import { PaginatedResponse } from '../types/common';
+import { Notification, NotificationStats } from '../types/notification';
+import {
+  ClientToServerEvents,
+  RealtimeAck,
+  RealtimeConnectionStatus,
+  ServerToClientEvents,
+} from '../types/realtime';
+import { CHAT_CONFIG, ERROR_MESSAGES } from '../utils/constants';
+
+const REALTIME_CONFIG = {
+  url: process.env.EXPO_PUBLIC_REALTIME_URL || 'http://localhost:3000',
+  ackTimeout: 10000, // 10 seconds
+  maxReconnectDelay: 60000, // 1 minute
+};
+
+type RealtimeSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+let socket: RealtimeSocket | null = null;
+let status: RealtimeConnectionStatus = 'disconnected';
+let authRetried = false;
+const statusListeners = new Set<(status: RealtimeConnectionStatus) => void>();
+
+// Rooms the app wants to be in; rejoined after every reconnect
+const joinedRooms = new Set<string>();
+const typingState = new Map<
+  string,
+  { sentAt: number; timer: ReturnType<typeof setTimeout> }
+>();
+
+const setStatus = (next: RealtimeConnectionStatus) => {
+  if (next === status) return;
+  status = next;
+  statusListeners.forEach(listener => listener(next));
+};
+
+const notConnectedError = (): ApiError => ({
+  message: ERROR_MESSAGES.NETWORK_ERROR,
+  statusCode: 0,
+  error: 'NETWORK_ERROR',
+});
+
+// Emit with an acknowledgement, surfacing failures as ApiError like the REST client
+const emitWithAck = async <T>(
+  emit: (target: RealtimeSocket) => Promise<RealtimeAck<T>>
+): Promise<T> => {
+  if (!socket?.connected) {
+    throw notConnectedError();
+  }
+
+  let result: RealtimeAck<T>;
+  try {
+    result = await emit(
+      socket.timeout(REALTIME_CONFIG.ackTimeout) as RealtimeSocket
+    );
+  } catch {
+    throw {
+      message: 'Request timeout',
+      statusCode: 0,
+      error: 'TIMEOUT',
+    } as ApiError;
+  }
+
+  if (!result.ok) {
+    throw {
+      message: result.error,
+      statusCode: result.statusCode ?? 500,
+      error: result.code,
+    } as ApiError;
+  }
+  return result.data;
+};
+
+// Put a message at the top of the newest cached page unless it is already there
+const prependToPages = <T extends { id: string }>(
+  queryKey: readonly unknown[],
+  message: T
+) => {
+  queryClient.setQueryData<InfiniteData<PaginatedResponse<T>, number>>(
+    queryKey,
+    data => {
+      if (!data?.pages.length) return data;
+      const cached = data.pages.some(page =>
+        page.data.some(existing => existing.id === message.id)
+      );
+      if (cached) return data;
+
+      const [newest, ...older] = data.pages;
+      return {
+        ...data,
+        pages: [
+          {
+            ...newest,
+            data: [message, ...newest.data],
+            pagination: {
+              ...newest.pagination,
+              total: newest.pagination.total + 1,
+            },
+          },
+          ...older,
+        ],
+      };
+    }
+  );
+};
+
+export const addMessageToCache = (message: ChatMessage) =>
+  prependToPages(queryKeys.chat.rooms.messages(message.roomId), message);
+
+// Conversations are cached under the other participant's id
+export const addDirectMessageToCache = (message: Message) => {
+  const participantId =
+    message.senderId === useAuthStore.getState().user?.id
+      ? message.receiverId
+      : message.senderId;
+  prependToPages(queryKeys.chat.conversations.messages(participantId), message);
+};
+
+// Every cached notification list gets the new one on top, and the badge
+// count goes up
+export const addNotificationToCache = (notification: Notification) => {
+  queryClient
+    .getQueryCache()
+    .findAll({ queryKey: queryKeys.notifications.lists() })
+    .forEach(query => prependToPages(query.queryKey, notification));
+  queryClient.setQueryData<NotificationStats>(
+    queryKeys.notifications.stats(),
+    stats => stats && { unreadCount: stats.unreadCount + 1 }
+  );
+};
+
+const joinChannel = async (roomId: string) => {
+  const { onlineUsers } = await emitWithAck(target =>
+    target.emitWithAck('room:join', roomId)
+  );
+  const { setPresence } = useChatStore.getState();
+  onlineUsers.forEach(presence =>
+    setPresence({ ...presence, lastSeen: new Date(presence.lastSeen) })
+  );
+};
+
+const rejoinRooms = () => {
+  joinedRooms.forEach(roomId => {
+    joinChannel(roomId).catch((error: ApiError) => {
+      // The room is gone or closed to us; stop trying to rejoin it
+      if (error.statusCode >= 400 && error.statusCode < 500) {
+        joinedRooms.delete(roomId);
+      }
+    });
+    // Messages sent while we were away are only in the REST history
+    queryClient.invalidateQueries({
+      queryKey: queryKeys.chat.rooms.messages(roomId),
+    });
+  });
+};
+
+const registerHandlers = (target: RealtimeSocket) => {
+  target.on('connect', () => {
+    authRetried = false;
+    setStatus('connected');
+    rejoinRooms();
+  });
+
+  target.on('disconnect', reason => {
+    if (reason === 'io client disconnect') {
+      setStatus('disconnected');
+      return;
+    }
+    setStatus('reconnecting');
+    // The server closed the socket on purpose, so it will not reconnect by itself
+    if (reason === 'io server disconnect') {
+      target.connect();
+    }
+  });
+
+  target.on('connect_error', async error => {
+    // Transport failures are retried by the manager with backoff
+    if (target.active) {
+      setStatus('reconnecting');
+      return;
+    }
+
+    // The handshake was rejected: refresh the token once and try again
+    if (error.message === 'Authentication failed' && !authRetried) {
+      authRetried = true;
+      try {
+        await refreshAccessToken();
+        target.connect();
+        return;
+      } catch {
+        // Fall through; the session is gone
+      }
+    }
+    setStatus('disconnected');
+  });
+
+  target.on('message:new', incoming => {
+    const message = parseChatMessage(incoming);
+    addMessageToCache(message);
+
+    const chat = useChatStore.getState();
+    chat.clearTyping(message.roomId, message.userId);
+    if (message.userId !== useAuthStore.getState().user?.id) {
+      chat.incrementUnread(message.roomId);
+    }
+  });
+
+  // Our subscription no longer covers the room: stop rejoining it, forget its
+  // history and pick up the new role and tier
+  target.on('room:revoked', ({ roomId }) => {
+    joinedRooms.delete(roomId);
+    realtimeClient.stopTyping(roomId);
+    queryClient.removeQueries({
+      queryKey: queryKeys.chat.rooms.messages(roomId),
+    });
+    queryClient.invalidateQueries({ queryKey: queryKeys.chat.rooms.all });
+    refreshAccessToken().catch(() => undefined);
+  });
+
+  target.on('dm:new', incoming =>
+    addDirectMessageToCache(parseMessage(incoming))
+  );
+
+  target.on('notification:new', incoming =>
+    addNotificationToCache(parseNotification(incoming))
+  );
+
+  // A moderator muted or banned us; the sanctions query explains why posting
+  // now fails
+  target.on('sanction:issued', () =>
+    queryClient.invalidateQueries({ queryKey: queryKeys.sanctions.mine() })
+  );
+
+  target.on('typing', event => {
+    const chat = useChatStore.getState();
+    if (!event.isTyping) {
+      chat.clearTyping(event.roomId, event.userId);
+      return;
+    }
+    // Stamp with the local clock so expiry is not skewed by the server's
+    chat.setTyping(event.roomId, {
+      userId: event.userId,
+      username: event.username,
+      roomId: event.roomId,
+      timestamp: new Date(),
+    });
+  });
+
+  target.on('presence', presence => {
+    useChatStore
+      .getState()
+      .setPresence({ ...presence, lastSeen: new Date(presence.lastSeen) });
+  });
+};
+
+export const realtimeClient = {
+  connect: () => {
+    if (socket) {
+      if (!socket.connected && !socket.active) socket.connect();
+      return;
+    }
+
+    socket = io(REALTIME_CONFIG.url, {
+      transports: ['websocket'],
+      // Read on every (re)connect so a refreshed token is picked up
+      auth: callback =>
+        callback({ token: useAuthStore.getState().tokens?.accessToken }),
+      reconnectionDelay: CHAT_CONFIG.RECONNECT_INTERVAL,
+      reconnectionDelayMax: REALTIME_CONFIG.maxReconnectDelay,
+      randomizationFactor: 0.5,
+    });
+    setStatus('connecting');
+    registerHandlers(socket);
+  },
+
+  disconnect: () => {
+    typingState.forEach(({ timer }) => clearTimeout(timer));
+    typingState.clear();
+    joinedRooms.clear();
+    socket?.disconnect();
+    socket?.removeAllListeners();
+    socket = null;
+    setStatus('disconnected');
+  },
+
+  getStatus: (): RealtimeConnectionStatus => status,
+
+  // Returns an unsubscribe function
+  onStatusChange: (listener: (status: RealtimeConnectionStatus) => void) => {
+    statusListeners.add(listener);
+    return () => {
+      statusListeners.delete(listener);
+    };
+  },
+
+  // Joins now if connected, otherwise as soon as the socket connects
+  joinRoom: async (roomId: string): Promise<void> => {
+    joinedRooms.add(roomId);
+    if (!socket?.connected) return;
+
+    try {
+      await joinChannel(roomId);
+    } catch (error) {
+      joinedRooms.delete(roomId);
+      throw error;
+    }
+  },
+
+  leaveRoom: async (roomId: string): Promise<void> => {
+    realtimeClient.stopTyping(roomId);
+    joinedRooms.delete(roomId);
+    if (!socket?.connected) return;
+    await emitWithAck(target => target.emitWithAck('room:leave', roomId));
+  },
+
+  sendMessage: async (input: CreateChatMessageInput): Promise<ChatMessage> => {
+    realtimeClient.stopTyping(input.roomId);
+    const sent = await emitWithAck(target =>
+      target.emitWithAck('message:send', input)
+    );
+    const message = parseChatMessage(sent);
+    addMessageToCache(message);
+    return message;
+  },
+
+  sendDirectMessage: async (input: CreateMessageInput): Promise<Message> => {
+    const sent = await emitWithAck(target =>
+      target.emitWithAck('dm:send', input)
+    );
+    const message = parseMessage(sent);
+    addDirectMessageToCache(message);
+    return message;
+  },
+
+  // Call on every keystroke; re-announces often enough that receivers never
+  // expire the indicator mid-typing, and stops on its own after a pause
+  startTyping: (roomId: string) => {
+    const now = Date.now();
+    const current = typingState.get(roomId);
+    if (current) clearTimeout(current.timer);
+
+    let sentAt = current?.sentAt ?? 0;
+    if (now - sentAt > CHAT_CONFIG.TYPING_INDICATOR_TIMEOUT / 2) {
+      socket?.emit('typing:start', roomId);
+      sentAt = now;
+    }
+
+    typingState.set(roomId, {
+      sentAt,
+      timer: setTimeout(
+        () => realtimeClient.stopTyping(roomId),
+        CHAT_CONFIG.TYPING_INDICATOR_TIMEOUT
+      ),
+    });
+  },
+
+  stopTyping: (roomId: string) => {
+    const current = typingState.get(roomId);
+    if (!current) return;
+    clearTimeout(current.timer);
+    typingState.delete(roomId);
+    socket?.emit('typing:stop', roomId);
+  },
+};
+
+// Keep the socket open while signed in; returns a cleanup function
+export const startRealtimeConnection = (): (() => void) => {
+  const sync = (isAuthenticated: boolean) => {
+    if (isAuthenticated) {
+      realtimeClient.connect();
+    } else {
+      realtimeClient.disconnect();
+    }
+  };
+
+  sync(useAuthStore.getState().isAuthenticated);
+  const unsubscribe = useAuthStore.subscribe((state, previous) => {
+    if (state.isAuthenticated !== previous.isAuthenticated) {
+      sync(state.isAuthenticated);
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    realtimeClient.disconnect();
+  };
+};
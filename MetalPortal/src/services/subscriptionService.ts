@@ -0,0 +1,102 @@
+// Subscription API service
+
+import { apiClient, API_ENDPOINTS, unwrapResponse } from './api';
+import { SubscriptionTier } from '../types/auth';
+import {
+  BillingCurrency,
+  BillingInterval,
+  ChangePlanInput,
+  PlanChangeResult,
+  PromoCodePreview,
+  SubscribeInput,
+  Subscription,
+  SubscriptionPlan,
+} from '../types/subscription';
+
+// JSON transports dates as strings; restore them on the way in
+const toDate = (value?: Date | string | null) =>
+  value ? new Date(value) : null;
+
+export const parseSubscription = (
+  subscription: Subscription
+): Subscription => ({
+  ...subscription,
+  currentPeriodStart: new Date(subscription.currentPeriodStart),
+  currentPeriodEnd: new Date(subscription.currentPeriodEnd),
+  paymentFailedAt: toDate(subscription.paymentFailedAt),
+  gracePeriodEndsAt: toDate(subscription.gracePeriodEndsAt),
+  trialEndsAt: toDate(subscription.trialEndsAt),
+  promo: subscription.promo && {
+    ...subscription.promo,
+    redeemedAt: new Date(subscription.promo.redeemedAt),
+  },
+  createdAt: new Date(subscription.createdAt),
+  updatedAt: new Date(subscription.updatedAt),
+});
+
+export const subscriptionService = {
+  getPlans: async (currency?: BillingCurrency): Promise<SubscriptionPlan[]> => {
+    const response = await apiClient.get<SubscriptionPlan[]>(
+      API_ENDPOINTS.subscription.plans,
+      { currency }
+    );
+    return unwrapResponse(response);
+  },
+
+  // Fails with PROMO_CODE_INVALID when the code cannot be used on the plan
+  previewPromoCode: async (
+    code: string,
+    plan: {
+      tier?: SubscriptionTier;
+      interval?: BillingInterval;
+      currency?: BillingCurrency;
+    } = {}
+  ): Promise<PromoCodePreview> => {
+    const response = await apiClient.get<PromoCodePreview>(
+      API_ENDPOINTS.subscription.promoCode(code),
+      plan
+    );
+    const promo = unwrapResponse(response);
+    return { ...promo, expiresAt: toDate(promo.expiresAt) };
+  },
+
+  // Null for accounts that never subscribed
+  getCurrent: async (): Promise<Subscription | null> => {
+    const response = await apiClient.get<Subscription | null>(
+      API_ENDPOINTS.subscription.current
+    );
+    return response.data ? parseSubscription(response.data) : null;
+  },
+
+  getHistory: async (): Promise<Subscription[]> => {
+    const response = await apiClient.get<Subscription[]>(
+      API_ENDPOINTS.subscription.history
+    );
+    return unwrapResponse(response).map(parseSubscription);
+  },
+
+  subscribe: async (input: SubscribeInput): Promise<Subscription> => {
+    const response = await apiClient.post<Subscription>(
+      API_ENDPOINTS.subscription.subscribe,
+      input
+    );
+    return parseSubscription(unwrapResponse(response));
+  },
+
+  changePlan: async (input: ChangePlanInput): Promise<PlanChangeResult> => {
+    const response = await apiClient.post<PlanChangeResult>(
+      API_ENDPOINTS.subscription.update,
+      input
+    );
+    const result = unwrapResponse(response);
+    return { ...result, subscription: parseSubscription(result.subscription) };
+  },
+
+  // Stays active until the end of the paid period
+  cancel: async (): Promise<Subscription> => {
+    const response = await apiClient.post<Subscription>(
+      API_ENDPOINTS.subscription.cancel
+    );
+    return parseSubscription(unwrapResponse(response));
+  },
+};
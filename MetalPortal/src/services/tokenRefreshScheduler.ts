@@ -0,0 +1,87 @@
+// Proactive access token renewal
+
+import { AppState, AppStateStatus } from 'react-native';
+import { refreshAccessToken } from './api';
+import { useAuthStore } from '../store/authStore';
+import { AUTH_CONFIG } from '../utils/constants';
+
+// How long to wait before trying again after a refresh failed for network reasons
+const RETRY_DELAY = 30 * 1000; // 30 seconds
+
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+const clearRefreshTimer = () => {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+};
+
+const renewAccessToken = async () => {
+  refreshTimer = null;
+  try {
+    // Shares the in-flight refresh with any request that just hit a 401;
+    // the new tokens reschedule the next renewal through the store subscription
+    await refreshAccessToken();
+  } catch {
+    // A rejected refresh logs the user out; anything else is retried
+    if (useAuthStore.getState().isAuthenticated) {
+      clearRefreshTimer();
+      refreshTimer = setTimeout(renewAccessToken, RETRY_DELAY);
+    }
+  }
+};
+
+// Refresh now if the token is within the threshold, otherwise schedule it
+const scheduleRefresh = () => {
+  clearRefreshTimer();
+
+  const { tokens, isAuthenticated } = useAuthStore.getState();
+  if (!isAuthenticated || !tokens?.refreshToken) return;
+
+  // Tokens persisted before expiresAt existed are treated as due
+  const refreshAt = (tokens.expiresAt ?? 0) - AUTH_CONFIG.TOKEN_REFRESH_THRESHOLD;
+  const delay = refreshAt - Date.now();
+
+  if (delay <= 0) {
+    void renewAccessToken();
+  } else {
+    refreshTimer = setTimeout(renewAccessToken, delay);
+  }
+};
+
+const handleAppStateChange = (status: AppStateStatus) => {
+  if (status === 'active') {
+    // Timers don't run while backgrounded, so re-check on return
+    scheduleRefresh();
+  } else {
+    clearRefreshTimer();
+  }
+};
+
+// Start the scheduler; returns a cleanup function
+export const startTokenRefreshScheduler = (): (() => void) => {
+  // Persisted tokens load asynchronously; wait for them before the first check
+  const unsubscribeHydration = useAuthStore.persist.onFinishHydration(scheduleRefresh);
+  if (useAuthStore.persist.hasHydrated()) {
+    scheduleRefresh();
+  }
+
+  const unsubscribeStore = useAuthStore.subscribe((state, previousState) => {
+    if (
+      state.tokens !== previousState.tokens ||
+      state.isAuthenticated !== previousState.isAuthenticated
+    ) {
+      scheduleRefresh();
+    }
+  });
+
+  const appStateSubscription = AppState.addEventListener('change', handleAppStateChange);
+
+  return () => {
+    clearRefreshTimer();
+    unsubscribeHydration();
+    unsubscribeStore();
+    appStateSubscription.remove();
+  };
+};
@@ -0,0 +1,182 @@
+// Resumable upload queue runner
+//
+// Jobs are processed one at a time. A job interrupted by a network error is
+// paused and resumed (from the parts the server already has) when the device
+// reconnects or the app returns to the foreground.
+
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { chunkedUploadService } from './chunkedUploadService';
+import { useUploadQueueStore } from '../store/uploadQueueStore';
+import { ApiError } from '../types/api';
+import { FileUpload } from '../types/common';
+import { UploadJob, UploadKind, UploadSessionStatus } from '../types/upload';
+import { generateClientId } from '../utils/id';
+import { validateFile } from '../utils/validation';
+
+let isProcessing = false;
+const cancelledJobs = new Set<string>();
+
+const getJob = (id: string) => useUploadQueueStore.getState().jobs.find(job => job.id === id);
+const updateJob = (id: string, changes: Partial<UploadJob>) =>
+  useUploadQueueStore.getState().updateJob(id, changes);
+
+// Network failures and server errors are worth resuming; anything else is final
+const isTransientError = (error: unknown): boolean => {
+  const statusCode = (error as ApiError | null)?.statusCode ?? 0;
+  return statusCode === 0 || statusCode >= 500;
+};
+
+// Reuse the job's server session if it can still accept parts
+const resumeSession = async (job: UploadJob): Promise<UploadSessionStatus | null> => {
+  if (!job.uploadId) return null;
+  try {
+    const session = await chunkedUploadService.getStatus(job.uploadId);
+    return session.status === 'pending' && session.expiresAt > new Date() ? session : null;
+  } catch (error) {
+    if (isTransientError(error)) throw error;
+    return null;
+  }
+};
+
+const runJob = async (job: UploadJob): Promise<void> => {
+  updateJob(job.id, { status: 'uploading', error: undefined });
+
+  let session = await resumeSession(job);
+  if (!session) {
+    session = await chunkedUploadService.init({
+      fileName: job.file.name,
+      mimeType: job.file.type,
+      fileSize: job.file.size,
+      kind: job.kind,
+    });
+  }
+
+  const { uploadId, chunkSize, totalChunks } = session;
+  const received = new Set(session.receivedChunks);
+  const reportProgress = () =>
+    updateJob(job.id, {
+      uploadId,
+      chunkSize,
+      totalChunks,
+      uploadedChunks: Array.from(received).sort((a, b) => a - b),
+      progress: Math.round((received.size / totalChunks) * 100),
+    });
+  reportProgress();
+
+  for (let index = 0; index < totalChunks; index++) {
+    // A job removed from the store (cancel or logout) stops between chunks
+    if (cancelledJobs.has(job.id) || !getJob(job.id)) return;
+    if (received.has(index)) continue;
+
+    const position = index * chunkSize;
+    const length = Math.min(chunkSize, job.file.size - position);
+    const data = await chunkedUploadService.readChunk(job.file.uri, position, length);
+    await chunkedUploadService.uploadChunk(uploadId, index, data);
+
+    received.add(index);
+    reportProgress();
+  }
+
+  const media = await chunkedUploadService.complete(uploadId);
+  updateJob(job.id, { status: 'completed', progress: 100, media });
+};
+
+const processQueue = async () => {
+  if (isProcessing) return;
+  isProcessing = true;
+
+  try {
+    let job: UploadJob | undefined;
+    while ((job = useUploadQueueStore.getState().jobs.find(queued => queued.status === 'queued'))) {
+      try {
+        await runJob(job);
+      } catch (error) {
+        const message = (error as ApiError | null)?.message || 'Upload failed';
+        if (isTransientError(error)) {
+          // Stop here; everything waits for connectivity to come back
+          updateJob(job.id, { status: 'paused', error: message });
+          break;
+        }
+        updateJob(job.id, { status: 'failed', error: message });
+      }
+    }
+  } finally {
+    isProcessing = false;
+  }
+};
+
+// Requeue paused jobs and start processing
+const resumePaused = () => {
+  useUploadQueueStore
+    .getState()
+    .jobs.filter(job => job.status === 'paused')
+    .forEach(job => updateJob(job.id, { status: 'queued' }));
+  void processQueue();
+};
+
+export const uploadQueue = {
+  // Add a file to the queue; throws if it fails FILE_UPLOAD validation
+  enqueue: (file: FileUpload, kind: UploadKind): string => {
+    const validation = validateFile(file, kind);
+    if (!validation.isValid) {
+      throw new Error(validation.error);
+    }
+
+    const id = generateClientId('upload_');
+    useUploadQueueStore.getState().addJob({
+      id,
+      file,
+      kind,
+      status: 'queued',
+      uploadedChunks: [],
+      progress: 0,
+      createdAt: Date.now(),
+    });
+    void processQueue();
+    return id;
+  },
+
+  retry: (id: string) => {
+    const job = getJob(id);
+    if (job && (job.status === 'failed' || job.status === 'paused')) {
+      updateJob(id, { status: 'queued' });
+      void processQueue();
+    }
+  },
+
+  cancel: async (id: string) => {
+    const job = getJob(id);
+    if (!job) return;
+
+    cancelledJobs.add(id);
+    useUploadQueueStore.getState().removeJob(id);
+    if (job.uploadId && job.status !== 'completed') {
+      // Best effort: an orphaned session simply expires on the server
+      await chunkedUploadService.abort(job.uploadId).catch(() => undefined);
+    }
+    cancelledJobs.delete(id);
+  },
+};
+
+// Start processing and resume on reconnect/foreground; returns a cleanup function
+export const startUploadQueue = (): (() => void) => {
+  const unsubscribeHydration = useUploadQueueStore.persist.onFinishHydration(resumePaused);
+  if (useUploadQueueStore.persist.hasHydrated()) {
+    resumePaused();
+  }
+
+  const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+    if (state.isConnected) resumePaused();
+  });
+
+  const appStateSubscription = AppState.addEventListener('change', status => {
+    if (status === 'active') resumePaused();
+  });
+
+  return () => {
+    unsubscribeHydration();
+    unsubscribeNetInfo();
+    appStateSubscription.remove();
+  };
+};
@@ -0,0 +1,40 @@
+// Media upload service
+
+import { apiClient, API_ENDPOINTS, unwrapResponse } from './api';
+import { UploadOptions } from '../types/api';
+import { FileUpload, MediaFile } from '../types/common';
+import { UploadKind } from '../types/upload';
+
+type MediaUploadOptions = Omit<UploadOptions, 'fileType'>;
+
+export const parseMediaFile = (media: MediaFile): MediaFile => ({
+  ...media,
+  createdAt: new Date(media.createdAt),
+});
+
+export const uploadService = {
+  // Validates against FILE_UPLOAD limits for the kind, then uploads to its endpoint
+  upload: async (
+    file: FileUpload,
+    kind: UploadKind,
+    options: MediaUploadOptions = {}
+  ): Promise<MediaFile> => {
+    const response = await apiClient.upload<MediaFile>(API_ENDPOINTS.upload[kind], file, {
+      ...options,
+      fileType: kind,
+    });
+    return parseMediaFile(unwrapResponse(response));
+  },
+
+  uploadImage: (file: FileUpload, options?: MediaUploadOptions) =>
+    uploadService.upload(file, 'image', options),
+
+  uploadVideo: (file: FileUpload, options?: MediaUploadOptions) =>
+    uploadService.upload(file, 'video', options),
+
+  uploadAudio: (file: FileUpload, options?: MediaUploadOptions) =>
+    uploadService.upload(file, 'audio', options),
+
+  uploadFile: (file: FileUpload, options?: MediaUploadOptions) =>
+    uploadService.upload(file, 'file', options),
+};
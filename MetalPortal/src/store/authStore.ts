@@ -3,6 +3,8 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import * as SecureStore from 'expo-secure-store';
+import { authService } from '../services/authService';
+import { resetUserStores } from './resetUserStores';
 import {
   AuthUser,
   AuthTokens,
@@ -67,6 +69,21 @@ const secureStorage = {
   },
 };
 
+// API errors are plain objects carrying a message, not Error instances
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  (error as { message?: string } | null)?.message || fallback;
+
+// Stamp tokens with an absolute expiry so renewal can be scheduled across restarts
+const withExpiry = (tokens: AuthTokens): AuthTokens => ({
+  ...tokens,
+  expiresAt: Date.now() + tokens.expiresIn * 1000,
+});
+
+const isRejectedRequest = (error: unknown): boolean => {
+  const statusCode = (error as { statusCode?: number } | null)?.statusCode;
+  return statusCode !== undefined && statusCode >= 400 && statusCode < 500;
+};
+
 export const useAuthStore = create<AuthStore>()(
   persist(
     (set, get) => ({
@@ -82,38 +99,17 @@ export const useAuthStore = create<AuthStore>()(
       login: async (credentials: LoginCredentials) => {
         set({ isLoading: true, error: null });
         try {
-          // TODO: Replace with actual API call
-          // const response = await authAPI.login(credentials);
-          
-          // Mock implementation for now
-          const mockUser: AuthUser = {
-            id: '1',
-            email: credentials.email,
-            username: credentials.email.split('@')[0],
-            displayName: 'Test User',
-            role: UserRole.FAN,
-            subscriptionTier: SubscriptionTier.FREE,
-            subscriptionStatus: SubscriptionStatus.ACTIVE,
-            isVerified: false,
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          };
-
-          const mockTokens: AuthTokens = {
-            accessToken: 'mock-access-token',
-            refreshToken: 'mock-refresh-token',
-            expiresIn: 900, // 15 minutes
-          };
+          const { user, tokens } = await authService.login(credentials);
 
           set({
-            user: mockUser,
-            tokens: mockTokens,
+            user,
+            tokens: withExpiry(tokens),
             isAuthenticated: true,
             isLoading: false,
           });
         } catch (error) {
           set({
-            error: error instanceof Error ? error.message : 'Login failed',
+            error: getErrorMessage(error, 'Login failed'),
             isLoading: false,
           });
         }
@@ -122,49 +118,30 @@ export const useAuthStore = create<AuthStore>()(
       register: async (credentials: RegisterCredentials) => {
         set({ isLoading: true, error: null });
         try {
-          // TODO: Replace with actual API call
-          // const response = await authAPI.register(credentials);
-          
-          // Mock implementation for now
-          const mockUser: AuthUser = {
-            id: '1',
-            email: credentials.email,
-            username: credentials.username,
-            displayName: credentials.displayName || credentials.username,
-            role: UserRole.FAN,
-            subscriptionTier: SubscriptionTier.FREE,
-            subscriptionStatus: SubscriptionStatus.ACTIVE,
-            isVerified: false,
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          };
-
-          const mockTokens: AuthTokens = {
-            accessToken: 'mock-access-token',
-            refreshToken: 'mock-refresh-token',
-            expiresIn: 900,
-          };
+          const { user, tokens } = await authService.register(credentials);
 
           set({
-            user: mockUser,
-            tokens: mockTokens,
+            user,
+            tokens: withExpiry(tokens),
             isAuthenticated: true,
             isLoading: false,
           });
         } catch (error) {
           set({
-            error: error instanceof Error ? error.message : 'Registration failed',
+            error: getErrorMessage(error, 'Registration failed'),
             isLoading: false,
           });
         }
       },
 
       logout: async () => {
+        const { tokens } = get();
         set({ isLoading: true });
         try {
-          // TODO: Replace with actual API call
-          // await authAPI.logout();
-          
+          if (tokens) {
+            await authService.logout(tokens.refreshToken);
+          }
+
           set({
             user: null,
             tokens: null,
@@ -172,7 +149,7 @@ export const useAuthStore = create<AuthStore>()(
             isLoading: false,
             error: null,
           });
-        } catch (error) {
+        } catch {
           // Even if logout fails, clear local state
           set({
             user: null,
@@ -182,6 +159,7 @@ export const useAuthStore = create<AuthStore>()(
             error: null,
           });
         }
+        resetUserStores();
       },
 
       refreshToken: async () => {
@@ -189,32 +167,28 @@ export const useAuthStore = create<AuthStore>()(
         if (!tokens?.refreshToken) return;
 
         try {
-          // TODO: Replace with actual API call
-          // const response = await authAPI.refreshToken(tokens.refreshToken);
-          
-          // Mock implementation
-          const mockTokens: AuthTokens = {
-            accessToken: 'new-mock-access-token',
-            refreshToken: tokens.refreshToken,
-            expiresIn: 900,
-          };
+          const response = await authService.refreshToken(tokens.refreshToken);
 
-          set({ tokens: mockTokens });
+          // The server returns the latest role and subscription alongside the tokens
+          set({ user: response.user, tokens: withExpiry(response.tokens) });
         } catch (error) {
-          // If refresh fails, logout user
-          get().logout();
+          // Only a refresh the server rejected ends the session; network
+          // failures keep the tokens so the refresh can be tried again
+          if (isRejectedRequest(error)) {
+            await get().logout();
+          }
+          throw error;
         }
       },
 
       resetPassword: async (email: string) => {
         set({ isLoading: true, error: null });
         try {
-          // TODO: Replace with actual API call
-          // await authAPI.resetPassword(email);
+          await authService.resetPassword(email);
           set({ isLoading: false });
         } catch (error) {
           set({
-            error: error instanceof Error ? error.message : 'Reset password failed',
+            error: getErrorMessage(error, 'Reset password failed'),
             isLoading: false,
           });
         }
@@ -223,12 +197,11 @@ export const useAuthStore = create<AuthStore>()(
       confirmResetPassword: async (token: string, newPassword: string) => {
         set({ isLoading: true, error: null });
         try {
-          // TODO: Replace with actual API call
-          // await authAPI.confirmResetPassword(token, newPassword);
+          await authService.confirmResetPassword(token, newPassword);
           set({ isLoading: false });
         } catch (error) {
           set({
-            error: error instanceof Error ? error.message : 'Password reset confirmation failed',
+            error: getErrorMessage(error, 'Password reset confirmation failed'),
             isLoading: false,
           });
         }
@@ -237,12 +210,11 @@ export const useAuthStore = create<AuthStore>()(
       changePassword: async (currentPassword: string, newPassword: string) => {
         set({ isLoading: true, error: null });
         try {
-          // TODO: Replace with actual API call
-          // await authAPI.changePassword(currentPassword, newPassword);
+          await authService.changePassword(currentPassword, newPassword);
           set({ isLoading: false });
         } catch (error) {
           set({
-            error: error instanceof Error ? error.message : 'Password change failed',
+            error: getErrorMessage(error, 'Password change failed'),
             isLoading: false,
           });
         }
@@ -286,7 +258,8 @@ export const useAuthStore = create<AuthStore>()(
 
       setUser: (user: AuthUser | null) => set({ user }),
 
-      setTokens: (tokens: AuthTokens | null) => set({ tokens }),
+      setTokens: (tokens: AuthTokens | null) =>
+        set({ tokens: tokens ? withExpiry(tokens) : null }),
 
       setLoading: (loading: boolean) => set({ isLoading: loading }),
 
@@ -0,0 +1,147 @@
+// Chat rooms, unread counts and typing state Zustand store
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { OnlinePresence, TypingIndicator } from '../types/chat';
+import { CHAT_CONFIG } from '../utils/constants';
+import { omitKey } from '../utils/object';
+
+export interface ChatStore {
+  // State
+  activeRoomId: string | null;
+  unreadCounts: Record<string, number>;
+  typingByRoom: Record<string, TypingIndicator[]>;
+  presence: Record<string, OnlinePresence>;
+  messageDrafts: Record<string, string>;
+
+  // Actions
+  setActiveRoom: (roomId: string | null) => void;
+  setUnreadCount: (roomId: string, count: number) => void;
+  incrementUnread: (roomId: string) => void;
+  clearUnread: (roomId: string) => void;
+  getTotalUnread: () => number;
+  setTyping: (roomId: string, indicator: TypingIndicator) => void;
+  clearTyping: (roomId: string, userId: string) => void;
+  pruneTyping: (now?: number) => void;
+  setPresence: (presence: OnlinePresence) => void;
+  setMessageDraft: (roomId: string, text: string) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  activeRoomId: null,
+  unreadCounts: {},
+  typingByRoom: {},
+  presence: {},
+  messageDrafts: {},
+};
+
+export const useChatStore = create<ChatStore>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      ...initialState,
+
+      // Actions
+      // Opening a room marks it read
+      setActiveRoom: (roomId: string | null) =>
+        set(state => ({
+          activeRoomId: roomId,
+          unreadCounts: roomId
+            ? omitKey(state.unreadCounts, roomId)
+            : state.unreadCounts,
+        })),
+
+      setUnreadCount: (roomId: string, count: number) =>
+        set(state => ({
+          unreadCounts:
+            count > 0
+              ? { ...state.unreadCounts, [roomId]: count }
+              : omitKey(state.unreadCounts, roomId),
+        })),
+
+      incrementUnread: (roomId: string) => {
+        // Messages arriving in the open room are already being read
+        if (get().activeRoomId === roomId) return;
+        set(state => ({
+          unreadCounts: {
+            ...state.unreadCounts,
+            [roomId]: (state.unreadCounts[roomId] ?? 0) + 1,
+          },
+        }));
+      },
+
+      clearUnread: (roomId: string) =>
+        set(state => ({
+          unreadCounts: omitKey(state.unreadCounts, roomId),
+        })),
+
+      getTotalUnread: () =>
+        Object.values(get().unreadCounts).reduce(
+          (total, count) => total + count,
+          0
+        ),
+
+      setTyping: (roomId: string, indicator: TypingIndicator) =>
+        set(state => {
+          const others = (state.typingByRoom[roomId] ?? []).filter(
+            typing => typing.userId !== indicator.userId
+          );
+          return {
+            typingByRoom: {
+              ...state.typingByRoom,
+              [roomId]: [...others, indicator],
+            },
+          };
+        }),
+
+      clearTyping: (roomId: string, userId: string) =>
+        set(state => {
+          const remaining = (state.typingByRoom[roomId] ?? []).filter(
+            typing => typing.userId !== userId
+          );
+          return {
+            typingByRoom: remaining.length
+              ? { ...state.typingByRoom, [roomId]: remaining }
+              : omitKey(state.typingByRoom, roomId),
+          };
+        }),
+
+      // Drop indicators whose "stopped typing" event never arrived
+      pruneTyping: (now = Date.now()) =>
+        set(state => {
+          const typingByRoom: Record<string, TypingIndicator[]> = {};
+          Object.entries(state.typingByRoom).forEach(([roomId, indicators]) => {
+            const active = indicators.filter(
+              typing =>
+                now - new Date(typing.timestamp).getTime() <
+                CHAT_CONFIG.TYPING_INDICATOR_TIMEOUT
+            );
+            if (active.length) typingByRoom[roomId] = active;
+          });
+          return { typingByRoom };
+        }),
+
+      setPresence: (presence: OnlinePresence) =>
+        set(state => ({
+          presence: { ...state.presence, [presence.userId]: presence },
+        })),
+
+      setMessageDraft: (roomId: string, text: string) =>
+        set(state => ({
+          messageDrafts: text
+            ? { ...state.messageDrafts, [roomId]: text }
+            : omitKey(state.messageDrafts, roomId),
+        })),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'chat-store',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Typing and presence are live signals; only unsent drafts outlive the app
+      partialize: state => ({ messageDrafts: state.messageDrafts }),
+    }
+  )
+);
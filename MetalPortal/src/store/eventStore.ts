@@ -0,0 +1,73 @@
+// Event calendar UI and reminders Zustand store
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { EventFilter } from '../types/event';
+import { omitKey } from '../utils/object';
+
+export type EventViewMode = 'list' | 'calendar';
+
+export interface EventStore {
+  // State
+  viewMode: EventViewMode;
+  selectedDate: string | null;
+  selectedEventId: string | null;
+  filter: EventFilter;
+  reminders: Record<string, number>;
+
+  // Actions
+  setViewMode: (mode: EventViewMode) => void;
+  setSelectedDate: (date: string | null) => void;
+  setSelectedEvent: (eventId: string | null) => void;
+  setFilter: (filter: EventFilter) => void;
+  setReminder: (eventId: string, minutesBefore: number) => void;
+  removeReminder: (eventId: string) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  viewMode: 'list' as EventViewMode,
+  selectedDate: null,
+  selectedEventId: null,
+  filter: {},
+  reminders: {},
+};
+
+export const useEventStore = create<EventStore>()(
+  persist(
+    set => ({
+      // Initial state
+      ...initialState,
+
+      // Actions
+      setViewMode: (mode: EventViewMode) => set({ viewMode: mode }),
+
+      // Dates are kept as ISO day strings (YYYY-MM-DD) so they persist cleanly
+      setSelectedDate: (date: string | null) => set({ selectedDate: date }),
+
+      setSelectedEvent: (eventId: string | null) =>
+        set({ selectedEventId: eventId }),
+
+      setFilter: (filter: EventFilter) => set({ filter }),
+
+      setReminder: (eventId: string, minutesBefore: number) =>
+        set(state => ({
+          reminders: { ...state.reminders, [eventId]: minutesBefore },
+        })),
+
+      removeReminder: (eventId: string) =>
+        set(state => ({ reminders: omitKey(state.reminders, eventId) })),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'event-store',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: state => ({
+        viewMode: state.viewMode,
+        reminders: state.reminders,
+      }),
+    }
+  )
+);
@@ -0,0 +1,84 @@
+// Forum drafts and thread UI Zustand store
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CreateForumPostInput, ForumSort } from '../types/forum';
+import { omitKey } from '../utils/object';
+
+export interface ForumStore {
+  // State
+  selectedCategoryId: string | null;
+  threadDrafts: Record<string, CreateForumPostInput>;
+  replyDrafts: Record<string, string>;
+  collapsedCommentIds: string[];
+  sort: ForumSort;
+
+  // Actions
+  setSelectedCategory: (categoryId: string | null) => void;
+  saveThreadDraft: (draft: CreateForumPostInput) => void;
+  clearThreadDraft: (categoryId: string) => void;
+  setReplyDraft: (postId: string, text: string) => void;
+  toggleCommentCollapsed: (commentId: string) => void;
+  setSort: (sort: ForumSort) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  selectedCategoryId: null,
+  threadDrafts: {},
+  replyDrafts: {},
+  collapsedCommentIds: [],
+  sort: { field: 'updatedAt', order: 'desc' } as ForumSort,
+};
+
+export const useForumStore = create<ForumStore>()(
+  persist(
+    set => ({
+      // Initial state
+      ...initialState,
+
+      // Actions
+      setSelectedCategory: (categoryId: string | null) =>
+        set({ selectedCategoryId: categoryId }),
+
+      // One new-thread draft per category
+      saveThreadDraft: (draft: CreateForumPostInput) =>
+        set(state => ({
+          threadDrafts: { ...state.threadDrafts, [draft.categoryId]: draft },
+        })),
+
+      clearThreadDraft: (categoryId: string) =>
+        set(state => ({
+          threadDrafts: omitKey(state.threadDrafts, categoryId),
+        })),
+
+      setReplyDraft: (postId: string, text: string) =>
+        set(state => ({
+          replyDrafts: text
+            ? { ...state.replyDrafts, [postId]: text }
+            : omitKey(state.replyDrafts, postId),
+        })),
+
+      toggleCommentCollapsed: (commentId: string) =>
+        set(state => ({
+          collapsedCommentIds: state.collapsedCommentIds.includes(commentId)
+            ? state.collapsedCommentIds.filter(id => id !== commentId)
+            : [...state.collapsedCommentIds, commentId],
+        })),
+
+      setSort: (sort: ForumSort) => set({ sort }),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'forum-store',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: state => ({
+        threadDrafts: state.threadDrafts,
+        replyDrafts: state.replyDrafts,
+        sort: state.sort,
+      }),
+    }
+  )
+);
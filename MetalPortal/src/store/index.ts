@@ -9,6 +9,8 @@ export { useChatStore } from './chatStore';
 export { useEventStore } from './eventStore';
 export { useNotificationStore } from './notificationStore';
 export { useThemeStore } from './themeStore';
+export { useUploadQueueStore } from './uploadQueueStore';
+export { useOutboxStore } from './outboxStore';
 
 export type { AuthStore } from './authStore';
 export type { UserStore } from './userStore';
@@ -17,4 +19,6 @@ export type { ForumStore } from './forumStore';
 export type { ChatStore } from './chatStore';
 export type { EventStore } from './eventStore';
 export type { NotificationStore } from './notificationStore';
-export type { ThemeStore } from './themeStore';
\ No newline at end of file
+export type { ThemeStore } from './themeStore';
+export type { UploadQueueStore } from './uploadQueueStore';
+export type { OutboxStore } from './outboxStore';
\ No newline at end of file
@@ -0,0 +1,69 @@
+// Notification badge and push registration Zustand store
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type PushPermissionStatus = 'undetermined' | 'granted' | 'denied';
+
+export interface NotificationStore {
+  // State
+  unreadCount: number;
+  lastSeenAt: number | null;
+  permissionStatus: PushPermissionStatus;
+  pushToken: string | null;
+
+  // Actions
+  setUnreadCount: (count: number) => void;
+  incrementUnread: (by?: number) => void;
+  decrementUnread: (by?: number) => void;
+  markAllSeen: () => void;
+  setPermissionStatus: (status: PushPermissionStatus) => void;
+  setPushToken: (token: string | null) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  unreadCount: 0,
+  lastSeenAt: null,
+  pushToken: null,
+};
+
+export const useNotificationStore = create<NotificationStore>()(
+  persist(
+    set => ({
+      // Initial state
+      ...initialState,
+      permissionStatus: 'undetermined' as PushPermissionStatus,
+
+      // Actions
+      setUnreadCount: (count: number) =>
+        set({ unreadCount: Math.max(0, count) }),
+
+      incrementUnread: (by = 1) =>
+        set(state => ({ unreadCount: state.unreadCount + by })),
+
+      decrementUnread: (by = 1) =>
+        set(state => ({ unreadCount: Math.max(0, state.unreadCount - by) })),
+
+      markAllSeen: () => set({ unreadCount: 0, lastSeenAt: Date.now() }),
+
+      setPermissionStatus: (status: PushPermissionStatus) =>
+        set({ permissionStatus: status }),
+
+      setPushToken: (token: string | null) => set({ pushToken: token }),
+
+      // OS permission belongs to the device, so it is kept across accounts
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'notification-store',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: state => ({
+        lastSeenAt: state.lastSeenAt,
+        permissionStatus: state.permissionStatus,
+        pushToken: state.pushToken,
+      }),
+    }
+  )
+);
@@ -0,0 +1,48 @@
+// Offline outbox Zustand store for unsent chat and direct messages
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { OutboxItem, OutboxItemBase } from '../types/chat';
+
+export interface OutboxStore {
+  // State
+  items: OutboxItem[];
+
+  // Actions
+  addItem: (item: OutboxItem) => void;
+  updateItem: (clientId: string, changes: Partial<OutboxItemBase>) => void;
+  removeItem: (clientId: string) => void;
+  reset: () => void;
+}
+
+export const useOutboxStore = create<OutboxStore>()(
+  persist(
+    set => ({
+      // Initial state
+      items: [],
+
+      // Actions
+      addItem: (item: OutboxItem) =>
+        set(state => ({ items: [...state.items, item] })),
+
+      updateItem: (clientId: string, changes: Partial<OutboxItemBase>) =>
+        set(state => ({
+          items: state.items.map(item =>
+            item.clientId === clientId ? { ...item, ...changes } : item
+          ),
+        })),
+
+      removeItem: (clientId: string) =>
+        set(state => ({
+          items: state.items.filter(item => item.clientId !== clientId),
+        })),
+
+      reset: () => set({ items: [] }),
+    }),
+    {
+      name: 'outbox-store',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
@@ -0,0 +1,86 @@
+// Post drafts and feed UI Zustand store
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CreatePostInput, PostFilter, PostSort } from '../types/post';
+import { omitKey } from '../utils/object';
+
+export interface PostDraft extends CreatePostInput {
+  id: string;
+  updatedAt: number;
+}
+
+export interface PostStore {
+  // State
+  drafts: Record<string, PostDraft>;
+  commentDrafts: Record<string, string>;
+  selectedPostId: string | null;
+  feedFilter: PostFilter;
+  feedSort: PostSort;
+
+  // Actions
+  saveDraft: (id: string, draft: CreatePostInput) => void;
+  deleteDraft: (id: string) => void;
+  setCommentDraft: (postId: string, text: string) => void;
+  setSelectedPost: (postId: string | null) => void;
+  setFeedFilter: (filter: PostFilter) => void;
+  setFeedSort: (sort: PostSort) => void;
+  reset: () => void;
+}
+
+const initialState = {
+  drafts: {},
+  commentDrafts: {},
+  selectedPostId: null,
+  feedFilter: {},
+  feedSort: { field: 'createdAt', order: 'desc' } as PostSort,
+};
+
+export const usePostStore = create<PostStore>()(
+  persist(
+    set => ({
+      // Initial state
+      ...initialState,
+
+      // Actions
+      saveDraft: (id: string, draft: CreatePostInput) =>
+        set(state => ({
+          drafts: {
+            ...state.drafts,
+            [id]: { ...draft, id, updatedAt: Date.now() },
+          },
+        })),
+
+      deleteDraft: (id: string) =>
+        set(state => ({ drafts: omitKey(state.drafts, id) })),
+
+      setCommentDraft: (postId: string, text: string) =>
+        set(state => ({
+          // Clearing the text drops the entry rather than keeping an empty draft
+          commentDrafts: text
+            ? { ...state.commentDrafts, [postId]: text }
+            : omitKey(state.commentDrafts, postId),
+        })),
+
+      setSelectedPost: (postId: string | null) =>
+        set({ selectedPostId: postId }),
+
+      setFeedFilter: (filter: PostFilter) => set({ feedFilter: filter }),
+
+      setFeedSort: (sort: PostSort) => set({ feedSort: sort }),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'post-store',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Filters hold Dates that do not survive JSON, so only drafts and sort persist
+      partialize: state => ({
+        drafts: state.drafts,
+        commentDrafts: state.commentDrafts,
+        feedSort: state.feedSort,
+      }),
+    }
+  )
+);
@@ -0,0 +1,22 @@
+// Clears every store that holds per-account state
+
+import { useUserStore } from './userStore';
+import { usePostStore } from './postStore';
+import { useForumStore } from './forumStore';
+import { useChatStore } from './chatStore';
+import { useEventStore } from './eventStore';
+import { useNotificationStore } from './notificationStore';
+import { useOutboxStore } from './outboxStore';
+import { useUploadQueueStore } from './uploadQueueStore';
+
+// The theme store is a device preference and is left as is
+export const resetUserStores = (): void => {
+  useUserStore.getState().reset();
+  usePostStore.getState().reset();
+  useForumStore.getState().reset();
+  useChatStore.getState().reset();
+  useEventStore.getState().reset();
+  useNotificationStore.getState().reset();
+  useOutboxStore.getState().reset();
+  useUploadQueueStore.getState().reset();
+};
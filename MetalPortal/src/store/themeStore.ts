@@ -0,0 +1,44 @@
+// Theme Zustand store
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Theme } from '../types/common';
+import { getTheme, ThemeMode } from '../utils/theme';
+
+export interface ThemeStore {
+  // State
+  mode: ThemeMode;
+  theme: Theme;
+
+  // Actions
+  setMode: (mode: ThemeMode) => void;
+  toggleMode: () => void;
+}
+
+// Theme is a device preference, so unlike the other stores it survives logout
+export const useThemeStore = create<ThemeStore>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      mode: 'dark',
+      theme: getTheme('dark'),
+
+      // Actions
+      setMode: (mode: ThemeMode) => set({ mode, theme: getTheme(mode) }),
+
+      toggleMode: () => get().setMode(get().mode === 'dark' ? 'light' : 'dark'),
+    }),
+    {
+      name: 'theme-store',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: state => ({ mode: state.mode }),
+      // The resolved theme is derived, not stored
+      merge: (persisted, current) => {
+        const mode =
+          (persisted as Partial<ThemeStore> | undefined)?.mode ?? current.mode;
+        return { ...current, mode, theme: getTheme(mode) };
+      },
+    }
+  )
+);
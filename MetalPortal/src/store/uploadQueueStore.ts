@@ -0,0 +1,53 @@
+// Resumable upload queue Zustand store
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { UploadJob } from '../types/upload';
+
+export interface UploadQueueStore {
+  // State
+  jobs: UploadJob[];
+
+  // Actions
+  addJob: (job: UploadJob) => void;
+  updateJob: (id: string, changes: Partial<UploadJob>) => void;
+  removeJob: (id: string) => void;
+  clearCompleted: () => void;
+  reset: () => void;
+}
+
+export const useUploadQueueStore = create<UploadQueueStore>()(
+  persist(
+    set => ({
+      // Initial state
+      jobs: [],
+
+      // Actions
+      addJob: (job: UploadJob) => set(state => ({ jobs: [...state.jobs, job] })),
+
+      updateJob: (id: string, changes: Partial<UploadJob>) =>
+        set(state => ({
+          jobs: state.jobs.map(job => (job.id === id ? { ...job, ...changes } : job)),
+        })),
+
+      removeJob: (id: string) =>
+        set(state => ({ jobs: state.jobs.filter(job => job.id !== id) })),
+
+      clearCompleted: () =>
+        set(state => ({ jobs: state.jobs.filter(job => job.status !== 'completed') })),
+
+      reset: () => set({ jobs: [] }),
+    }),
+    {
+      name: 'upload-queue-store',
+      storage: createJSONStorage(() => AsyncStorage),
+      // An upload interrupted by the app closing resumes from the parts the server has
+      onRehydrateStorage: () => state => {
+        state?.jobs
+          .filter(job => job.status === 'uploading')
+          .forEach(job => state.updateJob(job.id, { status: 'paused' }));
+      },
+    }
+  )
+);
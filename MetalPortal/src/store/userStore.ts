@@ -0,0 +1,101 @@
+// User preferences and profile UI Zustand store
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { UpdateUserProfile, UserPreferences } from '../types/user';
+import { NOTIFICATION_CONFIG } from '../utils/constants';
+
+const MAX_RECENT_SEARCHES = 10;
+
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  theme: 'dark',
+  notifications: { ...NOTIFICATION_CONFIG.DEFAULT_PREFERENCES },
+  privacy: {
+    profileVisibility: 'public',
+    allowDirectMessages: true,
+    allowMentions: true,
+    showOnlineStatus: true,
+  },
+  content: {
+    autoplayVideos: true,
+    showExplicitContent: false,
+    defaultSort: 'newest',
+  },
+};
+
+export interface UserStore {
+  // State
+  preferences: UserPreferences;
+  profileDraft: UpdateUserProfile | null;
+  recentSearches: string[];
+
+  // Actions
+  setPreferences: (preferences: UserPreferences) => void;
+  updatePreferences: <K extends keyof UserPreferences>(
+    section: K,
+    changes: Partial<UserPreferences[K]>
+  ) => void;
+  setProfileDraft: (draft: UpdateUserProfile | null) => void;
+  addRecentSearch: (query: string) => void;
+  clearRecentSearches: () => void;
+  reset: () => void;
+}
+
+const initialState = {
+  preferences: DEFAULT_USER_PREFERENCES,
+  profileDraft: null,
+  recentSearches: [],
+};
+
+export const useUserStore = create<UserStore>()(
+  persist(
+    set => ({
+      // Initial state
+      ...initialState,
+
+      // Actions
+      setPreferences: (preferences: UserPreferences) => set({ preferences }),
+
+      updatePreferences: (section, changes) =>
+        set(state => {
+          const current = state.preferences[section];
+          return {
+            preferences: {
+              ...state.preferences,
+              [section]:
+                typeof current === 'object'
+                  ? { ...current, ...changes }
+                  : changes,
+            },
+          };
+        }),
+
+      setProfileDraft: (draft: UpdateUserProfile | null) =>
+        set({ profileDraft: draft }),
+
+      addRecentSearch: (query: string) => {
+        const trimmed = query.trim();
+        if (!trimmed) return;
+        set(state => ({
+          recentSearches: [
+            trimmed,
+            ...state.recentSearches.filter(q => q !== trimmed),
+          ].slice(0, MAX_RECENT_SEARCHES),
+        }));
+      },
+
+      clearRecentSearches: () => set({ recentSearches: [] }),
+
+      reset: () => set(initialState),
+    }),
+    {
+      name: 'user-store',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: state => ({
+        preferences: state.preferences,
+        recentSearches: state.recentSearches,
+      }),
+    }
+  )
+);
@@ -1,5 +1,7 @@
 // API types
 
+import { FileUpload } from './common';
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
@@ -63,20 +65,37 @@ export interface ApiEndpoints {
   posts: {
     list: string;
     create: string;
-    get: string;
-    update: string;
-    delete: string;
+    get: (id: string) => string;
+    update: (id: string) => string;
+    delete: (id: string) => string;
     search: string;
     stats: string;
-    comments: string;
-    reactions: string;
+    comments: (id: string) => string;
+    reactions: (id: string) => string;
+  };
+  
+  // Post comments
+  comments: {
+    reactions: (id: string) => string;
   };
   
   // Forum
   forum: {
     categories: string;
+    category: (idOrSlug: string) => string;
     posts: string;
+    post: (id: string) => string;
+    postComments: (id: string) => string;
     comments: string;
+    comment: (id: string) => string;
+    commentReplies: (id: string) => string;
+    pinPost: (id: string) => string;
+    unpinPost: (id: string) => string;
+    lockPost: (id: string) => string;
+    unlockPost: (id: string) => string;
+    movePost: (id: string) => string;
+    mergePosts: (id: string) => string;
+    splitThread: (commentId: string) => string;
     search: string;
     stats: string;
   };
@@ -86,6 +105,7 @@ export interface ApiEndpoints {
     rooms: string;
     messages: string;
     conversations: string;
+    conversationMessages: (userId: string) => string;
     search: string;
     stats: string;
   };
@@ -94,10 +114,10 @@ export interface ApiEndpoints {
   events: {
     list: string;
     create: string;
-    get: string;
-    update: string;
-    delete: string;
-    rsvp: string;
+    get: (id: string) => string;
+    update: (id: string) => string;
+    delete: (id: string) => string;
+    rsvp: (id: string) => string;
     calendar: string;
     reminders: string;
     search: string;
@@ -107,10 +127,40 @@ export interface ApiEndpoints {
   // Notifications
   notifications: {
     list: string;
-    markRead: string;
+    markRead: (id: string) => string;
     markAllRead: string;
     preferences: string;
     stats: string;
+    devices: string;
+  };
+  
+  // Reports
+  reports: {
+    create: string;
+  };
+  
+  // Moderation
+  moderation: {
+    log: string;
+    reports: string;
+    report: (id: string) => string;
+    assignReport: (id: string) => string;
+    resolveReport: (id: string) => string;
+    dismissReport: (id: string) => string;
+    bulkReports: string;
+    userSanctions: (userId: string) => string;
+    liftSanction: (id: string) => string;
+    appeals: string;
+    acceptAppeal: (id: string) => string;
+    rejectAppeal: (id: string) => string;
+    contentFilter: string;
+    contentFilterTest: string;
+  };
+  
+  // Sanctions
+  sanctions: {
+    mine: string;
+    appeal: (id: string) => string;
   };
   
   // File Upload
@@ -119,6 +169,10 @@ export interface ApiEndpoints {
     video: string;
     audio: string;
     file: string;
+    sessions: string;
+    session: (id: string) => string;
+    chunk: (id: string, index: number) => string;
+    complete: (id: string) => string;
   };
   
   // Subscription
@@ -129,6 +183,8 @@ export interface ApiEndpoints {
     update: string;
     cancel: string;
     history: string;
+    promoCodes: string;
+    promoCode: (code: string) => string;
   };
 }
 
@@ -159,15 +215,30 @@ export interface RequestOptions {
   retryDelay?: number;
 }
 
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  percent: number;
+}
+
+export interface UploadOptions extends RequestOptions {
+  fileType?: 'image' | 'video' | 'audio' | 'file';
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
 export interface ApiClient {
   get<T = any>(url: string, params?: any, options?: RequestOptions): Promise<ApiResponse<T>>;
   post<T = any>(url: string, data?: any, options?: RequestOptions): Promise<ApiResponse<T>>;
   put<T = any>(url: string, data?: any, options?: RequestOptions): Promise<ApiResponse<T>>;
   patch<T = any>(url: string, data?: any, options?: RequestOptions): Promise<ApiResponse<T>>;
   delete<T = any>(url: string, options?: RequestOptions): Promise<ApiResponse<T>>;
-  upload<T = any>(url: string, file: File | FormData, options?: RequestOptions): Promise<ApiResponse<T>>;
+  upload<T = any>(url: string, file: FileUpload | File | FormData, options?: UploadOptions): Promise<ApiResponse<T>>;
+  use(hooks: ApiHooks): () => void;
 }
 
+// Interceptors registered with apiClient.use(); each runs in registration order.
+// onRetry hooks, when present, replace the default retry policy.
 export interface ApiHooks {
   onRequest?: (config: RequestConfig) => RequestConfig;
   onResponse?: <T>(response: ApiResponse<T>) => ApiResponse<T>;
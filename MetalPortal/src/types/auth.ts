@@ -29,7 +29,8 @@ export interface AuthUser {
 export interface AuthTokens {
   accessToken: string;
   refreshToken: string;
-  expiresIn: number;
+  expiresIn: number; // seconds, as issued by the server
+  expiresAt?: number; // absolute expiry (epoch ms), stamped when the tokens are stored
 }
 
 export interface AuthResponse {
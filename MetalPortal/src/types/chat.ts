@@ -1,6 +1,6 @@
 // Chat and messaging types
 
-import { User } from './user';
+import { User, UserSummary } from './user';
 import { ContentAccessLevel } from './post';
 
 export enum MessageType {
@@ -11,22 +11,30 @@ export enum MessageType {
   FILE = 'FILE',
 }
 
+// Messages from the server are 'sent'; outbox entries are 'pending' or 'failed'
+export type DeliveryStatus = 'pending' | 'failed' | 'sent';
+
 export interface Message {
   id: string;
   content: string;
   type: MessageType;
   senderId: string;
-  sender: User;
+  sender: UserSummary;
   receiverId: string;
-  receiver: User;
+  receiver: UserSummary;
   mediaUrl?: string;
+  clientId?: string;
   isRead: boolean;
   isDeleted: boolean;
+  // Held by the content filter until a moderator reviews it; the receiver
+  // does not see it until then
+  isHeld?: boolean;
   createdAt: Date;
   updatedAt: Date;
   // Computed properties
   isOwn?: boolean;
   canDelete?: boolean;
+  deliveryStatus?: DeliveryStatus;
 }
 
 export interface CreateMessageInput {
@@ -34,6 +42,7 @@ export interface CreateMessageInput {
   type: MessageType;
   receiverId: string;
   mediaUrl?: string;
+  clientId?: string;
 }
 
 export interface UpdateMessageInput {
@@ -83,16 +92,22 @@ export interface ChatMessage {
   content: string;
   type: MessageType;
   roomId: string;
-  room: ChatRoom;
+  // Left out when messages are listed for their room
+  room?: ChatRoom;
   userId: string;
-  user: User;
+  user: UserSummary;
   mediaUrl?: string;
+  clientId?: string;
   isDeleted: boolean;
+  // Held by the content filter until a moderator reviews it; only its author
+  // and moderators see it
+  isHeld?: boolean;
   createdAt: Date;
   updatedAt: Date;
   // Computed properties
   isOwn?: boolean;
   canDelete?: boolean;
+  deliveryStatus?: DeliveryStatus;
 }
 
 export interface CreateChatMessageInput {
@@ -100,6 +115,7 @@ export interface CreateChatMessageInput {
   type: MessageType;
   roomId: string;
   mediaUrl?: string;
+  clientId?: string;
 }
 
 export interface UpdateChatMessageInput {
@@ -186,4 +202,22 @@ export interface ChatNotification {
   roomName?: string;
   timestamp: Date;
   isRead: boolean;
-}
\ No newline at end of file
+}
+// Outgoing message waiting in the offline outbox
+export type OutboxItem =
+  | (OutboxItemBase & {
+      kind: 'room';
+      input: CreateChatMessageInput & { clientId: string };
+    })
+  | (OutboxItemBase & {
+      kind: 'direct';
+      input: CreateMessageInput & { clientId: string };
+    });
+
+export interface OutboxItemBase {
+  clientId: string;
+  status: Exclude<DeliveryStatus, 'sent'>;
+  error?: string;
+  attempts: number;
+  createdAt: number;
+}
@@ -1,12 +1,5 @@
 // Common types used throughout the application
 
-export interface ApiResponse<T> {
-  success: boolean;
-  data?: T;
-  error?: string;
-  message?: string;
-}
-
 export interface PaginatedResponse<T> {
   data: T[];
   pagination: {
@@ -112,7 +105,7 @@ export interface FileUpload {
 export interface MediaFile {
   id: string;
   url: string;
-  type: 'image' | 'video' | 'audio';
+  type: 'image' | 'video' | 'audio' | 'file';
   name: string;
   size: number;
   createdAt: Date;
@@ -1,6 +1,6 @@
 // Forum types
 
-import { User } from './user';
+import { UserSummary } from './user';
 import { ContentAccessLevel } from './post';
 
 export interface ForumCategory {
@@ -51,22 +51,26 @@ export interface ForumPost {
   categoryId: string;
   category: ForumCategory;
   authorId: string;
-  author: User;
+  author: UserSummary;
   viewCount: number;
   likeCount: number;
   replyCount: number;
   isPinned: boolean;
   isLocked: boolean;
+  // Held by the content filter until a moderator reviews it; only its author
+  // and moderators see it
+  isHeld?: boolean;
   createdAt: Date;
   updatedAt: Date;
   comments: ForumComment[];
   // Computed properties
   isLiked?: boolean;
   lastActivity?: Date;
-  lastCommentBy?: User;
+  lastCommentBy?: UserSummary;
   canReply?: boolean;
   canEdit?: boolean;
   canDelete?: boolean;
+  canModerate?: boolean;
 }
 
 export interface CreateForumPostInput {
@@ -83,27 +87,67 @@ export interface UpdateForumPostInput {
   isLocked?: boolean;
 }
 
+// Moderator actions; the reason is kept in the moderation log
+export interface ForumModerationInput {
+  reason?: string;
+}
+
+export interface MoveForumPostInput extends ForumModerationInput {
+  categoryId: string;
+}
+
+// The post is merged into the target post and then removed
+export interface MergeForumPostsInput extends ForumModerationInput {
+  targetPostId: string;
+}
+
+// The comment becomes the opening post of a new thread, taking its replies
+// with it
+export interface SplitForumThreadInput extends ForumModerationInput {
+  title: string;
+  // Defaults to the category of the original thread
+  categoryId?: string;
+}
+
 export interface ForumComment {
   id: string;
   content: string;
   postId: string;
-  post: ForumPost;
+  post?: ForumPost;
   authorId: string;
-  author: User;
+  author: UserSummary;
   parentId?: string;
   parent?: ForumComment;
+  // Loaded replies, oldest first
   replies: ForumComment[];
   likeCount: number;
+  // 0 for comments on the post itself
+  depth: number;
+  // Direct replies, loaded or not
+  replyCount: number;
+  // Set when more replies follow the loaded ones; pass it to load the next page
+  repliesCursor?: string | null;
+  // Replies exist below the depth limit; open the comment as its own thread
+  continueThread?: boolean;
+  // Deleted comments that have replies stay in the tree without content
+  isDeleted?: boolean;
+  // Held by the content filter until a moderator reviews it
+  isHeld?: boolean;
   createdAt: Date;
   updatedAt: Date;
   // Computed properties
   isLiked?: boolean;
-  replyCount?: number;
   canReply?: boolean;
   canEdit?: boolean;
   canDelete?: boolean;
 }
 
+// A page of replies to one comment
+export interface ForumReplyPage {
+  replies: ForumComment[];
+  nextCursor: string | null;
+}
+
 export interface CreateForumCommentInput {
   content: string;
   postId: string;
@@ -165,4 +209,4 @@ export interface ForumBreadcrumb {
   name: string;
   slug: string;
   type: 'category' | 'post';
-}
\ No newline at end of file
+}
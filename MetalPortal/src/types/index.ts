@@ -8,4 +8,9 @@ export * from './forum';
 export * from './chat';
 export * from './event';
 export * from './api';
+export * from './upload';
+export * from './realtime';
+export * from './subscription';
+export * from './notification';
+export * from './moderation';
 export * from './common';
\ No newline at end of file
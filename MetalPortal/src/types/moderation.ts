@@ -0,0 +1,322 @@
+// Moderation types
+
+import { User } from './user';
+
+export enum ModerationAction {
+  PIN_THREAD = 'PIN_THREAD',
+  UNPIN_THREAD = 'UNPIN_THREAD',
+  LOCK_THREAD = 'LOCK_THREAD',
+  UNLOCK_THREAD = 'UNLOCK_THREAD',
+  MOVE_THREAD = 'MOVE_THREAD',
+  MERGE_THREADS = 'MERGE_THREADS',
+  SPLIT_THREAD = 'SPLIT_THREAD',
+  REMOVE_CONTENT = 'REMOVE_CONTENT',
+  WARN_USER = 'WARN_USER',
+  MUTE_USER = 'MUTE_USER',
+  BAN_USER = 'BAN_USER',
+  RESOLVE_REPORT = 'RESOLVE_REPORT',
+  DISMISS_REPORT = 'DISMISS_REPORT',
+  LIFT_SANCTION = 'LIFT_SANCTION',
+  ACCEPT_APPEAL = 'ACCEPT_APPEAL',
+  REJECT_APPEAL = 'REJECT_APPEAL',
+  UPDATE_CONTENT_FILTER = 'UPDATE_CONTENT_FILTER',
+}
+
+export enum ReportReason {
+  SPAM = 'SPAM',
+  HARASSMENT = 'HARASSMENT',
+  HATE_SPEECH = 'HATE_SPEECH',
+  VIOLENCE = 'VIOLENCE',
+  SEXUAL_CONTENT = 'SEXUAL_CONTENT',
+  MISINFORMATION = 'MISINFORMATION',
+  COPYRIGHT = 'COPYRIGHT',
+  IMPERSONATION = 'IMPERSONATION',
+  OTHER = 'OTHER',
+}
+
+export enum ReportStatus {
+  PENDING = 'PENDING',
+  // Assigned to a moderator
+  IN_REVIEW = 'IN_REVIEW',
+  RESOLVED = 'RESOLVED',
+  DISMISSED = 'DISMISSED',
+}
+
+export enum ReportOutcome {
+  REMOVE_CONTENT = 'REMOVE_CONTENT',
+  WARN = 'WARN',
+  MUTE = 'MUTE',
+  BAN = 'BAN',
+}
+
+export enum SanctionType {
+  // Can read but not write
+  MUTE = 'MUTE',
+  // Can't write or join live chat; a global ban also blocks signing in
+  BAN = 'BAN',
+}
+
+export enum SanctionScope {
+  GLOBAL = 'GLOBAL',
+  CHAT_ROOM = 'CHAT_ROOM',
+  FORUM_CATEGORY = 'FORUM_CATEGORY',
+}
+
+export enum AppealStatus {
+  PENDING = 'PENDING',
+  ACCEPTED = 'ACCEPTED',
+  REJECTED = 'REJECTED',
+}
+
+export type ReportTargetType =
+  | 'post'
+  | 'comment'
+  | 'forum_post'
+  | 'forum_comment'
+  | 'chat_message'
+  | 'direct_message'
+  | 'user';
+
+export type ModerationTargetType =
+  | ReportTargetType
+  | 'report'
+  | 'content_filter';
+
+export type ModerationUser = Pick<
+  User,
+  'id' | 'username' | 'displayName' | 'avatar'
+>;
+
+export interface ModerationLogEntry {
+  id: string;
+  action: ModerationAction;
+  // Null once the moderator's account is deleted
+  moderatorId: string | null;
+  moderator?: ModerationUser | null;
+  targetType: ModerationTargetType;
+  targetId: string;
+  reason?: string | null;
+  details?: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+export interface ModerationLogFilter {
+  action?: ModerationAction;
+  moderatorId?: string;
+  targetType?: ModerationTargetType;
+  targetId?: string;
+}
+
+export interface CreateReportInput {
+  targetType: ReportTargetType;
+  targetId: string;
+  reason: ReportReason;
+  description?: string;
+}
+
+// What was reported, as it is now
+export interface ReportTargetPreview {
+  // Post and thread titles, or the reported user's name
+  title?: string;
+  content: string;
+  // The content was removed after it was reported
+  isRemoved: boolean;
+}
+
+export interface Report {
+  id: string;
+  reason: ReportReason;
+  description?: string | null;
+  // Null when the content filter held the content for review
+  reporterId: string | null;
+  reporter?: ModerationUser | null;
+  targetType: ReportTargetType;
+  targetId: string;
+  // Author of the content, or the reported user
+  targetUserId: string | null;
+  targetUser?: ModerationUser | null;
+  // Null when the content no longer exists
+  target?: ReportTargetPreview | null;
+  status: ReportStatus;
+  assigneeId: string | null;
+  assignee?: ModerationUser | null;
+  assignedAt?: Date | null;
+  outcome?: ReportOutcome | null;
+  resolutionNote?: string | null;
+  resolvedById?: string | null;
+  resolvedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ReportFilter {
+  // Open reports (pending or in review) when not given
+  status?: ReportStatus;
+  reason?: ReportReason;
+  targetType?: ReportTargetType;
+  targetUserId?: string;
+  assigneeId?: string;
+  unassigned?: boolean;
+}
+
+export interface ResolveReportInput {
+  outcome: ReportOutcome;
+  // Also remove the content when warning, muting or banning its author
+  removeContent?: boolean;
+  // Mutes default to MODERATION_CONFIG.DEFAULT_MUTE_HOURS; bans without a
+  // duration are permanent
+  durationHours?: number;
+  note?: string;
+}
+
+export interface DismissReportInput {
+  note?: string;
+}
+
+export type BulkReportAction = { reportIds: string[] } & (
+  | { action: 'assign'; assigneeId: string | null }
+  | ({ action: 'dismiss' } & DismissReportInput)
+  | ({ action: 'resolve' } & ResolveReportInput)
+);
+
+export interface UserSanction {
+  id: string;
+  userId: string;
+  user?: ModerationUser;
+  type: SanctionType;
+  reason?: string | null;
+  scope: SanctionScope;
+  // The chat room or forum category; null for a global sanction
+  scopeId: string | null;
+  issuedById: string | null;
+  issuedBy?: ModerationUser | null;
+  reportId?: string | null;
+  liftedAt?: Date | null;
+  liftedById?: string | null;
+  liftedBy?: ModerationUser | null;
+  liftReason?: string | null;
+  appeal?: SanctionAppeal | null;
+  createdAt: Date;
+  // Null for a permanent sanction
+  expiresAt: Date | null;
+}
+
+export interface CreateSanctionInput {
+  type: SanctionType;
+  scope: SanctionScope;
+  // Required unless the scope is global
+  scopeId?: string;
+  // Mutes default to MODERATION_CONFIG.DEFAULT_MUTE_HOURS; bans without a
+  // duration are permanent
+  durationHours?: number;
+  reason: string;
+}
+
+export interface LiftSanctionInput {
+  reason?: string;
+}
+
+export interface SanctionAppeal {
+  id: string;
+  sanctionId: string;
+  sanction?: UserSanction;
+  userId: string;
+  user?: ModerationUser;
+  message: string;
+  status: AppealStatus;
+  reviewedById?: string | null;
+  reviewedBy?: ModerationUser | null;
+  reviewNote?: string | null;
+  reviewedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateAppealInput {
+  message: string;
+}
+
+export interface ReviewAppealInput {
+  note?: string;
+}
+
+export interface AppealFilter {
+  // Pending appeals when not given
+  status?: AppealStatus;
+}
+
+export enum FilterAction {
+  ALLOW = 'ALLOW',
+  // Replace the matched text with asterisks
+  MASK = 'MASK',
+  // Store it hidden from everyone but its author, and report it to the
+  // moderators
+  HOLD = 'HOLD',
+  REJECT = 'REJECT',
+}
+
+// Actions for rules that judge the whole text rather than a part of it
+export type WholeTextFilterAction = Exclude<FilterAction, FilterAction.MASK>;
+
+// Content screened by the content filter
+export type FilteredContentType = Exclude<ReportTargetType, 'user'>;
+
+export type FilterRule =
+  | 'term'
+  | 'link_count'
+  | 'blocked_domain'
+  | 'repeated_chars'
+  | 'caps'
+  | 'flood';
+
+export interface FilterTerm {
+  // Matched as a whole word or phrase, ignoring case, leetspeak, stretched
+  // letters and punctuation between letters
+  term: string;
+  action: FilterAction;
+}
+
+export interface ContentFilterConfig {
+  terms: FilterTerm[];
+  // Never matched as terms, such as band names made of filtered words
+  allowedPhrases: string[];
+  links: {
+    maxLinks: number;
+    // Applied to the text when it has more than maxLinks links
+    action: FilterAction;
+    // Also matches their subdomains
+    blockedDomains: string[];
+    blockedDomainAction: FilterAction;
+  };
+  spam: {
+    // The longest run of one character allowed
+    maxRepeatedChars: number;
+    // Share of capital letters counted as shouting, from 0 to 1
+    maxCapsRatio: number;
+    // Texts with fewer letters are never counted as shouting
+    minCapsLength: number;
+    action: WholeTextFilterAction;
+  };
+  flood: {
+    windowSeconds: number;
+    // How many of each a member may write within the window
+    limits: Record<FilteredContentType, number>;
+    action: WholeTextFilterAction;
+  };
+}
+
+export interface FilterMatch {
+  rule: FilterRule;
+  action: FilterAction;
+  // The term, link or domain matched, or what was wrong with the text
+  detail: string;
+}
+
+// What the filter would do with a text
+export interface FilterVerdict {
+  // The strongest action of the rules matched
+  action: FilterAction;
+  matches: FilterMatch[];
+  // The text as it would be stored, with masked parts replaced
+  text: string;
+}
@@ -0,0 +1,72 @@
+// Notification types
+
+export enum NotificationType {
+  NEW_POST = 'NEW_POST',
+  NEW_MESSAGE = 'NEW_MESSAGE',
+  EVENT_REMINDER = 'EVENT_REMINDER',
+  SUBSCRIPTION_UPDATE = 'SUBSCRIPTION_UPDATE',
+  MENTION = 'MENTION',
+  REACTION = 'REACTION',
+  SYSTEM = 'SYSTEM',
+}
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  content: string;
+  userId: string;
+  metadata?: Record<string, unknown>;
+  isRead: boolean;
+  createdAt: Date;
+}
+
+export interface CreateNotificationInput {
+  type: NotificationType;
+  title: string;
+  content: string;
+  metadata?: Record<string, unknown>;
+}
+
+// Which kinds of notification the user wants; system notices always arrive
+export interface NotificationToggles {
+  newPosts: boolean;
+  newComments: boolean;
+  directMessages: boolean;
+  mentions: boolean;
+  reactions: boolean;
+  events: boolean;
+  subscriptionUpdates: boolean;
+}
+
+// No pushes between `start` and `end` (HH:mm in `timeZone`, an IANA zone
+// name); notifications still arrive in the app. `end` before `start` spans
+// midnight.
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+  timeZone: string;
+}
+
+export type DigestFrequency = 'off' | 'hourly' | 'daily';
+
+// Notifications of the listed types are collected and delivered as one
+// summary per period instead of one by one
+export interface DigestPreferences {
+  frequency: DigestFrequency;
+  types: NotificationType[];
+}
+
+export interface NotificationPreferences extends NotificationToggles {
+  quietHours: QuietHours;
+  digest: DigestPreferences;
+}
+
+export interface NotificationFilter {
+  unreadOnly?: boolean;
+}
+
+export interface NotificationStats {
+  unreadCount: number;
+}
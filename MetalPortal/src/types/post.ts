@@ -1,6 +1,7 @@
 // Post types
 
-import { User } from './user';
+import { SubscriptionTier } from './auth';
+import { User, UserSummary } from './user';
 
 export enum PostType {
   ANNOUNCEMENT = 'ANNOUNCEMENT',
@@ -54,13 +55,18 @@ export interface Post {
   createdAt: Date;
   updatedAt: Date;
   authorId: string;
-  author: User;
+  author: UserSummary;
   comments: Comment[];
   reactions: Reaction[];
   // Computed properties
   isLiked?: boolean;
   userReaction?: ReactionType;
+  reactionCounts?: ReactionCounts;
   commentCount?: number;
+  // Set on teasers of posts above the viewer's access level; content and
+  // mediaUrls are stripped and featuredImage, if any, is a blurred preview
+  isLocked?: boolean;
+  requiredTier?: SubscriptionTier;
 }
 
 export interface CreatePostInput {
@@ -94,17 +100,21 @@ export interface Comment {
   content: string;
   postId: string;
   authorId: string;
-  author: User;
+  author: UserSummary;
   parentId?: string;
   parent?: Comment;
   replies: Comment[];
   reactions: Reaction[];
   likeCount: number;
+  // Held by the content filter until a moderator reviews it; only its author
+  // and moderators see it
+  isHeld?: boolean;
   createdAt: Date;
   updatedAt: Date;
   // Computed properties
   isLiked?: boolean;
   userReaction?: ReactionType;
+  reactionCounts?: ReactionCounts;
   replyCount?: number;
 }
 
@@ -128,6 +138,27 @@ export interface Reaction {
   createdAt: Date;
 }
 
+// Per-type breakdown of reactions on a post or comment
+export type ReactionCounts = Partial<Record<ReactionType, number>>;
+
+// Server view of a post's or comment's reactions after a change
+export interface ReactionSummary {
+  targetId: string;
+  likeCount: number;
+  reactionCounts: ReactionCounts;
+  userReaction?: ReactionType;
+}
+
+export type ReactionTarget =
+  | { kind: 'post'; postId: string }
+  | { kind: 'comment'; commentId: string; postId: string };
+
+// A null type removes the user's reaction
+export interface SetReactionInput {
+  target: ReactionTarget;
+  type: ReactionType | null;
+}
+
 export interface CreateReactionInput {
   type: ReactionType;
   postId?: string;
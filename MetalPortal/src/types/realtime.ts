@@ -0,0 +1,71 @@
+// Socket.io event contracts shared by the realtime client and server gateway
+
+import {
+  ChatMessage,
+  CreateChatMessageInput,
+  CreateMessageInput,
+  Message,
+  OnlinePresence,
+  TypingIndicator,
+} from './chat';
+import { UserSanction } from './moderation';
+import { Notification } from './notification';
+
+// Acknowledgement payload for client emits that expect a reply
+export type RealtimeAck<T = undefined> =
+  | { ok: true; data: T }
+  | { ok: false; error: string; statusCode?: number; code?: string };
+
+export interface TypingEvent extends TypingIndicator {
+  roomId: string;
+  isTyping: boolean;
+}
+
+export interface RoomJoinResult {
+  roomId: string;
+  onlineUsers: OnlinePresence[];
+}
+
+// The server removed the socket from a room it may no longer view or was
+// banned from
+export interface RoomRevokedEvent {
+  roomId: string;
+  error: string;
+  statusCode: number;
+  code?: string;
+}
+
+export interface ServerToClientEvents {
+  'message:new': (message: ChatMessage) => void;
+  'room:revoked': (event: RoomRevokedEvent) => void;
+  'dm:new': (message: Message) => void;
+  'notification:new': (notification: Notification) => void;
+  // A moderator muted or banned the user; a global ban disconnects afterwards
+  'sanction:issued': (sanction: UserSanction) => void;
+  typing: (event: TypingEvent) => void;
+  presence: (presence: OnlinePresence) => void;
+}
+
+export interface ClientToServerEvents {
+  'room:join': (
+    roomId: string,
+    ack: (result: RealtimeAck<RoomJoinResult>) => void
+  ) => void;
+  'room:leave': (roomId: string, ack: (result: RealtimeAck) => void) => void;
+  'message:send': (
+    input: CreateChatMessageInput,
+    ack: (result: RealtimeAck<ChatMessage>) => void
+  ) => void;
+  'dm:send': (
+    input: CreateMessageInput,
+    ack: (result: RealtimeAck<Message>) => void
+  ) => void;
+  'typing:start': (roomId: string) => void;
+  'typing:stop': (roomId: string) => void;
+}
+
+export type RealtimeConnectionStatus =
+  | 'disconnected'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting';
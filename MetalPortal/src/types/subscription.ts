@@ -0,0 +1,118 @@
+// Subscription and billing types
+
+import { SubscriptionStatus, SubscriptionTier } from './auth';
+import { BILLING_CURRENCIES } from '../utils/constants';
+
+export type BillingInterval = 'month' | 'year';
+
+export type BillingCurrency = (typeof BILLING_CURRENCIES)[number];
+
+export interface SubscriptionPlan {
+  tier: SubscriptionTier;
+  name: string;
+  interval: BillingInterval;
+  amount: number; // in cents
+  currency: BillingCurrency;
+  // Annual plans only: saving against twelve monthly payments, in percent
+  savingsPercent?: number;
+  features: string[];
+}
+
+export enum PromoCodeKind {
+  PERCENT_OFF = 'PERCENT_OFF',
+  AMOUNT_OFF = 'AMOUNT_OFF',
+  FREE_TRIAL = 'FREE_TRIAL',
+}
+
+// What a promo code gives, as shown before redeeming it
+export interface PromoCodePreview {
+  code: string;
+  description: string;
+  kind: PromoCodeKind;
+  percentOff?: number | null;
+  amountOff?: number | null; // in cents of `currency`
+  currency?: BillingCurrency | null;
+  trialDays?: number | null;
+  // Number of billing periods a discount applies to
+  durationInPeriods: number;
+  // Empty when the code applies to every paid tier or interval
+  tiers: SubscriptionTier[];
+  intervals: BillingInterval[];
+  expiresAt?: Date | null;
+}
+
+export interface PromoCode extends PromoCodePreview {
+  id: string;
+  maxRedemptions?: number | null;
+  redemptionCount: number;
+  startsAt?: Date | null;
+  isActive: boolean;
+  createdAt: Date;
+}
+
+export interface CreatePromoCodeInput {
+  code: string;
+  description: string;
+  kind: PromoCodeKind;
+  percentOff?: number;
+  amountOff?: number;
+  currency?: BillingCurrency;
+  trialDays?: number;
+  durationInPeriods?: number;
+  tiers?: SubscriptionTier[];
+  intervals?: BillingInterval[];
+  maxRedemptions?: number;
+  startsAt?: Date;
+  expiresAt?: Date;
+}
+
+// A promo code redeemed on a subscription
+export interface AppliedPromo {
+  code: string;
+  description: string;
+  // Taken off the first invoice, in cents
+  discountAmount: number;
+  trialDays?: number | null;
+  redeemedAt: Date;
+}
+
+export interface Subscription {
+  id: string;
+  userId: string;
+  tier: SubscriptionTier;
+  status: SubscriptionStatus;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+  cancelAtPeriodEnd: boolean;
+  amount: number; // in cents
+  currency: BillingCurrency;
+  interval: BillingInterval;
+  // Set when the subscription started with a free trial, which was not charged
+  trialEndsAt?: Date | null;
+  // Set while a renewal payment is failing; benefits last until the grace
+  // period ends
+  paymentFailedAt?: Date | null;
+  gracePeriodEndsAt?: Date | null;
+  promo?: AppliedPromo | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SubscribeInput {
+  tier: SubscriptionTier;
+  interval?: BillingInterval;
+  currency?: BillingCurrency;
+  promoCode?: string;
+}
+
+// The currency of a subscription cannot change
+export interface ChangePlanInput {
+  tier: SubscriptionTier;
+  interval?: BillingInterval;
+}
+
+export interface PlanChangeResult {
+  subscription: Subscription;
+  // Charged now when positive, credited to the next renewal when negative
+  prorationAmount: number;
+}
@@ -0,0 +1,39 @@
+// Resumable upload types
+
+import { FileUpload, MediaFile } from './common';
+
+export type UploadKind = MediaFile['type'];
+
+export interface InitUploadInput {
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  kind: UploadKind;
+}
+
+export interface UploadSessionStatus {
+  uploadId: string;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  status: 'pending' | 'assembling' | 'completed' | 'aborted';
+  expiresAt: Date;
+}
+
+export type UploadJobStatus = 'queued' | 'uploading' | 'paused' | 'failed' | 'completed';
+
+// A queued upload as kept on the device
+export interface UploadJob {
+  id: string;
+  file: FileUpload;
+  kind: UploadKind;
+  status: UploadJobStatus;
+  uploadId?: string;
+  chunkSize?: number;
+  totalChunks?: number;
+  uploadedChunks: number[];
+  progress: number; // 0-100
+  error?: string;
+  media?: MediaFile;
+  createdAt: number;
+}
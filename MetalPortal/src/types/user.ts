@@ -1,6 +1,7 @@
 // User types
 
 import { UserRole, SubscriptionTier, SubscriptionStatus } from './auth';
+import { NotificationPreferences } from './notification';
 
 export interface User {
   id: string;
@@ -23,6 +24,12 @@ export interface User {
   lastActiveAt: Date;
 }
 
+// Public fields shown next to a member's posts and messages
+export type UserSummary = Pick<
+  User,
+  'id' | 'username' | 'displayName' | 'avatar' | 'role' | 'isVerified'
+>;
+
 export interface UserProfile {
   id: string;
   username: string;
@@ -77,14 +84,7 @@ export interface UserStatistics {
 
 export interface UserPreferences {
   theme: 'dark' | 'light';
-  notifications: {
-    newPosts: boolean;
-    newComments: boolean;
-    directMessages: boolean;
-    mentions: boolean;
-    events: boolean;
-    subscriptionUpdates: boolean;
-  };
+  notifications: NotificationPreferences;
   privacy: {
     profileVisibility: 'public' | 'fans_only' | 'private';
     allowDirectMessages: boolean;
@@ -0,0 +1,221 @@
+import {
+  SubscriptionStatus,
+  SubscriptionTier,
+  UserRole,
+} from '../../types/auth';
+import { ContentAccessLevel } from '../../types/post';
+import {
+  AccessAction,
+  AccessDecision,
+  decideAccess,
+  decideDirectMessage,
+  getViewableLevels,
+} from '../permissions';
+
+const { PUBLIC, FAN_ONLY, PREMIUM_ONLY, VIP_ONLY, BAND_ONLY } =
+  ContentAccessLevel;
+const { FREE, PREMIUM, VIP } = SubscriptionTier;
+
+const LEVELS = [PUBLIC, FAN_ONLY, PREMIUM_ONLY, VIP_ONLY, BAND_ONLY];
+const ACTIONS: AccessAction[] = ['view', 'interact', 'moderate'];
+
+// Highest level each role can view with an active subscription of each tier
+const MAX_LEVEL: Record<
+  UserRole,
+  Record<SubscriptionTier, ContentAccessLevel>
+> = {
+  [UserRole.GUEST]: { FREE: PUBLIC, PREMIUM: PUBLIC, VIP: PUBLIC },
+  [UserRole.FAN]: { FREE: FAN_ONLY, PREMIUM: PREMIUM_ONLY, VIP: VIP_ONLY },
+  [UserRole.PREMIUM_FAN]: {
+    FREE: FAN_ONLY,
+    PREMIUM: PREMIUM_ONLY,
+    VIP: VIP_ONLY,
+  },
+  [UserRole.VIP_FAN]: { FREE: FAN_ONLY, PREMIUM: PREMIUM_ONLY, VIP: VIP_ONLY },
+  [UserRole.MODERATOR]: { FREE: VIP_ONLY, PREMIUM: VIP_ONLY, VIP: VIP_ONLY },
+  [UserRole.BAND_MEMBER]: {
+    FREE: BAND_ONLY,
+    PREMIUM: BAND_ONLY,
+    VIP: BAND_ONLY,
+  },
+  [UserRole.ADMIN]: { FREE: BAND_ONLY, PREMIUM: BAND_ONLY, VIP: BAND_ONLY },
+};
+
+// What a member is told when a level is out of reach
+const LOCKED: Record<ContentAccessLevel, AccessDecision> = {
+  [PUBLIC]: { allowed: false, reason: 'SIGN_IN_REQUIRED' },
+  [FAN_ONLY]: { allowed: false, reason: 'SIGN_IN_REQUIRED' },
+  [PREMIUM_ONLY]: {
+    allowed: false,
+    reason: 'UPGRADE_REQUIRED',
+    requiredTier: PREMIUM,
+  },
+  [VIP_ONLY]: { allowed: false, reason: 'UPGRADE_REQUIRED', requiredTier: VIP },
+  [BAND_ONLY]: { allowed: false, reason: 'ROLE_REQUIRED' },
+};
+
+const expected = (
+  role: UserRole,
+  tier: SubscriptionTier,
+  level: ContentAccessLevel,
+  action: AccessAction
+): AccessDecision => {
+  const isGuest = role === UserRole.GUEST;
+  if (LEVELS.indexOf(level) > LEVELS.indexOf(MAX_LEVEL[role][tier])) {
+    return isGuest
+      ? { allowed: false, reason: 'SIGN_IN_REQUIRED' }
+      : LOCKED[level];
+  }
+  if (action === 'interact' && isGuest) {
+    return { allowed: false, reason: 'SIGN_IN_REQUIRED' };
+  }
+  if (
+    action === 'moderate' &&
+    role !== UserRole.MODERATOR &&
+    role !== UserRole.ADMIN
+  ) {
+    return { allowed: false, reason: 'ROLE_REQUIRED' };
+  }
+  return { allowed: true };
+};
+
+const matrix = Object.values(UserRole).flatMap(role =>
+  Object.values(SubscriptionTier).flatMap(tier =>
+    LEVELS.flatMap(level =>
+      ACTIONS.map(action => ({
+        role,
+        tier,
+        level,
+        action,
+        decision: expected(role, tier, level, action),
+      }))
+    )
+  )
+);
+
+describe('decideAccess', () => {
+  it.each(matrix)(
+    '$role on $tier: $action $level',
+    ({ role, tier, level, action, decision }) => {
+      const subject = {
+        role,
+        subscriptionTier: tier,
+        subscriptionStatus: SubscriptionStatus.ACTIVE,
+      };
+      expect(decideAccess(subject, action, level)).toEqual(decision);
+    }
+  );
+
+  it.each(LEVELS.flatMap(level => ACTIONS.map(action => ({ level, action }))))(
+    'treats a signed-out visitor as a guest: $action $level',
+    ({ level, action }) => {
+      expect(decideAccess(null, action, level)).toEqual(
+        expected(UserRole.GUEST, FREE, level, action)
+      );
+    }
+  );
+
+  it.each([
+    [SubscriptionStatus.ACTIVE, true],
+    [SubscriptionStatus.CANCELLED, true],
+    [SubscriptionStatus.EXPIRED, false],
+    [SubscriptionStatus.PAUSED, false],
+  ])('keeps VIP access while %s: %s', (status, allowed) => {
+    const subject = {
+      role: UserRole.VIP_FAN,
+      subscriptionTier: VIP,
+      subscriptionStatus: status,
+    };
+    expect(decideAccess(subject, 'view', VIP_ONLY).allowed).toBe(allowed);
+  });
+});
+
+describe('getViewableLevels', () => {
+  it.each(
+    Object.values(UserRole).flatMap(role =>
+      Object.values(SubscriptionTier).map(tier => ({ role, tier }))
+    )
+  )(
+    'lists the levels up to the maximum for $role on $tier',
+    ({ role, tier }) => {
+      const subject = {
+        role,
+        subscriptionTier: tier,
+        subscriptionStatus: SubscriptionStatus.ACTIVE,
+      };
+      const max = LEVELS.indexOf(MAX_LEVEL[role][tier]);
+      expect(getViewableLevels(subject)).toEqual(LEVELS.slice(0, max + 1));
+    }
+  );
+});
+
+describe('decideDirectMessage', () => {
+  const member = (
+    role: UserRole,
+    tier: SubscriptionTier,
+    status = SubscriptionStatus.ACTIVE
+  ) => ({ role, subscriptionTier: tier, subscriptionStatus: status });
+
+  const upgradeToVip: AccessDecision = {
+    allowed: false,
+    reason: 'UPGRADE_REQUIRED',
+    requiredTier: VIP,
+  };
+  const signIn: AccessDecision = { allowed: false, reason: 'SIGN_IN_REQUIRED' };
+
+  it.each([
+    {
+      who: 'a free fan',
+      sender: member(UserRole.FAN, FREE),
+      recipient: UserRole.FAN,
+      decision: { allowed: true },
+    },
+    {
+      who: 'a free fan',
+      sender: member(UserRole.FAN, FREE),
+      recipient: UserRole.BAND_MEMBER,
+      decision: upgradeToVip,
+    },
+    {
+      who: 'a premium fan',
+      sender: member(UserRole.FAN, PREMIUM),
+      recipient: UserRole.BAND_MEMBER,
+      decision: upgradeToVip,
+    },
+    {
+      who: 'a VIP fan',
+      sender: member(UserRole.FAN, VIP),
+      recipient: UserRole.BAND_MEMBER,
+      decision: { allowed: true },
+    },
+    {
+      who: 'a lapsed VIP fan',
+      sender: member(UserRole.FAN, VIP, SubscriptionStatus.EXPIRED),
+      recipient: UserRole.BAND_MEMBER,
+      decision: upgradeToVip,
+    },
+    {
+      who: 'a moderator',
+      sender: member(UserRole.MODERATOR, FREE),
+      recipient: UserRole.BAND_MEMBER,
+      decision: { allowed: true },
+    },
+    {
+      who: 'a guest',
+      sender: member(UserRole.GUEST, VIP),
+      recipient: UserRole.FAN,
+      decision: signIn,
+    },
+    {
+      who: 'a signed-out visitor',
+      sender: null,
+      recipient: UserRole.FAN,
+      decision: signIn,
+    },
+  ])(
+    'decides for $who writing to $recipient',
+    ({ sender, recipient, decision }) => {
+      expect(decideDirectMessage(sender, recipient)).toEqual(decision);
+    }
+  );
+});
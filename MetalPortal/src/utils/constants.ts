@@ -1,5 +1,10 @@
 // Application constants and configuration
 
+import {
+  NotificationPreferences,
+  NotificationType,
+} from '../types/notification';
+
 // API Configuration
 export const API_CONFIG = {
   BASE_URL: process.env.EXPO_PUBLIC_API_BASE_URL || 'http://localhost:3000/api',
@@ -35,6 +40,14 @@ export const FILE_UPLOAD = {
   ALLOWED_VIDEO_TYPES: ['video/mp4', 'video/webm', 'video/mov'],
   ALLOWED_AUDIO_TYPES: ['audio/mp3', 'audio/wav', 'audio/m4a', 'audio/ogg'],
   ALLOWED_FILE_TYPES: ['application/pdf', 'text/plain', 'application/zip'],
+  // Resumable uploads
+  CHUNK_SIZE: 5 * 1024 * 1024, // 5MB
+  UPLOAD_SESSION_TTL: 24 * 60 * 60 * 1000, // 24 hours
+} as const;
+
+// Feed Configuration
+export const POST_CONFIG = {
+  MAX_COMMENT_LENGTH: 2000,
 } as const;
 
 // Chat Configuration
@@ -49,7 +62,9 @@ export const CHAT_CONFIG = {
 // Forum Configuration
 export const FORUM_CONFIG = {
   POST_PAGE_SIZE: 25,
-  COMMENT_PAGE_SIZE: 50,
+  COMMENT_PAGE_SIZE: 50, // top-level comments, each with its reply tree
+  REPLY_PAGE_SIZE: 5, // replies loaded per comment at a time
+  MAX_COMMENT_DEPTH: 4, // reply levels shown below a thread before "continue this thread"
   MAX_POST_TITLE_LENGTH: 200,
   MAX_POST_CONTENT_LENGTH: 10000,
   MAX_COMMENT_LENGTH: 2000,
@@ -68,11 +83,62 @@ export const EVENT_CONFIG = {
   ],
 } as const;
 
-// Subscription Tiers
+// Notification Configuration
+export const NOTIFICATION_CONFIG = {
+  PAGE_SIZE: 20,
+  EVENT_REMINDER_LEAD_TIME: 24 * 60 * 60 * 1000, // 1 day before the event
+  DEFAULT_PREFERENCES: {
+    newPosts: true,
+    newComments: true,
+    directMessages: true,
+    mentions: true,
+    reactions: true,
+    events: true,
+    subscriptionUpdates: true,
+    quietHours: {
+      enabled: false,
+      start: '22:00',
+      end: '08:00',
+      timeZone: 'UTC',
+    },
+    digest: {
+      frequency: 'off',
+      types: [NotificationType.NEW_POST, NotificationType.REACTION],
+    },
+  } as NotificationPreferences,
+  // Low-priority types that may be collected into a digest
+  DIGEST_TYPES: [NotificationType.NEW_POST, NotificationType.REACTION],
+} as const;
+
+// Moderation Configuration
+export const MODERATION_CONFIG = {
+  REPORT_TARGET_TYPES: ['post', 'comment', 'forum_post', 'forum_comment', 'chat_message', 'direct_message', 'user'] as const,
+  MAX_REPORT_DESCRIPTION_LENGTH: 1000,
+  MAX_RESOLUTION_NOTE_LENGTH: 1000,
+  // Reports changed by one bulk action
+  MAX_BULK_REPORTS: 100,
+  DEFAULT_MUTE_HOURS: 24,
+  MAX_SANCTION_HOURS: 24 * 365,
+  MAX_APPEAL_MESSAGE_LENGTH: 2000,
+  MAX_FILTER_TERMS: 5000,
+  MAX_FILTER_TERM_LENGTH: 100,
+  MAX_FILTER_TEST_LENGTH: 10000,
+  // Longest text the content filter screens, as long as a forum post
+  MAX_SCREENED_TEXT_LENGTH: 10000,
+} as const;
+
+// Billing currencies (ISO 4217); every paid plan is priced in each of them
+export const BILLING_CURRENCIES = ['USD', 'EUR', 'GBP'] as const;
+export const DEFAULT_CURRENCY = 'USD';
+
+// Subscription Tiers; prices per billing interval and currency
 export const SUBSCRIPTION_TIERS = {
   FREE: {
     name: 'Free',
-    price: 0,
+    prices: {
+      month: { USD: 0, EUR: 0, GBP: 0 },
+      year: { USD: 0, EUR: 0, GBP: 0 },
+    },
     features: [
       'Access to public content',
       'Basic forum participation',
@@ -82,7 +148,10 @@ export const SUBSCRIPTION_TIERS = {
   },
   PREMIUM: {
     name: 'Premium',
-    price: 9.99,
+    prices: {
+      month: { USD: 9.99, EUR: 9.49, GBP: 8.49 },
+      year: { USD: 99.99, EUR: 94.99, GBP: 84.99 },
+    },
     features: [
       'All free features',
       'Early access to releases',
@@ -93,7 +162,10 @@ export const SUBSCRIPTION_TIERS = {
   },
   VIP: {
     name: 'VIP',
-    price: 19.99,
+    prices: {
+      month: { USD: 19.99, EUR: 18.99, GBP: 16.99 },
+      year: { USD: 199.99, EUR: 189.99, GBP: 169.99 },
+    },
     features: [
       'All premium features',
       'Direct messaging with band members',
@@ -223,7 +295,7 @@ export const FEATURE_FLAGS = {
   BIOMETRIC_AUTH: true,
   PUSH_NOTIFICATIONS: true,
   DARK_MODE: true,
-  OFFLINE_MODE: false,
+  OFFLINE_MODE: true,
   CHAT_FEATURE: true,
   FORUM_FEATURE: true,
   EVENTS_FEATURE: true,
@@ -231,11 +303,22 @@ export const FEATURE_FLAGS = {
   ANALYTICS: false,
 } as const;
 
+// Offline query cache
+export const QUERY_CACHE_CONFIG = {
+  STORAGE_KEY: 'query-cache',
+  // Bump when cached data shapes change so stale caches are discarded
+  BUSTER: 'v1',
+  MAX_AGE: 24 * 60 * 60 * 1000, // 24 hours
+} as const;
+
 // Debug Configuration
+// __DEV__ only exists under Metro; the API server shares these constants
+const IS_DEV = typeof __DEV__ !== 'undefined' && __DEV__;
+
 export const DEBUG = {
-  ENABLED: __DEV__,
-  LOG_API_REQUESTS: __DEV__,
-  LOG_NAVIGATION: __DEV__,
-  LOG_STATE_CHANGES: __DEV__,
-  MOCK_API: __DEV__,
+  ENABLED: IS_DEV,
+  LOG_API_REQUESTS: IS_DEV,
+  LOG_NAVIGATION: IS_DEV,
+  LOG_STATE_CHANGES: IS_DEV,
+  MOCK_API: IS_DEV,
 } as const;
\ No newline at end of file
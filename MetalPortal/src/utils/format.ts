@@ -13,6 +13,10 @@ export const formatCurrency = (amount: number, currency = 'USD'): string => {
   }).format(amount);
 };
 
+// Format an amount held in minor units (cents), as billing amounts are
+export const formatMinorCurrency = (amount: number, currency = 'USD'): string =>
+  formatCurrency(amount / 100, currency);
+
 // Format percentage
 export const formatPercentage = (value: number, decimals = 1): string => {
   return `${(value * 100).toFixed(decimals)}%`;
@@ -87,6 +91,10 @@ export const formatDuration = (seconds: number): string => {
   return `${minutes}:${secs.toString().padStart(2, '0')}`;
 };
 
+// Format a moment for members in any time zone (2024-05-01 18:30 UTC)
+export const formatUtcDateTime = (date: Date): string =>
+  `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
 // Format view count (1.2K, 1.5M, etc.)
 export const formatViewCount = (count: number): string => {
   if (count < 1000) return count.toString();
@@ -141,6 +149,10 @@ export const formatMentions = (text: string): string => {
   return text.replace(/@(\w+)/g, '<span class="mention">@$1</span>');
 };
 
+// Usernames mentioned in the text, without the @ and without repeats
+export const extractMentions = (text: string): string[] =>
+  Array.from(new Set(Array.from(text.matchAll(/@(\w+)/g), match => match[1])));
+
 // Strip HTML tags
 export const stripHtml = (html: string): string => {
   return html.replace(/<[^>]*>/g, '');
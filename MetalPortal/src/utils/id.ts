@@ -0,0 +1,5 @@
+// Client-side identifier helpers
+
+// Unique enough for ids generated on the device (queued uploads, pending messages)
+export const generateClientId = (prefix = ''): string =>
+  `${prefix}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
@@ -1,12 +1,10 @@
 // Main utils export file
 // This file exports all utility functions for easy import
 
-export * from './auth';
-export * from './date';
 export * from './format';
+export * from './id';
+export * from './object';
 export * from './validation';
-export * from './storage';
 export * from './constants';
 export * from './theme';
-export * from './navigation';
 export * from './permissions';
\ No newline at end of file
@@ -0,0 +1,11 @@
+// Immutable object helpers
+
+// Copy of a keyed record without one entry
+export const omitKey = <T>(
+  record: Record<string, T>,
+  key: string
+): Record<string, T> => {
+  const rest = { ...record };
+  delete rest[key];
+  return rest;
+};
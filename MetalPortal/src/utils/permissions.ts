@@ -0,0 +1,179 @@
+// Content access policy shared by the app and the API server
+//
+// Decisions are made from the viewer's role, subscription tier and subscription
+// status against a ContentAccessLevel. The rules live in the tables below so
+// the whole policy can be read (and checked) as a matrix.
+
+import { SubscriptionStatus, SubscriptionTier, UserRole } from '../types/auth';
+import { ContentAccessLevel } from '../types/post';
+
+export type AccessAction = 'view' | 'interact' | 'moderate';
+
+// Anything carrying role and subscription: AuthUser, the access token payload, ...
+export interface AccessSubject {
+  role: UserRole;
+  subscriptionTier: SubscriptionTier;
+  subscriptionStatus: SubscriptionStatus;
+}
+
+export type AccessDeniedReason =
+  | 'SIGN_IN_REQUIRED'
+  | 'UPGRADE_REQUIRED'
+  | 'ROLE_REQUIRED';
+
+export interface AccessDecision {
+  allowed: boolean;
+  reason?: AccessDeniedReason;
+  // Lowest tier that would allow the action, for upsell prompts
+  requiredTier?: SubscriptionTier;
+}
+
+// Levels from most to least open
+export const ACCESS_LEVEL_ORDER: ContentAccessLevel[] = [
+  ContentAccessLevel.PUBLIC,
+  ContentAccessLevel.FAN_ONLY,
+  ContentAccessLevel.PREMIUM_ONLY,
+  ContentAccessLevel.VIP_ONLY,
+  ContentAccessLevel.BAND_ONLY,
+];
+
+// Highest level each subscription tier unlocks
+export const TIER_ACCESS: Record<SubscriptionTier, ContentAccessLevel> = {
+  [SubscriptionTier.FREE]: ContentAccessLevel.FAN_ONLY,
+  [SubscriptionTier.PREMIUM]: ContentAccessLevel.PREMIUM_ONLY,
+  [SubscriptionTier.VIP]: ContentAccessLevel.VIP_ONLY,
+};
+
+// Highest level each role unlocks regardless of subscription
+export const ROLE_ACCESS: Record<UserRole, ContentAccessLevel> = {
+  [UserRole.GUEST]: ContentAccessLevel.PUBLIC,
+  [UserRole.FAN]: ContentAccessLevel.FAN_ONLY,
+  [UserRole.PREMIUM_FAN]: ContentAccessLevel.FAN_ONLY,
+  [UserRole.VIP_FAN]: ContentAccessLevel.FAN_ONLY,
+  [UserRole.MODERATOR]: ContentAccessLevel.VIP_ONLY,
+  [UserRole.BAND_MEMBER]: ContentAccessLevel.BAND_ONLY,
+  [UserRole.ADMIN]: ContentAccessLevel.BAND_ONLY,
+};
+
+// Tier a fan needs to reach each level; BAND_ONLY cannot be bought
+export const REQUIRED_TIER: Record<
+  ContentAccessLevel,
+  SubscriptionTier | null
+> = {
+  [ContentAccessLevel.PUBLIC]: SubscriptionTier.FREE,
+  [ContentAccessLevel.FAN_ONLY]: SubscriptionTier.FREE,
+  [ContentAccessLevel.PREMIUM_ONLY]: SubscriptionTier.PREMIUM,
+  [ContentAccessLevel.VIP_ONLY]: SubscriptionTier.VIP,
+  [ContentAccessLevel.BAND_ONLY]: null,
+};
+
+export const MODERATOR_ROLES: UserRole[] = [UserRole.MODERATOR, UserRole.ADMIN];
+
+// Roles whose direct messages are a paid benefit, and the tier that unlocks them
+export const DIRECT_MESSAGE_TIERS: Partial<Record<UserRole, SubscriptionTier>> =
+  {
+    [UserRole.BAND_MEMBER]: SubscriptionTier.VIP,
+  };
+
+// Roles that may message anyone regardless of subscription
+const STAFF_ROLES: UserRole[] = [
+  UserRole.MODERATOR,
+  UserRole.BAND_MEMBER,
+  UserRole.ADMIN,
+];
+
+const TIER_ORDER: SubscriptionTier[] = [
+  SubscriptionTier.FREE,
+  SubscriptionTier.PREMIUM,
+  SubscriptionTier.VIP,
+];
+
+// Statuses under which paid benefits no longer apply
+const LAPSED_STATUSES: SubscriptionStatus[] = [
+  SubscriptionStatus.EXPIRED,
+  SubscriptionStatus.PAUSED,
+];
+
+const rank = (level: ContentAccessLevel) => ACCESS_LEVEL_ORDER.indexOf(level);
+
+// A lapsed subscription counts as FREE
+export const getEffectiveTier = (subject: AccessSubject): SubscriptionTier =>
+  LAPSED_STATUSES.includes(subject.subscriptionStatus)
+    ? SubscriptionTier.FREE
+    : subject.subscriptionTier;
+
+// Highest level the subject may view; null means signed out
+export const getMaxAccessLevel = (
+  subject: AccessSubject | null
+): ContentAccessLevel => {
+  if (!subject || subject.role === UserRole.GUEST) {
+    return ContentAccessLevel.PUBLIC;
+  }
+  const byRole = ROLE_ACCESS[subject.role];
+  const byTier = TIER_ACCESS[getEffectiveTier(subject)];
+  return rank(byRole) >= rank(byTier) ? byRole : byTier;
+};
+
+// Levels the subject may view, for filtering queries
+export const getViewableLevels = (
+  subject: AccessSubject | null
+): ContentAccessLevel[] =>
+  ACCESS_LEVEL_ORDER.slice(0, rank(getMaxAccessLevel(subject)) + 1);
+
+export const decideAccess = (
+  subject: AccessSubject | null,
+  action: AccessAction,
+  level: ContentAccessLevel
+): AccessDecision => {
+  const canView = rank(level) <= rank(getMaxAccessLevel(subject));
+  const isMember = !!subject && subject.role !== UserRole.GUEST;
+
+  if (!canView) {
+    if (!isMember) {
+      return { allowed: false, reason: 'SIGN_IN_REQUIRED' };
+    }
+    const requiredTier = REQUIRED_TIER[level];
+    return requiredTier
+      ? { allowed: false, reason: 'UPGRADE_REQUIRED', requiredTier }
+      : { allowed: false, reason: 'ROLE_REQUIRED' };
+  }
+
+  switch (action) {
+    case 'view':
+      return { allowed: true };
+    case 'interact':
+      // Guests may read public content but not comment, react, chat or RSVP
+      return isMember
+        ? { allowed: true }
+        : { allowed: false, reason: 'SIGN_IN_REQUIRED' };
+    case 'moderate':
+      return subject && MODERATOR_ROLES.includes(subject.role)
+        ? { allowed: true }
+        : { allowed: false, reason: 'ROLE_REQUIRED' };
+  }
+};
+
+export const canAccess = (
+  subject: AccessSubject | null,
+  action: AccessAction,
+  level: ContentAccessLevel
+): boolean => decideAccess(subject, action, level).allowed;
+
+// Whether the sender may start or continue a direct conversation with someone
+// holding the recipient's role
+export const decideDirectMessage = (
+  sender: AccessSubject | null,
+  recipientRole: UserRole
+): AccessDecision => {
+  if (!sender || sender.role === UserRole.GUEST) {
+    return { allowed: false, reason: 'SIGN_IN_REQUIRED' };
+  }
+  const requiredTier = DIRECT_MESSAGE_TIERS[recipientRole];
+  if (!requiredTier || STAFF_ROLES.includes(sender.role)) {
+    return { allowed: true };
+  }
+  return TIER_ORDER.indexOf(getEffectiveTier(sender)) >=
+    TIER_ORDER.indexOf(requiredTier)
+    ? { allowed: true }
+    : { allowed: false, reason: 'UPGRADE_REQUIRED', requiredTier };
+};
@@ -0,0 +1,69 @@
+// Theme definitions built from the design constants
+
+import { Theme } from '../types/common';
+import { BORDER_RADIUS, SPACING, THEME_COLORS, TYPOGRAPHY } from './constants';
+
+export type ThemeMode = 'dark' | 'light';
+
+const sharedTheme = {
+  typography: {
+    h1: TYPOGRAPHY.FONT_SIZES.H1,
+    h2: TYPOGRAPHY.FONT_SIZES.H2,
+    h3: TYPOGRAPHY.FONT_SIZES.H3,
+    h4: TYPOGRAPHY.FONT_SIZES.H4,
+    body: TYPOGRAPHY.FONT_SIZES.BODY,
+    small: TYPOGRAPHY.FONT_SIZES.SMALL,
+    caption: TYPOGRAPHY.FONT_SIZES.CAPTION,
+  },
+  spacing: {
+    xs: SPACING.XS,
+    sm: SPACING.SM,
+    md: SPACING.MD,
+    lg: SPACING.LG,
+    xl: SPACING.XL,
+    xxl: SPACING.XXL,
+  },
+  borderRadius: {
+    sm: BORDER_RADIUS.SM,
+    md: BORDER_RADIUS.MD,
+    lg: BORDER_RADIUS.LG,
+    xl: BORDER_RADIUS.XL,
+  },
+};
+
+export const darkTheme: Theme = {
+  ...sharedTheme,
+  colors: {
+    primary: THEME_COLORS.CRIMSON,
+    secondary: THEME_COLORS.BLOOD_RED,
+    background: THEME_COLORS.DEEP_BLACK,
+    surface: THEME_COLORS.CHARCOAL,
+    text: THEME_COLORS.BONE_WHITE,
+    textSecondary: THEME_COLORS.SILVER,
+    border: THEME_COLORS.DARK_GRAY,
+    error: THEME_COLORS.ERROR,
+    warning: THEME_COLORS.WARNING,
+    success: THEME_COLORS.SUCCESS,
+    accent: THEME_COLORS.CRIMSON,
+  },
+};
+
+export const lightTheme: Theme = {
+  ...sharedTheme,
+  colors: {
+    primary: THEME_COLORS.BLOOD_RED,
+    secondary: THEME_COLORS.DARK_RED,
+    background: THEME_COLORS.BONE_WHITE,
+    surface: '#FFFFFF',
+    text: THEME_COLORS.DEEP_BLACK,
+    textSecondary: THEME_COLORS.DARK_GRAY,
+    border: THEME_COLORS.LIGHT_GRAY,
+    error: THEME_COLORS.ERROR,
+    warning: THEME_COLORS.WARNING,
+    success: THEME_COLORS.SUCCESS,
+    accent: THEME_COLORS.CRIMSON,
+  },
+};
+
+export const getTheme = (mode: ThemeMode): Theme =>
+  mode === 'light' ? lightTheme : darkTheme;
@@ -1,6 +1,7 @@
 // Validation utility functions
 
 import { REGEX, FILE_UPLOAD } from './constants';
+import { formatFileSize } from './format';
 
 // Email validation
 export const isValidEmail = (email: string): boolean => {
@@ -72,17 +73,6 @@ export const validateFile = (file: { size: number; type: string }, fileType: 'im
   return { isValid: true };
 };
 
-// Format file size
-export const formatFileSize = (bytes: number): string => {
-  if (bytes === 0) return '0 B';
-  
-  const k = 1024;
-  const sizes = ['B', 'KB', 'MB', 'GB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  
-  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
-};
-
 // Password strength checker
 export const getPasswordStrength = (password: string): { score: number; feedback: string[] } => {
   const feedback: string[] = [];